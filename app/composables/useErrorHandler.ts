@@ -59,10 +59,46 @@ const fallbackMessages: Record<string, { title: string; description: string }> =
     title: "Email Not Verified",
     description: "Please verify your email address before signing in.",
   },
+  [ERROR_CODES.TURNSTILE_FAILED]: {
+    title: "Security Check Failed",
+    description: "Please complete the security check and try again.",
+  },
+  [ERROR_CODES.MFA_INVALID_CODE]: {
+    title: "Invalid Code",
+    description: "The verification code is incorrect or has already been used.",
+  },
+  [ERROR_CODES.OAUTH_PROVIDER_ERROR]: {
+    title: "Sign-In Not Completed",
+    description: "The sign-in was cancelled or refused by the provider. Please try again.",
+  },
+  [ERROR_CODES.PASSKEY_VERIFICATION_FAILED]: {
+    title: "Passkey Not Accepted",
+    description: "We couldn't verify this passkey. Please try another sign-in method.",
+  },
+  [ERROR_CODES.MFA_ENROLLMENT_REQUIRED]: {
+    title: "Two-Factor Authentication Required",
+    description: "Enable two-factor authentication in your settings first.",
+  },
+  [ERROR_CODES.RECENT_SIGNIN_REQUIRED]: {
+    title: "Sign In Again",
+    description: "For your security, sign out and sign in again, then retry.",
+  },
   [ERROR_CODES.INVALID_CREDENTIALS]: {
     title: "Invalid Credentials",
     description: "The email or password you entered is incorrect.",
   },
+  [ERROR_CODES.CURRENT_PASSWORD_INCORRECT]: {
+    title: "Wrong Password",
+    description: "The current password you entered is incorrect.",
+  },
+  [ERROR_CODES.ACCOUNT_LOCKED]: {
+    title: "Account Locked",
+    description: "Too many failed sign-in attempts. Try again later or reset your password.",
+  },
+  [ERROR_CODES.LAST_LOGIN_METHOD]: {
+    title: "Last Sign-In Method",
+    description: "Set a password or link another account before removing this one.",
+  },
   [ERROR_CODES.VALIDATION_ERROR]: {
     title: "Validation Error",
     description: "Please check your input and try again.",
@@ -93,6 +129,8 @@ const redirectConfig: Partial<Record<ErrorCode, { path: string }>> = {
 const actionConfig: Partial<Record<ErrorCode, { path: string }>> = {
   [ERROR_CODES.EMAIL_NOT_CONFIRMED]: { path: "/auth/email/resend" },
   [ERROR_CODES.ACCOUNT_INACTIVE]: { path: "/support" },
+  [ERROR_CODES.ACCOUNT_LOCKED]: { path: "/auth/password/reset/request" },
+  [ERROR_CODES.MFA_ENROLLMENT_REQUIRED]: { path: "/settings" },
   [ERROR_CODES.EMAIL_EXISTS]: { path: "/auth/signin" },
   [ERROR_CODES.INTERNAL_ERROR]: { path: "/support" },
   [ERROR_CODES.DATABASE_ERROR]: { path: "/support" },
@@ -287,6 +325,7 @@ export function useErrorHandler() {
 
   return {
     handleApiError, // Re-export the standalone function for convenience
+    getErrorMessage, // Localized title/description for a code (e.g. from a redirect)
     isAuthError,
     isValidationError,
     ERROR_CODES, // Export error codes for use in components
@@ -9,9 +9,16 @@ export default defineNuxtRouteMiddleware((to) => {
     "/auth/signout",
     "/auth/password/reset",
     "/auth/password/reset/request",
+    "/auth/email/confirm",
+    "/auth/email/resend",
+    "/auth/email/change", // Link sent to a new address, may open in another browser
+    "/auth/magic-link",
+    "/auth/mfa",
+    "/auth/error", // OAuth callback failures, usually before a session exists
   ];
 
-  if (publicPaths.includes(to.path)) {
+  // Invite links must be viewable before signing in
+  if (publicPaths.includes(to.path) || to.path.startsWith("/invite/")) {
     return;
   }
 
@@ -1,5 +1,9 @@
 import { defineStore } from "pinia";
 import { ref } from "vue";
+import {
+  startAuthentication,
+  startRegistration,
+} from "@simplewebauthn/browser";
 import type { User } from "#shared/types";
 import { analytics } from "@/utils/analytics";
 import { getTranslation } from "@/utils/translations";
@@ -10,6 +14,7 @@ interface SigninParams {
   email: string;
   password: string;
   redirectTo?: string;
+  turnstileToken?: string | null;
 }
 
 interface SignupParams {
@@ -18,10 +23,98 @@ interface SignupParams {
   email: string;
   password: string;
   passwordConfirmation: string;
+  inviteToken?: string;
+  turnstileToken?: string | null;
 }
 
 interface RequestPasswordResetParams {
   email: string;
+  turnstileToken?: string | null;
+}
+
+interface ResendEmailConfirmationParams {
+  email: string;
+  turnstileToken?: string | null;
+}
+
+interface ConfirmEmailParams {
+  token: string;
+}
+
+interface VerifyMfaParams {
+  code?: string;
+  recoveryCode?: string;
+  redirectTo?: string;
+}
+
+interface MfaCredentials {
+  code?: string;
+  recoveryCode?: string;
+}
+
+interface Passkey {
+  id: string;
+  credentialId: string;
+  nickname: string;
+  deviceType: string | null;
+  backedUp: boolean;
+  transports: string[];
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface OAuthProvider {
+  id: string;
+  name: string;
+}
+
+interface LinkedIdentity {
+  id: string;
+  provider: string;
+  email: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface LoginMethods {
+  hasPassword: boolean;
+  identities: LinkedIdentity[];
+  passkeys: number;
+}
+
+interface DeviceSession {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+interface ApiKey {
+  id: string;
+  workspaceId: string | null;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface ApiKeyScope {
+  code: string;
+  description: string;
+}
+
+// Response of a password or magic-link sign-in
+interface SigninResult {
+  user?: User;
+  mfaRequired?: boolean;
+  mfaToken?: string;
+  methods?: string[];
+  enrollmentRequired?: boolean;
 }
 
 interface ResetPasswordParams {
@@ -40,6 +133,10 @@ export const useUserStore = defineStore(
     const userProfile = ref<User | null>(null);
     const isLoading = ref(false);
     const error = ref<string | null>(null);
+    // Pending second factor after a password (or OAuth) sign-in - never persisted
+    const mfaToken = ref<string | null>(null);
+    // Second factors the pending sign-in can use ("totp", "passkey")
+    const mfaMethods = ref<string[]>([]);
 
     // ==========================================
     // Actions
@@ -52,47 +149,729 @@ export const useUserStore = defineStore(
       email,
       password,
       redirectTo = "/",
+      turnstileToken,
     }: SigninParams): Promise<void | false> {
       isLoading.value = true;
-      const showToast = useShowToast();
       const { extendedFetch } = useExtendedFetch();
-      const { fetch: fetchSession } = useUserSession();
 
       const response = await extendedFetch("/v1/auth/signin", {
         method: "POST",
         body: {
           email,
           password,
+          turnstileToken: turnstileToken || undefined,
         },
       });
 
       if (response?.ok) {
-        // Fetch the session from nuxt-auth-utils
-        await fetchSession();
+        await continueSignin(response.payload?.data, redirectTo);
+        return;
+      } else {
+        isLoading.value = false;
+        return false;
+      }
+    }
 
-        showToast({
-          title: getTranslation("auth.signin.success.title"),
-          description: getTranslation("auth.signin.success.description"),
+    /**
+     * After the first step of a password or magic-link sign-in: on to the
+     * 2FA page when a second factor is needed, otherwise into the app
+     */
+    async function continueSignin(
+      data: SigninResult | undefined,
+      redirectTo: string
+    ): Promise<void> {
+      // Second factor required - no session yet
+      if (data?.mfaRequired) {
+        mfaToken.value = data.mfaToken ?? null;
+        mfaMethods.value = data.methods ?? [];
+        isLoading.value = false;
+        await navigateTo({
+          path: "/auth/mfa",
+          query: {
+            redirectTo,
+            enroll: data.enrollmentRequired ? "1" : undefined,
+          },
         });
+        return;
+      }
+
+      await onSignedIn(data?.user);
+
+      isLoading.value = false;
+      await navigateTo(afterSigninPath(redirectTo));
+    }
+
+    /**
+     * Email a one-time sign-in link
+     * The response is the same whether or not the account exists
+     */
+    async function requestMagicLink({
+      email,
+      redirectTo,
+      turnstileToken,
+    }: {
+      email: string;
+      redirectTo?: string;
+      turnstileToken?: string | null;
+    }): Promise<boolean> {
+      isLoading.value = true;
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/auth/magic-link", {
+        method: "POST",
+        body: {
+          email,
+          redirectTo: redirectTo || undefined,
+          turnstileToken: turnstileToken || undefined,
+        },
+      });
+
+      isLoading.value = false;
+      return !!response?.ok;
+    }
+
+    /**
+     * Sign in with the token from a magic link
+     */
+    async function signinWithMagicLink({
+      token,
+      redirectTo = "/",
+    }: {
+      token: string;
+      redirectTo?: string;
+    }): Promise<void | false> {
+      isLoading.value = true;
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/auth/magic-link/verify", {
+        method: "POST",
+        body: { token },
+      });
+
+      if (response?.ok) {
+        await continueSignin(response.payload?.data, redirectTo);
+        return;
+      } else {
+        isLoading.value = false;
+        return false;
+      }
+    }
+
+    /**
+     * Shared by password, 2FA and enrollment sign-in once the session is set
+     */
+    async function onSignedIn(user?: User): Promise<void> {
+      const showToast = useShowToast();
+      const { fetch: fetchSession } = useUserSession();
+
+      mfaToken.value = null;
+      mfaMethods.value = [];
+
+      // Fetch the session from nuxt-auth-utils
+      await fetchSession();
+
+      showToast({
+        title: getTranslation("auth.signin.success.title"),
+        description: getTranslation("auth.signin.success.description"),
+      });
+
+      // Track user login
+      if (user) {
+        analytics.identifyUser({
+          id: user.id,
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+        });
+      }
+    }
+
+    /**
+     * Where to go once signed in - users restricted by the email verification
+     * policy see the "verify your email" page first
+     */
+    function afterSigninPath(redirectTo: string) {
+      const { session } = useUserSession();
+
+      if (!session.value?.emailVerificationPending) {
+        return redirectTo;
+      }
+
+      return { path: "/auth/email/verify", query: { redirectTo } };
+    }
+
+    /**
+     * Finish sign-in with an authenticator code or a recovery code
+     */
+    async function verifyMfa({
+      code,
+      recoveryCode,
+      redirectTo = "/",
+    }: VerifyMfaParams): Promise<void | false> {
+      isLoading.value = true;
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/auth/mfa/verify", {
+        method: "POST",
+        body: { mfaToken: mfaToken.value, code, recoveryCode },
+      });
+
+      isLoading.value = false;
+
+      if (response?.ok) {
+        await onSignedIn(response.payload?.data?.user);
+        await navigateTo(afterSigninPath(redirectTo));
+        return;
+      }
+
+      return false;
+    }
 
-        // Track user login
-        const user = response.payload?.data?.user;
-        if (user) {
-          analytics.identifyUser({
-            id: user.id,
-            email: user.email,
-            firstName: user.firstName,
-            lastName: user.lastName,
+    /**
+     * Run the browser passkey prompt
+     * Returns null when the user cancels or the browser can't use passkeys
+     */
+    async function runPasskeyPrompt<T>(prompt: () => Promise<T>): Promise<T | null> {
+      try {
+        return await prompt();
+      } catch (err) {
+        // NotAllowedError = dismissed or timed out, nothing to report
+        if (err instanceof Error && err.name !== "NotAllowedError") {
+          const showToast = useShowToast();
+          showToast({
+            title: getTranslation("auth.passkey.errors.unavailable.title"),
+            description: getTranslation("auth.passkey.errors.unavailable.description"),
           });
         }
+        return null;
+      }
+    }
+
+    /**
+     * OAuth providers offered for sign-in (configured on the server)
+     * The flow itself is a full-page redirect to /api/auth/:provider/authorize
+     */
+    async function fetchOAuthProviders(): Promise<OAuthProvider[]> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/auth/providers", { method: "GET" });
+
+      return response?.ok ? response.payload?.data ?? [] : [];
+    }
 
+    /**
+     * Sign in with a passkey
+     * Passwordless from the signin page, or as the second factor when an
+     * mfaToken is pending
+     */
+    async function signinWithPasskey({
+      redirectTo = "/",
+    }: { redirectTo?: string } = {}): Promise<void | false> {
+      isLoading.value = true;
+      const { extendedFetch } = useExtendedFetch();
+
+      const optionsResponse = await extendedFetch("/v1/auth/passkey/options", {
+        method: "POST",
+        body: { mfaToken: mfaToken.value || undefined },
+      });
+      const ceremony = optionsResponse?.ok ? optionsResponse.payload?.data : null;
+
+      const assertion = ceremony
+        ? await runPasskeyPrompt(() =>
+            startAuthentication({ optionsJSON: ceremony.options })
+          )
+        : null;
+
+      if (!assertion) {
         isLoading.value = false;
-        await navigateTo(redirectTo);
+        return false;
+      }
+
+      const response = await extendedFetch("/v1/auth/passkey/verify", {
+        method: "POST",
+        body: { challengeToken: ceremony.challengeToken, response: assertion },
+      });
+
+      isLoading.value = false;
+
+      if (response?.ok) {
+        await onSignedIn(response.payload?.data?.user);
+        await navigateTo(afterSigninPath(redirectTo));
         return;
-      } else {
-        isLoading.value = false;
+      }
+
+      return false;
+    }
+
+    /**
+     * Start authenticator enrollment
+     * During sign-in (pending mfaToken) or from the settings page
+     * Returns { secret, otpauthUri, qrCodeSvg }
+     */
+    async function startMfaSetup(): Promise<{
+      secret: string;
+      otpauthUri: string;
+      qrCodeSvg: string;
+    } | null> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = mfaToken.value
+        ? await extendedFetch("/v1/auth/mfa/setup", {
+            method: "POST",
+            body: { mfaToken: mfaToken.value },
+          })
+        : await extendedFetch("/v1/me/mfa/totp/setup", { method: "POST" });
+
+      return response?.ok ? response.payload?.data ?? null : null;
+    }
+
+    /**
+     * Confirm enrollment with the first code
+     * During sign-in this also signs the user in (caller navigates once the
+     * recovery codes have been shown)
+     * Returns the recovery codes, or null on failure
+     */
+    async function activateMfa({ code }: { code: string }): Promise<string[] | null> {
+      isLoading.value = true;
+      const { extendedFetch } = useExtendedFetch();
+      const duringSignin = !!mfaToken.value;
+
+      const response = duringSignin
+        ? await extendedFetch("/v1/auth/mfa/activate", {
+            method: "POST",
+            body: { mfaToken: mfaToken.value, code },
+          })
+        : await extendedFetch("/v1/me/mfa/totp/activate", {
+            method: "POST",
+            body: { code },
+          });
+
+      isLoading.value = false;
+
+      if (!response?.ok) {
+        return null;
+      }
+
+      const data = response.payload?.data;
+      if (duringSignin) {
+        await onSignedIn(data?.user);
+      }
+
+      return data?.recoveryCodes ?? [];
+    }
+
+    /**
+     * Fetch 2FA status for the settings page
+     */
+    async function fetchMfaStatus(): Promise<{
+      enabled: boolean;
+      enabledAt: string | null;
+      recoveryCodesRemaining: number;
+      passkeys: number;
+      required: boolean;
+    } | null> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/mfa", { method: "GET" });
+
+      return response?.ok ? response.payload?.data ?? null : null;
+    }
+
+    /**
+     * Turn off 2FA (requires a current code or recovery code)
+     */
+    async function disableMfa(credentials: MfaCredentials): Promise<boolean> {
+      const showToast = useShowToast();
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/mfa/totp", {
+        method: "DELETE",
+        body: credentials,
+      });
+
+      if (response?.ok) {
+        showToast({
+          title: getTranslation("auth.mfa.settings.disabledToast.title"),
+          description: getTranslation("auth.mfa.settings.disabledToast.description"),
+        });
+        return true;
+      }
+
+      return false;
+    }
+
+    /**
+     * Replace all recovery codes (requires a current code or recovery code)
+     */
+    async function regenerateRecoveryCodes(
+      credentials: MfaCredentials
+    ): Promise<string[] | null> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/mfa/recovery-codes", {
+        method: "POST",
+        body: credentials,
+      });
+
+      return response?.ok ? response.payload?.data?.recoveryCodes ?? null : null;
+    }
+
+    /**
+     * List the current user's passkeys
+     */
+    async function fetchPasskeys(): Promise<Passkey[] | null> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/passkeys", { method: "GET" });
+
+      return response?.ok ? response.payload?.data ?? null : null;
+    }
+
+    /**
+     * Register a passkey on this device (browser prompt in between)
+     */
+    async function registerPasskey(nickname?: string): Promise<Passkey | null> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const optionsResponse = await extendedFetch("/v1/me/passkeys/options", {
+        method: "POST",
+      });
+      const ceremony = optionsResponse?.ok ? optionsResponse.payload?.data : null;
+
+      const attestation = ceremony
+        ? await runPasskeyPrompt(() =>
+            startRegistration({ optionsJSON: ceremony.options })
+          )
+        : null;
+
+      if (!attestation) {
+        return null;
+      }
+
+      const response = await extendedFetch("/v1/me/passkeys", {
+        method: "POST",
+        body: {
+          challengeToken: ceremony.challengeToken,
+          response: attestation,
+          nickname: nickname || undefined,
+        },
+      });
+
+      return response?.ok ? response.payload?.data ?? null : null;
+    }
+
+    /**
+     * Rename a passkey
+     */
+    async function renamePasskey(id: string, nickname: string): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch(`/v1/me/passkeys/${id}`, {
+        method: "PATCH",
+        body: { nickname },
+      });
+
+      return !!response?.ok;
+    }
+
+    /**
+     * Remove a passkey
+     */
+    async function deletePasskey(id: string): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch(`/v1/me/passkeys/${id}`, {
+        method: "DELETE",
+      });
+
+      return !!response?.ok;
+    }
+
+    /**
+     * Password, linked accounts and passkey count of the current user
+     */
+    async function fetchLoginMethods(): Promise<LoginMethods | null> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/identities", { method: "GET" });
+
+      return response?.ok ? response.payload?.data ?? null : null;
+    }
+
+    /**
+     * Link an OAuth provider: full-page redirect to the provider,
+     * which comes back to /settings
+     */
+    async function linkIdentity(provider: string): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/identities", {
+        method: "POST",
+        body: { provider },
+      });
+      const authorizationUrl = response?.ok
+        ? response.payload?.data?.authorizationUrl
+        : null;
+
+      if (!authorizationUrl) {
         return false;
       }
+
+      await navigateTo(authorizationUrl, { external: true });
+      return true;
+    }
+
+    /**
+     * Unlink an OAuth provider (refused for the last way to sign in)
+     */
+    async function unlinkIdentity(id: string): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch(`/v1/me/identities/${id}`, {
+        method: "DELETE",
+      });
+
+      return !!response?.ok;
+    }
+
+    /**
+     * Set a password for an account created through OAuth
+     */
+    async function setPassword({
+      newPassword,
+      newPasswordConfirmation,
+    }: {
+      newPassword: string;
+      newPasswordConfirmation: string;
+    }): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/password", {
+        method: "POST",
+        body: { newPassword, newPasswordConfirmation },
+      });
+
+      return !!response?.ok;
+    }
+
+    /**
+     * Change the password (other devices are signed out)
+     */
+    async function changePassword({
+      currentPassword,
+      newPassword,
+      newPasswordConfirmation,
+    }: {
+      currentPassword: string;
+      newPassword: string;
+      newPasswordConfirmation: string;
+    }): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/password", {
+        method: "PUT",
+        body: { currentPassword, newPassword, newPasswordConfirmation },
+      });
+
+      return !!response?.ok;
+    }
+
+    /**
+     * Send a confirmation link to a new email address
+     * The address changes once the link is opened
+     */
+    async function requestEmailChange({
+      newEmail,
+      currentPassword,
+    }: {
+      newEmail: string;
+      currentPassword?: string;
+    }): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/email", {
+        method: "POST",
+        body: { newEmail, currentPassword: currentPassword || undefined },
+      });
+
+      return !!response?.ok;
+    }
+
+    /**
+     * List the devices the user is signed in on
+     */
+    async function fetchSessions(): Promise<DeviceSession[] | null> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/sessions", { method: "GET" });
+
+      return response?.ok ? response.payload?.data ?? null : null;
+    }
+
+    /**
+     * Sign out one device
+     */
+    async function revokeSession(id: string): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch(`/v1/me/sessions/${id}`, {
+        method: "DELETE",
+      });
+
+      return !!response?.ok;
+    }
+
+    /**
+     * Sign out every device except this one
+     */
+    async function revokeOtherSessions(): Promise<boolean> {
+      const showToast = useShowToast();
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/sessions", { method: "DELETE" });
+
+      if (response?.ok) {
+        showToast({
+          title: getTranslation("auth.sessions.revokedOthersToast.title"),
+          description: getTranslation("auth.sessions.revokedOthersToast.description"),
+        });
+        return true;
+      }
+
+      return false;
+    }
+
+    /**
+     * List the user's API keys
+     */
+    async function fetchApiKeys(): Promise<ApiKey[] | null> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/api-keys", { method: "GET" });
+
+      return response?.ok ? response.payload?.data ?? null : null;
+    }
+
+    /**
+     * Scopes the user can give a new API key
+     */
+    async function fetchApiKeyScopes(): Promise<ApiKeyScope[] | null> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/api-keys/scopes", {
+        method: "GET",
+      });
+
+      return response?.ok ? response.payload?.data ?? null : null;
+    }
+
+    /**
+     * Create an API key in the current workspace
+     * Returns the secret, which can't be retrieved again
+     */
+    async function createApiKey({
+      name,
+      scopes,
+      expiresInDays,
+    }: {
+      name: string;
+      scopes: string[];
+      expiresInDays?: number;
+    }): Promise<{ apiKey: ApiKey; secret: string } | null> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/api-keys", {
+        method: "POST",
+        body: { name, scopes, expiresInDays },
+      });
+
+      return response?.ok ? response.payload?.data ?? null : null;
+    }
+
+    /**
+     * Revoke an API key
+     */
+    async function revokeApiKey(id: string): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch(`/v1/me/api-keys/${id}`, {
+        method: "DELETE",
+      });
+
+      return !!response?.ok;
+    }
+
+    /**
+     * Act as another member of the current workspace (users:impersonate)
+     * Refreshes the client session and profile to the impersonated user
+     */
+    async function impersonateUser(userId: string): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch(`/v1/users/${userId}/impersonate`, {
+        method: "POST",
+      });
+
+      if (!response?.ok) return false;
+
+      await useUserSession().fetch();
+      await fetchUserProfile();
+      return true;
+    }
+
+    /**
+     * Return to the admin's own session
+     * The session is refreshed either way - the server may already have
+     * ended an expired impersonation
+     */
+    async function stopImpersonation(): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/impersonation", {
+        method: "DELETE",
+      });
+
+      await useUserSession().fetch();
+      await fetchUserProfile();
+      return !!response?.ok;
+    }
+
+    /**
+     * Schedule the deletion of the current user's account
+     * Passwordless accounts need a recent sign-in instead of a password
+     */
+    async function requestAccountDeletion({
+      currentPassword,
+    }: {
+      currentPassword?: string;
+    }): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/deletion", {
+        method: "POST",
+        body: { currentPassword: currentPassword || undefined },
+      });
+
+      if (!response?.ok) return false;
+
+      userProfile.value = response.payload?.data ?? userProfile.value;
+      return true;
+    }
+
+    /**
+     * Cancel a scheduled account deletion
+     */
+    async function cancelAccountDeletion(): Promise<boolean> {
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/me/deletion", {
+        method: "DELETE",
+      });
+
+      if (!response?.ok) return false;
+
+      userProfile.value = response.payload?.data ?? userProfile.value;
+      return true;
     }
 
     /**
@@ -104,6 +883,8 @@ export const useUserStore = defineStore(
       email,
       password,
       passwordConfirmation,
+      inviteToken,
+      turnstileToken,
     }: SignupParams): Promise<void | false> {
       isLoading.value = true;
       const showToast = useShowToast();
@@ -117,6 +898,8 @@ export const useUserStore = defineStore(
           email,
           password,
           passwordConfirmation,
+          inviteToken,
+          turnstileToken: turnstileToken || undefined,
         },
       });
 
@@ -208,6 +991,7 @@ export const useUserStore = defineStore(
      */
     async function requestPasswordReset({
       email,
+      turnstileToken,
     }: RequestPasswordResetParams): Promise<void | false> {
       isLoading.value = true;
       const showToast = useShowToast();
@@ -217,6 +1001,7 @@ export const useUserStore = defineStore(
         method: "POST",
         body: {
           email,
+          turnstileToken: turnstileToken || undefined,
         },
       });
 
@@ -277,6 +1062,85 @@ export const useUserStore = defineStore(
       }
     }
 
+    /**
+     * Confirm email address with the token from the confirmation email
+     */
+    async function confirmEmail({ token }: ConfirmEmailParams): Promise<boolean> {
+      isLoading.value = true;
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/auth/email/confirm", {
+        method: "POST",
+        body: { token },
+      });
+
+      isLoading.value = false;
+      return !!response?.ok;
+    }
+
+    /**
+     * Switch to a new email address with the token sent to it
+     * Returns the new address, or null when the link is invalid
+     */
+    async function confirmEmailChange({ token }: ConfirmEmailParams): Promise<string | null> {
+      isLoading.value = true;
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/auth/email/change", {
+        method: "POST",
+        body: { token },
+      });
+
+      isLoading.value = false;
+      return response?.ok ? response.payload?.data?.email ?? null : null;
+    }
+
+    /**
+     * Request a fresh email confirmation link (earlier links stop working)
+     */
+    async function resendEmailConfirmation({
+      email,
+      turnstileToken,
+    }: ResendEmailConfirmationParams): Promise<boolean> {
+      isLoading.value = true;
+      const showToast = useShowToast();
+      const { extendedFetch } = useExtendedFetch();
+
+      const response = await extendedFetch("/v1/auth/email/resend", {
+        method: "POST",
+        body: {
+          email,
+          turnstileToken: turnstileToken || undefined,
+        },
+      });
+
+      isLoading.value = false;
+
+      if (!response?.ok) {
+        return false;
+      }
+
+      showToast({
+        title: getTranslation("auth.email.resend.sent.title"),
+        description: getTranslation("auth.email.resend.sent.description"),
+      });
+      return true;
+    }
+
+    /**
+     * Pick up an email confirmation made since signin (possibly in another
+     * browser) - any authenticated request lets the server lift the restriction
+     * Returns true once the address is confirmed
+     */
+    async function refreshEmailVerification(): Promise<boolean> {
+      const { session, fetch: fetchSession } = useUserSession();
+
+      await fetchUserProfile();
+      await fetchSession();
+
+      return !!session.value?.user?.isEmailVerified;
+    }
+
     /**
      * Reset store to initial state
      */
@@ -285,6 +1149,8 @@ export const useUserStore = defineStore(
       userProfile.value = null;
       isLoading.value = false;
       error.value = null;
+      mfaToken.value = null;
+      mfaMethods.value = [];
     }
 
     // ==========================================
@@ -296,15 +1162,52 @@ export const useUserStore = defineStore(
       userProfile,
       isLoading,
       error,
+      mfaToken,
+      mfaMethods,
 
       // Actions
       signin,
+      requestMagicLink,
+      signinWithMagicLink,
+      fetchOAuthProviders,
+      signinWithPasskey,
+      verifyMfa,
+      startMfaSetup,
+      activateMfa,
+      fetchMfaStatus,
+      disableMfa,
+      regenerateRecoveryCodes,
+      fetchPasskeys,
+      registerPasskey,
+      renamePasskey,
+      deletePasskey,
+      fetchLoginMethods,
+      linkIdentity,
+      unlinkIdentity,
+      setPassword,
+      changePassword,
+      requestEmailChange,
+      fetchSessions,
+      revokeSession,
+      revokeOtherSessions,
+      fetchApiKeys,
+      fetchApiKeyScopes,
+      createApiKey,
+      revokeApiKey,
+      impersonateUser,
+      stopImpersonation,
+      requestAccountDeletion,
+      cancelAccountDeletion,
       signup,
       setTheme,
       fetchUserProfile,
       signout,
       requestPasswordReset,
       resetPassword,
+      confirmEmail,
+      confirmEmailChange,
+      resendEmailConfirmation,
+      refreshEmailVerification,
       reset,
     };
   },
@@ -312,7 +1215,7 @@ export const useUserStore = defineStore(
   // aren't fully inferred with setup store syntax
   {
     persist: {
-      omit: ["isLoading", "error", "userProfile"],
+      omit: ["isLoading", "error", "userProfile", "mfaToken", "mfaMethods"],
     },
   } as any
 );
@@ -0,0 +1,130 @@
+import { defineStore } from "pinia";
+import { ref, computed } from "vue";
+
+export interface MyWorkspace {
+  id: string;
+  name: string;
+  slug: string;
+  isActive: boolean;
+  role: string;
+  isOwner: boolean;
+  isCurrent: boolean;
+}
+
+export interface InvitePreview {
+  email: string;
+  role: string;
+  expiresAt: string;
+  workspace: { id: string; name: string; slug: string };
+  invitedBy: { firstName: string | null; lastName: string | null } | null;
+  hasAccount: boolean;
+}
+
+export const useWorkspaceStore = defineStore("workspace-store", () => {
+  // ==========================================
+  // State
+  // ==========================================
+  const isLoading = ref(false);
+  const workspaces = ref<MyWorkspace[]>([]);
+
+  // ==========================================
+  // Getters
+  // ==========================================
+  const currentWorkspace = computed(
+    () => workspaces.value.find((workspace) => workspace.isCurrent) ?? null
+  );
+
+  // ==========================================
+  // Actions
+  // ==========================================
+
+  /**
+   * Fetch the signed-in user's workspaces for the switcher
+   */
+  async function fetchMyWorkspaces(): Promise<void> {
+    const { extendedFetch } = useExtendedFetch();
+
+    const response = await extendedFetch("/v1/me/workspaces", {
+      method: "GET",
+    });
+
+    if (response?.ok) {
+      workspaces.value = response.payload?.data ?? [];
+    }
+  }
+
+  /**
+   * Switch the session to another workspace
+   * Refreshes the client session so permissions match the new workspace
+   */
+  async function switchWorkspace(workspaceId: string): Promise<boolean> {
+    isLoading.value = true;
+    const { extendedFetch } = useExtendedFetch();
+
+    const response = await extendedFetch(
+      `/v1/workspaces/${workspaceId}/switch`,
+      { method: "POST" }
+    );
+
+    isLoading.value = false;
+    if (!response?.ok) return false;
+
+    workspaces.value = workspaces.value.map((workspace) => ({
+      ...workspace,
+      isCurrent: workspace.id === workspaceId,
+    }));
+    await useUserSession().fetch();
+    return true;
+  }
+
+  /**
+   * Fetch public invite details for the accept page
+   * Errors are not toasted here - the page renders its own invalid state
+   */
+  async function fetchInvite(token: string): Promise<InvitePreview | null> {
+    const { simpleFetch } = useExtendedFetch();
+
+    try {
+      const response = await simpleFetch(`/v1/auth/invites/${token}`, {
+        method: "GET",
+      });
+      return response.payload?.data ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Accept an invite as the signed-in user
+   */
+  async function acceptInvite(token: string): Promise<boolean> {
+    isLoading.value = true;
+    const { extendedFetch } = useExtendedFetch();
+
+    const response = await extendedFetch("/v1/invites/accept", {
+      method: "POST",
+      body: { token },
+    });
+
+    isLoading.value = false;
+    return !!response?.ok;
+  }
+
+  // ==========================================
+  // Return public API
+  // ==========================================
+  return {
+    // State
+    isLoading,
+    workspaces,
+
+    // Getters
+    currentWorkspace,
+
+    // Actions
+    fetchMyWorkspaces,
+    switchWorkspace,
+    fetchInvite,
+    acceptInvite,
+  };
+});
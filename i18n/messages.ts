@@ -0,0 +1,2075 @@
+// ========================================
+// LOCALE MESSAGES
+// ========================================
+// Shared by the app (i18n.config.ts) and the server (email templates)
+// Keep vue-i18n syntax to plain {placeholders} in strings used by the server
+// ========================================
+
+export const messages = {
+  // -------------------- English --------------------
+  en: {
+    common: {
+      success: "Success",
+      gotIt: "Got it!",
+    },
+    auth: {
+      signin: {
+        title: "Welcome back!",
+        email: {
+          title: "Email",
+          placeholder: "Email",
+          formatErrMessage: "Email format is invalid.",
+          requiredMessage: "Required",
+        },
+        password: {
+          title: "Password",
+          placeholder: "Password",
+          requiredMessage: "Required",
+        },
+        forgotPasswordButton: "Forgot Password?",
+        noAccountButton: "No account? Sign up",
+        submitButton: "Sign In",
+        submitting: "Signing in...",
+        seperator: "or",
+        socialLogin: {
+          title: "Sign in with",
+          google: "Google",
+          line: "Line",
+        },
+        toast: {
+          authRequired: {
+            title: "Authentication Required",
+            description:
+              "Either your session has expired or you are not logged in.",
+          },
+        },
+        success: {
+          title: "Success",
+          description: "You are now logged in.",
+        },
+      },
+      signup: {
+        title: "Create an account",
+        name: {
+          title: "Name",
+          placeholder: "Name",
+          requiredMessage: "Required",
+        },
+        email: {
+          title: "Email",
+          placeholder: "Email",
+          formatErrMessage: "Email format is invalid.",
+          requiredMessage: "Required",
+        },
+        password: {
+          title: "Password",
+          placeholder: "Password",
+          requiredMessage: "Required",
+          formatErrMessage: "Password must be at least 8 characters long.",
+        },
+        confirmPassword: {
+          title: "Confirm Password",
+          placeholder: "Confirm Password",
+          requiredMessage: "Required",
+          matchErrMessage: "Passwords must match",
+        },
+        submitButton: "Sign Up",
+        submitting: "Signing up...",
+        haveAccountButton: "Already have an account? Sign in",
+        seperator: "or",
+        socialLogin: {
+          title: "Sign up with",
+          google: "Google",
+          line: "Line",
+        },
+        success: {
+          title: "Account Created",
+          description: "Please check your email to verify your account before signing in.",
+        },
+      },
+      signout: {
+        success: {
+          title: "Success",
+          description: "You have signed out.",
+        },
+      },
+      password: {
+        resetSent: {
+          title: "Reset Email Sent",
+          description: "Please check your email for password reset instructions.",
+        },
+        resetSuccess: {
+          title: "Password Reset Successfully",
+          description: "You can now sign in with your new password.",
+        },
+        invalidLink: {
+          title: "Invalid Reset Link",
+          description: "The password reset link is invalid or has expired.",
+        },
+      },
+      email: {
+        confirming: "Confirming your email...",
+        signinButton: "Go to Sign In",
+        confirmed: {
+          title: "Email Confirmed",
+          description: "Your email address has been confirmed. You can now sign in.",
+        },
+        invalidLink: {
+          title: "Invalid Confirmation Link",
+          description: "The confirmation link is invalid or has expired.",
+        },
+        resendLink: "Send a new link",
+        change: {
+          confirming: "Confirming your new email...",
+          confirmed: {
+            title: "Email Changed",
+            description: "Your account now uses {email}.",
+          },
+          invalidLink: {
+            title: "Invalid Link",
+            description: "The link is invalid, has expired or was replaced by a newer one. Request the change again from your settings.",
+          },
+          settingsButton: "Go to Settings",
+        },
+        verify: {
+          title: "Verify your email",
+          description: "We sent a confirmation link to {email}.",
+          restricted: "Some features stay unavailable until you confirm your email address.",
+          stillPending: "Your email address is not confirmed yet. Open the link in the email, then try again.",
+          confirmedButton: "I've confirmed my email",
+          checking: "Checking...",
+          resendButton: "Resend email",
+          continueButton: "Continue with limited access",
+        },
+        resend: {
+          title: "Resend Confirmation Email",
+          description: "Enter your email to receive a new confirmation link",
+          submitButton: "Send Link",
+          submitting: "Sending...",
+          backToSignin: "Back to Sign In",
+          sent: {
+            title: "Confirmation Email Sent",
+            description: "If the address needs confirming, a new link is on its way. Earlier links no longer work.",
+          },
+        },
+      },
+      mfa: {
+        title: "Two-factor authentication",
+        description: "Enter the 6-digit code from your authenticator app.",
+        recoveryDescription:
+          "Enter one of the recovery codes you saved when enabling two-factor authentication.",
+        code: {
+          title: "Authentication code",
+          placeholder: "123456",
+        },
+        recoveryCode: {
+          title: "Recovery code",
+          placeholder: "xxxxx-xxxxx",
+        },
+        useRecoveryCode: "Use a recovery code instead",
+        useAuthenticator: "Use your authenticator app instead",
+        submitButton: "Verify",
+        submitting: "Verifying...",
+        backToSignin: "Back to sign in",
+        setup: {
+          title: "Set up two-factor authentication",
+          description:
+            "Scan the QR code with an authenticator app (Google Authenticator, 1Password, Authy...), then enter the code it shows.",
+          requiredDescription:
+            "Your workspace requires two-factor authentication. Scan the QR code with an authenticator app, then enter the code it shows.",
+          manualEntry: "Can't scan it? Enter this key instead:",
+          submitButton: "Enable",
+          submitting: "Enabling...",
+        },
+        recoveryCodes: {
+          title: "Save your recovery codes",
+          description:
+            "Each code works once if you lose access to your authenticator app. They won't be shown again.",
+          copyButton: "Copy codes",
+          copied: "Copied",
+          continueButton: "I've saved my codes",
+        },
+        settings: {
+          title: "Two-factor authentication",
+          description: "Require a code from an authenticator app when signing in.",
+          enabled: "Enabled",
+          disabled: "Off",
+          required: "Required by one of your workspaces",
+          recoveryCodesRemaining: "{count} recovery codes remaining",
+          enableButton: "Enable",
+          disableButton: "Turn off",
+          regenerateButton: "New recovery codes",
+          cancelButton: "Cancel",
+          confirmTitle: "Confirm it's you",
+          confirmDescription:
+            "Enter a code from your authenticator app, or a recovery code.",
+          confirmButton: "Confirm",
+          enabledToast: {
+            title: "Two-factor authentication enabled",
+            description: "You'll be asked for a code the next time you sign in.",
+          },
+          disabledToast: {
+            title: "Two-factor authentication turned off",
+            description: "Signing in only needs your password now.",
+          },
+        },
+      },
+      oauth: {
+        signinButton: "Sign in with {provider}",
+        error: {
+          title: "Authentication Error",
+          tryAgainButton: "Try Again",
+          settingsButton: "Back to Settings",
+          contactSupportButton: "Contact Support",
+        },
+      },
+      magicLink: {
+        option: "Email me a sign-in link",
+        description: "We'll email you a link that signs you in without a password.",
+        submitButton: "Send link",
+        submitting: "Sending...",
+        backButton: "Sign in with a password",
+        sent: {
+          title: "Check your inbox",
+          description: "If an account exists for {email}, a sign-in link is on its way. It expires in 15 minutes and works once.",
+        },
+        verifying: "Signing you in...",
+        invalidLink: {
+          title: "Sign-in link not valid",
+          description: "The link is invalid, has expired or was already used.",
+        },
+        requestNewButton: "Request a new link",
+      },
+      passkey: {
+        signinButton: "Sign in with a passkey",
+        useForMfa: "Use a passkey instead",
+        errors: {
+          unavailable: {
+            title: "Passkey unavailable",
+            description: "This browser or device couldn't use a passkey. Try another sign-in method.",
+          },
+        },
+        settings: {
+          title: "Passkeys",
+          description:
+            "Sign in with your fingerprint, face or device PIN instead of a password. Passkeys also work as a second factor.",
+          empty: "No passkeys yet.",
+          added: "Added {date}",
+          lastUsed: "Last used {date}",
+          addButton: "Add a passkey",
+          renameButton: "Rename",
+          renameTitle: "Rename passkey",
+          saveButton: "Save",
+          removeButton: "Remove",
+          removeTitle: "Remove passkey",
+          removeDescription: "You won't be able to sign in with \"{name}\" anymore.",
+          addedToast: {
+            title: "Passkey added",
+            description: "You can now sign in with this passkey.",
+          },
+          removedToast: {
+            title: "Passkey removed",
+            description: "The passkey can no longer be used to sign in.",
+          },
+        },
+      },
+      sessions: {
+        title: "Signed-in devices",
+        description: "Devices where your account is currently signed in.",
+        current: "This device",
+        unknownIp: "Unknown IP",
+        lastSeen: "Last active {date}",
+        revokeButton: "Sign out",
+        revokeOthersButton: "Sign out all other devices",
+        revokedOthersToast: {
+          title: "Signed out other devices",
+          description: "Only this device is still signed in.",
+        },
+      },
+      apiKeys: {
+        title: "API keys",
+        description: "Let scripts and integrations call the API as you in this workspace, limited to the scopes you choose.",
+        empty: "You don't have any API keys yet.",
+        createButton: "Create API key",
+        createTitle: "Create an API key",
+        createDescription: "The key can only do what both its scopes and your role allow.",
+        name: "Name",
+        namePlaceholder: "e.g. CI pipeline",
+        scopes: "Scopes",
+        expiry: "Expires",
+        expiryDays: "After {days} days",
+        expiryNever: "Never",
+        saveButton: "Create key",
+        created: "Created {date}",
+        lastUsed: "last used {date}",
+        neverUsed: "never used",
+        expires: "expires {date}",
+        noExpiry: "doesn't expire",
+        revokeButton: "Revoke",
+        revokeTitle: "Revoke {name}?",
+        revokeDescription: "Clients using this key stop working right away. This can't be undone.",
+        secretTitle: "Copy your API key",
+        secretDescription: "This is the only time the key is shown. Send it as \"Authorization: Bearer <key>\".",
+        copyButton: "Copy key",
+        copied: "Copied",
+        doneButton: "Done",
+        revokedToast: {
+          title: "API key revoked",
+          description: "{name} can no longer be used.",
+        },
+      },
+      impersonation: {
+        banner: "You ({admin}) are using the app as {email}. Password, email, sign-in methods, signed-in devices and API keys can't be changed.",
+        stopButton: "Stop impersonating",
+      },
+      account: {
+        title: "Your data",
+        description: "Download a copy of your personal data or delete your account.",
+        exportLabel: "Download my data",
+        exportHint: "A JSON file with your profile, settings, workspace memberships and activity history.",
+        exportButton: "Download",
+        deleteLabel: "Delete account",
+        deleteHint: "Your account is deleted {days} days after you ask. You can change your mind until then.",
+        deleteButton: "Delete account",
+        deleteTitle: "Delete your account?",
+        deleteDescription: "You'll lose access to every workspace. Transfer the workspaces you own first. After {days} days your personal data is erased for good.",
+        passwordlessHint: "Your account has no password: sign in again if you signed in more than 10 minutes ago.",
+        confirmButton: "Delete my account",
+        scheduled: "Your account will be deleted on {date}.",
+        cancelDeletionButton: "Keep my account",
+        scheduledToast: {
+          title: "Account deletion scheduled",
+          description: "Your account will be deleted on {date}.",
+        },
+        cancelledToast: {
+          title: "Account deletion cancelled",
+          description: "Your account will be kept.",
+        },
+      },
+      identities: {
+        title: "Sign-in methods",
+        description: "Your password and the accounts you can sign in with. At least one must remain.",
+        password: "Password",
+        passwordSet: "Set",
+        passwordNotSet: "Not set",
+        setPasswordButton: "Set password",
+        setPasswordTitle: "Set a password",
+        setPasswordDescription: "Sign in with your email and this password in addition to your connected accounts.",
+        newPassword: "New password",
+        confirmPassword: "Confirm password",
+        passwordMismatch: "Passwords must match",
+        saveButton: "Save",
+        linked: "Connected as {email}",
+        notLinked: "Not connected",
+        linkButton: "Connect",
+        unlinkButton: "Disconnect",
+        unlinkTitle: "Disconnect {provider}",
+        unlinkDescription: "You won't be able to sign in with {provider} anymore.",
+        passwordSetToast: {
+          title: "Password set",
+          description: "You can now sign in with your email and password.",
+        },
+        unlinkedToast: {
+          title: "Account disconnected",
+          description: "{provider} can no longer be used to sign in.",
+        },
+        email: "Email",
+        changeEmailButton: "Change email",
+        changeEmailTitle: "Change email address",
+        changeEmailDescription: "We'll send a confirmation link to the new address. Your current address stays active until you open it.",
+        newEmail: "New email address",
+        currentPassword: "Current password",
+        sendLinkButton: "Send link",
+        emailChangeSentToast: {
+          title: "Check your inbox",
+          description: "Open the link we sent to {email} to finish the change.",
+        },
+        changePasswordButton: "Change password",
+        changePasswordTitle: "Change password",
+        changePasswordDescription: "You'll stay signed in here. Your other devices will be signed out.",
+        passwordChangedToast: {
+          title: "Password changed",
+          description: "Your other devices have been signed out.",
+        },
+      },
+    },
+    contact: {
+      submitted: {
+        title: "Submitted",
+        description: "Your message has been sent.",
+      },
+    },
+    invite: {
+      title: "You're invited",
+      description: "{inviter} invited you to join {workspace} as {role}.",
+      descriptionNoInviter: "You've been invited to join {workspace} as {role}.",
+      sentTo: "Invite sent to {email}",
+      loading: "Loading invite...",
+      acceptButton: "Accept Invite",
+      accepting: "Joining...",
+      signinButton: "Sign in to accept",
+      signupButton: "Create an account",
+      wrongAccount: "You are signed in as {email}. Sign in with the invited address to accept.",
+      invalid: {
+        title: "Invite Unavailable",
+        description: "This invite link is invalid, expired or has already been used.",
+      },
+      success: {
+        title: "Welcome!",
+        description: "You have joined {workspace}.",
+      },
+    },
+    errors: {
+      // Authentication Errors (401)
+      AUTH_REQUIRED: {
+        title: "Authentication Required",
+        description: "Please sign in to access this resource.",
+      },
+      INVALID_CREDENTIALS: {
+        title: "Invalid Credentials",
+        description: "The email or password you entered is incorrect.",
+      },
+      INVALID_TOKEN: {
+        title: "Invalid Token",
+        description:
+          "The authentication token is invalid. Please sign in again.",
+      },
+      INVALID_TOKEN_PURPOSE: {
+        title: "Invalid Token",
+        description:
+          "This token cannot be used for this action. Please try again.",
+      },
+      TOKEN_EXPIRED: {
+        title: "Session Expired",
+        description: "Your session has expired. Please sign in again.",
+      },
+      WORKSPACE_MISMATCH: {
+        title: "Workspace Mismatch",
+        description: "You are not authorized to access this workspace.",
+      },
+      EMAIL_NOT_CONFIRMED: {
+        title: "Email Not Confirmed",
+        description: "Please confirm your email address to continue.",
+        action: { label: "Resend Email" },
+      },
+      ACCOUNT_INACTIVE: {
+        title: "Account Inactive",
+        description:
+          "Your account has been deactivated. Please contact support.",
+        action: { label: "Contact Support" },
+      },
+      MFA_INVALID_CODE: {
+        title: "Invalid Code",
+        description:
+          "The verification code is incorrect or has already been used. Please try again.",
+      },
+      PASSKEY_VERIFICATION_FAILED: {
+        title: "Passkey Not Accepted",
+        description:
+          "We couldn't verify this passkey. Please try again or use another sign-in method.",
+      },
+      OAUTH_PROVIDER_ERROR: {
+        title: "Sign-In Not Completed",
+        description:
+          "The sign-in was cancelled or refused by the provider. Please try again.",
+      },
+
+      // Authorization Errors (403)
+      FORBIDDEN: {
+        title: "Access Denied",
+        description: "You do not have permission to access this resource.",
+      },
+      PERMISSION_DENIED: {
+        title: "Permission Denied",
+        description:
+          "You do not have the required permissions for this action.",
+      },
+      TURNSTILE_FAILED: {
+        title: "Security Check Failed",
+        description:
+          "We couldn't verify that you're human. Please complete the security check and try again.",
+      },
+      MFA_ENROLLMENT_REQUIRED: {
+        title: "Two-Factor Authentication Required",
+        description:
+          "This workspace requires two-factor authentication. Enable it in your settings first.",
+        action: { label: "Open Settings" },
+      },
+      RECENT_SIGNIN_REQUIRED: {
+        title: "Sign In Again",
+        description: "For your security, sign out and sign in again, then retry.",
+      },
+
+      // Validation Errors (400)
+      VALIDATION_ERROR: {
+        title: "Validation Error",
+        description: "Please check your input and try again.",
+      },
+      INVALID_INPUT: {
+        title: "Invalid Input",
+        description: "One or more fields contain invalid data.",
+      },
+      MISSING_FIELD: {
+        title: "Missing Required Field",
+        description: "Please fill in all required fields.",
+      },
+
+      // Password Validation Errors
+      PASSWORD_TOO_SHORT: {
+        title: "Password Too Short",
+        description: "Password must be at least 8 characters long.",
+      },
+      PASSWORD_TOO_LONG: {
+        title: "Password Too Long",
+        description: "Password must be less than 128 characters.",
+      },
+      PASSWORD_MISSING_UPPERCASE: {
+        title: "Password Requirements",
+        description: "Password must contain at least one uppercase letter.",
+      },
+      PASSWORD_MISSING_LOWERCASE: {
+        title: "Password Requirements",
+        description: "Password must contain at least one lowercase letter.",
+      },
+      PASSWORD_MISSING_NUMBER: {
+        title: "Password Requirements",
+        description: "Password must contain at least one number.",
+      },
+      PASSWORD_MISSING_SPECIAL: {
+        title: "Password Requirements",
+        description: "Password must contain at least one special character.",
+      },
+      PASSWORD_SAME_AS_OLD: {
+        title: "Password Already Used",
+        description: "Please choose a different password.",
+      },
+      CURRENT_PASSWORD_INCORRECT: {
+        title: "Wrong Password",
+        description: "The current password you entered is incorrect.",
+      },
+
+      // Email Validation Errors
+      INVALID_EMAIL_FORMAT: {
+        title: "Invalid Email",
+        description: "Please enter a valid email address.",
+      },
+
+      // Not Found Errors (404)
+      NOT_FOUND: {
+        title: "Not Found",
+        description: "The requested resource was not found.",
+      },
+      USER_NOT_FOUND: {
+        title: "User Not Found",
+        description: "The requested user does not exist.",
+      },
+      COMPANY_NOT_FOUND: {
+        title: "Company Not Found",
+        description: "The requested company does not exist.",
+      },
+      WORKSPACE_NOT_FOUND: {
+        title: "Workspace Not Found",
+        description: "The requested workspace does not exist or you are not a member.",
+      },
+      INVITE_NOT_FOUND: {
+        title: "Invite Not Found",
+        description: "This invite link is invalid or has been revoked.",
+      },
+
+      // Conflict Errors (409)
+      CONFLICT: {
+        title: "Conflict",
+        description: "This action conflicts with existing data.",
+      },
+      DUPLICATE: {
+        title: "Duplicate Entry",
+        description: "This entry already exists.",
+      },
+      EMAIL_EXISTS: {
+        title: "Email Already Exists",
+        description: "An account with this email address already exists.",
+        action: { label: "Sign In" },
+      },
+      WORKSPACE_ID_TAKEN: {
+        title: "Workspace ID Taken",
+        description:
+          "This workspace ID is already in use. Please choose another.",
+      },
+      LAST_LOGIN_METHOD: {
+        title: "Last Sign-In Method",
+        description:
+          "This is the only way you can sign in. Set a password or link another account first.",
+      },
+
+      // Rate Limit Errors (429)
+      RATE_LIMIT_EXCEEDED: {
+        title: "Too Many Requests",
+        description:
+          "You have made too many requests. Please try again later.",
+      },
+      ACCOUNT_LOCKED: {
+        title: "Account Locked",
+        description:
+          "Too many failed sign-in attempts. Try again later or reset your password to unlock your account.",
+        action: { label: "Reset Password" },
+      },
+
+      // Server Errors (500)
+      INTERNAL_ERROR: {
+        title: "Server Error",
+        description:
+          "An internal server error occurred. Please try again later.",
+        action: { label: "Contact Support" },
+      },
+      DATABASE_ERROR: {
+        title: "Database Error",
+        description: "A database error occurred. Please try again later.",
+        action: { label: "Contact Support" },
+      },
+      EXTERNAL_SERVICE_ERROR: {
+        title: "Service Unavailable",
+        description: "An external service is temporarily unavailable.",
+      },
+
+      // Business Logic Errors (422)
+      BUSINESS_RULE_VIOLATION: {
+        title: "Action Not Allowed",
+        description: "This action violates a business rule.",
+      },
+      INVALID_STATE: {
+        title: "Invalid State",
+        description: "This action cannot be performed in the current state.",
+      },
+      INVITE_EXPIRED: {
+        title: "Invite Expired",
+        description: "This invite has expired. Ask a workspace admin to send a new one.",
+      },
+
+      // Unknown Error
+      UNKNOWN_ERROR: {
+        title: "Unexpected Error",
+        description:
+          "An unexpected error occurred. Please try again or contact support.",
+        action: { label: "Contact Support" },
+      },
+    },
+    emails: {
+      common: {
+        greeting: "Hi {name},",
+        greetingNoName: "Hi,",
+        linkFallback: "If the button does not work, copy this link into your browser:",
+        footer: "This is an automated message, please do not reply.",
+      },
+      emailConfirm: {
+        subject: "Confirm your email address",
+        intro: "Please confirm your email address to finish setting up your account.",
+        action: "Confirm email",
+        outro: "This link expires in 24 hours. If you did not create an account, you can ignore this email.",
+      },
+      passwordReset: {
+        subject: "Reset your password",
+        intro: "We received a request to reset your password.",
+        action: "Reset password",
+        outro: "This link expires in 10 minutes. If you did not request a password reset, you can ignore this email.",
+      },
+      emailChange: {
+        subject: "Confirm your new email address",
+        intro: "Please confirm {email} as the new email address of your account.",
+        action: "Confirm new email",
+        outro: "This link expires in 1 hour. If you did not request this change, you can ignore this email.",
+      },
+      magicLink: {
+        subject: "Your sign-in link",
+        intro: "Use the button below to sign in to your account.",
+        action: "Sign in",
+        outro: "This link expires in 15 minutes and works once. If you did not try to sign in, you can ignore this email.",
+      },
+      workspaceInvite: {
+        subject: "You're invited to join {workspace}",
+        intro: "{inviter} invited you to join {workspace} as {role}.",
+        introNoInviter: "You've been invited to join {workspace} as {role}.",
+        action: "Accept invite",
+        outro: "If you were not expecting this invitation, you can ignore this email.",
+      },
+      securityNotice: {
+        subject: "Security notice for your account",
+        events: {
+          passwordReset: "Your password was reset.",
+          passwordChanged: "Your password was changed.",
+          emailChanged: "The email address of your account was changed.",
+          passwordSet: "A password was added to your account.",
+          identityLinked: "A sign-in provider was linked to your account.",
+          identityUnlinked: "A sign-in provider was removed from your account.",
+          emailChangeRequested: "A change of your account email address was requested. It takes effect once the new address is confirmed.",
+          accountDeletionScheduled: "Your account was scheduled for deletion. You can cancel this from the settings page until the deletion date.",
+        },
+        time: "Time: {time}",
+        ipAddress: "IP address: {ipAddress}",
+        action: "Review account",
+        outro: "If this was you, no action is needed. If not, reset your password right away.",
+      },
+    },
+  },
+
+  // -------------------- Chinese (Simplified) --------------------
+  "zh-CN": {
+    common: {
+      success: "成功",
+      gotIt: "知道了！",
+    },
+    auth: {
+      signin: {
+        title: "欢迎回来！",
+        email: {
+          title: "邮箱",
+          placeholder: "邮箱",
+          formatErrMessage: "邮箱格式无效。",
+          requiredMessage: "邮箱是必填项",
+        },
+        password: {
+          title: "密码",
+          placeholder: "密码",
+          requiredMessage: "密码是必填项",
+        },
+        forgotPasswordButton: "忘记密码？",
+        noAccountButton: "没有账号？注册",
+        submitButton: "登录",
+        submitting: "正在登录...",
+        seperator: "或",
+        socialLogin: {
+          title: "使用以下方式登录",
+          google: "Google",
+          line: "Line",
+        },
+        success: {
+          title: "成功",
+          description: "您已登录。",
+        },
+      },
+      signup: {
+        title: "创建账户",
+        name: {
+          title: "姓名",
+          placeholder: "姓名",
+          requiredMessage: "姓名是必填项",
+        },
+        email: {
+          title: "邮箱",
+          placeholder: "邮箱",
+          formatErrMessage: "邮箱格式无效。",
+          requiredMessage: "邮箱是必填项",
+        },
+        password: {
+          title: "密码",
+          placeholder: "密码",
+          requiredMessage: "密码是必填项",
+          formatErrMessage: "密码长度至少为8个字符。",
+        },
+        confirmPassword: {
+          title: "确认密码",
+          placeholder: "确认密码",
+          requiredMessage: "确认密码是必填项",
+          matchErrMessage: "两次输入的密码不一致",
+        },
+        submitButton: "注册",
+        submitting: "正在注册...",
+        haveAccountButton: "已有账号？登录",
+        seperator: "或",
+        socialLogin: {
+          title: "使用以下方式注册",
+          google: "Google",
+          line: "Line",
+        },
+        success: {
+          title: "账户已创建",
+          description: "请查收邮箱以验证您的账户。",
+        },
+      },
+      signout: {
+        success: {
+          title: "成功",
+          description: "您已登出。",
+        },
+      },
+      password: {
+        resetSent: {
+          title: "重置邮件已发送",
+          description: "请查收邮箱获取密码重置说明。",
+        },
+        resetSuccess: {
+          title: "密码重置成功",
+          description: "您现在可以使用新密码登录。",
+        },
+        invalidLink: {
+          title: "无效的重置链接",
+          description: "密码重置链接无效或已过期。",
+        },
+      },
+      email: {
+        confirming: "正在确认您的邮箱...",
+        signinButton: "前往登录",
+        confirmed: {
+          title: "邮箱已确认",
+          description: "您的邮箱地址已确认，现在可以登录了。",
+        },
+        invalidLink: {
+          title: "无效的确认链接",
+          description: "邮箱确认链接无效或已过期。",
+        },
+        resendLink: "发送新链接",
+        change: {
+          confirming: "正在确认您的新邮箱...",
+          confirmed: {
+            title: "邮箱已修改",
+            description: "您的账户现在使用 {email}。",
+          },
+          invalidLink: {
+            title: "无效的链接",
+            description: "链接无效、已过期或已被新的链接取代。请在设置中重新申请修改。",
+          },
+          settingsButton: "前往设置",
+        },
+        verify: {
+          title: "验证您的邮箱",
+          description: "我们已向 {email} 发送了确认链接。",
+          restricted: "在确认邮箱地址之前，部分功能将不可用。",
+          stillPending: "您的邮箱地址尚未确认。请打开邮件中的链接后重试。",
+          confirmedButton: "我已确认邮箱",
+          checking: "检查中...",
+          resendButton: "重新发送邮件",
+          continueButton: "以受限权限继续",
+        },
+        resend: {
+          title: "重新发送确认邮件",
+          description: "输入您的邮箱以接收新的确认链接",
+          submitButton: "发送链接",
+          submitting: "发送中...",
+          backToSignin: "返回登录",
+          sent: {
+            title: "确认邮件已发送",
+            description: "如果该邮箱需要确认，新的链接即将送达。之前的链接将失效。",
+          },
+        },
+      },
+      mfa: {
+        title: "双重验证",
+        description: "请输入身份验证器应用中的 6 位验证码。",
+        recoveryDescription: "请输入启用双重验证时保存的任一恢复码。",
+        code: {
+          title: "验证码",
+          placeholder: "123456",
+        },
+        recoveryCode: {
+          title: "恢复码",
+          placeholder: "xxxxx-xxxxx",
+        },
+        useRecoveryCode: "改用恢复码",
+        useAuthenticator: "改用身份验证器应用",
+        submitButton: "验证",
+        submitting: "验证中...",
+        backToSignin: "返回登录",
+        setup: {
+          title: "设置双重验证",
+          description:
+            "使用身份验证器应用（Google Authenticator、1Password、Authy 等）扫描二维码，然后输入显示的验证码。",
+          requiredDescription:
+            "您的工作区要求启用双重验证。请使用身份验证器应用扫描二维码，然后输入显示的验证码。",
+          manualEntry: "无法扫描？请手动输入此密钥：",
+          submitButton: "启用",
+          submitting: "启用中...",
+        },
+        recoveryCodes: {
+          title: "保存您的恢复码",
+          description:
+            "如果无法使用身份验证器应用，每个恢复码可使用一次。恢复码不会再次显示。",
+          copyButton: "复制恢复码",
+          copied: "已复制",
+          continueButton: "我已保存恢复码",
+        },
+        settings: {
+          title: "双重验证",
+          description: "登录时需要输入身份验证器应用中的验证码。",
+          enabled: "已启用",
+          disabled: "未启用",
+          required: "您所在的工作区要求启用",
+          recoveryCodesRemaining: "剩余 {count} 个恢复码",
+          enableButton: "启用",
+          disableButton: "关闭",
+          regenerateButton: "生成新恢复码",
+          cancelButton: "取消",
+          confirmTitle: "确认身份",
+          confirmDescription: "请输入身份验证器应用中的验证码或恢复码。",
+          confirmButton: "确认",
+          enabledToast: {
+            title: "已启用双重验证",
+            description: "下次登录时将要求输入验证码。",
+          },
+          disabledToast: {
+            title: "已关闭双重验证",
+            description: "现在登录只需要密码。",
+          },
+        },
+      },
+      oauth: {
+        signinButton: "使用 {provider} 登录",
+        error: {
+          title: "认证错误",
+          tryAgainButton: "重试",
+          settingsButton: "返回设置",
+          contactSupportButton: "联系支持",
+        },
+      },
+      magicLink: {
+        option: "通过邮件发送登录链接",
+        description: "我们会向您发送一封邮件，通过其中的链接无需密码即可登录。",
+        submitButton: "发送链接",
+        submitting: "发送中...",
+        backButton: "使用密码登录",
+        sent: {
+          title: "请查收邮件",
+          description: "如果 {email} 存在对应账户，登录链接已发出。链接将在 15 分钟后失效，且只能使用一次。",
+        },
+        verifying: "正在登录...",
+        invalidLink: {
+          title: "登录链接无效",
+          description: "链接无效、已过期或已被使用。",
+        },
+        requestNewButton: "重新获取链接",
+      },
+      passkey: {
+        signinButton: "使用通行密钥登录",
+        useForMfa: "改用通行密钥",
+        errors: {
+          unavailable: {
+            title: "无法使用通行密钥",
+            description: "此浏览器或设备无法使用通行密钥，请尝试其他登录方式。",
+          },
+        },
+        settings: {
+          title: "通行密钥",
+          description: "使用指纹、面容或设备 PIN 码代替密码登录。通行密钥也可用作双重验证。",
+          empty: "尚未添加通行密钥。",
+          added: "添加于 {date}",
+          lastUsed: "上次使用 {date}",
+          addButton: "添加通行密钥",
+          renameButton: "重命名",
+          renameTitle: "重命名通行密钥",
+          saveButton: "保存",
+          removeButton: "移除",
+          removeTitle: "移除通行密钥",
+          removeDescription: "之后将无法使用“{name}”登录。",
+          addedToast: {
+            title: "已添加通行密钥",
+            description: "现在可以使用此通行密钥登录。",
+          },
+          removedToast: {
+            title: "已移除通行密钥",
+            description: "此通行密钥已无法用于登录。",
+          },
+        },
+      },
+      sessions: {
+        title: "已登录的设备",
+        description: "当前登录了您账户的设备。",
+        current: "本设备",
+        unknownIp: "未知 IP",
+        lastSeen: "最近活动 {date}",
+        revokeButton: "退出登录",
+        revokeOthersButton: "退出所有其他设备",
+        revokedOthersToast: {
+          title: "已退出其他设备",
+          description: "现在只有本设备保持登录。",
+        },
+      },
+      apiKeys: {
+        title: "API 密钥",
+        description: "让脚本和集成以您的身份在此工作区调用 API，权限仅限于您选择的范围。",
+        empty: "您还没有 API 密钥。",
+        createButton: "创建 API 密钥",
+        createTitle: "创建 API 密钥",
+        createDescription: "密钥只能执行其权限范围和您的角色同时允许的操作。",
+        name: "名称",
+        namePlaceholder: "例如：CI 流水线",
+        scopes: "权限范围",
+        expiry: "过期时间",
+        expiryDays: "{days} 天后",
+        expiryNever: "永不过期",
+        saveButton: "创建密钥",
+        created: "创建于 {date}",
+        lastUsed: "最近使用 {date}",
+        neverUsed: "从未使用",
+        expires: "{date} 过期",
+        noExpiry: "永不过期",
+        revokeButton: "撤销",
+        revokeTitle: "撤销 {name}？",
+        revokeDescription: "使用此密钥的客户端将立即失效，此操作无法撤回。",
+        secretTitle: "复制您的 API 密钥",
+        secretDescription: "密钥仅显示这一次。请以 \"Authorization: Bearer <密钥>\" 的形式发送。",
+        copyButton: "复制密钥",
+        copied: "已复制",
+        doneButton: "完成",
+        revokedToast: {
+          title: "API 密钥已撤销",
+          description: "{name} 已无法再使用。",
+        },
+      },
+      impersonation: {
+        banner: "您（{admin}）正在以 {email} 的身份使用应用。无法更改密码、邮箱、登录方式、已登录设备和 API 密钥。",
+        stopButton: "停止模拟",
+      },
+      account: {
+        title: "你的数据",
+        description: "下载你的个人数据副本或删除你的账户。",
+        exportLabel: "下载我的数据",
+        exportHint: "包含你的资料、设置、工作区成员身份和活动记录的 JSON 文件。",
+        exportButton: "下载",
+        deleteLabel: "删除账户",
+        deleteHint: "账户会在你申请 {days} 天后删除，在此之前可以随时取消。",
+        deleteButton: "删除账户",
+        deleteTitle: "删除你的账户？",
+        deleteDescription: "你将无法访问任何工作区。请先转让你拥有的工作区。{days} 天后你的个人数据将被永久清除。",
+        passwordlessHint: "你的账户没有设置密码：如果登录已超过 10 分钟，请重新登录。",
+        confirmButton: "删除我的账户",
+        scheduled: "你的账户将于 {date} 删除。",
+        cancelDeletionButton: "保留我的账户",
+        scheduledToast: {
+          title: "已安排删除账户",
+          description: "你的账户将于 {date} 删除。",
+        },
+        cancelledToast: {
+          title: "已取消删除账户",
+          description: "你的账户将被保留。",
+        },
+      },
+      identities: {
+        title: "登录方式",
+        description: "您的密码以及可用于登录的关联账户。至少需要保留一种。",
+        password: "密码",
+        passwordSet: "已设置",
+        passwordNotSet: "未设置",
+        setPasswordButton: "设置密码",
+        setPasswordTitle: "设置密码",
+        setPasswordDescription: "除关联账户外，您还可以使用邮箱和此密码登录。",
+        newPassword: "新密码",
+        confirmPassword: "确认密码",
+        passwordMismatch: "两次输入的密码必须一致",
+        saveButton: "保存",
+        linked: "已关联 {email}",
+        notLinked: "未关联",
+        linkButton: "关联",
+        unlinkButton: "取消关联",
+        unlinkTitle: "取消关联 {provider}",
+        unlinkDescription: "您将无法再使用 {provider} 登录。",
+        passwordSetToast: {
+          title: "密码已设置",
+          description: "您现在可以使用邮箱和密码登录。",
+        },
+        unlinkedToast: {
+          title: "已取消关联",
+          description: "{provider} 已无法用于登录。",
+        },
+        email: "邮箱",
+        changeEmailButton: "修改邮箱",
+        changeEmailTitle: "修改邮箱地址",
+        changeEmailDescription: "我们会向新地址发送确认链接。在您打开链接之前，当前地址仍然有效。",
+        newEmail: "新邮箱地址",
+        currentPassword: "当前密码",
+        sendLinkButton: "发送链接",
+        emailChangeSentToast: {
+          title: "请查收邮件",
+          description: "打开我们发送到 {email} 的链接以完成修改。",
+        },
+        changePasswordButton: "修改密码",
+        changePasswordTitle: "修改密码",
+        changePasswordDescription: "您在此设备上将保持登录，其他设备将被登出。",
+        passwordChangedToast: {
+          title: "密码已修改",
+          description: "您的其他设备已被登出。",
+        },
+      },
+    },
+    contact: {
+      submitted: {
+        title: "已提交",
+        description: "您的消息已发送。",
+      },
+    },
+    invite: {
+      title: "您收到了邀请",
+      description: "{inviter} 邀请您以 {role} 身份加入 {workspace}。",
+      descriptionNoInviter: "您被邀请以 {role} 身份加入 {workspace}。",
+      sentTo: "邀请已发送至 {email}",
+      loading: "正在加载邀请...",
+      acceptButton: "接受邀请",
+      accepting: "正在加入...",
+      signinButton: "登录以接受",
+      signupButton: "创建账户",
+      wrongAccount: "您当前以 {email} 登录。请使用受邀邮箱登录后接受邀请。",
+      invalid: {
+        title: "邀请不可用",
+        description: "此邀请链接无效、已过期或已被使用。",
+      },
+      success: {
+        title: "欢迎！",
+        description: "您已加入 {workspace}。",
+      },
+    },
+    errors: {
+      // 认证错误 (401)
+      AUTH_REQUIRED: {
+        title: "需要身份验证",
+        description: "请登录以访问此资源。",
+      },
+      INVALID_CREDENTIALS: {
+        title: "凭据无效",
+        description: "您输入的邮箱或密码不正确。",
+      },
+      INVALID_TOKEN: {
+        title: "令牌无效",
+        description: "身份验证令牌无效。请重新登录。",
+      },
+      INVALID_TOKEN_PURPOSE: {
+        title: "令牌无效",
+        description: "此令牌无法用于此操作。请重试。",
+      },
+      TOKEN_EXPIRED: {
+        title: "会话已过期",
+        description: "您的会话已过期。请重新登录。",
+      },
+      WORKSPACE_MISMATCH: {
+        title: "工作区不匹配",
+        description: "您无权访问此工作区。",
+      },
+      EMAIL_NOT_CONFIRMED: {
+        title: "邮箱未确认",
+        description: "请确认您的邮箱地址以继续。",
+        action: { label: "重新发送邮件" },
+      },
+      ACCOUNT_INACTIVE: {
+        title: "账户已停用",
+        description: "您的账户已被停用。请联系支持。",
+        action: { label: "联系支持" },
+      },
+      MFA_INVALID_CODE: {
+        title: "验证码无效",
+        description: "验证码不正确或已被使用，请重试。",
+      },
+      PASSKEY_VERIFICATION_FAILED: {
+        title: "通行密钥验证失败",
+        description: "无法验证此通行密钥，请重试或使用其他登录方式。",
+      },
+      OAUTH_PROVIDER_ERROR: {
+        title: "登录未完成",
+        description: "登录已被取消或被提供方拒绝，请重试。",
+      },
+
+      // 授权错误 (403)
+      FORBIDDEN: {
+        title: "访问被拒绝",
+        description: "您没有权限访问此资源。",
+      },
+      PERMISSION_DENIED: {
+        title: "权限被拒绝",
+        description: "您没有执行此操作所需的权限。",
+      },
+      TURNSTILE_FAILED: {
+        title: "安全验证失败",
+        description: "无法确认您是真人用户，请完成安全验证后重试。",
+      },
+      MFA_ENROLLMENT_REQUIRED: {
+        title: "需要双重验证",
+        description: "此工作区要求启用双重验证。请先在设置中启用。",
+        action: { label: "前往设置" },
+      },
+      RECENT_SIGNIN_REQUIRED: {
+        title: "请重新登录",
+        description: "为了您的账户安全，请退出后重新登录，然后再试一次。",
+      },
+
+      // 验证错误 (400)
+      VALIDATION_ERROR: {
+        title: "验证错误",
+        description: "请检查您的输入并重试。",
+      },
+      INVALID_INPUT: {
+        title: "输入无效",
+        description: "一个或多个字段包含无效数据。",
+      },
+      MISSING_FIELD: {
+        title: "缺少必填字段",
+        description: "请填写所有必填字段。",
+      },
+
+      // 密码验证错误
+      PASSWORD_TOO_SHORT: {
+        title: "密码太短",
+        description: "密码长度必须至少为8个字符。",
+      },
+      PASSWORD_TOO_LONG: {
+        title: "密码太长",
+        description: "密码长度必须少于128个字符。",
+      },
+      PASSWORD_MISSING_UPPERCASE: {
+        title: "密码要求",
+        description: "密码必须包含至少一个大写字母。",
+      },
+      PASSWORD_MISSING_LOWERCASE: {
+        title: "密码要求",
+        description: "密码必须包含至少一个小写字母。",
+      },
+      PASSWORD_MISSING_NUMBER: {
+        title: "密码要求",
+        description: "密码必须包含至少一个数字。",
+      },
+      PASSWORD_MISSING_SPECIAL: {
+        title: "密码要求",
+        description: "密码必须包含至少一个特殊字符。",
+      },
+      PASSWORD_SAME_AS_OLD: {
+        title: "密码已使用",
+        description: "请选择不同的密码。",
+      },
+      CURRENT_PASSWORD_INCORRECT: {
+        title: "密码错误",
+        description: "您输入的当前密码不正确。",
+      },
+
+      // 邮箱验证错误
+      INVALID_EMAIL_FORMAT: {
+        title: "邮箱无效",
+        description: "请输入有效的邮箱地址。",
+      },
+
+      // 未找到错误 (404)
+      NOT_FOUND: {
+        title: "未找到",
+        description: "未找到请求的资源。",
+      },
+      USER_NOT_FOUND: {
+        title: "用户未找到",
+        description: "请求的用户不存在。",
+      },
+      COMPANY_NOT_FOUND: {
+        title: "公司未找到",
+        description: "请求的公司不存在。",
+      },
+      WORKSPACE_NOT_FOUND: {
+        title: "工作区未找到",
+        description: "请求的工作区不存在，或您不是其成员。",
+      },
+      INVITE_NOT_FOUND: {
+        title: "邀请未找到",
+        description: "此邀请链接无效或已被撤销。",
+      },
+
+      // 冲突错误 (409)
+      CONFLICT: {
+        title: "冲突",
+        description: "此操作与现有数据冲突。",
+      },
+      DUPLICATE: {
+        title: "重复条目",
+        description: "此条目已存在。",
+      },
+      EMAIL_EXISTS: {
+        title: "邮箱已存在",
+        description: "使用此邮箱地址的账户已存在。",
+        action: { label: "登录" },
+      },
+      WORKSPACE_ID_TAKEN: {
+        title: "工作区ID已被占用",
+        description: "此工作区ID已在使用中。请选择其他ID。",
+      },
+      LAST_LOGIN_METHOD: {
+        title: "最后的登录方式",
+        description: "这是您唯一的登录方式。请先设置密码或关联其他账户。",
+      },
+
+      // 速率限制错误 (429)
+      RATE_LIMIT_EXCEEDED: {
+        title: "请求过多",
+        description: "您发送了太多请求。请稍后重试。",
+      },
+      ACCOUNT_LOCKED: {
+        title: "账户已锁定",
+        description: "登录失败次数过多。请稍后重试，或重置密码以解锁账户。",
+        action: { label: "重置密码" },
+      },
+
+      // 服务器错误 (500)
+      INTERNAL_ERROR: {
+        title: "服务器错误",
+        description: "发生内部服务器错误。请稍后重试。",
+        action: { label: "联系支持" },
+      },
+      DATABASE_ERROR: {
+        title: "数据库错误",
+        description: "发生数据库错误。请稍后重试。",
+        action: { label: "联系支持" },
+      },
+      EXTERNAL_SERVICE_ERROR: {
+        title: "服务不可用",
+        description: "外部服务暂时不可用。",
+      },
+
+      // 业务逻辑错误 (422)
+      BUSINESS_RULE_VIOLATION: {
+        title: "操作不允许",
+        description: "此操作违反了业务规则。",
+      },
+      INVALID_STATE: {
+        title: "状态无效",
+        description: "无法在当前状态下执行此操作。",
+      },
+      INVITE_EXPIRED: {
+        title: "邀请已过期",
+        description: "此邀请已过期，请联系工作区管理员重新发送。",
+      },
+
+      // 未知错误
+      UNKNOWN_ERROR: {
+        title: "意外错误",
+        description: "发生意外错误。请重试或联系支持。",
+        action: { label: "联系支持" },
+      },
+    },
+    emails: {
+      common: {
+        greeting: "{name}，您好：",
+        greetingNoName: "您好：",
+        linkFallback: "如果按钮无法使用，请将此链接复制到浏览器中打开：",
+        footer: "此邮件由系统自动发送，请勿直接回复。",
+      },
+      emailConfirm: {
+        subject: "请确认您的邮箱地址",
+        intro: "请确认您的邮箱地址以完成账户设置。",
+        action: "确认邮箱",
+        outro: "此链接将在 24 小时后失效。如果您没有注册账户，请忽略此邮件。",
+      },
+      passwordReset: {
+        subject: "重置您的密码",
+        intro: "我们收到了重置您密码的请求。",
+        action: "重置密码",
+        outro: "此链接将在 10 分钟后失效。如果您没有申请重置密码，请忽略此邮件。",
+      },
+      emailChange: {
+        subject: "请确认您的新邮箱地址",
+        intro: "请确认将 {email} 设为您账户的新邮箱地址。",
+        action: "确认新邮箱",
+        outro: "此链接将在 1 小时后失效。如果您没有申请修改邮箱，请忽略此邮件。",
+      },
+      magicLink: {
+        subject: "您的登录链接",
+        intro: "点击下方按钮登录您的账户。",
+        action: "登录",
+        outro: "此链接将在 15 分钟后失效，且只能使用一次。如果您没有尝试登录，请忽略此邮件。",
+      },
+      workspaceInvite: {
+        subject: "邀请您加入 {workspace}",
+        intro: "{inviter} 邀请您以 {role} 身份加入 {workspace}。",
+        introNoInviter: "您被邀请以 {role} 身份加入 {workspace}。",
+        action: "接受邀请",
+        outro: "如果您没有预期收到此邀请，请忽略此邮件。",
+      },
+      securityNotice: {
+        subject: "账户安全通知",
+        events: {
+          passwordReset: "您的密码已被重置。",
+          passwordChanged: "您的密码已被修改。",
+          emailChanged: "您账户的邮箱地址已被修改。",
+          passwordSet: "您的账户已设置密码。",
+          identityLinked: "您的账户已关联新的登录方式。",
+          identityUnlinked: "您的账户已移除一个登录方式。",
+          emailChangeRequested: "有人申请修改您账户的邮箱地址。确认新邮箱后修改才会生效。",
+          accountDeletionScheduled: "您的账户已计划删除。在删除日期之前，您可以在设置页面取消。",
+        },
+        time: "时间：{time}",
+        ipAddress: "IP 地址：{ipAddress}",
+        action: "查看账户",
+        outro: "如果这是您本人的操作，无需任何处理。否则请立即重置密码。",
+      },
+    },
+  },
+
+  // -------------------- Chinese (Traditional) --------------------
+  "zh-TW": {
+    common: {
+      success: "成功",
+      gotIt: "知道了！",
+    },
+    auth: {
+      signin: {
+        title: "歡迎回來！",
+        email: {
+          title: "信箱",
+          placeholder: "信箱",
+          formatErrMessage: "信箱格式無效。",
+          requiredMessage: "信箱為必填項",
+        },
+        password: {
+          title: "密碼",
+          placeholder: "密碼",
+          requiredMessage: "密碼為必填項",
+        },
+        forgotPasswordButton: "忘記密碼？",
+        noAccountButton: "沒有帳號？註冊",
+        submitButton: "登入",
+        submitting: "正在登入...",
+        seperator: "或",
+        socialLogin: {
+          title: "使用以下方式登入",
+          google: "Google",
+          line: "Line",
+        },
+        success: {
+          title: "成功",
+          description: "您已登入。",
+        },
+      },
+      signup: {
+        title: "建立帳號",
+        name: {
+          title: "姓名",
+          placeholder: "姓名",
+          requiredMessage: "姓名為必填項",
+        },
+        email: {
+          title: "信箱",
+          placeholder: "信箱",
+          formatErrMessage: "信箱格式無效。",
+          requiredMessage: "信箱為必填項",
+        },
+        password: {
+          title: "密碼",
+          placeholder: "密碼",
+          requiredMessage: "密碼為必填項",
+          formatErrMessage: "密碼至少需8個字元。",
+        },
+        confirmPassword: {
+          title: "確認密碼",
+          placeholder: "確認密碼",
+          requiredMessage: "確認密碼為必填項",
+          matchErrMessage: "兩次輸入的密碼不一致",
+        },
+        submitButton: "註冊",
+        submitting: "正在註冊...",
+        haveAccountButton: "已有帳號？登入",
+        seperator: "或",
+        socialLogin: {
+          title: "使用以下方式註冊",
+          google: "Google",
+          line: "Line",
+        },
+        success: {
+          title: "帳號已建立",
+          description: "請查收信箱以驗證您的帳號。",
+        },
+      },
+      signout: {
+        success: {
+          title: "成功",
+          description: "您已登出。",
+        },
+      },
+      password: {
+        resetSent: {
+          title: "重置郵件已發送",
+          description: "請查收信箱獲取密碼重置說明。",
+        },
+        resetSuccess: {
+          title: "密碼重置成功",
+          description: "您現在可以使用新密碼登入。",
+        },
+        invalidLink: {
+          title: "無效的重置連結",
+          description: "密碼重置連結無效或已過期。",
+        },
+      },
+      email: {
+        confirming: "正在確認您的信箱...",
+        signinButton: "前往登入",
+        confirmed: {
+          title: "信箱已確認",
+          description: "您的信箱地址已確認，現在可以登入了。",
+        },
+        invalidLink: {
+          title: "無效的確認連結",
+          description: "信箱確認連結無效或已過期。",
+        },
+        resendLink: "發送新連結",
+        change: {
+          confirming: "正在確認您的新信箱...",
+          confirmed: {
+            title: "信箱已變更",
+            description: "您的帳戶現在使用 {email}。",
+          },
+          invalidLink: {
+            title: "無效的連結",
+            description: "連結無效、已過期或已被新的連結取代。請在設定中重新申請變更。",
+          },
+          settingsButton: "前往設定",
+        },
+        verify: {
+          title: "驗證您的信箱",
+          description: "我們已向 {email} 發送了確認連結。",
+          restricted: "在確認信箱地址之前，部分功能將無法使用。",
+          stillPending: "您的信箱地址尚未確認。請開啟郵件中的連結後再試一次。",
+          confirmedButton: "我已確認信箱",
+          checking: "檢查中...",
+          resendButton: "重新發送郵件",
+          continueButton: "以受限權限繼續",
+        },
+        resend: {
+          title: "重新發送確認郵件",
+          description: "輸入您的信箱以接收新的確認連結",
+          submitButton: "發送連結",
+          submitting: "發送中...",
+          backToSignin: "返回登入",
+          sent: {
+            title: "確認郵件已發送",
+            description: "如果該信箱需要確認，新的連結即將送達。先前的連結將失效。",
+          },
+        },
+      },
+      mfa: {
+        title: "雙重驗證",
+        description: "請輸入驗證器應用程式中的 6 位數驗證碼。",
+        recoveryDescription: "請輸入啟用雙重驗證時儲存的任一復原碼。",
+        code: {
+          title: "驗證碼",
+          placeholder: "123456",
+        },
+        recoveryCode: {
+          title: "復原碼",
+          placeholder: "xxxxx-xxxxx",
+        },
+        useRecoveryCode: "改用復原碼",
+        useAuthenticator: "改用驗證器應用程式",
+        submitButton: "驗證",
+        submitting: "驗證中...",
+        backToSignin: "返回登入",
+        setup: {
+          title: "設定雙重驗證",
+          description:
+            "使用驗證器應用程式（Google Authenticator、1Password、Authy 等）掃描 QR 碼，然後輸入顯示的驗證碼。",
+          requiredDescription:
+            "您的工作區要求啟用雙重驗證。請使用驗證器應用程式掃描 QR 碼，然後輸入顯示的驗證碼。",
+          manualEntry: "無法掃描？請手動輸入此金鑰：",
+          submitButton: "啟用",
+          submitting: "啟用中...",
+        },
+        recoveryCodes: {
+          title: "儲存您的復原碼",
+          description:
+            "如果無法使用驗證器應用程式，每個復原碼可使用一次。復原碼不會再次顯示。",
+          copyButton: "複製復原碼",
+          copied: "已複製",
+          continueButton: "我已儲存復原碼",
+        },
+        settings: {
+          title: "雙重驗證",
+          description: "登入時需要輸入驗證器應用程式中的驗證碼。",
+          enabled: "已啟用",
+          disabled: "未啟用",
+          required: "您所在的工作區要求啟用",
+          recoveryCodesRemaining: "剩餘 {count} 個復原碼",
+          enableButton: "啟用",
+          disableButton: "關閉",
+          regenerateButton: "產生新復原碼",
+          cancelButton: "取消",
+          confirmTitle: "確認身分",
+          confirmDescription: "請輸入驗證器應用程式中的驗證碼或復原碼。",
+          confirmButton: "確認",
+          enabledToast: {
+            title: "已啟用雙重驗證",
+            description: "下次登入時將要求輸入驗證碼。",
+          },
+          disabledToast: {
+            title: "已關閉雙重驗證",
+            description: "現在登入只需要密碼。",
+          },
+        },
+      },
+      oauth: {
+        signinButton: "使用 {provider} 登入",
+        error: {
+          title: "驗證錯誤",
+          tryAgainButton: "重試",
+          settingsButton: "返回設定",
+          contactSupportButton: "聯絡支援",
+        },
+      },
+      magicLink: {
+        option: "透過郵件發送登入連結",
+        description: "我們會寄一封郵件給您，透過其中的連結無需密碼即可登入。",
+        submitButton: "發送連結",
+        submitting: "發送中...",
+        backButton: "使用密碼登入",
+        sent: {
+          title: "請查收郵件",
+          description: "如果 {email} 有對應的帳戶，登入連結已寄出。連結將在 15 分鐘後失效，且只能使用一次。",
+        },
+        verifying: "正在登入...",
+        invalidLink: {
+          title: "登入連結無效",
+          description: "連結無效、已過期或已被使用。",
+        },
+        requestNewButton: "重新取得連結",
+      },
+      passkey: {
+        signinButton: "使用通行金鑰登入",
+        useForMfa: "改用通行金鑰",
+        errors: {
+          unavailable: {
+            title: "無法使用通行金鑰",
+            description: "此瀏覽器或裝置無法使用通行金鑰，請嘗試其他登入方式。",
+          },
+        },
+        settings: {
+          title: "通行金鑰",
+          description: "使用指紋、臉部或裝置 PIN 碼代替密碼登入。通行金鑰也可用作雙重驗證。",
+          empty: "尚未新增通行金鑰。",
+          added: "新增於 {date}",
+          lastUsed: "上次使用 {date}",
+          addButton: "新增通行金鑰",
+          renameButton: "重新命名",
+          renameTitle: "重新命名通行金鑰",
+          saveButton: "儲存",
+          removeButton: "移除",
+          removeTitle: "移除通行金鑰",
+          removeDescription: "之後將無法使用「{name}」登入。",
+          addedToast: {
+            title: "已新增通行金鑰",
+            description: "現在可以使用此通行金鑰登入。",
+          },
+          removedToast: {
+            title: "已移除通行金鑰",
+            description: "此通行金鑰已無法用於登入。",
+          },
+        },
+      },
+      sessions: {
+        title: "已登入的裝置",
+        description: "目前登入您帳戶的裝置。",
+        current: "此裝置",
+        unknownIp: "未知 IP",
+        lastSeen: "最近活動 {date}",
+        revokeButton: "登出",
+        revokeOthersButton: "登出所有其他裝置",
+        revokedOthersToast: {
+          title: "已登出其他裝置",
+          description: "現在只有此裝置保持登入。",
+        },
+      },
+      apiKeys: {
+        title: "API 金鑰",
+        description: "讓腳本和整合服務以您的身分在此工作區呼叫 API，權限僅限於您選擇的範圍。",
+        empty: "您還沒有 API 金鑰。",
+        createButton: "建立 API 金鑰",
+        createTitle: "建立 API 金鑰",
+        createDescription: "金鑰只能執行其權限範圍和您的角色同時允許的操作。",
+        name: "名稱",
+        namePlaceholder: "例如：CI 流程",
+        scopes: "權限範圍",
+        expiry: "到期時間",
+        expiryDays: "{days} 天後",
+        expiryNever: "永不到期",
+        saveButton: "建立金鑰",
+        created: "建立於 {date}",
+        lastUsed: "最近使用 {date}",
+        neverUsed: "從未使用",
+        expires: "{date} 到期",
+        noExpiry: "永不到期",
+        revokeButton: "撤銷",
+        revokeTitle: "撤銷 {name}？",
+        revokeDescription: "使用此金鑰的用戶端將立即失效，此操作無法復原。",
+        secretTitle: "複製您的 API 金鑰",
+        secretDescription: "金鑰僅顯示這一次。請以 \"Authorization: Bearer <金鑰>\" 的形式傳送。",
+        copyButton: "複製金鑰",
+        copied: "已複製",
+        doneButton: "完成",
+        revokedToast: {
+          title: "API 金鑰已撤銷",
+          description: "{name} 已無法再使用。",
+        },
+      },
+      impersonation: {
+        banner: "您（{admin}）正在以 {email} 的身分使用應用程式。無法變更密碼、信箱、登入方式、已登入裝置和 API 金鑰。",
+        stopButton: "停止模擬",
+      },
+      account: {
+        title: "你的資料",
+        description: "下載你的個人資料副本或刪除你的帳戶。",
+        exportLabel: "下載我的資料",
+        exportHint: "包含你的個人檔案、設定、工作區成員身分和活動紀錄的 JSON 檔案。",
+        exportButton: "下載",
+        deleteLabel: "刪除帳戶",
+        deleteHint: "帳戶會在你申請 {days} 天後刪除，在此之前可以隨時取消。",
+        deleteButton: "刪除帳戶",
+        deleteTitle: "刪除你的帳戶？",
+        deleteDescription: "你將無法存取任何工作區。請先轉讓你擁有的工作區。{days} 天後你的個人資料將被永久清除。",
+        passwordlessHint: "你的帳戶沒有設定密碼：如果登入已超過 10 分鐘，請重新登入。",
+        confirmButton: "刪除我的帳戶",
+        scheduled: "你的帳戶將於 {date} 刪除。",
+        cancelDeletionButton: "保留我的帳戶",
+        scheduledToast: {
+          title: "已排定刪除帳戶",
+          description: "你的帳戶將於 {date} 刪除。",
+        },
+        cancelledToast: {
+          title: "已取消刪除帳戶",
+          description: "你的帳戶將會保留。",
+        },
+      },
+      identities: {
+        title: "登入方式",
+        description: "您的密碼以及可用於登入的連結帳戶。至少需要保留一種。",
+        password: "密碼",
+        passwordSet: "已設定",
+        passwordNotSet: "未設定",
+        setPasswordButton: "設定密碼",
+        setPasswordTitle: "設定密碼",
+        setPasswordDescription: "除連結帳戶外，您也可以使用信箱和此密碼登入。",
+        newPassword: "新密碼",
+        confirmPassword: "確認密碼",
+        passwordMismatch: "兩次輸入的密碼必須一致",
+        saveButton: "儲存",
+        linked: "已連結 {email}",
+        notLinked: "未連結",
+        linkButton: "連結",
+        unlinkButton: "取消連結",
+        unlinkTitle: "取消連結 {provider}",
+        unlinkDescription: "您將無法再使用 {provider} 登入。",
+        passwordSetToast: {
+          title: "密碼已設定",
+          description: "您現在可以使用信箱和密碼登入。",
+        },
+        unlinkedToast: {
+          title: "已取消連結",
+          description: "{provider} 已無法用於登入。",
+        },
+        email: "信箱",
+        changeEmailButton: "變更信箱",
+        changeEmailTitle: "變更信箱地址",
+        changeEmailDescription: "我們會向新地址發送確認連結。在您開啟連結之前，目前的地址仍然有效。",
+        newEmail: "新信箱地址",
+        currentPassword: "目前密碼",
+        sendLinkButton: "發送連結",
+        emailChangeSentToast: {
+          title: "請查收郵件",
+          description: "開啟我們發送到 {email} 的連結以完成變更。",
+        },
+        changePasswordButton: "變更密碼",
+        changePasswordTitle: "變更密碼",
+        changePasswordDescription: "您在此裝置上將保持登入，其他裝置將被登出。",
+        passwordChangedToast: {
+          title: "密碼已變更",
+          description: "您的其他裝置已被登出。",
+        },
+      },
+    },
+    contact: {
+      submitted: {
+        title: "已提交",
+        description: "您的訊息已發送。",
+      },
+    },
+    invite: {
+      title: "您收到了邀請",
+      description: "{inviter} 邀請您以 {role} 身分加入 {workspace}。",
+      descriptionNoInviter: "您被邀請以 {role} 身分加入 {workspace}。",
+      sentTo: "邀請已發送至 {email}",
+      loading: "正在載入邀請...",
+      acceptButton: "接受邀請",
+      accepting: "正在加入...",
+      signinButton: "登入以接受",
+      signupButton: "建立帳戶",
+      wrongAccount: "您目前以 {email} 登入。請使用受邀信箱登入後接受邀請。",
+      invalid: {
+        title: "邀請不可用",
+        description: "此邀請連結無效、已過期或已被使用。",
+      },
+      success: {
+        title: "歡迎！",
+        description: "您已加入 {workspace}。",
+      },
+    },
+    errors: {
+      // 認證錯誤 (401)
+      AUTH_REQUIRED: {
+        title: "需要身份驗證",
+        description: "請登入以存取此資源。",
+      },
+      INVALID_CREDENTIALS: {
+        title: "憑證無效",
+        description: "您輸入的信箱或密碼不正確。",
+      },
+      INVALID_TOKEN: {
+        title: "令牌無效",
+        description: "身份驗證令牌無效。請重新登入。",
+      },
+      INVALID_TOKEN_PURPOSE: {
+        title: "令牌無效",
+        description: "此令牌無法用於此操作。請重試。",
+      },
+      TOKEN_EXPIRED: {
+        title: "會話已過期",
+        description: "您的會話已過期。請重新登入。",
+      },
+      WORKSPACE_MISMATCH: {
+        title: "工作區不匹配",
+        description: "您無權存取此工作區。",
+      },
+      EMAIL_NOT_CONFIRMED: {
+        title: "信箱未確認",
+        description: "請確認您的信箱地址以繼續。",
+        action: { label: "重新發送郵件" },
+      },
+      ACCOUNT_INACTIVE: {
+        title: "帳戶已停用",
+        description: "您的帳戶已被停用。請聯絡支援。",
+        action: { label: "聯絡支援" },
+      },
+      MFA_INVALID_CODE: {
+        title: "驗證碼無效",
+        description: "驗證碼不正確或已被使用，請重試。",
+      },
+      PASSKEY_VERIFICATION_FAILED: {
+        title: "通行金鑰驗證失敗",
+        description: "無法驗證此通行金鑰，請重試或使用其他登入方式。",
+      },
+      OAUTH_PROVIDER_ERROR: {
+        title: "登入未完成",
+        description: "登入已被取消或被提供者拒絕，請重試。",
+      },
+
+      // 授權錯誤 (403)
+      FORBIDDEN: {
+        title: "存取被拒絕",
+        description: "您沒有權限存取此資源。",
+      },
+      PERMISSION_DENIED: {
+        title: "權限被拒絕",
+        description: "您沒有執行此操作所需的權限。",
+      },
+      TURNSTILE_FAILED: {
+        title: "安全驗證失敗",
+        description: "無法確認您是真人使用者，請完成安全驗證後重試。",
+      },
+      MFA_ENROLLMENT_REQUIRED: {
+        title: "需要雙重驗證",
+        description: "此工作區要求啟用雙重驗證。請先在設定中啟用。",
+        action: { label: "前往設定" },
+      },
+      RECENT_SIGNIN_REQUIRED: {
+        title: "請重新登入",
+        description: "為了您的帳戶安全，請登出後重新登入，然後再試一次。",
+      },
+
+      // 驗證錯誤 (400)
+      VALIDATION_ERROR: {
+        title: "驗證錯誤",
+        description: "請檢查您的輸入並重試。",
+      },
+      INVALID_INPUT: {
+        title: "輸入無效",
+        description: "一個或多個欄位包含無效資料。",
+      },
+      MISSING_FIELD: {
+        title: "缺少必填欄位",
+        description: "請填寫所有必填欄位。",
+      },
+
+      // 密碼驗證錯誤
+      PASSWORD_TOO_SHORT: {
+        title: "密碼太短",
+        description: "密碼長度必須至少為8個字元。",
+      },
+      PASSWORD_TOO_LONG: {
+        title: "密碼太長",
+        description: "密碼長度必須少於128個字元。",
+      },
+      PASSWORD_MISSING_UPPERCASE: {
+        title: "密碼要求",
+        description: "密碼必須包含至少一個大寫字母。",
+      },
+      PASSWORD_MISSING_LOWERCASE: {
+        title: "密碼要求",
+        description: "密碼必須包含至少一個小寫字母。",
+      },
+      PASSWORD_MISSING_NUMBER: {
+        title: "密碼要求",
+        description: "密碼必須包含至少一個數字。",
+      },
+      PASSWORD_MISSING_SPECIAL: {
+        title: "密碼要求",
+        description: "密碼必須包含至少一個特殊字元。",
+      },
+      PASSWORD_SAME_AS_OLD: {
+        title: "密碼已使用",
+        description: "請選擇不同的密碼。",
+      },
+      CURRENT_PASSWORD_INCORRECT: {
+        title: "密碼錯誤",
+        description: "您輸入的目前密碼不正確。",
+      },
+
+      // 信箱驗證錯誤
+      INVALID_EMAIL_FORMAT: {
+        title: "信箱無效",
+        description: "請輸入有效的信箱地址。",
+      },
+
+      // 未找到錯誤 (404)
+      NOT_FOUND: {
+        title: "未找到",
+        description: "未找到請求的資源。",
+      },
+      USER_NOT_FOUND: {
+        title: "使用者未找到",
+        description: "請求的使用者不存在。",
+      },
+      COMPANY_NOT_FOUND: {
+        title: "公司未找到",
+        description: "請求的公司不存在。",
+      },
+      WORKSPACE_NOT_FOUND: {
+        title: "工作區未找到",
+        description: "請求的工作區不存在，或您不是其成員。",
+      },
+      INVITE_NOT_FOUND: {
+        title: "邀請未找到",
+        description: "此邀請連結無效或已被撤銷。",
+      },
+
+      // 衝突錯誤 (409)
+      CONFLICT: {
+        title: "衝突",
+        description: "此操作與現有資料衝突。",
+      },
+      DUPLICATE: {
+        title: "重複條目",
+        description: "此條目已存在。",
+      },
+      EMAIL_EXISTS: {
+        title: "信箱已存在",
+        description: "使用此信箱地址的帳戶已存在。",
+        action: { label: "登入" },
+      },
+      WORKSPACE_ID_TAKEN: {
+        title: "工作區ID已被佔用",
+        description: "此工作區ID已在使用中。請選擇其他ID。",
+      },
+      LAST_LOGIN_METHOD: {
+        title: "最後的登入方式",
+        description: "這是您唯一的登入方式。請先設定密碼或連結其他帳戶。",
+      },
+
+      // 速率限制錯誤 (429)
+      RATE_LIMIT_EXCEEDED: {
+        title: "請求過多",
+        description: "您發送了太多請求。請稍後重試。",
+      },
+      ACCOUNT_LOCKED: {
+        title: "帳戶已鎖定",
+        description: "登入失敗次數過多。請稍後再試，或重設密碼以解鎖帳戶。",
+        action: { label: "重設密碼" },
+      },
+
+      // 伺服器錯誤 (500)
+      INTERNAL_ERROR: {
+        title: "伺服器錯誤",
+        description: "發生內部伺服器錯誤。請稍後重試。",
+        action: { label: "聯絡支援" },
+      },
+      DATABASE_ERROR: {
+        title: "資料庫錯誤",
+        description: "發生資料庫錯誤。請稍後重試。",
+        action: { label: "聯絡支援" },
+      },
+      EXTERNAL_SERVICE_ERROR: {
+        title: "服務不可用",
+        description: "外部服務暫時不可用。",
+      },
+
+      // 業務邏輯錯誤 (422)
+      BUSINESS_RULE_VIOLATION: {
+        title: "操作不允許",
+        description: "此操作違反了業務規則。",
+      },
+      INVALID_STATE: {
+        title: "狀態無效",
+        description: "無法在當前狀態下執行此操作。",
+      },
+      INVITE_EXPIRED: {
+        title: "邀請已過期",
+        description: "此邀請已過期，請聯繫工作區管理員重新發送。",
+      },
+
+      // 未知錯誤
+      UNKNOWN_ERROR: {
+        title: "意外錯誤",
+        description: "發生意外錯誤。請重試或聯絡支援。",
+        action: { label: "聯絡支援" },
+      },
+    },
+    emails: {
+      common: {
+        greeting: "{name}，您好：",
+        greetingNoName: "您好：",
+        linkFallback: "如果按鈕無法使用，請將此連結複製到瀏覽器中開啟：",
+        footer: "此郵件由系統自動發送，請勿直接回覆。",
+      },
+      emailConfirm: {
+        subject: "請確認您的信箱地址",
+        intro: "請確認您的信箱地址以完成帳戶設定。",
+        action: "確認信箱",
+        outro: "此連結將在 24 小時後失效。如果您沒有註冊帳戶，請忽略此郵件。",
+      },
+      passwordReset: {
+        subject: "重置您的密碼",
+        intro: "我們收到了重置您密碼的請求。",
+        action: "重置密碼",
+        outro: "此連結將在 10 分鐘後失效。如果您沒有申請重置密碼，請忽略此郵件。",
+      },
+      emailChange: {
+        subject: "請確認您的新信箱地址",
+        intro: "請確認將 {email} 設為您帳戶的新信箱地址。",
+        action: "確認新信箱",
+        outro: "此連結將在 1 小時後失效。如果您沒有申請變更信箱，請忽略此郵件。",
+      },
+      magicLink: {
+        subject: "您的登入連結",
+        intro: "點擊下方按鈕登入您的帳戶。",
+        action: "登入",
+        outro: "此連結將在 15 分鐘後失效，且只能使用一次。如果您沒有嘗試登入，請忽略此郵件。",
+      },
+      workspaceInvite: {
+        subject: "邀請您加入 {workspace}",
+        intro: "{inviter} 邀請您以 {role} 身分加入 {workspace}。",
+        introNoInviter: "您被邀請以 {role} 身分加入 {workspace}。",
+        action: "接受邀請",
+        outro: "如果您沒有預期收到此邀請，請忽略此郵件。",
+      },
+      securityNotice: {
+        subject: "帳戶安全通知",
+        events: {
+          passwordReset: "您的密碼已被重置。",
+          passwordChanged: "您的密碼已被修改。",
+          emailChanged: "您帳戶的信箱地址已被修改。",
+          passwordSet: "您的帳戶已設定密碼。",
+          identityLinked: "您的帳戶已連結新的登入方式。",
+          identityUnlinked: "您的帳戶已移除一個登入方式。",
+          emailChangeRequested: "有人申請變更您帳戶的信箱地址。確認新地址後變更才會生效。",
+          accountDeletionScheduled: "您的帳戶已排定刪除。在刪除日期之前，您可以在設定頁面取消。",
+        },
+        time: "時間：{time}",
+        ipAddress: "IP 位址：{ipAddress}",
+        action: "查看帳戶",
+        outro: "如果這是您本人的操作，無需任何處理。否則請立即重置密碼。",
+      },
+    },
+  },
+};
+
+export type MessageLocale = keyof typeof messages;
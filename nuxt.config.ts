@@ -1,6 +1,7 @@
 // https://nuxt.com/docs/api/configuration/nuxt-config
 import tailwindcss from "@tailwindcss/vite";
 import { fileURLToPath } from "node:url";
+import { findUnconfiguredRoutes } from "./server/config/routes";
 
 export default defineNuxtConfig({
   compatibilityDate: "2025-07-15",
@@ -20,10 +21,14 @@ export default defineNuxtConfig({
     },
     // Email Configuration
     email: {
-      provider: "none", // "none" | "resend" | "postmark" (override with NUXT_EMAIL_PROVIDER)
+      provider: "none", // "none" | "capture" | "resend" | "postmark" (override with NUXT_EMAIL_PROVIDER)
       apiKey: "", // Email provider API key (override with NUXT_EMAIL_API_KEY)
       from: "noreply@localhost", // From email address (override with NUXT_EMAIL_FROM)
     },
+    // Email Verification Policy (workspaces can override via settings.emailVerification)
+    emailVerification: {
+      policy: "off", // "off" | "block" | "restrict" (override with NUXT_EMAIL_VERIFICATION_POLICY)
+    },
 
     // Private Keys
     session: {
@@ -44,12 +49,28 @@ export default defineNuxtConfig({
     // Cloudflare Turnstile (bot protection)
     turnstileSecretKey: "overwrite-this-with-environment-in-production", // Override with NUXT_TURNSTILE_SECRET_KEY
 
-    // OAuth Configuration
+    // OAuth Configuration (providers without credentials are hidden - see docs/OAUTH_SETUP.md)
     oauth: {
       google: {
         clientId: "", // Override with NUXT_OAUTH_GOOGLE_CLIENT_ID
         clientSecret: "", // Override with NUXT_OAUTH_GOOGLE_CLIENT_SECRET
       },
+      github: {
+        clientId: "", // Override with NUXT_OAUTH_GITHUB_CLIENT_ID
+        clientSecret: "", // Override with NUXT_OAUTH_GITHUB_CLIENT_SECRET
+      },
+      microsoft: {
+        clientId: "", // Override with NUXT_OAUTH_MICROSOFT_CLIENT_ID
+        clientSecret: "", // Override with NUXT_OAUTH_MICROSOFT_CLIENT_SECRET
+        tenant: "common", // Override with NUXT_OAUTH_MICROSOFT_TENANT (tenant ID to allow a single organization)
+      },
+      // Any OpenID Connect provider (Okta, Auth0, Keycloak, ...)
+      oidc: {
+        name: "Single Sign-On", // Override with NUXT_OAUTH_OIDC_NAME (sign-in button label)
+        discoveryUrl: "", // Override with NUXT_OAUTH_OIDC_DISCOVERY_URL (.../.well-known/openid-configuration)
+        clientId: "", // Override with NUXT_OAUTH_OIDC_CLIENT_ID
+        clientSecret: "", // Override with NUXT_OAUTH_OIDC_CLIENT_SECRET
+      },
     },
 
     // Public Keys
@@ -69,6 +90,15 @@ export default defineNuxtConfig({
       },
     },
   },
+  // Local dev and the integration tests (npm run dev:test) keep emails in
+  // memory instead of dropping them
+  $development: {
+    runtimeConfig: {
+      email: {
+        provider: "capture",
+      },
+    },
+  },
   modules: [
     "@nuxt/eslint",
     "@nuxt/fonts",
@@ -97,6 +127,13 @@ export default defineNuxtConfig({
     preset: "cloudflare-module",
     compatibilityDate: "2025-07-15",
     errorHandler: "server/error/errorHandler.ts",
+    experimental: {
+      tasks: true,
+    },
+    // Cron Triggers - each schedule must also be listed in the wrangler configs
+    scheduledTasks: {
+      "0 3 * * *": ["accounts:purge"],
+    },
     cloudflareDev: {
       // Use test config when NUXT_PUBLIC_ENVIRONMENT=test, otherwise staging
       configPath:
@@ -105,6 +142,18 @@ export default defineNuxtConfig({
           : "./wrangler.staging.jsonc",
     },
   },
+  hooks: {
+    // Warn about API routes without an entry in server/config/routes.ts
+    // (they get no rate limiting or declarative permissions)
+    "nitro:build:before"(nitro) {
+      const unconfigured = findUnconfiguredRoutes(nitro.scannedHandlers);
+      for (const { route, method } of unconfigured) {
+        console.warn(
+          `[routes] ${(method || "ALL").toUpperCase()} ${route} is missing from ROUTE_CONFIG (server/config/routes.ts)`
+        );
+      }
+    },
+  },
   shadcn: {
     /**
      * Prefix for all the imported component
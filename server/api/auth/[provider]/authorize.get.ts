@@ -0,0 +1,33 @@
+import { getOAuthProvider, startOAuthAuthorization } from "#server/lib/oauth";
+import { NotFoundError } from "#server/error/errors";
+
+// ========================================
+// OAUTH: INITIATE AUTHORIZATION
+// ========================================
+// Route: GET /api/auth/:provider/authorize
+// Public route - no authentication required
+// Query Parameters:
+//   - login_hint: email address suggested to the provider (optional)
+//   - redirectTo: same-origin path to land on after sign-in (optional)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const providerId = getRouterParam(event, "provider");
+
+  // Unknown providers and providers without credentials are not offered
+  const provider = await getOAuthProvider(event, providerId);
+  if (!provider) {
+    throw new NotFoundError("OAuth provider not found", { provider: providerId });
+  }
+
+  const { login_hint: loginHint, redirectTo } = getQuery(event);
+
+  // PKCE cookie + state token bound to it (CSRF protection)
+  const authUrl = await startOAuthAuthorization(event, provider, {
+    loginHint: typeof loginHint === "string" && loginHint ? loginHint : undefined,
+    redirectTo: typeof redirectTo === "string" ? redirectTo : undefined,
+  });
+
+  // Redirect to the provider
+  return sendRedirect(event, authUrl);
+});
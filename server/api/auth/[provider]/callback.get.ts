@@ -0,0 +1,101 @@
+import {
+  completeOAuthAuthorization,
+  getOAuthProvider,
+} from "#server/lib/oauth";
+import { AuthenticationError, NotFoundError, toAppError } from "#server/error/errors";
+import {
+  createIdentityService,
+  createMfaService,
+  createSessionService,
+} from "#server/services";
+import { startUserSession } from "#server/utils/session";
+
+// ========================================
+// OAUTH: HANDLE CALLBACK
+// ========================================
+// Route: GET /api/auth/:provider/callback
+// Public route - no authentication required
+// Links the provider to the signed-in user instead of signing in when
+// the flow was started from POST /api/v1/me/identities
+// Failures redirect to /auth/error?code=<ERROR_CODE> (localized there)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const providerId = getRouterParam(event, "provider");
+  let isLinking = false;
+
+  try {
+    const provider = await getOAuthProvider(event, providerId);
+    if (!provider) {
+      throw new NotFoundError("OAuth provider not found", { provider: providerId });
+    }
+
+    // PKCE + state (bound to this browser), code exchange, user info
+    const { profile, state } = await completeOAuthAuthorization(
+      event,
+      provider,
+      getQuery(event)
+    );
+
+    // Link to the signed-in user who started the flow
+    if (state.linkUserId) {
+      isLinking = true;
+
+      const session = await getUserSession(event);
+      const isActive =
+        session.user?.id === state.linkUserId &&
+        (await createSessionService(event).validateSession(
+          session.sessionId,
+          state.linkUserId
+        ));
+
+      if (!isActive) {
+        throw new AuthenticationError("Sign in again to link this account");
+      }
+
+      await createIdentityService(event).linkIdentity(state.linkUserId, {
+        provider: provider.id,
+        ...profile,
+      });
+
+      return sendRedirect(event, "/settings");
+    }
+
+    // Find or create user
+    const { user } = await createIdentityService(event).findOrCreateOAuthUser({
+      provider: provider.id,
+      ...profile,
+    });
+
+    // Second factor - finish on the 2FA page with the pending token
+    const challenge = await createMfaService(event).createSignInChallenge(user.id);
+    if (challenge) {
+      const params = new URLSearchParams({ token: challenge.mfaToken });
+      if (challenge.enrollmentRequired) {
+        params.set("enroll", "1");
+      }
+      if (challenge.methods.includes("passkey")) {
+        params.set("passkey", "1");
+      }
+      if (state.redirectTo) {
+        params.set("redirectTo", state.redirectTo);
+      }
+      return sendRedirect(event, `/auth/mfa?${params.toString()}`);
+    }
+
+    // Set session using nuxt-auth-utils
+    await startUserSession(event, user);
+
+    // Back to the page that asked for sign-in (validated same-origin path)
+    return sendRedirect(event, state.redirectTo || "/");
+  } catch (error) {
+    const appError = toAppError(error);
+    console.error(`OAuth callback failed (${providerId}):`, appError.code, appError.message);
+
+    const params = new URLSearchParams({ code: appError.code });
+    if (isLinking) {
+      params.set("flow", "link");
+    }
+    return sendRedirect(event, `/auth/error?${params.toString()}`);
+  }
+});
@@ -0,0 +1,13 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { listOAuthProviders } from "#server/lib/oauth";
+
+// ========================================
+// GET /api/auth/providers
+// ========================================
+// OAuth providers offered on the sign-in page (configured ones only)
+// Public route (no auth required)
+// ========================================
+
+export default defineEventHandler((event) => {
+  return createSuccessResponse("OAuth providers retrieved", listOAuthProviders(event));
+});
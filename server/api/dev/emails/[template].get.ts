@@ -0,0 +1,61 @@
+import { getQuery, getRouterParam, setResponseHeader } from "h3";
+import { NotFoundError, ValidationError } from "#server/error/errors";
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LOCALES,
+  EMAIL_TEMPLATE_NAMES,
+  EMAIL_TEMPLATE_SAMPLES,
+  isEmailTemplateName,
+  renderEmailTemplate,
+  resolveEmailLocale,
+} from "#server/lib/email-templates";
+import { isDevelopment } from "#server/utils/environment";
+
+// ========================================
+// GET /api/dev/emails/:template
+// ========================================
+// Preview a transactional email rendered with sample data (nothing is sent)
+// Development only - responds 404 in every other environment
+// Query Parameters:
+//   - locale: en | zh-CN | zh-TW (default: en)
+//   - format: html | text (default: html)
+// ========================================
+
+export default defineEventHandler((event) => {
+  if (!isDevelopment(event)) {
+    throw new NotFoundError("Not found");
+  }
+
+  const template = getRouterParam(event, "template");
+  if (!isEmailTemplateName(template)) {
+    throw new NotFoundError("Email template not found", {
+      template,
+      templates: EMAIL_TEMPLATE_NAMES,
+    });
+  }
+
+  const query = getQuery(event);
+  const locale = query.locale
+    ? resolveEmailLocale(query.locale)
+    : DEFAULT_EMAIL_LOCALE;
+  if (!locale) {
+    throw new ValidationError(`Unsupported locale: ${query.locale}`, {
+      field: "locale",
+      locales: EMAIL_LOCALES,
+    });
+  }
+
+  const rendered = renderEmailTemplate(
+    template,
+    locale,
+    EMAIL_TEMPLATE_SAMPLES[template]
+  );
+
+  if (query.format === "text") {
+    setResponseHeader(event, "Content-Type", "text/plain; charset=utf-8");
+    return `Subject: ${rendered.subject}\n\n${rendered.text}`;
+  }
+
+  setResponseHeader(event, "Content-Type", "text/html; charset=utf-8");
+  return rendered.html;
+});
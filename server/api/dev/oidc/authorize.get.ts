@@ -0,0 +1,55 @@
+import { getQuery, getRequestURL } from "h3";
+import { NotFoundError, ValidationError } from "#server/error/errors";
+import {
+  MOCK_OIDC_CONFIG,
+  isMockOidcEnabled,
+  mockOidcClaims,
+  signMockOidcToken,
+} from "#server/lib/oauth";
+
+// ========================================
+// GET /api/dev/oidc/authorize
+// ========================================
+// Mock provider authorization endpoint - approves at once (no login page)
+// and redirects back with a code for the user picked by login_hint
+// Development and test only - responds 404 in every other environment
+// Query Parameters:
+//   - client_id, redirect_uri, response_type=code, state (required)
+//   - code_challenge, code_challenge_method=S256 (required, PKCE)
+//   - login_hint: email of the mock user (default: oidc-user@example.com)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  if (!isMockOidcEnabled(event)) {
+    throw new NotFoundError("Not found");
+  }
+
+  const query = getQuery(event);
+  const redirectUri = typeof query.redirect_uri === "string" ? query.redirect_uri : "";
+  const origin = getRequestURL(event, { xForwardedHost: true, xForwardedProto: true }).origin;
+
+  if (query.client_id !== MOCK_OIDC_CONFIG.CLIENT_ID) {
+    throw new ValidationError("Unknown client_id", { field: "client_id" });
+  }
+  if (query.response_type !== "code" || typeof query.state !== "string") {
+    throw new ValidationError("response_type=code and state are required");
+  }
+  if (query.code_challenge_method !== "S256" || typeof query.code_challenge !== "string") {
+    throw new ValidationError("PKCE with code_challenge_method=S256 is required");
+  }
+  // Only hand codes back to this app
+  if (!redirectUri.startsWith(`${origin}/`)) {
+    throw new ValidationError("Invalid redirect_uri", { field: "redirect_uri" });
+  }
+
+  const claims = mockOidcClaims(
+    typeof query.login_hint === "string" ? query.login_hint : undefined
+  );
+  const code = await signMockOidcToken("mock-oidc-code", claims, event, query.code_challenge);
+
+  const callback = new URL(redirectUri);
+  callback.searchParams.set("code", code);
+  callback.searchParams.set("state", query.state);
+
+  return sendRedirect(event, callback.toString());
+});
@@ -0,0 +1,31 @@
+import { getRequestURL } from "h3";
+import { NotFoundError } from "#server/error/errors";
+import { isMockOidcEnabled } from "#server/lib/oauth";
+
+// ========================================
+// GET /api/dev/oidc/openid-configuration
+// ========================================
+// Discovery document of the mock OpenID Connect provider ("mock" in the
+// OAuth provider registry), used for local sign-in and integration tests
+// Development and test only - responds 404 in every other environment
+// ========================================
+
+export default defineEventHandler((event) => {
+  if (!isMockOidcEnabled(event)) {
+    throw new NotFoundError("Not found");
+  }
+
+  const issuer = `${getRequestURL(event, { xForwardedHost: true, xForwardedProto: true }).origin}/api/dev/oidc`;
+
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code"],
+    scopes_supported: ["openid", "email", "profile"],
+    token_endpoint_auth_methods_supported: ["client_secret_post"],
+    claims_supported: ["sub", "email", "email_verified", "given_name", "family_name"],
+  };
+});
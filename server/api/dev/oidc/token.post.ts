@@ -0,0 +1,47 @@
+import { readBody } from "h3";
+import { InvalidTokenError, NotFoundError } from "#server/error/errors";
+import {
+  MOCK_OIDC_CONFIG,
+  isMockOidcEnabled,
+  signMockOidcToken,
+  verifyMockOidcToken,
+} from "#server/lib/oauth";
+
+// ========================================
+// POST /api/dev/oidc/token
+// ========================================
+// Mock provider token endpoint (authorization_code grant,
+// client_secret_post authentication, PKCE code_verifier required)
+// Development and test only - responds 404 in every other environment
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  if (!isMockOidcEnabled(event)) {
+    throw new NotFoundError("Not found");
+  }
+
+  const body = (await readBody<Record<string, string>>(event)) ?? {};
+
+  if (
+    body.client_id !== MOCK_OIDC_CONFIG.CLIENT_ID ||
+    body.client_secret !== MOCK_OIDC_CONFIG.CLIENT_SECRET
+  ) {
+    throw new InvalidTokenError("Invalid client credentials");
+  }
+  if (body.grant_type !== "authorization_code" || !body.code) {
+    throw new InvalidTokenError("Unsupported grant");
+  }
+
+  const claims = await verifyMockOidcToken(
+    "mock-oidc-code",
+    body.code,
+    event,
+    body.code_verifier
+  );
+
+  return {
+    access_token: await signMockOidcToken("mock-oidc-access", claims, event),
+    token_type: "Bearer",
+    expires_in: MOCK_OIDC_CONFIG.ACCESS_TOKEN_EXPIRES_IN,
+  };
+});
@@ -0,0 +1,27 @@
+import { getRequestHeader } from "h3";
+import { InvalidTokenError, NotFoundError } from "#server/error/errors";
+import { isMockOidcEnabled, verifyMockOidcToken } from "#server/lib/oauth";
+
+// ========================================
+// GET /api/dev/oidc/userinfo
+// ========================================
+// Mock provider userinfo endpoint (Authorization: Bearer <access token>)
+// Development and test only - responds 404 in every other environment
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  if (!isMockOidcEnabled(event)) {
+    throw new NotFoundError("Not found");
+  }
+
+  const authorization = getRequestHeader(event, "authorization") ?? "";
+  if (!authorization.startsWith("Bearer ")) {
+    throw new InvalidTokenError("Missing access token");
+  }
+
+  return await verifyMockOidcToken(
+    "mock-oidc-access",
+    authorization.slice("Bearer ".length),
+    event
+  );
+});
@@ -0,0 +1,30 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createIdentityService } from "#server/services/identity";
+import { emailChangeConfirmSchema } from "#shared/validators/auth";
+
+// ========================================
+// POST /api/v1/auth/email/change
+// ========================================
+// Confirm an email change with the token sent to the new address
+// Public route (the link may be opened in another browser)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { token } = emailChangeConfirmSchema.parse(body);
+
+  const user = await createIdentityService(event).confirmEmailChange(token);
+
+  // Keep the signed-in session of this user in sync
+  const session = await getUserSession(event);
+  if (session.user?.id === user.id) {
+    await replaceUserSession(event, {
+      ...session,
+      user: { ...session.user, email: user.email, isEmailVerified: true },
+    });
+  }
+
+  return createSuccessResponse("Email changed successfully", {
+    email: user.email,
+  });
+});
@@ -0,0 +1,27 @@
+import { createIdentityService } from "#server/services/identity";
+import { createSuccessResponse } from "#server/lib/response";
+import { emailResendSchema } from "#shared/validators/auth";
+import { sanitizeEmail } from "#server/lib/sanitize";
+
+// ========================================
+// POST /api/v1/auth/email/resend
+// ========================================
+// Send a new email confirmation link (earlier links stop working)
+// Public route
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+
+  // Validate with Zod schema
+  const validated = emailResendSchema.parse(body);
+
+  const identityService = createIdentityService(event);
+
+  // Same response whether or not the address needs confirming
+  await identityService.resendEmailConfirmation(sanitizeEmail(validated.email));
+
+  return createSuccessResponse(
+    "Confirmation email will be sent if the address is awaiting confirmation"
+  );
+});
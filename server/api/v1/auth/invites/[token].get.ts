@@ -0,0 +1,25 @@
+import { getRouterParam } from "h3";
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// GET /api/v1/auth/invites/:token
+// ========================================
+// Preview a workspace invite (workspace, role, inviter)
+// Public route (invitee may not have an account yet)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const token = getRouterParam(event, "token");
+
+  if (!token) {
+    throw new MissingFieldError("token");
+  }
+
+  const workspaceService = createWorkspaceService(event);
+
+  const invite = await workspaceService.previewInvite(token);
+
+  return createSuccessResponse("Invite retrieved successfully", invite);
+});
@@ -0,0 +1,30 @@
+import { createIdentityService } from "#server/services/identity";
+import { createSuccessResponse } from "#server/lib/response";
+import { sanitizeRedirectPath } from "#server/lib/oauth";
+import { magicLinkRequestSchema } from "#shared/validators/auth";
+import { sanitizeEmail } from "#server/lib/sanitize";
+
+// ========================================
+// POST /api/v1/auth/magic-link
+// ========================================
+// Email a single-use sign-in link (15 minutes)
+// Public route
+// Same response whether or not the address has an account
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+
+  // Validate with Zod schema
+  const validated = magicLinkRequestSchema.parse(body);
+
+  // Only same-origin paths make it into the link
+  const redirectTo = sanitizeRedirectPath(validated.redirectTo);
+
+  await createIdentityService(event).requestMagicLink(
+    sanitizeEmail(validated.email),
+    redirectTo
+  );
+
+  return createSuccessResponse("A sign-in link will be sent if the account exists");
+});
@@ -0,0 +1,42 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createIdentityService } from "#server/services/identity";
+import { createMfaService } from "#server/services/mfa";
+import { startUserSession } from "#server/utils/session";
+import { magicLinkVerifySchema } from "#shared/validators/auth";
+
+// ========================================
+// POST /api/v1/auth/magic-link/verify
+// ========================================
+// Sign in with the token from a magic link
+// Public route (no auth required)
+// Called by the /auth/magic-link page rather than the link itself, so
+// mail scanners opening links don't use up the token
+// Sets encrypted session cookie with permissions, or returns an
+// mfaToken when a second factor is needed
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { token } = magicLinkVerifySchema.parse(body);
+
+  const { user } = await createIdentityService(event).signInWithMagicLink(token);
+
+  // Second factor (2FA enabled, or required by one of the user's workspaces)
+  // No session yet - the client continues with POST /api/v1/auth/mfa/verify
+  const challenge = await createMfaService(event).createSignInChallenge(user.id);
+  if (challenge) {
+    return createSuccessResponse("Two-factor authentication required", {
+      mfaRequired: true,
+      ...challenge,
+    });
+  }
+
+  // Set session with user data and permissions
+  const { permissions, permissionVersion } = await startUserSession(event, user);
+
+  return createSuccessResponse("Signed in successfully", {
+    user,
+    permissions,
+    permissionVersion,
+  });
+});
@@ -0,0 +1,30 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createMfaService } from "#server/services/mfa";
+import { startUserSession } from "#server/utils/session";
+import { mfaSignInActivateSchema } from "#shared/validators/auth";
+
+// ========================================
+// POST /api/v1/auth/mfa/activate
+// ========================================
+// Confirm enrollment started by POST /api/v1/auth/mfa/setup
+// Public route (authorized by the mfaToken returned from signin)
+// Sets the session and returns the recovery codes (shown once)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { mfaToken, code } = mfaSignInActivateSchema.parse(body);
+
+  const { user, recoveryCodes } = await createMfaService(
+    event
+  ).activateSignInEnrollment(mfaToken, code);
+
+  const { permissions, permissionVersion } = await startUserSession(event, user);
+
+  return createSuccessResponse("Two-factor authentication enabled", {
+    user,
+    permissions,
+    permissionVersion,
+    recoveryCodes,
+  });
+});
@@ -0,0 +1,21 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createMfaService } from "#server/services/mfa";
+import { mfaSetupSchema } from "#shared/validators/auth";
+
+// ========================================
+// POST /api/v1/auth/mfa/setup
+// ========================================
+// Start authenticator enrollment during sign-in, for users whose
+// workspace requires 2FA (signin returned enrollmentRequired)
+// Refused once the user has any second factor (TOTP or passkey)
+// Public route (authorized by the mfaToken returned from signin)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { mfaToken } = mfaSetupSchema.parse(body);
+
+  const enrollment = await createMfaService(event).startSignInEnrollment(mfaToken);
+
+  return createSuccessResponse("Authenticator setup started", enrollment);
+});
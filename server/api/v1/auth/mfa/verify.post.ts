@@ -0,0 +1,30 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createMfaService } from "#server/services/mfa";
+import { startUserSession } from "#server/utils/session";
+import { mfaVerifySchema } from "#shared/validators/auth";
+
+// ========================================
+// POST /api/v1/auth/mfa/verify
+// ========================================
+// Second sign-in step: authenticator code or recovery code
+// Public route (authorized by the mfaToken returned from signin)
+// Sets encrypted session cookie with permissions
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { mfaToken, code, recoveryCode } = mfaVerifySchema.parse(body);
+
+  const user = await createMfaService(event).completeSignIn(mfaToken, {
+    code,
+    recoveryCode,
+  });
+
+  const { permissions, permissionVersion } = await startUserSession(event, user);
+
+  return createSuccessResponse("Signed in successfully", {
+    user,
+    permissions,
+    permissionVersion,
+  });
+});
@@ -0,0 +1,20 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createPasskeyService } from "#server/services/passkey";
+import { passkeyAuthenticationOptionsSchema } from "#shared/validators/passkey";
+
+// ========================================
+// POST /api/v1/auth/passkey/options
+// ========================================
+// WebAuthn authentication options for passkey sign-in
+// Public route (no auth required)
+// Pass the signin mfaToken to use a passkey as the second factor
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { mfaToken } = passkeyAuthenticationOptionsSchema.parse(body ?? {});
+
+  const ceremony = await createPasskeyService(event).startAuthentication(mfaToken);
+
+  return createSuccessResponse("Passkey options created", ceremony);
+});
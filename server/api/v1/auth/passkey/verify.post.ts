@@ -0,0 +1,32 @@
+import type { AuthenticationResponseJSON } from "@simplewebauthn/types";
+import { createSuccessResponse } from "#server/lib/response";
+import { createPasskeyService } from "#server/services/passkey";
+import { startUserSession } from "#server/utils/session";
+import { passkeyAuthenticationSchema } from "#shared/validators/passkey";
+
+// ========================================
+// POST /api/v1/auth/passkey/verify
+// ========================================
+// Sign in with a passkey (passwordless, or as the second factor)
+// Public route (no auth required)
+// Sets encrypted session cookie with permissions
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { challengeToken, response } = passkeyAuthenticationSchema.parse(body);
+
+  const user = await createPasskeyService(event).finishAuthentication({
+    challengeToken,
+    response: response as unknown as AuthenticationResponseJSON,
+  });
+
+  // A passkey is itself a second factor, so no 2FA challenge follows
+  const { permissions, permissionVersion } = await startUserSession(event, user);
+
+  return createSuccessResponse("Signed in successfully", {
+    user,
+    permissions,
+    permissionVersion,
+  });
+});
@@ -26,13 +26,10 @@ export default defineEventHandler(async (event) => {
 
   const identityService = createIdentityService(event);
 
-  const result = await identityService.requestPasswordReset(sanitizedEmail);
+  // The reset link is delivered by email only
+  await identityService.requestPasswordReset(sanitizedEmail);
 
   return createSuccessResponse(
-    "Password reset email will be sent if user exists",
-    {
-      //! TODO: Remove reset token from response in production
-      token: result.resetToken,
-    }
+    "Password reset email will be sent if user exists"
   );
 });
@@ -1,6 +1,7 @@
-import { ValidationError } from "#server/error/errors";
 import { createSuccessResponse } from "#server/lib/response";
 import { createIdentityService } from "#server/services/identity";
+import { createMfaService } from "#server/services/mfa";
+import { startUserSession } from "#server/utils/session";
 import { signinSchema } from "#shared/validators/auth";
 import { sanitizeEmail } from "#server/lib/sanitize";
 
@@ -9,7 +10,8 @@ import { sanitizeEmail } from "#server/lib/sanitize";
 // ========================================
 // Sign in with email and password
 // Public route (no auth required)
-// Sets encrypted session cookie with permissions
+// Sets encrypted session cookie with permissions, or returns an
+// mfaToken when a second factor is needed
 // ========================================
 
 export default defineEventHandler(async (event) => {
@@ -32,34 +34,18 @@ export default defineEventHandler(async (event) => {
     sanitized.password
   );
 
-  // Get user permissions (pass userId since context isn't set during sign-in)
-  const permissions = await identityService.getUserPermissions(user.id);
-
-  // Get permission version
-  const permissionVersion = await identityService.getPermissionVersion(user.id);
-
-  // Warn if permissions exceed 100 (session size concern)
-  if (permissions.length > 100) {
-    console.warn(
-      `[WARN] User ${user.id} has ${permissions.length} permissions (>100). Consider refactoring permission model.`
-    );
+  // Second factor (2FA enabled, or required by one of the user's workspaces)
+  // No session yet - the client continues with POST /api/v1/auth/mfa/verify
+  const challenge = await createMfaService(event).createSignInChallenge(user.id);
+  if (challenge) {
+    return createSuccessResponse("Two-factor authentication required", {
+      mfaRequired: true,
+      ...challenge,
+    });
   }
 
   // Set session with user data and permissions
-  // NOTE: nuxt-auth-utils requires a 'user' key for loggedIn to work
-  // IMPORTANT: workspaceId is bound to session to prevent cross-workspace access
-  await setUserSession(event, {
-    user: {
-      id: user.id,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-    },
-    workspaceId: event.context.workspaceId, // Bind session to workspace (prevents cross-workspace session reuse)
-    permissions,
-    permissionVersion,
-    loggedInAt: Date.now(),
-  });
+  const { permissions, permissionVersion } = await startUserSession(event, user);
 
   return createSuccessResponse("Signed in successfully", {
     user,
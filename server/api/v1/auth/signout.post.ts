@@ -1,4 +1,5 @@
 import { createSuccessResponse } from "#server/lib/response";
+import { createSessionService } from "#server/services/session";
 
 // ========================================
 // POST /api/v1/auth/signout
@@ -8,7 +9,10 @@ import { createSuccessResponse } from "#server/lib/response";
 // ========================================
 
 export default defineEventHandler(async (event) => {
-  // Clear user session using nuxt-auth-utils
+  // Revoke the server-side session, then clear the cookie (nuxt-auth-utils)
+  const session = await getUserSession(event);
+  await createSessionService(event).endSession(session.sessionId);
+
   await clearUserSession(event);
 
   return createSuccessResponse("Signed out successfully");
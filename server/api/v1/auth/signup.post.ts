@@ -1,4 +1,5 @@
 import { createIdentityService } from "#server/services/identity";
+import { createWorkspaceService } from "#server/services/workspace";
 import { ValidationError } from "#server/error/errors";
 import { createSuccessResponse } from "#server/lib/response";
 import { signupSchema } from "#shared/validators/auth";
@@ -8,6 +9,7 @@ import { sanitizeEmail, sanitizeHtml } from "#server/lib/sanitize";
 // POST /api/v1/auth/signup
 // ========================================
 // Register a new user account
+// With inviteToken: joins the invited workspace and skips onboarding
 // Public route (no auth required)
 // ========================================
 
@@ -26,8 +28,17 @@ export default defineEventHandler(async (event) => {
     lastName: sanitizeHtml(validated.lastName),
   };
 
-  // Create identity service
+  // Create services
   const identityService = createIdentityService(event);
+  const workspaceService = createWorkspaceService(event);
+
+  // Validate invite before creating the user (must be addressed to this email)
+  const pendingInvite = validated.inviteToken
+    ? await workspaceService.getAcceptableInvite(
+        validated.inviteToken,
+        sanitized.email
+      )
+    : null;
 
   // Sign up user (database is already selected by workspace middleware)
   const result = await identityService.signUp({
@@ -37,6 +48,14 @@ export default defineEventHandler(async (event) => {
     lastName: sanitized.lastName,
   });
 
+  // Join the invited workspace (membership + onboarding flag in one batch)
+  if (pendingInvite) {
+    await workspaceService.acceptInviteForUser(
+      pendingInvite.invite,
+      result.user.id
+    );
+  }
+
   // Return user and email confirmation token
   return createSuccessResponse(
     "Account created successfully. Please confirm your email."
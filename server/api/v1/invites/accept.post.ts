@@ -0,0 +1,21 @@
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+import { acceptWorkspaceInviteSchema } from "#shared/validators/workspace";
+
+// ========================================
+// POST /api/v1/invites/accept
+// ========================================
+// Accept a workspace invite as the signed-in user
+// Requires authentication (invite must match the user's email)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const validated = acceptWorkspaceInviteSchema.parse(body);
+
+  const workspaceService = createWorkspaceService(event);
+
+  const workspace = await workspaceService.acceptInvite(validated.token);
+
+  return createSuccessResponse("Invite accepted successfully", workspace);
+});
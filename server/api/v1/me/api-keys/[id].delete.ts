@@ -0,0 +1,23 @@
+import { getRouterParam } from "h3";
+import { createSuccessResponse } from "#server/lib/response";
+import { createApiKeyService } from "#server/services/apiKey";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// DELETE /api/v1/me/api-keys/:id
+// ========================================
+// Revoke one of the current user's API keys
+// Requires a session (not an API key)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, "id");
+
+  if (!id) {
+    throw new MissingFieldError("id");
+  }
+
+  await createApiKeyService(event).revokeKey(id);
+
+  return createSuccessResponse("API key revoked successfully");
+});
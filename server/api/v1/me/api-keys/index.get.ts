@@ -0,0 +1,15 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createApiKeyService } from "#server/services/apiKey";
+
+// ========================================
+// GET /api/v1/me/api-keys
+// ========================================
+// List the current user's active API keys (secrets are never returned)
+// Requires a session (not an API key)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const apiKeys = await createApiKeyService(event).listKeys();
+
+  return createSuccessResponse("API keys retrieved successfully", apiKeys);
+});
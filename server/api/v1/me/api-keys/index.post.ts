@@ -0,0 +1,20 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createApiKeyService } from "#server/services/apiKey";
+import { apiKeyCreateSchema } from "#shared/validators/apiKey";
+
+// ========================================
+// POST /api/v1/me/api-keys
+// ========================================
+// Create an API key in the current workspace
+// Requires a session (not an API key)
+// The secret is in this response only - it can't be retrieved later
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const input = apiKeyCreateSchema.parse(body);
+
+  const result = await createApiKeyService(event).createKey(input);
+
+  return createSuccessResponse("API key created successfully", result);
+});
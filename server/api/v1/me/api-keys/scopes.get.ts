@@ -0,0 +1,16 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createApiKeyService } from "#server/services/apiKey";
+
+// ========================================
+// GET /api/v1/me/api-keys/scopes
+// ========================================
+// Permissions the current user can give an API key (the ones they hold
+// in the current workspace)
+// Requires a session (not an API key)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const scopes = await createApiKeyService(event).listScopes();
+
+  return createSuccessResponse("API key scopes retrieved successfully", scopes);
+});
@@ -0,0 +1,15 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createAccountService } from "#server/services/account";
+
+// ========================================
+// DELETE /api/v1/me/deletion
+// ========================================
+// Cancel the scheduled deletion of the current user's account
+// Requires authentication (during the grace period)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const user = await createAccountService(event).cancelDeletion();
+
+  return createSuccessResponse("Account deletion cancelled", user);
+});
@@ -0,0 +1,26 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createAccountService } from "#server/services/account";
+import { accountDeletionSchema } from "#shared/validators/user";
+
+// ========================================
+// POST /api/v1/me/deletion
+// ========================================
+// Schedule the deletion of the current user's account
+// Requires authentication and the current password (accounts without one
+// must have signed in within the last 10 minutes)
+// Workspace owners must transfer their workspaces first
+// Personal data is erased after a 30-day grace period (accounts:purge task)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const input = accountDeletionSchema.parse(body);
+
+  const session = await getUserSession(event);
+  const user = await createAccountService(event).requestDeletion(
+    input,
+    session.loggedInAt
+  );
+
+  return createSuccessResponse("Account deletion scheduled", user);
+});
@@ -0,0 +1,21 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createIdentityService } from "#server/services/identity";
+import { emailChangeRequestSchema } from "#shared/validators/auth";
+
+// ========================================
+// POST /api/v1/me/email
+// ========================================
+// Start an email change: a confirmation link goes to the new address and
+// a notice to the current one
+// Requires authentication (and the current password if one is set)
+// The address only changes once the link is used (POST /api/v1/auth/email/change)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { newEmail, currentPassword } = emailChangeRequestSchema.parse(body);
+
+  await createIdentityService(event).requestEmailChange(newEmail, currentPassword);
+
+  return createSuccessResponse("Confirmation sent to the new email address");
+});
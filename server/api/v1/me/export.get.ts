@@ -0,0 +1,22 @@
+import { setHeader } from "h3";
+import { createAccountService } from "#server/services/account";
+
+// ========================================
+// GET /api/v1/me/export
+// ========================================
+// Download the current user's personal data as a JSON file: account,
+// settings, workspace memberships and the audit history of their actions
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const archive = await createAccountService(event).exportData();
+
+  setHeader(
+    event,
+    "Content-Disposition",
+    `attachment; filename="account-export-${archive.exportedAt.slice(0, 10)}.json"`
+  );
+
+  return archive;
+});
@@ -0,0 +1,24 @@
+import { getRouterParam } from "h3";
+import { createSuccessResponse } from "#server/lib/response";
+import { createIdentityService } from "#server/services/identity";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// DELETE /api/v1/me/identities/:id
+// ========================================
+// Unlink one of the current user's OAuth accounts
+// Refused (LAST_LOGIN_METHOD) when no other way to sign in remains
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, "id");
+
+  if (!id) {
+    throw new MissingFieldError("id");
+  }
+
+  await createIdentityService(event).unlinkIdentity(id);
+
+  return createSuccessResponse("Account unlinked successfully");
+});
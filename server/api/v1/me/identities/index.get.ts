@@ -0,0 +1,16 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createIdentityService } from "#server/services/identity";
+
+// ========================================
+// GET /api/v1/me/identities
+// ========================================
+// The current user's ways to sign in: password, linked OAuth
+// accounts and number of passkeys
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const methods = await createIdentityService(event).getLoginMethods();
+
+  return createSuccessResponse("Login methods retrieved successfully", methods);
+});
@@ -0,0 +1,36 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { getOAuthProvider, startOAuthAuthorization } from "#server/lib/oauth";
+import { AuthenticationError, NotFoundError } from "#server/error/errors";
+import { identityLinkSchema } from "#shared/validators/auth";
+
+// ========================================
+// POST /api/v1/me/identities
+// ========================================
+// Start linking an OAuth provider to the current user
+// Requires authentication
+// Returns the provider authorization URL; the callback
+// (/api/auth/:provider/callback) links the account and
+// redirects back to /settings
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.userId;
+  if (!userId) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  const body = await readBody(event);
+  const { provider: providerId } = identityLinkSchema.parse(body);
+
+  const provider = await getOAuthProvider(event, providerId);
+  if (!provider) {
+    throw new NotFoundError("OAuth provider not found", { provider: providerId });
+  }
+
+  // The state carries the user so the callback links instead of signing in
+  const authorizationUrl = await startOAuthAuthorization(event, provider, {
+    linkUserId: userId,
+  });
+
+  return createSuccessResponse("Authorization URL created", { authorizationUrl });
+});
@@ -0,0 +1,24 @@
+import { createImpersonationService } from "#server/services/impersonation";
+import { createSuccessResponse } from "#server/lib/response";
+import { stopImpersonationSession } from "#server/utils/session";
+
+// ========================================
+// DELETE /api/v1/me/impersonation
+// ========================================
+// Stop impersonating and return to the admin's own session
+// Requires a browser session started by POST /api/v1/users/:userId/impersonate
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const admin = await createImpersonationService(event).stopImpersonation();
+  const { permissions, permissionVersion } = await stopImpersonationSession(
+    event,
+    admin
+  );
+
+  return createSuccessResponse("Impersonation stopped", {
+    user: admin,
+    permissions,
+    permissionVersion,
+  });
+});
@@ -0,0 +1,15 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createMfaService } from "#server/services/mfa";
+
+// ========================================
+// GET /api/v1/me/mfa
+// ========================================
+// Two-factor authentication status for the settings page
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const status = await createMfaService(event).getStatus();
+
+  return createSuccessResponse("Two-factor status retrieved successfully", status);
+});
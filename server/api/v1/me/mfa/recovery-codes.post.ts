@@ -0,0 +1,19 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createMfaService } from "#server/services/mfa";
+import { mfaCredentialsSchema } from "#shared/validators/auth";
+
+// ========================================
+// POST /api/v1/me/mfa/recovery-codes
+// ========================================
+// Replace all recovery codes (old codes stop working)
+// Requires authentication and a current code or recovery code
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const credentials = mfaCredentialsSchema.parse(body);
+
+  const result = await createMfaService(event).regenerateRecoveryCodes(credentials);
+
+  return createSuccessResponse("Recovery codes regenerated", result);
+});
@@ -0,0 +1,20 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createMfaService } from "#server/services/mfa";
+import { mfaCredentialsSchema } from "#shared/validators/auth";
+
+// ========================================
+// DELETE /api/v1/me/mfa/totp
+// ========================================
+// Turn off two-factor authentication
+// Requires authentication and a current code or recovery code
+// Rejected while a workspace the user belongs to requires 2FA
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const credentials = mfaCredentialsSchema.parse(body);
+
+  await createMfaService(event).disable(credentials);
+
+  return createSuccessResponse("Two-factor authentication disabled");
+});
@@ -0,0 +1,20 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createMfaService } from "#server/services/mfa";
+import { mfaActivateSchema } from "#shared/validators/auth";
+
+// ========================================
+// POST /api/v1/me/mfa/totp/activate
+// ========================================
+// Confirm enrollment with the first code from the authenticator app
+// Requires authentication
+// Returns the recovery codes (shown once)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { code } = mfaActivateSchema.parse(body);
+
+  const result = await createMfaService(event).activate(code);
+
+  return createSuccessResponse("Two-factor authentication enabled", result);
+});
@@ -0,0 +1,16 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createMfaService } from "#server/services/mfa";
+
+// ========================================
+// POST /api/v1/me/mfa/totp/setup
+// ========================================
+// Start authenticator enrollment: returns the secret and a QR code
+// Requires authentication
+// 2FA stays off until POST /api/v1/me/mfa/totp/activate
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const enrollment = await createMfaService(event).startEnrollment();
+
+  return createSuccessResponse("Authenticator setup started", enrollment);
+});
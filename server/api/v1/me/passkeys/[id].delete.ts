@@ -0,0 +1,23 @@
+import { getRouterParam } from "h3";
+import { createSuccessResponse } from "#server/lib/response";
+import { createPasskeyService } from "#server/services/passkey";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// DELETE /api/v1/me/passkeys/:id
+// ========================================
+// Remove one of the current user's passkeys
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, "id");
+
+  if (!id) {
+    throw new MissingFieldError("id");
+  }
+
+  await createPasskeyService(event).deletePasskey(id);
+
+  return createSuccessResponse("Passkey removed successfully");
+});
@@ -0,0 +1,27 @@
+import { getRouterParam } from "h3";
+import { createSuccessResponse } from "#server/lib/response";
+import { createPasskeyService } from "#server/services/passkey";
+import { MissingFieldError } from "#server/error/errors";
+import { passkeyRenameSchema } from "#shared/validators/passkey";
+
+// ========================================
+// PATCH /api/v1/me/passkeys/:id
+// ========================================
+// Rename one of the current user's passkeys
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, "id");
+
+  if (!id) {
+    throw new MissingFieldError("id");
+  }
+
+  const body = await readBody(event);
+  const { nickname } = passkeyRenameSchema.parse(body);
+
+  const passkey = await createPasskeyService(event).renamePasskey(id, nickname);
+
+  return createSuccessResponse("Passkey renamed successfully", passkey);
+});
@@ -0,0 +1,15 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createPasskeyService } from "#server/services/passkey";
+
+// ========================================
+// GET /api/v1/me/passkeys
+// ========================================
+// List the current user's passkeys
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const passkeys = await createPasskeyService(event).listPasskeys();
+
+  return createSuccessResponse("Passkeys retrieved successfully", passkeys);
+});
@@ -0,0 +1,25 @@
+import type { RegistrationResponseJSON } from "@simplewebauthn/types";
+import { createSuccessResponse } from "#server/lib/response";
+import { createPasskeyService } from "#server/services/passkey";
+import { passkeyRegistrationSchema } from "#shared/validators/passkey";
+
+// ========================================
+// POST /api/v1/me/passkeys
+// ========================================
+// Register a passkey (authenticator response to /options)
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { challengeToken, response, nickname } =
+    passkeyRegistrationSchema.parse(body);
+
+  const passkey = await createPasskeyService(event).finishRegistration({
+    challengeToken,
+    response: response as unknown as RegistrationResponseJSON,
+    nickname,
+  });
+
+  return createSuccessResponse("Passkey registered successfully", passkey);
+});
@@ -0,0 +1,16 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createPasskeyService } from "#server/services/passkey";
+
+// ========================================
+// POST /api/v1/me/passkeys/options
+// ========================================
+// WebAuthn registration options for a new passkey
+// Requires authentication
+// Finish with POST /api/v1/me/passkeys
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const ceremony = await createPasskeyService(event).startRegistration();
+
+  return createSuccessResponse("Passkey options created", ceremony);
+});
@@ -0,0 +1,19 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createIdentityService } from "#server/services/identity";
+import { passwordSetSchema } from "#shared/validators/auth";
+
+// ========================================
+// POST /api/v1/me/password
+// ========================================
+// Set a password for an account created through OAuth
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { newPassword } = passwordSetSchema.parse(body);
+
+  await createIdentityService(event).setPassword(newPassword);
+
+  return createSuccessResponse("Password set successfully");
+});
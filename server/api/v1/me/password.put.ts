@@ -0,0 +1,26 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createIdentityService } from "#server/services/identity";
+import { passwordChangeSchema } from "#shared/validators/auth";
+
+// ========================================
+// PUT /api/v1/me/password
+// ========================================
+// Change the password (requires the current one)
+// Requires authentication
+// Other devices are signed out, this one stays signed in
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const { currentPassword, newPassword } = passwordChangeSchema.parse(body);
+
+  const session = await getUserSession(event);
+
+  await createIdentityService(event).changePassword(
+    currentPassword,
+    newPassword,
+    session.sessionId
+  );
+
+  return createSuccessResponse("Password changed successfully");
+});
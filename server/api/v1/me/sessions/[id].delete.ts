@@ -0,0 +1,29 @@
+import { getRouterParam } from "h3";
+import { createSuccessResponse } from "#server/lib/response";
+import { createSessionService } from "#server/services/session";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// DELETE /api/v1/me/sessions/:id
+// ========================================
+// Sign out one device
+// Requires authentication
+// Revoking the current session also clears its cookie
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, "id");
+
+  if (!id) {
+    throw new MissingFieldError("id");
+  }
+
+  await createSessionService(event).revokeSession(id);
+
+  const session = await getUserSession(event);
+  if (session.sessionId === id) {
+    await clearUserSession(event);
+  }
+
+  return createSuccessResponse("Session signed out successfully");
+});
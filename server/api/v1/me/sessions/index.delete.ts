@@ -0,0 +1,21 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createSessionService } from "#server/services/session";
+
+// ========================================
+// DELETE /api/v1/me/sessions
+// ========================================
+// Sign out all other devices (the current session stays)
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const session = await getUserSession(event);
+
+  const revoked = await createSessionService(event).revokeOtherSessions(
+    session.sessionId
+  );
+
+  return createSuccessResponse("Other sessions signed out successfully", {
+    revoked,
+  });
+});
@@ -0,0 +1,19 @@
+import { createSuccessResponse } from "#server/lib/response";
+import { createSessionService } from "#server/services/session";
+
+// ========================================
+// GET /api/v1/me/sessions
+// ========================================
+// List the devices the current user is signed in on
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const session = await getUserSession(event);
+
+  const sessions = await createSessionService(event).listSessions(
+    session.sessionId
+  );
+
+  return createSuccessResponse("Sessions retrieved successfully", sessions);
+});
@@ -0,0 +1,25 @@
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+
+// ========================================
+// GET /api/v1/me/workspaces
+// ========================================
+// List the current user's workspaces for the workspace switcher
+// Requires authentication
+// isCurrent marks the workspace bound to the session
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceService = createWorkspaceService(event);
+
+  const workspaces = await workspaceService.listMyWorkspaces();
+  const currentWorkspaceId = event.context.workspaceId;
+
+  return createSuccessResponse(
+    "Workspaces retrieved successfully",
+    workspaces.map((workspace) => ({
+      ...workspace,
+      isCurrent: workspace.id === currentWorkspaceId,
+    }))
+  );
+});
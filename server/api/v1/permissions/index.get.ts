@@ -1,18 +1,15 @@
 import { defineEventHandler } from "h3";
-import { getRBACService, requirePermission } from "#server/services/rbac";
+import { getRBACService } from "#server/services/rbac";
 import { createSuccessResponse } from "#server/lib/response";
 
 // ========================================
 // GET /api/v1/permissions
 // ========================================
 // List all available permissions (config-defined)
-// Requires authentication and roles:view permission
+// Requires authentication and roles:read permission (server/config/routes.ts)
 // ========================================
 
 export default defineEventHandler(async (event) => {
-  // Check permission
-  await requirePermission(event, "roles:read");
-
   // Get config-defined permission definitions
   const rbacService = getRBACService(event);
   const definitions = rbacService.getPermissionDefinitions();
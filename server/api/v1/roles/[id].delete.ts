@@ -0,0 +1,24 @@
+import { defineEventHandler, getRouterParam } from "h3";
+import { createRoleService } from "#server/services/role";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// DELETE /api/v1/roles/:id
+// ========================================
+// Delete a custom role that no member holds anymore
+// Requires authentication and roles:delete permission (server/config/routes.ts)
+// System roles cannot be deleted
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const roleName = getRouterParam(event, "id");
+  if (!roleName) {
+    throw new MissingFieldError("id");
+  }
+
+  const roleService = createRoleService(event);
+  await roleService.deleteRole(roleName);
+
+  return createSuccessResponse("Role deleted successfully");
+});
@@ -1,40 +1,34 @@
 import { defineEventHandler, getRouterParam } from "h3";
-import { getRBACService, requirePermission } from "#server/services/rbac";
+import { getRBACService } from "#server/services/rbac";
 import { createSuccessResponse } from "#server/lib/response";
 import { MissingFieldError, NotFoundError } from "#server/error/errors";
-import type { RoleName } from "#server/config/rbac";
 
 // ========================================
 // GET /api/v1/roles/:id
 // ========================================
-// Get role by name (config-defined)
-// Requires authentication and roles:view permission
+// Get role by name (config-defined or workspace custom role)
+// Requires authentication and roles:read permission (server/config/routes.ts)
 // ========================================
 
 export default defineEventHandler(async (event) => {
-  // Check permission
-  await requirePermission(event, "roles:read");
-
   const roleName = getRouterParam(event, "id");
   if (!roleName) {
     throw new MissingFieldError("id");
   }
 
   const rbacService = getRBACService(event);
+  const role = await rbacService.findRole(roleName);
 
-  // Validate role exists in config
-  if (!rbacService.isValidRole(roleName)) {
+  if (!role) {
     throw new NotFoundError("Role");
   }
 
-  const roleConfig = rbacService.getRoleConfig(roleName as RoleName);
-
   const roleData = {
-    name: roleName,
-    displayName: roleConfig?.name,
-    description: roleConfig?.description,
-    permissions: roleConfig?.permissions,
-    isSystem: true,
+    name: role.name,
+    displayName: role.config.name,
+    description: role.config.description,
+    permissions: role.config.permissions,
+    isSystem: role.isSystem,
   };
 
   return createSuccessResponse("Role retrieved successfully", roleData);
@@ -0,0 +1,37 @@
+import { defineEventHandler, getRouterParam, readBody } from "h3";
+import { createRoleService } from "#server/services/role";
+import { createSuccessResponse } from "#server/lib/response";
+import { sanitizeHtml } from "#server/lib/sanitize";
+import { MissingFieldError } from "#server/error/errors";
+import { updateRoleSchema } from "#shared/validators/role";
+
+// ========================================
+// PUT /api/v1/roles/:id
+// ========================================
+// Update a custom role (details and/or full permission set)
+// Requires authentication and roles:update permission (server/config/routes.ts)
+// System roles cannot be modified
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const roleName = getRouterParam(event, "id");
+  if (!roleName) {
+    throw new MissingFieldError("id");
+  }
+
+  const body = await readBody(event);
+  const validated = updateRoleSchema.parse(body);
+
+  const roleService = createRoleService(event);
+  const role = await roleService.updateRole(roleName, {
+    ...validated,
+    displayName: validated.displayName
+      ? sanitizeHtml(validated.displayName)
+      : undefined,
+    description: validated.description
+      ? sanitizeHtml(validated.description)
+      : validated.description,
+  });
+
+  return createSuccessResponse("Role updated successfully", role);
+});
@@ -1,29 +1,26 @@
 import { defineEventHandler } from "h3";
-import { requirePermission, getRBACService } from "#server/services/rbac";
+import { getRBACService } from "#server/services/rbac";
 import { createSuccessResponse } from "#server/lib/response";
 
 // ========================================
 // GET /api/v1/roles
 // ========================================
-// List all available roles (config-defined)
-// Requires authentication and roles:view permission
+// List all available roles (config-defined + workspace custom roles)
+// Requires authentication and roles:read permission (server/config/routes.ts)
 // ========================================
 
 export default defineEventHandler(async (event) => {
-  // Check permission
-  await requirePermission(event, "roles:read");
-
-  // Get config-defined roles from RBAC service
+  // System roles first, then the current workspace's custom roles
   const rbacService = getRBACService(event);
-  const roles = rbacService.getAvailableRoles();
+  const roles = await rbacService.listRoles();
 
   // Transform to API response format
-  const rolesData = roles.map(({ name, config }) => ({
+  const rolesData = roles.map(({ name, config, isSystem }) => ({
     name,
     displayName: config.name,
     description: config.description,
     permissions: config.permissions,
-    isSystem: true, // Config roles are considered system roles
+    isSystem,
   }));
 
   return createSuccessResponse("Roles retrieved successfully", rolesData);
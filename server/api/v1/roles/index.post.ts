@@ -0,0 +1,28 @@
+import { defineEventHandler, readBody } from "h3";
+import { createRoleService } from "#server/services/role";
+import { createSuccessResponse } from "#server/lib/response";
+import { sanitizeHtml } from "#server/lib/sanitize";
+import { createRoleSchema } from "#shared/validators/role";
+
+// ========================================
+// POST /api/v1/roles
+// ========================================
+// Create a custom role in the current workspace
+// Requires authentication and roles:create permission (server/config/routes.ts)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const validated = createRoleSchema.parse(body);
+
+  const roleService = createRoleService(event);
+  const role = await roleService.createRole({
+    ...validated,
+    displayName: sanitizeHtml(validated.displayName),
+    description: validated.description
+      ? sanitizeHtml(validated.description)
+      : undefined,
+  });
+
+  return createSuccessResponse("Role created successfully", role);
+});
@@ -2,19 +2,15 @@ import { getRouterParam } from "h3";
 import { createIdentityService } from "#server/services/identity";
 import { createSuccessResponse } from "#server/lib/response";
 import { MissingFieldError } from "#server/error/errors";
-import { requirePermission } from "#server/services/rbac";
 
 // ========================================
 // GET /api/v1/user/:id
 // ========================================
 // Get user by ID
-// Requires authentication and users:view permission
+// Requires authentication and users:read permission (server/config/routes.ts)
 // ========================================
 
 export default defineEventHandler(async (event) => {
-  // Check permission
-  await requirePermission(event, "users:read");
-
   const userId = getRouterParam(event, "id");
 
   if (!userId) {
@@ -1,6 +1,5 @@
 import { createIdentityService } from '#server/services/identity'
 import { createSuccessResponse } from '#server/lib/response'
-import { requirePermission } from '#server/services/rbac'
 import {
   parseListQuery,
   validateSortField,
@@ -12,7 +11,7 @@ import { calculateLimitOffset, buildPaginatedResponse } from '#server/utils/pagi
 // GET /api/v1/user
 // ========================================
 // List users with pagination, filtering, and sorting
-// Requires authentication and users:view permission
+// Requires authentication and users:read permission (server/config/routes.ts)
 // ========================================
 // Query Parameters:
 //   - page: Page number (default: 1)
@@ -23,9 +22,6 @@ import { calculateLimitOffset, buildPaginatedResponse } from '#server/utils/pagi
 // ========================================
 
 export default defineEventHandler(async (event) => {
-  // Check permission
-  await requirePermission(event, 'users:read')
-
   // Parse query parameters
   const query = parseListQuery(event)
 
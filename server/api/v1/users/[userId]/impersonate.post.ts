@@ -0,0 +1,39 @@
+import { getRouterParam } from "h3";
+import { createImpersonationService } from "#server/services/impersonation";
+import { createSuccessResponse } from "#server/lib/response";
+import { startImpersonationSession } from "#server/utils/session";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// POST /api/v1/users/:userId/impersonate
+// ========================================
+// Act as a member of the current workspace (support "view as")
+// Requires a browser session and users:impersonate (server/config/routes.ts)
+// The target can't hold permissions the admin lacks; audit entries written
+// meanwhile carry the admin in metadata.impersonatorId
+// Ended by DELETE /api/v1/me/impersonation, or after an hour
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const userId = getRouterParam(event, "userId");
+
+  if (!userId) {
+    throw new MissingFieldError("userId");
+  }
+
+  const impersonationService = createImpersonationService(event);
+  const user = await impersonationService.startImpersonation(userId);
+  const { permissions, permissionVersion } = await startImpersonationSession(
+    event,
+    user
+  );
+
+  // Audited only once the session has been replaced
+  await impersonationService.recordImpersonationStarted(user);
+
+  return createSuccessResponse("Impersonation started", {
+    user,
+    permissions,
+    permissionVersion,
+  });
+});
@@ -1,19 +1,16 @@
 import { defineEventHandler, getRouterParam } from "h3";
-import { getRBACService, requirePermission } from "#server/services/rbac";
+import { getRBACService } from "#server/services/rbac";
 import { createSuccessResponse } from "#server/lib/response";
 import { MissingFieldError, NotFoundError } from "#server/error/errors";
 
 // ========================================
 // GET /api/v1/users/:userId/roles
 // ========================================
-// Get user's role (config-based single role per user)
-// Requires authentication and users:view permission
+// Get user's role in the current workspace (system or custom role)
+// Requires authentication and users:read permission (server/config/routes.ts)
 // ========================================
 
 export default defineEventHandler(async (event) => {
-  // Check permission
-  await requirePermission(event, "users:read");
-
   const userId = getRouterParam(event, "userId");
   if (!userId) {
     throw new MissingFieldError("userId");
@@ -26,14 +23,14 @@ export default defineEventHandler(async (event) => {
     throw new NotFoundError("User");
   }
 
-  // Get role config for additional details
-  const roleConfig = rbacService.getRoleConfig(roleName);
+  // Get role config for additional details (system or custom role)
+  const role = await rbacService.findRole(roleName);
 
   const roleData = {
     name: roleName,
-    displayName: roleConfig?.name,
-    description: roleConfig?.description,
-    permissions: roleConfig?.permissions,
+    displayName: role?.config.name,
+    description: role?.config.description,
+    permissions: role?.config.permissions,
   };
 
   return createSuccessResponse("User role retrieved successfully", roleData);
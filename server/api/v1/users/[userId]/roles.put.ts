@@ -0,0 +1,50 @@
+import { defineEventHandler, getRouterParam, readBody } from "h3";
+import { getRBACService } from "#server/services/rbac";
+import { createRoleService } from "#server/services/role";
+import { createSuccessResponse } from "#server/lib/response";
+import {
+  AuthenticationError,
+  MissingFieldError,
+  PermissionDeniedError,
+} from "#server/error/errors";
+import { assignUserRoleSchema } from "#shared/validators/role";
+
+// ========================================
+// PUT /api/v1/users/:userId/roles
+// ========================================
+// Assign a role to a user (workspace role, or global role without a workspace)
+// Requires authentication and users:update or roles:update permission
+// Cannot grant/revoke roles above your own or demote the last admin
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const actorId = event.context.userId;
+  if (!actorId) {
+    throw new AuthenticationError("User not authenticated");
+  }
+
+  // Check permission (either one is enough)
+  const rbacService = getRBACService(event);
+  const allowed = await rbacService.userHasAnyPermission(actorId, [
+    "users:update",
+    "roles:update",
+  ]);
+  if (!allowed) {
+    throw new PermissionDeniedError(
+      "Permission denied: users:update or roles:update required"
+    );
+  }
+
+  const userId = getRouterParam(event, "userId");
+  if (!userId) {
+    throw new MissingFieldError("userId");
+  }
+
+  const body = await readBody(event);
+  const validated = assignUserRoleSchema.parse(body);
+
+  const roleService = createRoleService(event);
+  const result = await roleService.assignUserRole(userId, validated.role);
+
+  return createSuccessResponse("User role updated successfully", result);
+});
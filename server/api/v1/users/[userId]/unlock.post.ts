@@ -0,0 +1,26 @@
+import { getRouterParam } from "h3";
+import { createIdentityService } from "#server/services/identity";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// POST /api/v1/users/:userId/unlock
+// ========================================
+// Lift a lock left by too many failed sign-ins
+// Requires authentication and users:update permission (server/config/routes.ts)
+// A password reset also unlocks the account
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const userId = getRouterParam(event, "userId");
+
+  if (!userId) {
+    throw new MissingFieldError("userId");
+  }
+
+  const identityService = createIdentityService(event);
+
+  const user = await identityService.unlockUser(userId);
+
+  return createSuccessResponse("User unlocked successfully", user);
+});
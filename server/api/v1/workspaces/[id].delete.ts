@@ -0,0 +1,25 @@
+import { getRouterParam } from "h3";
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// DELETE /api/v1/workspaces/:id
+// ========================================
+// Soft delete an archived workspace
+// Requires authentication (workspace owner)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceId = getRouterParam(event, "id");
+
+  if (!workspaceId) {
+    throw new MissingFieldError("id");
+  }
+
+  const workspaceService = createWorkspaceService(event);
+
+  await workspaceService.deleteWorkspace(workspaceId);
+
+  return createSuccessResponse("Workspace deleted successfully");
+});
@@ -0,0 +1,25 @@
+import { getRouterParam } from "h3";
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// GET /api/v1/workspaces/:id
+// ========================================
+// Get a workspace the current user is a member of
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceId = getRouterParam(event, "id");
+
+  if (!workspaceId) {
+    throw new MissingFieldError("id");
+  }
+
+  const workspaceService = createWorkspaceService(event);
+
+  const workspace = await workspaceService.getWorkspace(workspaceId);
+
+  return createSuccessResponse("Workspace retrieved successfully", workspace);
+});
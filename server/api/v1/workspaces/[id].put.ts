@@ -0,0 +1,36 @@
+import { getRouterParam } from "h3";
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+import { updateWorkspaceSchema } from "#shared/validators/workspace";
+import { sanitizeHtml } from "#server/lib/sanitize";
+
+// ========================================
+// PUT /api/v1/workspaces/:id
+// ========================================
+// Rename a workspace or update its description
+// Requires authentication (workspace owner or admin)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceId = getRouterParam(event, "id");
+
+  if (!workspaceId) {
+    throw new MissingFieldError("id");
+  }
+
+  const body = await readBody(event);
+  const validated = updateWorkspaceSchema.parse(body);
+
+  const workspaceService = createWorkspaceService(event);
+
+  const workspace = await workspaceService.updateWorkspace(workspaceId, {
+    name: validated.name ? sanitizeHtml(validated.name) : undefined,
+    description:
+      validated.description === undefined || validated.description === null
+        ? validated.description
+        : sanitizeHtml(validated.description),
+  });
+
+  return createSuccessResponse("Workspace updated successfully", workspace);
+});
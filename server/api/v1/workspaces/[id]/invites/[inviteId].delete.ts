@@ -0,0 +1,29 @@
+import { getRouterParam } from "h3";
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// DELETE /api/v1/workspaces/:id/invites/:inviteId
+// ========================================
+// Revoke a pending invite
+// Requires authentication (workspace owner or admin)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceId = getRouterParam(event, "id");
+  const inviteId = getRouterParam(event, "inviteId");
+
+  if (!workspaceId) {
+    throw new MissingFieldError("id");
+  }
+  if (!inviteId) {
+    throw new MissingFieldError("inviteId");
+  }
+
+  const workspaceService = createWorkspaceService(event);
+
+  await workspaceService.revokeInvite(workspaceId, inviteId);
+
+  return createSuccessResponse("Invite revoked successfully");
+});
@@ -0,0 +1,25 @@
+import { getRouterParam } from "h3";
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// GET /api/v1/workspaces/:id/invites
+// ========================================
+// List pending invites for a workspace
+// Requires authentication (workspace owner or admin)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceId = getRouterParam(event, "id");
+
+  if (!workspaceId) {
+    throw new MissingFieldError("id");
+  }
+
+  const workspaceService = createWorkspaceService(event);
+
+  const invites = await workspaceService.listInvites(workspaceId);
+
+  return createSuccessResponse("Invites retrieved successfully", invites);
+});
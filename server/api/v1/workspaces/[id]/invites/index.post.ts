@@ -0,0 +1,34 @@
+import { getRouterParam } from "h3";
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+import { createWorkspaceInviteSchema } from "#shared/validators/workspace";
+import { sanitizeEmail } from "#server/lib/sanitize";
+
+// ========================================
+// POST /api/v1/workspaces/:id/invites
+// ========================================
+// Invite an email address to join the workspace
+// Requires authentication (workspace owner or admin)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceId = getRouterParam(event, "id");
+
+  if (!workspaceId) {
+    throw new MissingFieldError("id");
+  }
+
+  const body = await readBody(event);
+  const validated = createWorkspaceInviteSchema.parse(body);
+
+  const workspaceService = createWorkspaceService(event);
+
+  // Token is delivered to the invitee only, never returned to the inviter
+  const { invite } = await workspaceService.sendInvite(workspaceId, {
+    email: sanitizeEmail(validated.email),
+    role: validated.role,
+  });
+
+  return createSuccessResponse("Invite sent successfully", invite);
+});
@@ -0,0 +1,25 @@
+import { getRouterParam } from "h3";
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// POST /api/v1/workspaces/:id/restore
+// ========================================
+// Restore an archived workspace
+// Requires authentication (workspace owner)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceId = getRouterParam(event, "id");
+
+  if (!workspaceId) {
+    throw new MissingFieldError("id");
+  }
+
+  const workspaceService = createWorkspaceService(event);
+
+  const workspace = await workspaceService.restoreWorkspace(workspaceId);
+
+  return createSuccessResponse("Workspace restored successfully", workspace);
+});
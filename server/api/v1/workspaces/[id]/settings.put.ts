@@ -0,0 +1,45 @@
+import { getRouterParam } from "h3";
+import { createWorkspaceService } from "#server/services/workspace";
+import { createMfaService } from "#server/services/mfa";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+import { updateWorkspaceSettingsSchema } from "#shared/validators/workspace";
+
+// ========================================
+// PUT /api/v1/workspaces/:id/settings
+// ========================================
+// Merge keys into the workspace settings JSON
+// Requires authentication (workspace owner or admin)
+// Turning on requireMfa needs 2FA on the admin's own account first
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceId = getRouterParam(event, "id");
+
+  if (!workspaceId) {
+    throw new MissingFieldError("id");
+  }
+
+  const body = await readBody(event);
+  const validated = updateWorkspaceSettingsSchema.parse(body);
+
+  // Don't let admins lock themselves out of the workspace
+  if (validated.settings.requireMfa) {
+    await createMfaService(event).assertWorkspaceRequirement(
+      event.context.userId as string,
+      { id: workspaceId, settings: validated.settings }
+    );
+  }
+
+  const workspaceService = createWorkspaceService(event);
+
+  const workspace = await workspaceService.updateSettings(
+    workspaceId,
+    validated.settings
+  );
+
+  return createSuccessResponse(
+    "Workspace settings updated successfully",
+    workspace
+  );
+});
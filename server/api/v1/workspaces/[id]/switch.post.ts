@@ -0,0 +1,61 @@
+import { getRouterParam } from "h3";
+import { createWorkspaceService } from "#server/services/workspace";
+import { createIdentityService } from "#server/services/identity";
+import { createMfaService } from "#server/services/mfa";
+import { createSuccessResponse } from "#server/lib/response";
+import { applyEmailVerificationPolicy } from "#server/utils/session";
+import { MissingFieldError } from "#server/error/errors";
+
+// ========================================
+// POST /api/v1/workspaces/:id/switch
+// ========================================
+// Switch the session to another workspace the user belongs to
+// Requires authentication (workspace member)
+// Rewrites session workspaceId and recomputes permissions
+// Workspaces with settings.requireMfa need 2FA enabled first
+// The workspace's email verification policy applies to unconfirmed users
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceId = getRouterParam(event, "id");
+
+  if (!workspaceId) {
+    throw new MissingFieldError("id");
+  }
+
+  const workspaceService = createWorkspaceService(event);
+
+  // Verifies membership and that the workspace is active
+  const { workspace, role } = await workspaceService.switchWorkspace(workspaceId);
+
+  const userId = event.context.userId as string;
+  await createMfaService(event).assertWorkspaceRequirement(userId, workspace);
+
+  // Permissions are computed for the workspace being switched into
+  const fromWorkspaceId = event.context.workspaceId || null;
+  event.context.workspaceId = workspace.id;
+
+  const identityService = createIdentityService(event);
+  const permissionVersion = await identityService.getPermissionVersion(userId);
+  const { permissions, emailVerificationPending } =
+    await applyEmailVerificationPolicy(event, userId);
+
+  // Replace (not merge) so the previous workspace's permissions are dropped
+  const session = await getUserSession(event);
+  await replaceUserSession(event, {
+    ...session,
+    workspaceId: workspace.id,
+    emailVerificationPending,
+    permissions,
+    permissionVersion,
+  });
+
+  // Audited only once the switch can no longer be rejected
+  await workspaceService.recordWorkspaceSwitch(workspace.id, fromWorkspaceId);
+
+  return createSuccessResponse("Workspace switched successfully", {
+    workspace: { ...workspace, role },
+    permissions,
+    permissionVersion,
+  });
+});
@@ -0,0 +1,35 @@
+import { getRouterParam } from "h3";
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+import { MissingFieldError } from "#server/error/errors";
+import { transferWorkspaceSchema } from "#shared/validators/workspace";
+
+// ========================================
+// POST /api/v1/workspaces/:id/transfer
+// ========================================
+// Transfer workspace ownership to another member
+// Requires authentication (workspace owner)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceId = getRouterParam(event, "id");
+
+  if (!workspaceId) {
+    throw new MissingFieldError("id");
+  }
+
+  const body = await readBody(event);
+  const validated = transferWorkspaceSchema.parse(body);
+
+  const workspaceService = createWorkspaceService(event);
+
+  const workspace = await workspaceService.transferOwnership(
+    workspaceId,
+    validated.newOwnerId
+  );
+
+  return createSuccessResponse(
+    "Workspace ownership transferred successfully",
+    workspace
+  );
+});
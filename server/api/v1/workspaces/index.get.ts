@@ -0,0 +1,17 @@
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+
+// ========================================
+// GET /api/v1/workspaces
+// ========================================
+// List workspaces the current user is a member of
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const workspaceService = createWorkspaceService(event);
+
+  const workspaces = await workspaceService.listMyWorkspaces();
+
+  return createSuccessResponse("Workspaces retrieved successfully", workspaces);
+});
@@ -0,0 +1,30 @@
+import { createWorkspaceService } from "#server/services/workspace";
+import { createSuccessResponse } from "#server/lib/response";
+import { createWorkspaceSchema } from "#shared/validators/workspace";
+import { sanitizeHtml } from "#server/lib/sanitize";
+
+// ========================================
+// POST /api/v1/workspaces
+// ========================================
+// Create a workspace owned by the current user
+// Requires authentication
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+
+  // Validate with Zod schema (slug format is enforced here)
+  const validated = createWorkspaceSchema.parse(body);
+
+  const workspaceService = createWorkspaceService(event);
+
+  const workspace = await workspaceService.createWorkspace({
+    name: sanitizeHtml(validated.name),
+    slug: validated.slug,
+    description: validated.description
+      ? sanitizeHtml(validated.description)
+      : undefined,
+  });
+
+  return createSuccessResponse("Workspace created successfully", workspace);
+});
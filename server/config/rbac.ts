@@ -4,8 +4,9 @@
  * Hardcoded role definitions as the default approach.
  * Simple, fast, and requires no database queries for permission checks.
  *
- * For custom roles at runtime, the database tables (roles, userRoles)
- * can be used as a fallback.
+ * Custom roles are created at runtime per workspace (roles / role_permissions
+ * tables) and are merged in via the customRoles argument below. System roles
+ * always win, so a custom role can never redefine admin/manager/user.
  */
 
 export type RoleName = "admin" | "manager" | "user";
@@ -63,6 +64,7 @@ export const PERMISSION_DEFINITIONS: Record<string, string> = {
   "users:create": "Create new users",
   "users:update": "Update user information",
   "users:delete": "Delete or deactivate users",
+  "users:impersonate": "Act as another user (support)",
 
   // Roles
   "roles:read": "View roles and permissions",
@@ -113,23 +115,62 @@ export function hasPermission(
 }
 
 /**
- * Get all permissions for a role (from config)
+ * Get all permissions for a role
+ * Looks up config roles first, then the workspace's custom roles (if given)
  */
-export function getRolePermissions(roleName: string): string[] {
-  const role = DEFAULT_ROLES[roleName as RoleName];
+export function getRolePermissions(
+  roleName: string,
+  customRoles?: Record<string, RoleConfig>
+): string[] {
+  const role =
+    DEFAULT_ROLES[roleName as RoleName] ?? customRoles?.[roleName];
   return role?.permissions ?? [];
 }
 
 /**
  * Get combined permissions for multiple roles
  */
-export function getCombinedPermissions(roleNames: string[]): string[] {
+export function getCombinedPermissions(
+  roleNames: string[],
+  customRoles?: Record<string, RoleConfig>
+): string[] {
   const permissions = new Set<string>();
 
   for (const roleName of roleNames) {
-    const rolePermissions = getRolePermissions(roleName);
+    const rolePermissions = getRolePermissions(roleName, customRoles);
     rolePermissions.forEach((p) => permissions.add(p));
   }
 
   return Array.from(permissions);
 }
+
+/**
+ * Permissions kept by users whose email address is not confirmed yet when
+ * the email verification policy is "restrict" (see shared/constants/auth.ts)
+ */
+export const UNVERIFIED_EMAIL_PERMISSIONS = ["profile:read", "profile:update"];
+
+/**
+ * Narrow granted permissions to an allow-list
+ * Wildcards are expanded: ["*"] restricted to ["profile:read"] is ["profile:read"]
+ */
+export function restrictPermissions(
+  permissions: string[],
+  allowed: string[]
+): string[] {
+  return allowed.filter((p) => hasPermission(permissions, p));
+}
+
+/**
+ * Permissions granted by both lists (an API key's scopes and its owner's role)
+ * Wildcards are kept where the other list covers them:
+ * ["*"] and ["users:read"] intersect to ["users:read"]
+ */
+export function intersectPermissions(a: string[], b: string[]): string[] {
+  return Array.from(
+    new Set([
+      ...a.filter((p) => hasPermission(b, p)),
+      ...b.filter((p) => hasPermission(a, p)),
+    ])
+  );
+}
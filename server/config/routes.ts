@@ -4,7 +4,14 @@
 // Single source of truth for route metadata:
 // - Public routes (no auth required)
 // - Rate limiting configuration
-// - Permission requirements (for future use)
+// - Permission requirements (enforced by 04.permissions middleware)
+// - Turnstile bot protection (enforced by 05.turnstile middleware)
+// - Session-only routes that API keys can't call (enforced by 02.auth)
+// - Account changes refused while impersonating a user (enforced by 02.auth)
+// - Routes refused until the email is confirmed (enforced by 04.permissions)
+//
+// Every server/api route should have an entry - routes missing here are
+// reported at startup (see nuxt.config.ts hooks)
 // ========================================
 
 /**
@@ -13,9 +20,12 @@
 export type RateLimitBinding =
   | "AUTH_SIGNIN_LIMITER"
   | "AUTH_SIGNUP_LIMITER"
+  | "AUTH_EMAIL_RESEND_LIMITER"
   | "AUTH_PASSWORD_RESET_LIMITER"
   | "OAUTH_AUTHORIZE_LIMITER"
-  | "OAUTH_CALLBACK_LIMITER";
+  | "OAUTH_CALLBACK_LIMITER"
+  | "ACCOUNT_CREDENTIALS_LIMITER"
+  | "AUTH_MAGIC_LINK_LIMITER";
 
 /**
  * Rate limit configuration
@@ -27,22 +37,46 @@ export interface RateLimitConfig {
   period: number; // seconds
 }
 
+/**
+ * HTTP methods a route entry can be restricted to
+ */
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
 /**
  * Route configuration interface
  */
 export interface RouteConfig {
+  /**
+   * Path pattern: exact ("/api/v1/roles"), with params ("/api/v1/roles/:id")
+   * or prefix (trailing slash, "/api/v1/auth/invites/")
+   */
   path: string;
+  /** Methods this entry applies to (default: all methods) */
+  methods?: HttpMethod[];
   /** If true, route does not require authentication */
   public?: boolean;
   /** Rate limiting configuration (must have matching binding in wrangler.jsonc) */
   rateLimit?: RateLimitConfig;
-  /** Required permissions to access this route (for future use) */
+  /** Required permissions to access this route (user needs all of them) */
   permissions?: string[];
+  /** If true, requests must carry a valid Cloudflare Turnstile token */
+  turnstile?: boolean;
+  /** If true, API keys are refused - a signed-in browser session is required */
+  sessionOnly?: boolean;
+  /** If true, refused while an admin impersonates the user */
+  noImpersonation?: boolean;
+  /**
+   * If true, refused while the email is unconfirmed under the "restrict"
+   * policy - for routes guarded by service checks instead of permissions
+   */
+  verifiedEmail?: boolean;
 }
 
 /**
  * All route configurations
  * Add new routes here to configure auth, rate limiting, and permissions
+ * The first entry matching path and method wins - list literal paths
+ * (e.g. /api/v1/user/profile) before param paths (/api/v1/user/:id)
  */
 export const ROUTE_CONFIG: RouteConfig[] = [
   // ========================================
@@ -58,6 +92,12 @@ export const ROUTE_CONFIG: RouteConfig[] = [
   { path: "/api/_nuxt_icon/", public: true },
   { path: "/api/_auth/session", public: true },
 
+  // ========================================
+  // Development Routes (respond 404 outside development)
+  // ========================================
+  { path: "/api/dev/emails/", public: true },
+  { path: "/api/dev/oidc/", public: true }, // Mock OpenID Connect provider (test too)
+
   // ========================================
   // Auth Routes (Email/Password)
   // ========================================
@@ -65,23 +105,71 @@ export const ROUTE_CONFIG: RouteConfig[] = [
     path: "/api/v1/auth/signup",
     public: true,
     rateLimit: { binding: "AUTH_SIGNUP_LIMITER", limit: 1, period: 60 },
+    turnstile: true,
   },
   {
     path: "/api/v1/auth/signin",
     public: true,
     rateLimit: { binding: "AUTH_SIGNIN_LIMITER", limit: 5, period: 60 },
+    turnstile: true,
   },
   { path: "/api/v1/auth/email/confirm", public: true },
+  { path: "/api/v1/auth/email/change", public: true }, // Link sent to the new address
+  {
+    path: "/api/v1/auth/email/resend",
+    public: true,
+    rateLimit: { binding: "AUTH_EMAIL_RESEND_LIMITER", limit: 1, period: 60 },
+    turnstile: true,
+  },
   {
     path: "/api/v1/auth/password/reset/request",
     public: true,
     rateLimit: { binding: "AUTH_PASSWORD_RESET_LIMITER", limit: 1, period: 60 },
+    turnstile: true,
   },
   { path: "/api/v1/auth/password/reset", public: true },
+  {
+    path: "/api/v1/auth/magic-link",
+    public: true,
+    rateLimit: { binding: "AUTH_MAGIC_LINK_LIMITER", limit: 1, period: 60 },
+    turnstile: true,
+  },
+  { path: "/api/v1/auth/magic-link/verify", public: true }, // Single-use token from the email
+  { path: "/api/v1/auth/invites/", public: true },
+
+  // ========================================
+  // Two-Factor Sign-In (authorized by the signin mfaToken)
+  // ========================================
+  {
+    path: "/api/v1/auth/mfa/verify",
+    public: true,
+    rateLimit: { binding: "AUTH_SIGNIN_LIMITER", limit: 5, period: 60 },
+  },
+  { path: "/api/v1/auth/mfa/setup", public: true },
+  {
+    path: "/api/v1/auth/mfa/activate",
+    public: true,
+    rateLimit: { binding: "AUTH_SIGNIN_LIMITER", limit: 5, period: 60 },
+  },
+
+  // ========================================
+  // Passkey Sign-In (passwordless, or as the second factor)
+  // ========================================
+  {
+    path: "/api/v1/auth/passkey/options",
+    public: true,
+    rateLimit: { binding: "AUTH_SIGNIN_LIMITER", limit: 10, period: 60 },
+  },
+  {
+    path: "/api/v1/auth/passkey/verify",
+    public: true,
+    rateLimit: { binding: "AUTH_SIGNIN_LIMITER", limit: 5, period: 60 },
+  },
 
   // ========================================
-  // OAuth Routes
+  // OAuth Routes (one entry per provider, see server/lib/oauth.ts)
   // ========================================
+  { path: "/api/auth/providers", public: true },
   {
     path: "/api/auth/google/authorize",
     public: true,
@@ -92,6 +180,209 @@ export const ROUTE_CONFIG: RouteConfig[] = [
     public: true,
     rateLimit: { binding: "OAUTH_CALLBACK_LIMITER", limit: 5, period: 60 },
   },
+  {
+    path: "/api/auth/github/authorize",
+    public: true,
+    rateLimit: { binding: "OAUTH_AUTHORIZE_LIMITER", limit: 10, period: 60 },
+  },
+  {
+    path: "/api/auth/github/callback",
+    public: true,
+    rateLimit: { binding: "OAUTH_CALLBACK_LIMITER", limit: 5, period: 60 },
+  },
+  {
+    path: "/api/auth/microsoft/authorize",
+    public: true,
+    rateLimit: { binding: "OAUTH_AUTHORIZE_LIMITER", limit: 10, period: 60 },
+  },
+  {
+    path: "/api/auth/microsoft/callback",
+    public: true,
+    rateLimit: { binding: "OAUTH_CALLBACK_LIMITER", limit: 5, period: 60 },
+  },
+  {
+    path: "/api/auth/oidc/authorize",
+    public: true,
+    rateLimit: { binding: "OAUTH_AUTHORIZE_LIMITER", limit: 10, period: 60 },
+  },
+  {
+    path: "/api/auth/oidc/callback",
+    public: true,
+    rateLimit: { binding: "OAUTH_CALLBACK_LIMITER", limit: 5, period: 60 },
+  },
+  // Mock provider (development/test) and unknown providers (404)
+  {
+    path: "/api/auth/:provider/authorize",
+    public: true,
+    rateLimit: { binding: "OAUTH_AUTHORIZE_LIMITER", limit: 10, period: 60 },
+  },
+  {
+    path: "/api/auth/:provider/callback",
+    public: true,
+    rateLimit: { binding: "OAUTH_CALLBACK_LIMITER", limit: 5, period: 60 },
+  },
+
+  // ========================================
+  // Session & Current User Routes
+  // ========================================
+  // Sign-in methods, devices, API keys and account deletion/export need the
+  // browser session, so a leaked API key can't take over the account.
+  // Credentials can't be changed while impersonating (this includes signing
+  // out devices and revoking API keys).
+  { path: "/api/v1/auth/signout", sessionOnly: true },
+  { path: "/api/v1/me/workspaces" },
+  { path: "/api/v1/me/impersonation", methods: ["DELETE"], sessionOnly: true },
+  {
+    path: "/api/v1/me/identities",
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  {
+    path: "/api/v1/me/identities/:id",
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  {
+    path: "/api/v1/me/password",
+    rateLimit: { binding: "ACCOUNT_CREDENTIALS_LIMITER", limit: 5, period: 60 },
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  {
+    path: "/api/v1/me/email",
+    rateLimit: { binding: "ACCOUNT_CREDENTIALS_LIMITER", limit: 5, period: 60 },
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  { path: "/api/v1/me/mfa", sessionOnly: true, noImpersonation: true },
+  { path: "/api/v1/me/mfa/totp", sessionOnly: true, noImpersonation: true },
+  {
+    path: "/api/v1/me/mfa/totp/setup",
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  {
+    path: "/api/v1/me/mfa/totp/activate",
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  {
+    path: "/api/v1/me/mfa/recovery-codes",
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  { path: "/api/v1/me/passkeys", sessionOnly: true, noImpersonation: true },
+  {
+    path: "/api/v1/me/passkeys/options",
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  {
+    path: "/api/v1/me/passkeys/:id",
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  {
+    path: "/api/v1/me/sessions",
+    methods: ["DELETE"],
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  { path: "/api/v1/me/sessions", sessionOnly: true },
+  {
+    path: "/api/v1/me/sessions/:id",
+    methods: ["DELETE"],
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  { path: "/api/v1/me/sessions/:id", sessionOnly: true },
+  {
+    path: "/api/v1/me/api-keys",
+    methods: ["POST"],
+    sessionOnly: true,
+    noImpersonation: true,
+    verifiedEmail: true,
+  },
+  { path: "/api/v1/me/api-keys", sessionOnly: true },
+  { path: "/api/v1/me/api-keys/scopes", sessionOnly: true },
+  {
+    path: "/api/v1/me/api-keys/:id",
+    methods: ["DELETE"],
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  { path: "/api/v1/me/api-keys/:id", sessionOnly: true },
+  {
+    path: "/api/v1/me/deletion",
+    rateLimit: { binding: "ACCOUNT_CREDENTIALS_LIMITER", limit: 5, period: 60 },
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  { path: "/api/v1/me/export", sessionOnly: true, noImpersonation: true },
+  { path: "/api/v1/user/profile" },
+
+  // ========================================
+  // User Routes
+  // ========================================
+  { path: "/api/v1/user", methods: ["GET"], permissions: ["users:read"] },
+  { path: "/api/v1/user/:id", methods: ["GET"], permissions: ["users:read"] },
+  {
+    path: "/api/v1/users/:userId/roles",
+    methods: ["GET"],
+    permissions: ["users:read"],
+  },
+  // users:update OR roles:update - checked in the handler
+  { path: "/api/v1/users/:userId/roles", methods: ["PUT"] },
+  {
+    path: "/api/v1/users/:userId/unlock",
+    methods: ["POST"],
+    permissions: ["users:update"],
+  },
+  {
+    path: "/api/v1/users/:userId/impersonate",
+    methods: ["POST"],
+    permissions: ["users:impersonate"],
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+
+  // ========================================
+  // RBAC Routes
+  // ========================================
+  { path: "/api/v1/permissions", methods: ["GET"], permissions: ["roles:read"] },
+  { path: "/api/v1/roles", methods: ["GET"], permissions: ["roles:read"] },
+  { path: "/api/v1/roles", methods: ["POST"], permissions: ["roles:create"] },
+  { path: "/api/v1/roles/:id", methods: ["GET"], permissions: ["roles:read"] },
+  { path: "/api/v1/roles/:id", methods: ["PUT"], permissions: ["roles:update"] },
+  {
+    path: "/api/v1/roles/:id",
+    methods: ["DELETE"],
+    permissions: ["roles:delete"],
+  },
+
+  // ========================================
+  // Workspace Routes
+  // ========================================
+  // Membership/ownership checks live in WorkspaceService
+  { path: "/api/v1/workspaces" },
+  { path: "/api/v1/workspaces/:id" },
+  { path: "/api/v1/workspaces/:id/archive" },
+  { path: "/api/v1/workspaces/:id/restore" },
+  { path: "/api/v1/workspaces/:id/settings", verifiedEmail: true },
+  {
+    path: "/api/v1/workspaces/:id/switch",
+    sessionOnly: true,
+    noImpersonation: true,
+  },
+  { path: "/api/v1/workspaces/:id/transfer", verifiedEmail: true },
+  {
+    path: "/api/v1/workspaces/:id/invites",
+    methods: ["POST"],
+    verifiedEmail: true,
+  },
+  { path: "/api/v1/workspaces/:id/invites" },
+  { path: "/api/v1/workspaces/:id/invites/:inviteId", verifiedEmail: true },
+  { path: "/api/v1/invites/accept" },
 ];
 
 // ========================================
@@ -100,21 +391,74 @@ export const ROUTE_CONFIG: RouteConfig[] = [
 
 /**
  * Check if a route is public (no auth required)
- * Supports both exact matches and prefix matches
+ * Supports exact, param (":provider") and prefix matches
  */
 export function isPublicRoute(path: string): boolean {
   return ROUTE_CONFIG.some(
     (route) =>
-      route.public && (path === route.path || path.startsWith(route.path))
+      route.public &&
+      (path.startsWith(route.path) || matchesRoutePath(route.path, path))
   );
 }
 
 /**
- * Get rate limit configuration for a route
+ * Check if a request path matches a route pattern
+ * ":param" segments match any non-empty segment, a trailing slash makes the
+ * pattern a prefix match. Query strings are ignored.
+ */
+export function matchesRoutePath(pattern: string, path: string): boolean {
+  const pathname = path.split("?")[0] ?? path;
+
+  if (pattern.endsWith("/")) {
+    return pathname.startsWith(pattern);
+  }
+
+  const patternSegments = pattern.split("/");
+  const pathSegments = pathname.replace(/(.)\/$/, "$1").split("/");
+
+  if (patternSegments.length !== pathSegments.length) {
+    return false;
+  }
+
+  return patternSegments.every((segment, index) =>
+    segment.startsWith(":")
+      ? pathSegments[index] !== ""
+      : segment === pathSegments[index]
+  );
+}
+
+/**
+ * Check if a route entry applies to an HTTP method
+ * Entries without methods apply to all of them
+ */
+function matchesRouteMethod(route: RouteConfig, method?: string): boolean {
+  if (!route.methods) {
+    return true;
+  }
+  return (
+    !!method && route.methods.includes(method.toUpperCase() as HttpMethod)
+  );
+}
+
+/**
+ * Find the route entry for a request (first match wins)
+ */
+export function findRouteConfig(
+  path: string,
+  method?: string
+): RouteConfig | undefined {
+  return ROUTE_CONFIG.find(
+    (route) =>
+      matchesRouteMethod(route, method) && matchesRoutePath(route.path, path)
+  );
+}
+
+/**
+ * Get rate limit configuration for a route (first entry matching the path)
  * Returns undefined if route has no rate limiting
  */
 export function getRateLimitConfig(path: string): RateLimitConfig | undefined {
-  const route = ROUTE_CONFIG.find((r) => r.path === path);
+  const route = ROUTE_CONFIG.find((r) => matchesRoutePath(r.path, path));
   return route?.rateLimit;
 }
 
@@ -122,7 +466,56 @@ export function getRateLimitConfig(path: string): RateLimitConfig | undefined {
  * Get required permissions for a route
  * Returns undefined if route has no permission requirements
  */
-export function getRoutePermissions(path: string): string[] | undefined {
-  const route = ROUTE_CONFIG.find((r) => r.path === path);
-  return route?.permissions;
+export function getRoutePermissions(
+  path: string,
+  method?: string
+): string[] | undefined {
+  return findRouteConfig(path, method)?.permissions;
+}
+
+/**
+ * Check if a route requires a Turnstile token
+ */
+export function requiresTurnstile(path: string, method?: string): boolean {
+  return findRouteConfig(path, method)?.turnstile === true;
+}
+
+/**
+ * Check if a route refuses API keys
+ */
+export function isSessionOnlyRoute(path: string, method?: string): boolean {
+  return findRouteConfig(path, method)?.sessionOnly === true;
+}
+
+/**
+ * Check if a route is refused while impersonating a user
+ */
+export function isBlockedWhileImpersonating(
+  path: string,
+  method?: string
+): boolean {
+  return findRouteConfig(path, method)?.noImpersonation === true;
+}
+
+/**
+ * Check if a route is refused until the email is confirmed
+ */
+export function requiresVerifiedEmail(path: string, method?: string): boolean {
+  return findRouteConfig(path, method)?.verifiedEmail === true;
+}
+
+/**
+ * Find API routes (as scanned by Nitro, e.g. "/api/v1/roles/:id") that have
+ * no entry in ROUTE_CONFIG
+ */
+export function findUnconfiguredRoutes<
+  T extends { route?: string; method?: string },
+>(routes: T[]): T[] {
+  return routes.filter(
+    ({ route, method }) =>
+      !!route &&
+      route.startsWith("/api/") &&
+      !isPublicRoute(route) &&
+      !findRouteConfig(route, method)
+  );
 }
@@ -0,0 +1,26 @@
+CREATE TABLE `role_permissions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`deleted_at` integer,
+	`role_id` text NOT NULL,
+	`permission` text NOT NULL,
+	FOREIGN KEY (`role_id`) REFERENCES `roles`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `role_permissions_role_idx` ON `role_permissions` (`role_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `role_permissions_unique` ON `role_permissions` (`role_id`,`permission`);--> statement-breakpoint
+CREATE TABLE `roles` (
+	`id` text PRIMARY KEY NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`deleted_at` integer,
+	`workspace_id` text NOT NULL,
+	`name` text NOT NULL,
+	`display_name` text NOT NULL,
+	`description` text,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `roles_workspace_idx` ON `roles` (`workspace_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `roles_workspace_name_unique` ON `roles` (`workspace_id`,`name`);
\ No newline at end of file
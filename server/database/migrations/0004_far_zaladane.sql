@@ -0,0 +1 @@
+ALTER TABLE `workspace_members` ADD `permission_version` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
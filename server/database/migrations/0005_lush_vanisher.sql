@@ -0,0 +1,27 @@
+CREATE TABLE `mfa_recovery_codes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`deleted_at` integer,
+	`user_id` text NOT NULL,
+	`code_hash` text NOT NULL,
+	`used_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `mfa_recovery_codes_user_idx` ON `mfa_recovery_codes` (`user_id`);--> statement-breakpoint
+CREATE INDEX `mfa_recovery_codes_code_hash_idx` ON `mfa_recovery_codes` (`code_hash`);--> statement-breakpoint
+CREATE TABLE `user_mfa` (
+	`id` text PRIMARY KEY NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`deleted_at` integer,
+	`user_id` text NOT NULL,
+	`totp_secret` text NOT NULL,
+	`totp_enabled_at` integer,
+	`totp_last_used_step` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `user_mfa_user_id_unique` ON `user_mfa` (`user_id`);--> statement-breakpoint
+CREATE INDEX `user_mfa_user_idx` ON `user_mfa` (`user_id`);
\ No newline at end of file
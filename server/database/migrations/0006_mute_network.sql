@@ -0,0 +1,19 @@
+CREATE TABLE `user_credentials` (
+	`id` text PRIMARY KEY NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`deleted_at` integer,
+	`user_id` text NOT NULL,
+	`credential_id` text NOT NULL,
+	`public_key` text NOT NULL,
+	`sign_count` integer DEFAULT 0 NOT NULL,
+	`transports` text,
+	`device_type` text,
+	`backed_up` integer DEFAULT false NOT NULL,
+	`nickname` text,
+	`last_used_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `user_credentials_user_idx` ON `user_credentials` (`user_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `user_credentials_credential_id_unique` ON `user_credentials` (`credential_id`);
\ No newline at end of file
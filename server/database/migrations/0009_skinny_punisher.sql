@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `failed_login_attempts` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `locked_until` integer;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `user_identities` (
+	`id` text PRIMARY KEY NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`deleted_at` integer,
+	`user_id` text NOT NULL,
+	`provider` text NOT NULL,
+	`provider_user_id` text NOT NULL,
+	`email` text,
+	`last_used_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `user_identities_user_idx` ON `user_identities` (`user_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `user_identities_provider_unique` ON `user_identities` (`provider`,`provider_user_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `user_identities_user_provider_unique` ON `user_identities` (`user_id`,`provider`);--> statement-breakpoint
+-- Move existing OAuth links to user_identities before dropping the columns
+INSERT INTO `user_identities`("id", "created_at", "updated_at", "user_id", "provider", "provider_user_id", "email", "last_used_at") SELECT lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6))), "created_at", "updated_at", "id", "oauth_provider", "oauth_provider_id", "email", CASE WHEN "last_login_method" = "oauth_provider" THEN "last_login_at" END FROM `users` WHERE "oauth_provider" IS NOT NULL AND "oauth_provider_id" IS NOT NULL;--> statement-breakpoint
+DROP INDEX `users_oauth_idx`;--> statement-breakpoint
+DROP INDEX `users_oauth_unique`;--> statement-breakpoint
+ALTER TABLE `users` DROP COLUMN `oauth_provider`;--> statement-breakpoint
+ALTER TABLE `users` DROP COLUMN `oauth_provider_id`;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `deletion_scheduled_at` integer;--> statement-breakpoint
+CREATE INDEX `users_deletion_idx` ON `users` (`deletion_scheduled_at`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `user_mfa` ADD `failed_attempts` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
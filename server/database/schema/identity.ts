@@ -24,7 +24,7 @@ export const users = sqliteTable(
     // Authentication
     email: text("email").notNull(),
     // Nullable for OAuth-only accounts (users who sign in with Google without password)
-    // OAuth users will have empty string '' as passwordHash
+    // OAuth users will have empty string '' as passwordHash until they set one
     // Code checks for null or empty string to determine OAuth-only accounts
     passwordHash: text("password_hash"),
     isEmailVerified: integer("is_email_verified", { mode: "boolean" })
@@ -33,14 +33,17 @@ export const users = sqliteTable(
     // Email verification timestamp (keeps isEmailVerified for backward compatibility)
     emailVerifiedAt: integer("email_verified_at", { mode: "timestamp" }),
 
-    // OAuth (for Google, GitHub, etc.)
-    oauthProvider: text("oauth_provider"), // 'google', 'github', etc.
-    oauthProviderId: text("oauth_provider_id"), // Unique ID from OAuth provider
+    // Linked OAuth identities live in user_identities
     picture: text("picture"), // Profile picture URL from OAuth or user upload
 
     // Login tracking
     lastLoginAt: integer("last_login_at", { mode: "timestamp" }),
-    lastLoginMethod: text("last_login_method"), // 'email' | 'google' | null
+    lastLoginMethod: text("last_login_method"), // 'email' | 'magic-link' | OAuth provider ID ('google', 'github', ...) | null
+
+    // Brute-force lockout (see IdentityService.signIn)
+    // Reset by a successful sign-in, a password reset or an admin unlock
+    failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(),
+    lockedUntil: integer("locked_until", { mode: "timestamp" }),
 
     // Onboarding - tracks if user has created or joined a workspace
     hasCompletedOnboarding: integer("has_completed_onboarding", {
@@ -64,23 +67,58 @@ export const users = sqliteTable(
 
     // Basic role for simple RBAC (extend as needed)
     role: text("role").default("user").notNull(), // admin, manager, user, etc.
+    // Bumped whenever the user's global role or status changes
+    // (02.auth refreshes session permissions when it moves)
+    permissionVersion: integer("permission_version").default(0).notNull(),
 
     // Status
     isActive: integer("is_active", { mode: "boolean" }).default(true).notNull(),
+    // Self-service deletion: personal data is erased once this date passes
+    // (accounts:purge task), cancellable until then
+    deletionScheduledAt: integer("deletion_scheduled_at", { mode: "timestamp" }),
   },
   (table) => ({
     // Unique: email per database (each database = one tenant)
     emailUnique: unique("users_email_unique").on(table.email),
-    // Unique: OAuth provider + provider ID (prevents duplicate OAuth accounts)
-    oauthUnique: unique("users_oauth_unique").on(table.oauthProvider, table.oauthProviderId),
     // Critical: email used for login
     emailIdx: index("users_email_idx").on(table.email),
-    // OAuth lookup
-    oauthIdx: index("users_oauth_idx").on(table.oauthProvider, table.oauthProviderId),
     // Common query indexes
     roleIdx: index("users_role_idx").on(table.role),
     activeIdx: index("users_active_idx").on(table.isActive),
     deletedIdx: index("users_deleted_idx").on(table.deletedAt),
+    deletionIdx: index("users_deletion_idx").on(table.deletionScheduledAt),
+  })
+);
+
+/**
+ * Linked login identities (OAuth / OpenID Connect)
+ * A user can link several providers, one account per provider
+ */
+export const userIdentities = sqliteTable(
+  "user_identities",
+  {
+    ...baseFields,
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    provider: text("provider").notNull(), // OAuthProviderId: 'google', 'github', ...
+    providerUserId: text("provider_user_id").notNull(), // Stable ID at the provider ("sub")
+    email: text("email"), // Address reported by the provider when linked
+    lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+  },
+  (table) => ({
+    // Unique: a provider account signs in to one user only
+    providerUnique: unique("user_identities_provider_unique").on(
+      table.provider,
+      table.providerUserId
+    ),
+    // Unique: one account per provider for each user
+    userProviderUnique: unique("user_identities_user_provider_unique").on(
+      table.userId,
+      table.provider
+    ),
+    userIdx: index("user_identities_user_idx").on(table.userId),
   })
 );
 
@@ -138,8 +176,11 @@ export const workspaceMembers = sqliteTable(
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
 
-    // Role within this workspace (uses RoleName from config/rbac.ts)
+    // Role within this workspace (system role from config/rbac.ts or custom role)
     role: text("role").default("user").notNull(),
+    // Bumped whenever this membership's permissions change (role change,
+    // custom role edit). Session version = users + member permission_version
+    permissionVersion: integer("permission_version").default(0).notNull(),
 
     // When they joined
     joinedAt: integer("joined_at", { mode: "timestamp" })
@@ -200,14 +241,64 @@ export const workspaceInvites = sqliteTable(
 );
 
 // ============================================================================
-// RBAC - Config-Based Role System
+// RBAC - Config-Based Role System with Custom Workspace Roles
 // ============================================================================
-// Roles are defined in server/config/rbac.ts (no database tables needed)
+// System roles are defined in server/config/rbac.ts (admin, manager, user)
+// Custom roles are stored per workspace in roles / role_permissions
 // User's global role: users.role field
-// Workspace role: workspace_members.role field
-// Both use the same role names from config (admin, manager, user, etc.)
+// Workspace role: workspace_members.role field (system or custom role name)
 // ============================================================================
 
+/**
+ * Custom roles (workspace-scoped)
+ * Names never collide with the system roles from config/rbac.ts
+ */
+export const roles = sqliteTable(
+  "roles",
+  {
+    ...baseFields,
+
+    workspaceId: text("workspace_id")
+      .notNull()
+      .references(() => workspaces.id, { onDelete: "cascade" }),
+
+    // Stored in workspace_members.role (lowercase, underscores)
+    name: text("name").notNull(),
+    displayName: text("display_name").notNull(),
+    description: text("description"),
+  },
+  (table) => ({
+    nameUnique: unique("roles_workspace_name_unique").on(
+      table.workspaceId,
+      table.name
+    ),
+    workspaceIdx: index("roles_workspace_idx").on(table.workspaceId),
+  })
+);
+
+/**
+ * Permissions granted by a custom role
+ * One row per permission code (e.g., "users:read", "users:*")
+ */
+export const rolePermissions = sqliteTable(
+  "role_permissions",
+  {
+    ...baseFields,
+
+    roleId: text("role_id")
+      .notNull()
+      .references(() => roles.id, { onDelete: "cascade" }),
+    permission: text("permission").notNull(),
+  },
+  (table) => ({
+    permissionUnique: unique("role_permissions_unique").on(
+      table.roleId,
+      table.permission
+    ),
+    roleIdx: index("role_permissions_role_idx").on(table.roleId),
+  })
+);
+
 /**
  * User settings (JSON storage)
  * User preferences and configuration
@@ -231,6 +322,198 @@ export const userSettings = sqliteTable(
   })
 );
 
+// ============================================================================
+// MULTI-FACTOR AUTHENTICATION
+// ============================================================================
+
+/**
+ * TOTP authenticator of a user (one per user)
+ * totpEnabledAt is null until enrollment is confirmed with a valid code
+ */
+export const userMfa = sqliteTable(
+  "user_mfa",
+  {
+    ...baseFields,
+
+    userId: text("user_id")
+      .notNull()
+      .unique()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // Base32 shared secret (otpauth URI)
+    totpSecret: text("totp_secret").notNull(),
+    totpEnabledAt: integer("totp_enabled_at", { mode: "timestamp" }),
+    // Last accepted time step - prevents replaying a code
+    totpLastUsedStep: integer("totp_last_used_step"),
+    // Consecutive wrong codes / recovery codes (feeds the account lockout)
+    failedAttempts: integer("failed_attempts").default(0).notNull(),
+  },
+  (table) => ({
+    userIdx: index("user_mfa_user_idx").on(table.userId),
+  })
+);
+
+/**
+ * MFA recovery codes (SHA-256 hashes, single use)
+ * Regenerating replaces the whole set
+ */
+export const mfaRecoveryCodes = sqliteTable(
+  "mfa_recovery_codes",
+  {
+    ...baseFields,
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    codeHash: text("code_hash").notNull(),
+    usedAt: integer("used_at", { mode: "timestamp" }),
+  },
+  (table) => ({
+    userIdx: index("mfa_recovery_codes_user_idx").on(table.userId),
+    codeHashIdx: index("mfa_recovery_codes_code_hash_idx").on(table.codeHash),
+  })
+);
+
+/**
+ * WebAuthn credentials (passkeys)
+ * Usable as a passwordless sign-in and as a second factor
+ */
+export const userCredentials = sqliteTable(
+  "user_credentials",
+  {
+    ...baseFields,
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // Base64URL credential ID chosen by the authenticator
+    credentialId: text("credential_id").notNull(),
+    // Base64URL COSE public key
+    publicKey: text("public_key").notNull(),
+    // Signature counter - a decrease indicates a cloned authenticator
+    signCount: integer("sign_count").default(0).notNull(),
+    transports: text("transports", { mode: "json" }).$type<string[]>(),
+    deviceType: text("device_type"), // "singleDevice" | "multiDevice" (synced)
+    backedUp: integer("backed_up", { mode: "boolean" }).default(false).notNull(),
+    nickname: text("nickname"),
+    lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+  },
+  (table) => ({
+    credentialIdUnique: unique("user_credentials_credential_id_unique").on(
+      table.credentialId
+    ),
+    userIdx: index("user_credentials_user_idx").on(table.userId),
+  })
+);
+
+/**
+ * Consumed WebAuthn challenges
+ * Challenges travel in stateless signed tokens; recording each one when
+ * its ceremony finishes makes them single use (a captured assertion can't
+ * be replayed). Rows are only needed until the token expires
+ */
+export const webauthnChallenges = sqliteTable(
+  "webauthn_challenges",
+  {
+    ...baseFields,
+
+    challenge: text("challenge").notNull(), // Base64URL, random per ceremony
+    purpose: text("purpose").notNull(), // "webauthn-register" | "webauthn-authenticate"
+    expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    challengeUnique: unique("webauthn_challenges_challenge_unique").on(
+      table.challenge
+    ),
+    expiresIdx: index("webauthn_challenges_expires_idx").on(table.expiresAt),
+  })
+);
+
+/**
+ * Email tokens
+ * Confirmation and password reset links are single use: only the SHA-256
+ * of the signed token is stored, consumed on use and deleted when a newer
+ * token for the same purpose is issued
+ */
+export const emailTokens = sqliteTable(
+  "email_tokens",
+  {
+    ...baseFields,
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    purpose: text("purpose").$type<EmailTokenPurpose>().notNull(),
+    tokenHash: text("token_hash").notNull(),
+    email: text("email").notNull(), // Address the link was sent to
+    expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+    consumedAt: integer("consumed_at", { mode: "timestamp" }),
+  },
+  (table) => ({
+    tokenHashUnique: unique("email_tokens_token_hash_unique").on(table.tokenHash),
+    userPurposeIdx: index("email_tokens_user_purpose_idx").on(
+      table.userId,
+      table.purpose
+    ),
+  })
+);
+
+/**
+ * User sessions
+ * Server-side registry of signed-in devices - the session cookie carries
+ * the row ID, so a session can be revoked before the cookie expires
+ */
+export const userSessions = sqliteTable(
+  "user_sessions",
+  {
+    ...baseFields,
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    lastSeenAt: integer("last_seen_at", { mode: "timestamp" }).notNull(),
+    expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+    revokedAt: integer("revoked_at", { mode: "timestamp" }),
+  },
+  (table) => ({
+    userIdx: index("user_sessions_user_idx").on(table.userId),
+  })
+);
+
+/**
+ * API keys (personal access tokens)
+ * Machine clients send the key as "Authorization: Bearer <key>"; only its
+ * SHA-256 is stored. A key acts as its owner in one workspace, limited to
+ * its scopes (see 02.auth)
+ */
+export const apiKeys = sqliteTable(
+  "api_keys",
+  {
+    ...baseFields,
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // Workspace the key was created in (null without workspaces)
+    workspaceId: text("workspace_id").references(() => workspaces.id, {
+      onDelete: "cascade",
+    }),
+    name: text("name").notNull(),
+    // Start of the key, shown in lists to tell keys apart
+    prefix: text("prefix").notNull(),
+    keyHash: text("key_hash").notNull(),
+    scopes: text("scopes", { mode: "json" }).$type<PermissionCode[]>().notNull(),
+    expiresAt: integer("expires_at", { mode: "timestamp" }), // null = never
+    lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+    revokedAt: integer("revoked_at", { mode: "timestamp" }),
+  },
+  (table) => ({
+    keyHashUnique: unique("api_keys_key_hash_unique").on(table.keyHash),
+    userIdx: index("api_keys_user_idx").on(table.userId),
+  })
+);
+
 /**
  * Audit log
  * Track all significant actions for compliance
@@ -302,11 +585,19 @@ export const usersRelations = relations(users, ({ one, many }) => ({
     fields: [users.id],
     references: [userSettings.userId],
   }),
+  identities: many(userIdentities),
   auditLogs: many(auditLogs),
   workspaceMemberships: many(workspaceMembers),
   ownedWorkspaces: many(workspaces),
 }));
 
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id],
+  }),
+}));
+
 export const workspacesRelations = relations(workspaces, ({ one, many }) => ({
   owner: one(users, {
     fields: [workspaces.ownerId],
@@ -314,6 +605,7 @@ export const workspacesRelations = relations(workspaces, ({ one, many }) => ({
   }),
   members: many(workspaceMembers),
   invites: many(workspaceInvites),
+  roles: many(roles),
   auditLogs: many(auditLogs),
 }));
 
@@ -339,6 +631,21 @@ export const workspaceInvitesRelations = relations(workspaceInvites, ({ one }) =
   }),
 }));
 
+export const rolesRelations = relations(roles, ({ one, many }) => ({
+  workspace: one(workspaces, {
+    fields: [roles.workspaceId],
+    references: [workspaces.id],
+  }),
+  permissions: many(rolePermissions),
+}));
+
+export const rolePermissionsRelations = relations(rolePermissions, ({ one }) => ({
+  role: one(roles, {
+    fields: [rolePermissions.roleId],
+    references: [roles.id],
+  }),
+}));
+
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   workspace: one(workspaces, {
     fields: [auditLogs.workspaceId],
@@ -357,9 +664,38 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type NewUserIdentity = typeof userIdentities.$inferInsert;
+
 export type UserSettings = typeof userSettings.$inferSelect;
 export type NewUserSettings = typeof userSettings.$inferInsert;
 
+export type UserMfa = typeof userMfa.$inferSelect;
+export type NewUserMfa = typeof userMfa.$inferInsert;
+
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+export type NewMfaRecoveryCode = typeof mfaRecoveryCodes.$inferInsert;
+
+export type UserCredential = typeof userCredentials.$inferSelect;
+export type NewUserCredential = typeof userCredentials.$inferInsert;
+
+export type WebAuthnChallenge = typeof webauthnChallenges.$inferSelect;
+export type NewWebAuthnChallenge = typeof webauthnChallenges.$inferInsert;
+
+export type EmailTokenPurpose =
+  | "email-confirm"
+  | "password-reset"
+  | "email-change"
+  | "magic-link";
+export type EmailToken = typeof emailTokens.$inferSelect;
+export type NewEmailToken = typeof emailTokens.$inferInsert;
+
+export type UserSession = typeof userSessions.$inferSelect;
+export type NewUserSession = typeof userSessions.$inferInsert;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type NewAuditLog = typeof auditLogs.$inferInsert;
 
@@ -372,6 +708,12 @@ export type NewWorkspaceMember = typeof workspaceMembers.$inferInsert;
 export type WorkspaceInvite = typeof workspaceInvites.$inferSelect;
 export type NewWorkspaceInvite = typeof workspaceInvites.$inferInsert;
 
+export type Role = typeof roles.$inferSelect;
+export type NewRole = typeof roles.$inferInsert;
+
+export type RolePermission = typeof rolePermissions.$inferSelect;
+export type NewRolePermission = typeof rolePermissions.$inferInsert;
+
 // ============================================================================
 // Permission Codes (extend with your app-specific permissions)
 // ============================================================================
@@ -384,6 +726,7 @@ export type PermissionCode =
   | "users:create"
   | "users:update"
   | "users:delete"
+  | "users:impersonate"
   | "users:*" // All user permissions
   // Roles
   | "roles:read"
@@ -234,6 +234,11 @@ export async function clearDatabase(db: D1Database) {
     await drizzleDb.delete(schema.auditLogs);
     await drizzleDb.delete(schema.workspaceInvites);
     await drizzleDb.delete(schema.workspaceMembers);
+    await drizzleDb.delete(schema.userSessions);
+    await drizzleDb.delete(schema.emailTokens);
+    await drizzleDb.delete(schema.userCredentials);
+    await drizzleDb.delete(schema.mfaRecoveryCodes);
+    await drizzleDb.delete(schema.userMfa);
     await drizzleDb.delete(schema.userSettings);
     await drizzleDb.delete(schema.workspaces);
     await drizzleDb.delete(schema.users);
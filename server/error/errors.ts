@@ -99,6 +99,24 @@ export class InvalidTokenPurposeError extends AppError {
   }
 }
 
+export class InvalidMfaCodeError extends AppError {
+  constructor(message = 'Invalid verification code', details?: any) {
+    super(message, 401, ERROR_CODES.MFA_INVALID_CODE, details)
+  }
+}
+
+export class PasskeyVerificationError extends AppError {
+  constructor(message = 'Passkey verification failed', details?: any) {
+    super(message, 401, ERROR_CODES.PASSKEY_VERIFICATION_FAILED, details)
+  }
+}
+
+export class OAuthProviderError extends AppError {
+  constructor(message = 'Sign-in was denied or failed at the provider', details?: any) {
+    super(message, 401, ERROR_CODES.OAUTH_PROVIDER_ERROR, details)
+  }
+}
+
 // ========================================
 // AUTHORIZATION ERRORS (403)
 // ========================================
@@ -115,6 +133,24 @@ export class PermissionDeniedError extends AppError {
   }
 }
 
+export class TurnstileVerificationError extends AppError {
+  constructor(message = 'Security challenge failed. Please try again.', details?: any) {
+    super(message, 403, ERROR_CODES.TURNSTILE_FAILED, details)
+  }
+}
+
+export class MfaEnrollmentRequiredError extends AppError {
+  constructor(message = 'This workspace requires two-factor authentication', details?: any) {
+    super(message, 403, ERROR_CODES.MFA_ENROLLMENT_REQUIRED, details)
+  }
+}
+
+export class RecentSignInRequiredError extends AppError {
+  constructor(message = 'Sign in again to continue', details?: any) {
+    super(message, 403, ERROR_CODES.RECENT_SIGNIN_REQUIRED, details)
+  }
+}
+
 // ========================================
 // VALIDATION ERRORS (400)
 // ========================================
@@ -143,6 +179,12 @@ export class PasswordSameAsOldError extends AppError {
   }
 }
 
+export class CurrentPasswordIncorrectError extends AppError {
+  constructor(message = 'Current password is incorrect', details?: any) {
+    super(message, 400, ERROR_CODES.CURRENT_PASSWORD_INCORRECT, details)
+  }
+}
+
 // ========================================
 // NOT FOUND ERRORS (404)
 // ========================================
@@ -165,6 +207,18 @@ export class CompanyNotFoundError extends AppError {
   }
 }
 
+export class WorkspaceNotFoundError extends AppError {
+  constructor(message = 'Workspace not found', details?: any) {
+    super(message, 404, ERROR_CODES.WORKSPACE_NOT_FOUND, details)
+  }
+}
+
+export class InviteNotFoundError extends AppError {
+  constructor(message = 'Invite not found', details?: any) {
+    super(message, 404, ERROR_CODES.INVITE_NOT_FOUND, details)
+  }
+}
+
 // ========================================
 // CONFLICT ERRORS (409)
 // ========================================
@@ -193,6 +247,12 @@ export class WorkspaceIdTakenError extends AppError {
   }
 }
 
+export class LastLoginMethodError extends AppError {
+  constructor(message = 'Cannot remove your last sign-in method', details?: any) {
+    super(message, 409, ERROR_CODES.LAST_LOGIN_METHOD, details)
+  }
+}
+
 // ========================================
 // RATE LIMIT ERRORS (429)
 // ========================================
@@ -203,6 +263,12 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class AccountLockedError extends AppError {
+  constructor(message = 'Too many failed sign-in attempts. Try again later or reset your password.', retryAfter?: number) {
+    super(message, 429, ERROR_CODES.ACCOUNT_LOCKED, { retryAfter })
+  }
+}
+
 // ========================================
 // SERVER ERRORS (500)
 // ========================================
@@ -241,6 +307,12 @@ export class InvalidStateError extends AppError {
   }
 }
 
+export class InviteExpiredError extends AppError {
+  constructor(message = 'Invite has expired', details?: any) {
+    super(message, 422, ERROR_CODES.INVITE_EXPIRED, details)
+  }
+}
+
 // ========================================
 // ERROR HANDLER
 // ========================================
@@ -6,7 +6,9 @@ import { isDevelopment } from "#server/utils/environment";
 // ========================================
 // AUTHENTICATION LIBRARY
 // ========================================
-// JWT token utilities for email confirmation & password reset
+// JWT token utilities for email confirmation, password reset, email
+// change, magic-link sign-in, the pending second step of a two-factor sign-in and WebAuthn challenges
+// Note: Email tokens are also recorded (hashed, single use) by IdentityService
 // Note: Session-based auth is handled by nuxt-auth-utils
 // Note: Password validation is in shared/validators/password.ts
 // ========================================
@@ -18,28 +20,71 @@ import { isDevelopment } from "#server/utils/environment";
 const JWT_CONFIG = {
   EMAIL_CONFIRM_TOKEN_EXPIRES_IN: "24h", // 24 hours
   PASSWORD_RESET_TOKEN_EXPIRES_IN: "1h", // 1 hour
+  EMAIL_CHANGE_TOKEN_EXPIRES_IN: "1h", // 1 hour
+  MAGIC_LINK_TOKEN_EXPIRES_IN: "15m", // 15 minutes
+  MFA_PENDING_TOKEN_EXPIRES_IN: "5m", // 5 minutes
+  WEBAUTHN_CHALLENGE_TOKEN_EXPIRES_IN: "5m", // 5 minutes
   ISSUER: "template",
   AUDIENCE: "template-api",
 };
 
+/**
+ * Lifetime of emailed links in seconds (also stored with their hashed record)
+ */
+export const EMAIL_TOKEN_TTL_SECONDS = {
+  "email-confirm": 24 * 60 * 60, // 24 hours
+  "password-reset": 10 * 60, // 10 minutes
+  "email-change": 60 * 60, // 1 hour
+  "magic-link": 15 * 60, // 15 minutes
+} as const;
+
 // ========================================
-// JWT TOKEN MANAGEMENT (Email/Password Reset Only)
+// JWT TOKEN MANAGEMENT (Email, Password Reset, MFA, WebAuthn)
 // ========================================
 
 export interface EmailConfirmTokenPayload {
   userId: string;
   email: string;
-  workspaceId: string; // Bind token to workspace (prevents cross-workspace token reuse)
+  tenantId: string; // Bind token to the tenant database (prevents cross-tenant token reuse)
   purpose: "email-confirm";
 }
 
 export interface PasswordResetTokenPayload {
   userId: string;
   email: string;
-  workspaceId: string; // Bind token to workspace (prevents cross-workspace token reuse)
+  tenantId: string; // Bind token to the tenant database (prevents cross-tenant token reuse)
   purpose: "password-reset";
 }
 
+export interface EmailChangeTokenPayload {
+  userId: string;
+  email: string; // Current address - the link is void once it changed
+  newEmail: string;
+  tenantId: string; // Bind token to the tenant database (prevents cross-tenant token reuse)
+  purpose: "email-change";
+}
+
+export interface MagicLinkTokenPayload {
+  userId: string;
+  email: string;
+  tenantId: string; // Bind token to the tenant database (prevents cross-tenant token reuse)
+  purpose: "magic-link";
+}
+
+export interface MfaPendingTokenPayload {
+  userId: string;
+  purpose: "mfa-pending";
+}
+
+export type WebAuthnCeremony = "webauthn-register" | "webauthn-authenticate";
+
+export interface WebAuthnChallengeTokenPayload {
+  challenge: string; // Base64URL challenge sent to the authenticator
+  userId?: string; // Registering user, or the user a second factor is for
+  purpose: WebAuthnCeremony;
+  exp: number; // Expiry (seconds) - the challenge is remembered until then
+}
+
 /**
  * Get JWT secret from runtime config
  */
@@ -67,17 +112,17 @@ function getJWTSecret(event?: H3Event): Uint8Array {
 export async function generateEmailConfirmToken(
   userId: string,
   email: string,
-  workspaceId: string,
+  tenantId: string,
   event?: H3Event
 ): Promise<string> {
   const secret = getJWTSecret(event);
   const now = Math.floor(Date.now() / 1000);
-  const expiresIn = 24 * 60 * 60; // 24 hours
+  const expiresIn = EMAIL_TOKEN_TTL_SECONDS["email-confirm"];
 
   return await new SignJWT({
     userId,
     email,
-    workspaceId, // Bind token to workspace
+    tenantId, // Bind token to tenant
     purpose: "email-confirm",
   })
     .setProtectedHeader({ alg: "HS256" })
@@ -89,22 +134,22 @@ export async function generateEmailConfirmToken(
 }
 
 /**
- * Generate password reset token (1 hour)
+ * Generate password reset token (10 minutes)
  */
 export async function generatePasswordResetToken(
   userId: string,
   email: string,
-  workspaceId: string,
+  tenantId: string,
   event?: H3Event
 ): Promise<string> {
   const secret = getJWTSecret(event);
   const now = Math.floor(Date.now() / 1000);
-  const expiresIn = 10 * 60; // 10 minutes
+  const expiresIn = EMAIL_TOKEN_TTL_SECONDS["password-reset"];
 
   return await new SignJWT({
     userId,
     email,
-    workspaceId, // Bind token to workspace
+    tenantId, // Bind token to tenant
     purpose: "password-reset",
   })
     .setProtectedHeader({ alg: "HS256" })
@@ -118,12 +163,12 @@ export async function generatePasswordResetToken(
 /**
  * Verify email confirmation token
  * @param token - JWT token to verify
- * @param currentWorkspaceId - Current workspace ID from context (for validation)
+ * @param currentTenantId - Current tenant ID (getTenantId, "default" in single-tenant mode)
  * @param event - H3 event for config access
  */
 export async function verifyEmailConfirmToken(
   token: string,
-  currentWorkspaceId: string,
+  currentTenantId: string,
   event?: H3Event
 ): Promise<EmailConfirmTokenPayload> {
   try {
@@ -140,11 +185,11 @@ export async function verifyEmailConfirmToken(
       });
     }
 
-    // CRITICAL: Validate token is for current workspace
-    if (payload.workspaceId !== currentWorkspaceId) {
-      throw new InvalidTokenError("Token workspace mismatch", {
-        tokenWorkspaceId: payload.workspaceId,
-        currentWorkspaceId: currentWorkspaceId
+    // CRITICAL: Validate token is for current tenant
+    if (payload.tenantId !== currentTenantId) {
+      throw new InvalidTokenError("Token tenant mismatch", {
+        tokenTenantId: payload.tenantId,
+        currentTenantId: currentTenantId
       });
     }
 
@@ -164,12 +209,12 @@ export async function verifyEmailConfirmToken(
 /**
  * Verify password reset token
  * @param token - JWT token to verify
- * @param currentWorkspaceId - Current workspace ID from context (for validation)
+ * @param currentTenantId - Current tenant ID (getTenantId, "default" in single-tenant mode)
  * @param event - H3 event for config access
  */
 export async function verifyPasswordResetToken(
   token: string,
-  currentWorkspaceId: string,
+  currentTenantId: string,
   event?: H3Event
 ): Promise<PasswordResetTokenPayload> {
   try {
@@ -186,11 +231,11 @@ export async function verifyPasswordResetToken(
       });
     }
 
-    // CRITICAL: Validate token is for current workspace
-    if (payload.workspaceId !== currentWorkspaceId) {
-      throw new InvalidTokenError("Token workspace mismatch", {
-        tokenWorkspaceId: payload.workspaceId,
-        currentWorkspaceId: currentWorkspaceId
+    // CRITICAL: Validate token is for current tenant
+    if (payload.tenantId !== currentTenantId) {
+      throw new InvalidTokenError("Token tenant mismatch", {
+        tokenTenantId: payload.tenantId,
+        currentTenantId: currentTenantId
       });
     }
 
@@ -207,6 +252,283 @@ export async function verifyPasswordResetToken(
   }
 }
 
+/**
+ * Generate email change token (1 hour)
+ * Sent to the new address; confirming it swaps the account email
+ */
+export async function generateEmailChangeToken(
+  userId: string,
+  email: string,
+  newEmail: string,
+  tenantId: string,
+  event?: H3Event
+): Promise<string> {
+  const secret = getJWTSecret(event);
+  const now = Math.floor(Date.now() / 1000);
+  const expiresIn = EMAIL_TOKEN_TTL_SECONDS["email-change"];
+
+  return await new SignJWT({
+    userId,
+    email,
+    newEmail,
+    tenantId, // Bind token to tenant
+    purpose: "email-change",
+  })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresIn)
+    .setIssuer(JWT_CONFIG.ISSUER)
+    .setAudience(JWT_CONFIG.AUDIENCE)
+    .sign(secret);
+}
+
+/**
+ * Verify email change token
+ * @param token - JWT token to verify
+ * @param currentTenantId - Current tenant ID (getTenantId, "default" in single-tenant mode)
+ * @param event - H3 event for config access
+ */
+export async function verifyEmailChangeToken(
+  token: string,
+  currentTenantId: string,
+  event?: H3Event
+): Promise<EmailChangeTokenPayload> {
+  try {
+    const secret = getJWTSecret(event);
+    const { payload } = await jwtVerify(token, secret, {
+      issuer: JWT_CONFIG.ISSUER,
+      audience: JWT_CONFIG.AUDIENCE,
+    });
+
+    if (payload.purpose !== "email-change") {
+      throw new InvalidTokenPurposeError(undefined, {
+        expectedPurpose: 'email-change',
+        actualPurpose: payload.purpose
+      });
+    }
+
+    // CRITICAL: Validate token is for current tenant
+    if (payload.tenantId !== currentTenantId) {
+      throw new InvalidTokenError("Token tenant mismatch", {
+        tokenTenantId: payload.tenantId,
+        currentTenantId: currentTenantId
+      });
+    }
+
+    return payload as unknown as EmailChangeTokenPayload;
+  } catch (error) {
+    if ((error as any).code === "ERR_JWT_EXPIRED") {
+      throw new TokenExpiredError(undefined, {
+        tokenPurpose: 'email-change'
+      });
+    }
+    throw new InvalidTokenError(undefined, {
+      errorType: (error as any).code || 'unknown'
+    });
+  }
+}
+
+/**
+ * Generate magic-link sign-in token (15 minutes)
+ */
+export async function generateMagicLinkToken(
+  userId: string,
+  email: string,
+  tenantId: string,
+  event?: H3Event
+): Promise<string> {
+  const secret = getJWTSecret(event);
+  const now = Math.floor(Date.now() / 1000);
+  const expiresIn = EMAIL_TOKEN_TTL_SECONDS["magic-link"];
+
+  return await new SignJWT({
+    userId,
+    email,
+    tenantId, // Bind token to tenant
+    purpose: "magic-link",
+  })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresIn)
+    .setIssuer(JWT_CONFIG.ISSUER)
+    .setAudience(JWT_CONFIG.AUDIENCE)
+    .sign(secret);
+}
+
+/**
+ * Verify magic-link sign-in token
+ * @param token - JWT token to verify
+ * @param currentTenantId - Current tenant ID (getTenantId, "default" in single-tenant mode)
+ * @param event - H3 event for config access
+ */
+export async function verifyMagicLinkToken(
+  token: string,
+  currentTenantId: string,
+  event?: H3Event
+): Promise<MagicLinkTokenPayload> {
+  try {
+    const secret = getJWTSecret(event);
+    const { payload } = await jwtVerify(token, secret, {
+      issuer: JWT_CONFIG.ISSUER,
+      audience: JWT_CONFIG.AUDIENCE,
+    });
+
+    if (payload.purpose !== "magic-link") {
+      throw new InvalidTokenPurposeError(undefined, {
+        expectedPurpose: 'magic-link',
+        actualPurpose: payload.purpose
+      });
+    }
+
+    // CRITICAL: Validate token is for current tenant
+    if (payload.tenantId !== currentTenantId) {
+      throw new InvalidTokenError("Token tenant mismatch", {
+        tokenTenantId: payload.tenantId,
+        currentTenantId: currentTenantId
+      });
+    }
+
+    return payload as unknown as MagicLinkTokenPayload;
+  } catch (error) {
+    if ((error as any).code === "ERR_JWT_EXPIRED") {
+      throw new TokenExpiredError(undefined, {
+        tokenPurpose: 'magic-link'
+      });
+    }
+    throw new InvalidTokenError(undefined, {
+      errorType: (error as any).code || 'unknown'
+    });
+  }
+}
+
+/**
+ * Generate MFA pending token (5 minutes)
+ * Issued after the password step of a sign-in when a second factor is
+ * required - the session is only created once the factor is verified
+ */
+export async function generateMfaPendingToken(
+  userId: string,
+  event?: H3Event
+): Promise<string> {
+  const secret = getJWTSecret(event);
+  const now = Math.floor(Date.now() / 1000);
+  const expiresIn = 5 * 60; // 5 minutes
+
+  return await new SignJWT({
+    userId,
+    purpose: "mfa-pending",
+  })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresIn)
+    .setIssuer(JWT_CONFIG.ISSUER)
+    .setAudience(JWT_CONFIG.AUDIENCE)
+    .sign(secret);
+}
+
+/**
+ * Verify MFA pending token
+ * @param token - JWT token to verify
+ * @param event - H3 event for config access
+ */
+export async function verifyMfaPendingToken(
+  token: string,
+  event?: H3Event
+): Promise<MfaPendingTokenPayload> {
+  try {
+    const secret = getJWTSecret(event);
+    const { payload } = await jwtVerify(token, secret, {
+      issuer: JWT_CONFIG.ISSUER,
+      audience: JWT_CONFIG.AUDIENCE,
+    });
+
+    if (payload.purpose !== "mfa-pending") {
+      throw new InvalidTokenPurposeError(undefined, {
+        expectedPurpose: 'mfa-pending',
+        actualPurpose: payload.purpose
+      });
+    }
+
+    return payload as unknown as MfaPendingTokenPayload;
+  } catch (error) {
+    if ((error as any).code === "ERR_JWT_EXPIRED") {
+      throw new TokenExpiredError(undefined, {
+        tokenPurpose: 'mfa-pending'
+      });
+    }
+    throw new InvalidTokenError(undefined, {
+      errorType: (error as any).code || 'unknown'
+    });
+  }
+}
+
+/**
+ * Generate WebAuthn challenge token (5 minutes)
+ * Keeps the ceremony stateless: the client returns the token with the
+ * authenticator response and the challenge is checked against it
+ * (single use - PasskeyService records consumed challenges)
+ */
+export async function generateWebAuthnChallengeToken(
+  challenge: string,
+  purpose: WebAuthnCeremony,
+  userId?: string,
+  event?: H3Event
+): Promise<string> {
+  const secret = getJWTSecret(event);
+  const now = Math.floor(Date.now() / 1000);
+  const expiresIn = 5 * 60; // 5 minutes
+
+  return await new SignJWT({
+    challenge,
+    userId,
+    purpose,
+  })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresIn)
+    .setIssuer(JWT_CONFIG.ISSUER)
+    .setAudience(JWT_CONFIG.AUDIENCE)
+    .sign(secret);
+}
+
+/**
+ * Verify WebAuthn challenge token
+ * @param token - JWT token to verify
+ * @param purpose - Ceremony the token must have been issued for
+ * @param event - H3 event for config access
+ */
+export async function verifyWebAuthnChallengeToken(
+  token: string,
+  purpose: WebAuthnCeremony,
+  event?: H3Event
+): Promise<WebAuthnChallengeTokenPayload> {
+  try {
+    const secret = getJWTSecret(event);
+    const { payload } = await jwtVerify(token, secret, {
+      issuer: JWT_CONFIG.ISSUER,
+      audience: JWT_CONFIG.AUDIENCE,
+    });
+
+    if (payload.purpose !== purpose) {
+      throw new InvalidTokenPurposeError(undefined, {
+        expectedPurpose: purpose,
+        actualPurpose: payload.purpose
+      });
+    }
+
+    return payload as unknown as WebAuthnChallengeTokenPayload;
+  } catch (error) {
+    if ((error as any).code === "ERR_JWT_EXPIRED") {
+      throw new TokenExpiredError(undefined, {
+        tokenPurpose: purpose
+      });
+    }
+    throw new InvalidTokenError(undefined, {
+      errorType: (error as any).code || 'unknown'
+    });
+  }
+}
+
 // ========================================
 // PASSWORD HASHING
 // ========================================
@@ -0,0 +1,36 @@
+// ========================================
+// CRYPTO UTILITIES
+// ========================================
+// Opaque random tokens (invites, one-time links) and token hashing
+// Uses Web Crypto only - works in Workers and Node
+// ========================================
+
+/**
+ * Generate a URL-safe random token (hex encoded)
+ *
+ * @param bytes - Number of random bytes (default 32 = 256 bits)
+ *
+ * @example
+ * generateSecureToken() // "9f86d081884c7d65..." (64 chars)
+ */
+export function generateSecureToken(bytes = 32): string {
+  const buffer = new Uint8Array(bytes);
+  crypto.getRandomValues(buffer);
+
+  return Array.from(buffer, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * SHA-256 of a token (hex encoded) - store this instead of the token
+ * so a database leak doesn't expose usable links
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
@@ -0,0 +1,319 @@
+import validator from "validator";
+import { messages, type MessageLocale } from "../../i18n/messages";
+
+// ========================================
+// EMAIL TEMPLATES
+// ========================================
+// Localized transactional email templates (HTML + plain text)
+// Strings live under `emails` in i18n/messages.ts (shared with the app)
+// Preview in development: GET /api/dev/emails/:template?locale=zh-CN
+// ========================================
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+export const EMAIL_LOCALES = Object.keys(messages) as MessageLocale[];
+
+export const DEFAULT_EMAIL_LOCALE: MessageLocale = "en";
+
+// ========================================
+// TYPES
+// ========================================
+
+export type EmailLocale = MessageLocale;
+
+export type SecurityNoticeEvent = keyof (typeof messages)["en"]["emails"]["securityNotice"]["events"];
+
+/**
+ * Data each template is rendered with
+ */
+export interface EmailTemplateData {
+  "email-confirm": { name?: string | null; actionUrl: string };
+  "password-reset": { name?: string | null; actionUrl: string };
+  "email-change": { name?: string | null; newEmail: string; actionUrl: string };
+  "magic-link": { name?: string | null; actionUrl: string };
+  "workspace-invite": {
+    workspace: string;
+    inviter?: string | null;
+    role: string;
+    actionUrl: string;
+  };
+  "security-notice": {
+    name?: string | null;
+    event: SecurityNoticeEvent;
+    occurredAt: Date;
+    ipAddress?: string | null;
+    actionUrl: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Layout-independent content of an email
+ */
+interface EmailContent {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  action: { label: string; url: string };
+  outro: string;
+}
+
+type Translate = (key: string, params?: Record<string, string>) => string;
+
+// ========================================
+// LOCALE HELPERS
+// ========================================
+
+/**
+ * Normalize a locale value (user setting, cookie, Accept-Language entry)
+ * Returns null for unsupported locales
+ */
+export function resolveEmailLocale(value: unknown): EmailLocale | null {
+  if (typeof value !== "string" || !value) {
+    return null;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  const exact = EMAIL_LOCALES.find((locale) => locale.toLowerCase() === normalized);
+  if (exact) {
+    return exact;
+  }
+
+  // "zh-hant"/"zh-hk" → zh-TW, other Chinese variants → zh-CN, "en-us" → en
+  if (/^zh-(hant|tw|hk|mo)/.test(normalized)) return "zh-TW";
+  if (normalized.startsWith("zh")) return "zh-CN";
+  if (normalized.startsWith("en")) return "en";
+
+  return null;
+}
+
+/**
+ * Look up an `emails.*` string, falling back to English
+ */
+function createTranslator(locale: EmailLocale): Translate {
+  const lookup = (source: unknown, key: string): string | undefined => {
+    const value = key
+      .split(".")
+      .reduce<unknown>(
+        (node, part) =>
+          node && typeof node === "object"
+            ? (node as Record<string, unknown>)[part]
+            : undefined,
+        source
+      );
+    return typeof value === "string" ? value : undefined;
+  };
+
+  return (key, params = {}) => {
+    const template =
+      lookup(messages[locale].emails, key) ??
+      lookup(messages[DEFAULT_EMAIL_LOCALE].emails, key) ??
+      key;
+
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+      params[name] !== undefined ? params[name] : match
+    );
+  };
+}
+
+// ========================================
+// TEMPLATES
+// ========================================
+
+const greeting = (t: Translate, name?: string | null) =>
+  name?.trim() ? t("common.greeting", { name: name.trim() }) : t("common.greetingNoName");
+
+const TEMPLATES: {
+  [T in EmailTemplateName]: (
+    t: Translate,
+    data: EmailTemplateData[T],
+    locale: EmailLocale
+  ) => EmailContent;
+} = {
+  "email-confirm": (t, data) => ({
+    subject: t("emailConfirm.subject"),
+    greeting: greeting(t, data.name),
+    paragraphs: [t("emailConfirm.intro")],
+    action: { label: t("emailConfirm.action"), url: data.actionUrl },
+    outro: t("emailConfirm.outro"),
+  }),
+
+  "password-reset": (t, data) => ({
+    subject: t("passwordReset.subject"),
+    greeting: greeting(t, data.name),
+    paragraphs: [t("passwordReset.intro")],
+    action: { label: t("passwordReset.action"), url: data.actionUrl },
+    outro: t("passwordReset.outro"),
+  }),
+
+  "email-change": (t, data) => ({
+    subject: t("emailChange.subject"),
+    greeting: greeting(t, data.name),
+    paragraphs: [t("emailChange.intro", { email: data.newEmail })],
+    action: { label: t("emailChange.action"), url: data.actionUrl },
+    outro: t("emailChange.outro"),
+  }),
+
+  "magic-link": (t, data) => ({
+    subject: t("magicLink.subject"),
+    greeting: greeting(t, data.name),
+    paragraphs: [t("magicLink.intro")],
+    action: { label: t("magicLink.action"), url: data.actionUrl },
+    outro: t("magicLink.outro"),
+  }),
+
+  "workspace-invite": (t, data) => {
+    const inviter = data.inviter?.trim();
+    const params = { workspace: data.workspace, role: data.role };
+
+    return {
+      subject: t("workspaceInvite.subject", params),
+      greeting: greeting(t),
+      paragraphs: [
+        inviter
+          ? t("workspaceInvite.intro", { ...params, inviter })
+          : t("workspaceInvite.introNoInviter", params),
+      ],
+      action: { label: t("workspaceInvite.action"), url: data.actionUrl },
+      outro: t("workspaceInvite.outro"),
+    };
+  },
+
+  "security-notice": (t, data, locale) => {
+    const time = new Intl.DateTimeFormat(locale, {
+      dateStyle: "medium",
+      timeStyle: "short",
+      timeZone: "UTC",
+    }).format(data.occurredAt);
+
+    return {
+      subject: t("securityNotice.subject"),
+      greeting: greeting(t, data.name),
+      paragraphs: [
+        t(`securityNotice.events.${data.event}`),
+        t("securityNotice.time", { time: `${time} UTC` }),
+        ...(data.ipAddress
+          ? [t("securityNotice.ipAddress", { ipAddress: data.ipAddress })]
+          : []),
+      ],
+      action: { label: t("securityNotice.action"), url: data.actionUrl },
+      outro: t("securityNotice.outro"),
+    };
+  },
+};
+
+/**
+ * Sample data for previews (GET /api/dev/emails/:template)
+ */
+export const EMAIL_TEMPLATE_SAMPLES: {
+  [T in EmailTemplateName]: EmailTemplateData[T];
+} = {
+  "email-confirm": {
+    name: "Ada",
+    actionUrl: "https://app.example.com/auth/email/confirm?token=sample-token",
+  },
+  "password-reset": {
+    name: "Ada",
+    actionUrl: "https://app.example.com/auth/password/reset?token=sample-token",
+  },
+  "email-change": {
+    name: "Ada",
+    newEmail: "ada@new.example.com",
+    actionUrl: "https://app.example.com/auth/email/change?token=sample-token",
+  },
+  "magic-link": {
+    name: "Ada",
+    actionUrl: "https://app.example.com/auth/magic-link?token=sample-token",
+  },
+  "workspace-invite": {
+    workspace: "Acme Inc.",
+    inviter: "Grace Hopper",
+    role: "manager",
+    actionUrl: "https://app.example.com/invite/sample-token",
+  },
+  "security-notice": {
+    name: "Ada",
+    event: "passwordChanged",
+    occurredAt: new Date("2025-01-01T09:30:00Z"),
+    ipAddress: "203.0.113.7",
+    actionUrl: "https://app.example.com/account",
+  },
+};
+
+export const EMAIL_TEMPLATE_NAMES = Object.keys(TEMPLATES) as EmailTemplateName[];
+
+export function isEmailTemplateName(value: unknown): value is EmailTemplateName {
+  return typeof value === "string" && Object.hasOwn(TEMPLATES, value);
+}
+
+// ========================================
+// RENDERING
+// ========================================
+
+/**
+ * Render a template in a locale (HTML + plain text)
+ */
+export function renderEmailTemplate<T extends EmailTemplateName>(
+  template: T,
+  locale: EmailLocale,
+  data: EmailTemplateData[T]
+): RenderedEmail {
+  const t = createTranslator(locale);
+  const content = TEMPLATES[template](t, data, locale);
+
+  return {
+    subject: content.subject,
+    html: renderHtml(content, locale, t),
+    text: renderText(content, t),
+  };
+}
+
+function renderText(content: EmailContent, t: Translate): string {
+  return [
+    content.greeting,
+    ...content.paragraphs,
+    `${content.action.label}: ${content.action.url}`,
+    content.outro,
+    "--",
+    t("common.footer"),
+  ].join("\n\n");
+}
+
+function renderHtml(content: EmailContent, locale: EmailLocale, t: Translate): string {
+  const escape = (value: string) => validator.escape(value);
+  const url = escape(content.action.url);
+
+  const paragraphs = content.paragraphs
+    .map((paragraph) => `<p style="margin:0 0 16px">${escape(paragraph)}</p>`)
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escape(content.subject)}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#18181b">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px">
+<tr><td style="padding:32px;font-size:15px;line-height:1.6">
+<p style="margin:0 0 16px">${escape(content.greeting)}</p>
+${paragraphs}
+<p style="margin:24px 0"><a href="${url}" style="display:inline-block;padding:10px 20px;background:#18181b;color:#ffffff;text-decoration:none;border-radius:6px">${escape(content.action.label)}</a></p>
+<p style="margin:0 0 16px">${escape(content.outro)}</p>
+<p style="margin:0;font-size:13px;color:#71717a">${escape(t("common.linkFallback"))}<br><a href="${url}" style="color:#71717a;word-break:break-all">${url}</a></p>
+</td></tr>
+</table>
+<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#a1a1aa;text-align:center">${escape(t("common.footer"))}</p>
+</body>
+</html>`;
+}
@@ -0,0 +1,234 @@
+import { ExternalServiceError, InternalServerError } from "#server/error/errors";
+
+// ========================================
+// EMAIL LIBRARY
+// ========================================
+// Provider-agnostic email delivery
+// Providers: resend, postmark, capture (in-memory, dev/tests), none (logged)
+// Provider is selected via runtimeConfig.email.provider
+// ========================================
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+const RESEND_API_URL = "https://api.resend.com/emails";
+const POSTMARK_API_URL = "https://api.postmarkapp.com/email";
+
+/** Captured messages kept in memory (oldest dropped first) */
+const MAX_CAPTURED_EMAILS = 100;
+
+// ========================================
+// TYPES
+// ========================================
+
+export type EmailProviderName = "none" | "capture" | "resend" | "postmark";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Message category for provider analytics (e.g. "password-reset") */
+  tag?: string;
+}
+
+export interface OutgoingEmail extends EmailMessage {
+  from: string;
+}
+
+export interface CapturedEmail extends OutgoingEmail {
+  sentAt: Date;
+}
+
+/**
+ * Email provider interface
+ * send() throws ExternalServiceError when the provider rejects the message
+ */
+export interface EmailProvider {
+  readonly name: EmailProviderName;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+// ========================================
+// PROVIDERS
+// ========================================
+
+/**
+ * Resend (https://resend.com/docs/api-reference/emails/send-email)
+ */
+export class ResendEmailProvider implements EmailProvider {
+  readonly name = "resend" as const;
+
+  constructor(private readonly apiKey: string) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    const response = await fetch(RESEND_API_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: email.from,
+        to: [email.to],
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        tags: email.tag ? [{ name: "category", value: email.tag }] : undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new ExternalServiceError("Failed to send email via Resend", {
+        provider: this.name,
+        status: response.status,
+        response: await response.text(),
+      });
+    }
+  }
+}
+
+/**
+ * Postmark (https://postmarkapp.com/developer/user-guide/send-email-with-api)
+ */
+export class PostmarkEmailProvider implements EmailProvider {
+  readonly name = "postmark" as const;
+
+  constructor(private readonly serverToken: string) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    const response = await fetch(POSTMARK_API_URL, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        "X-Postmark-Server-Token": this.serverToken,
+      },
+      body: JSON.stringify({
+        From: email.from,
+        To: email.to,
+        Subject: email.subject,
+        HtmlBody: email.html,
+        TextBody: email.text,
+        Tag: email.tag,
+        MessageStream: "outbound",
+      }),
+    });
+
+    if (!response.ok) {
+      throw new ExternalServiceError("Failed to send email via Postmark", {
+        provider: this.name,
+        status: response.status,
+        response: await response.text(),
+      });
+    }
+  }
+}
+
+const capturedEmails: CapturedEmail[] = [];
+
+/**
+ * Capture provider - keeps messages in memory instead of sending them
+ * Use in development and tests; read them back with getCapturedEmails()
+ * The body (links included) is only logged when logBody is set - it
+ * carries sign-in and reset tokens
+ */
+export class CaptureEmailProvider implements EmailProvider {
+  readonly name = "capture" as const;
+
+  constructor(private readonly logBody = false) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    capturedEmails.push({ ...email, sentAt: new Date() });
+    if (capturedEmails.length > MAX_CAPTURED_EMAILS) {
+      capturedEmails.shift();
+    }
+
+    console.info(
+      `[Email] Captured "${email.subject}" to ${email.to}` +
+        (this.logBody ? `\n${email.text}` : "")
+    );
+  }
+}
+
+/**
+ * No-op provider - logs and drops messages (email not configured)
+ */
+export class NoopEmailProvider implements EmailProvider {
+  readonly name = "none" as const;
+
+  async send(email: OutgoingEmail): Promise<void> {
+    console.warn(
+      `[Email] No email provider configured - dropped "${email.subject}" to ${email.to}`
+    );
+  }
+}
+
+/**
+ * Create the provider selected in runtimeConfig.email
+ */
+export function createEmailProvider(config: {
+  provider: string;
+  apiKey?: string;
+  logBody?: boolean;
+}): EmailProvider {
+  switch (config.provider) {
+    case "resend":
+    case "postmark": {
+      if (!config.apiKey) {
+        throw new InternalServerError(
+          `Email provider "${config.provider}" requires NUXT_EMAIL_API_KEY`
+        );
+      }
+      return config.provider === "resend"
+        ? new ResendEmailProvider(config.apiKey)
+        : new PostmarkEmailProvider(config.apiKey);
+    }
+    case "capture":
+      return new CaptureEmailProvider(config.logBody);
+    case "none":
+    case "":
+      return new NoopEmailProvider();
+    default:
+      throw new InternalServerError(
+        `Unknown email provider "${config.provider}"`
+      );
+  }
+}
+
+// ========================================
+// CAPTURE HELPERS (dev/tests)
+// ========================================
+
+/**
+ * Messages captured by CaptureEmailProvider, oldest first
+ * Optionally filtered by recipient
+ */
+export function getCapturedEmails(to?: string): CapturedEmail[] {
+  const normalized = to?.toLowerCase();
+  return capturedEmails.filter(
+    (email) => !normalized || email.to.toLowerCase() === normalized
+  );
+}
+
+/**
+ * Most recent captured message (optionally for a recipient)
+ */
+export function getLastCapturedEmail(to?: string): CapturedEmail | undefined {
+  return getCapturedEmails(to).at(-1);
+}
+
+/**
+ * Forget all captured messages
+ */
+export function clearCapturedEmails(): void {
+  capturedEmails.length = 0;
+}
+
+/**
+ * Extract the links of a message (from its text part)
+ */
+export function extractEmailLinks(email: EmailMessage): string[] {
+  return email.text.match(/https?:\/\/[^\s<>"]+/g) ?? [];
+}
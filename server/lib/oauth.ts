@@ -1,42 +1,130 @@
-import { SignJWT, jwtVerify } from "jose";
+import { SignJWT, base64url, jwtVerify } from "jose";
 import type { H3Event } from "h3";
-import { InvalidTokenError, TokenExpiredError } from "#server/error/errors";
+import { deleteCookie, getCookie, getRequestURL, setCookie } from "h3";
+import {
+  ExternalServiceError,
+  InvalidTokenError,
+  OAuthProviderError,
+  TokenExpiredError,
+} from "#server/error/errors";
+import { isDevelopment, isProduction, isTest } from "#server/utils/environment";
+import {
+  isOAuthProviderId,
+  OAUTH_PROVIDER_IDS,
+  type OAuthProviderId,
+} from "#shared/constants/auth";
 
 // ========================================
 // OAUTH LIBRARY
 // ========================================
-// Utilities for OAuth authentication flows
+// Provider registry and utilities for the OAuth 2.0 / OpenID Connect
+// authorization code flow (server/api/auth/[provider])
+// A provider is available once its client credentials are configured
+// (runtimeConfig.oauth.<provider>), see docs/OAUTH_SETUP.md
+// Every flow uses PKCE: the code_verifier stays in a short-lived cookie
+// and the state token is bound to it
 // ========================================
 
 // ========================================
 // CONFIGURATION
 // ========================================
 
-export const GOOGLE_OAUTH_CONFIG = {
-  authorizationUrl: "https://accounts.google.com/o/oauth2/v2/auth",
-  tokenUrl: "https://oauth2.googleapis.com/token",
-  userInfoUrl: "https://www.googleapis.com/oauth2/v3/userinfo",
-  scopes: ["openid", "email", "profile"],
-};
+const STATE_TOKEN_EXPIRES_IN = 10 * 60; // 10 minutes (also the PKCE cookie lifetime)
+const PKCE_COOKIE_PREFIX = "oauth_pkce_"; // One cookie per provider: oauth_pkce_<provider>
+const DISCOVERY_CACHE_TTL = 60 * 60 * 1000; // 1 hour (ms)
 
-const STATE_TOKEN_EXPIRES_IN = 10 * 60; // 10 minutes
+export const MOCK_OIDC_CONFIG = {
+  CLIENT_ID: "mock-client",
+  CLIENT_SECRET: "mock-secret",
+  DEFAULT_EMAIL: "oidc-user@example.com",
+  CODE_EXPIRES_IN: 60, // seconds
+  ACCESS_TOKEN_EXPIRES_IN: 60 * 60, // seconds
+};
 
 // ========================================
 // TYPES
 // ========================================
 
-export interface GoogleUser {
-  sub: string; // Google user ID
+export interface OAuthEndpoints {
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+}
+
+/**
+ * Provider user, normalized for IdentityService.findOrCreateOAuthUser
+ */
+export interface OAuthProfile {
+  providerId: string; // Stable user ID at the provider (OIDC "sub")
   email: string;
-  email_verified: boolean;
+  emailVerified: boolean;
+  firstName: string;
+  lastName: string;
+  picture?: string;
+}
+
+export interface OAuthTokens {
+  access_token: string;
+  id_token?: string;
+  refresh_token?: string;
+}
+
+/**
+ * Standard OpenID Connect userinfo claims
+ */
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
   given_name?: string;
   family_name?: string;
   picture?: string;
 }
 
+interface OAuthProviderSettings {
+  name: string; // Shown on the sign-in button
+  clientId: string;
+  clientSecret: string;
+  discoveryUrl?: string; // OpenID Connect providers only
+}
+
+interface OAuthProviderDefinition {
+  scopes: string[];
+  /** Extra authorization request parameters */
+  authorizationParams?: Record<string, string>;
+  /** Settings from runtime config, null while the provider is not configured */
+  settings(event: H3Event): OAuthProviderSettings | null;
+  endpoints(settings: OAuthProviderSettings): OAuthEndpoints | Promise<OAuthEndpoints>;
+  fetchProfile(accessToken: string, endpoints: OAuthEndpoints): Promise<OAuthProfile>;
+}
+
+/**
+ * A configured provider, ready to run the authorization code flow
+ */
+export interface OAuthProvider {
+  id: OAuthProviderId;
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  authorizationParams?: Record<string, string>;
+  endpoints: OAuthEndpoints;
+  fetchProfile(accessToken: string): Promise<OAuthProfile>;
+}
+
 export interface OAuthStateTokenPayload {
   purpose: "oauth-state";
-  nonce: string;
+  provider: OAuthProviderId;
+  nonce: string; // PKCE code_challenge - binds the state to the verifier cookie
+  redirectTo?: string; // Same-origin path to land on after sign-in
+  linkUserId?: string; // Set when a signed-in user links this provider
+}
+
+export interface OAuthStateOptions {
+  codeChallenge: string;
+  redirectTo?: string;
+  linkUserId?: string;
 }
 
 // ========================================
@@ -61,19 +149,26 @@ function getJWTSecret(event?: H3Event): Uint8Array {
 
 /**
  * Generate OAuth state token for CSRF protection
+ * @param provider - Provider the authorization request is sent to
+ * @param options - PKCE code_challenge, redirect and link target
  * @param event - H3 event for config access
  * @returns Signed JWT state token
  */
-export async function generateOAuthStateToken(event?: H3Event): Promise<string> {
+export async function generateOAuthStateToken(
+  provider: OAuthProviderId,
+  options: OAuthStateOptions,
+  event?: H3Event
+): Promise<string> {
   const secret = getJWTSecret(event);
   const now = Math.floor(Date.now() / 1000);
-
-  // Generate random nonce for additional security
-  const nonce = Math.random().toString(36).substring(2) + Date.now().toString(36);
+  const { codeChallenge, redirectTo, linkUserId } = options;
 
   return await new SignJWT({
     purpose: "oauth-state",
-    nonce,
+    provider,
+    nonce: codeChallenge,
+    ...(redirectTo ? { redirectTo } : {}),
+    ...(linkUserId ? { linkUserId } : {}),
   })
     .setProtectedHeader({ alg: "HS256" })
     .setIssuedAt(now)
@@ -86,11 +181,15 @@ export async function generateOAuthStateToken(event?: H3Event): Promise<string>
 /**
  * Verify OAuth state token
  * @param token - State token to verify
+ * @param provider - Provider whose callback received the token
+ * @param codeVerifier - PKCE code_verifier from this browser's cookie
  * @param event - H3 event for config access
  * @returns Decoded token payload
  */
 export async function verifyOAuthStateToken(
   token: string,
+  provider: OAuthProviderId,
+  codeVerifier: string | undefined,
   event?: H3Event
 ): Promise<OAuthStateTokenPayload> {
   try {
@@ -104,6 +203,16 @@ export async function verifyOAuthStateToken(
       throw new InvalidTokenError("Invalid token purpose");
     }
 
+    // A state issued for one provider can't complete another provider's flow
+    if (payload.provider !== provider) {
+      throw new InvalidTokenError("OAuth state issued for another provider");
+    }
+
+    // Only the browser that started the flow holds the matching verifier
+    if (!codeVerifier || payload.nonce !== (await createCodeChallenge(codeVerifier))) {
+      throw new InvalidTokenError("OAuth state issued to another browser");
+    }
+
     return payload as unknown as OAuthStateTokenPayload;
   } catch (error) {
     if ((error as any).code === "ERR_JWT_EXPIRED") {
@@ -114,52 +223,444 @@ export async function verifyOAuthStateToken(
 }
 
 // ========================================
-// GOOGLE OAUTH FLOW
+// PKCE (RFC 7636)
+// ========================================
+
+/**
+ * Random code_verifier (43 characters, base64url)
+ */
+export function generateCodeVerifier(): string {
+  return base64url.encode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * S256 code_challenge of a code_verifier
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(codeVerifier)
+  );
+  return base64url.encode(new Uint8Array(digest));
+}
+
+/**
+ * Keep the code_verifier for the callback
+ * SameSite=lax: the callback is a top-level redirect from the provider
+ */
+function setPkceCookie(event: H3Event, provider: OAuthProviderId, codeVerifier: string) {
+  setCookie(event, `${PKCE_COOKIE_PREFIX}${provider}`, codeVerifier, {
+    httpOnly: true,
+    secure: isProduction(event),
+    sameSite: "lax",
+    path: "/api/auth",
+    maxAge: STATE_TOKEN_EXPIRES_IN,
+  });
+}
+
+/**
+ * Read and clear the code_verifier - each flow can complete once
+ */
+function takePkceCookie(event: H3Event, provider: OAuthProviderId): string | undefined {
+  const name = `${PKCE_COOKIE_PREFIX}${provider}`;
+  const codeVerifier = getCookie(event, name);
+  deleteCookie(event, name, { path: "/api/auth" });
+  return codeVerifier;
+}
+
+/**
+ * Same-origin path to redirect to after sign-in, "/" for anything else
+ * Rejects absolute and protocol-relative URLs ("//evil.test", "/\evil.test")
+ */
+export function sanitizeRedirectPath(value: unknown): string {
+  if (
+    typeof value !== "string" ||
+    !value.startsWith("/") ||
+    value.startsWith("//") ||
+    /[\\\s]/.test(value)
+  ) {
+    return "/";
+  }
+
+  const base = "http://localhost";
+  const url = new URL(value, base);
+  return url.origin === base ? `${url.pathname}${url.search}${url.hash}` : "/";
+}
+
+// ========================================
+// PROVIDER HELPERS
+// ========================================
+
+/**
+ * Settings for providers configured with a client ID and secret
+ */
+function clientSettings(
+  name: string,
+  credentials?: { clientId?: string; clientSecret?: string }
+): OAuthProviderSettings | null {
+  if (!credentials?.clientId || !credentials?.clientSecret) {
+    return null;
+  }
+
+  return {
+    name,
+    clientId: credentials.clientId,
+    clientSecret: credentials.clientSecret,
+  };
+}
+
+/**
+ * GET a JSON document from a provider (userinfo, discovery, ...)
+ */
+async function fetchProviderJson<T>(
+  url: string,
+  accessToken?: string,
+  headers: Record<string, string> = {}
+): Promise<T> {
+  const response = await fetch(url, {
+    headers: {
+      Accept: "application/json",
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      ...headers,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Request to ${url} failed: ${error}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Split a display name into first and last name
+ */
+function splitName(name?: string | null): { firstName: string; lastName: string } {
+  const [firstName = "", ...rest] = (name || "").trim().split(/\s+/);
+  return { firstName, lastName: rest.join(" ") };
+}
+
+/**
+ * Normalize standard OpenID Connect claims
+ * A missing email_verified claim counts as unverified
+ */
+export function profileFromOidcClaims(claims: OidcClaims): OAuthProfile {
+  // Validate required fields
+  if (!claims.sub || !claims.email) {
+    throw new Error("Missing required user info fields");
+  }
+
+  const fallbackName = splitName(claims.name);
+
+  return {
+    providerId: claims.sub,
+    email: claims.email,
+    emailVerified: claims.email_verified === true,
+    firstName: claims.given_name || fallbackName.firstName,
+    lastName: claims.family_name || fallbackName.lastName,
+    picture: claims.picture,
+  };
+}
+
+/**
+ * Fetch and normalize the userinfo of an OpenID Connect provider
+ */
+async function fetchOidcProfile(
+  accessToken: string,
+  endpoints: OAuthEndpoints
+): Promise<OAuthProfile> {
+  return profileFromOidcClaims(
+    await fetchProviderJson<OidcClaims>(endpoints.userInfoUrl, accessToken)
+  );
+}
+
+const discoveryCache = new Map<string, { endpoints: OAuthEndpoints; expiresAt: number }>();
+
+/**
+ * Resolve endpoints from an OpenID Connect discovery document
+ * (cached per isolate for DISCOVERY_CACHE_TTL)
+ */
+export async function discoverOidcEndpoints(discoveryUrl: string): Promise<OAuthEndpoints> {
+  const cached = discoveryCache.get(discoveryUrl);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.endpoints;
+  }
+
+  const document = await fetchProviderJson<{
+    authorization_endpoint?: string;
+    token_endpoint?: string;
+    userinfo_endpoint?: string;
+  }>(discoveryUrl);
+
+  if (
+    !document.authorization_endpoint ||
+    !document.token_endpoint ||
+    !document.userinfo_endpoint
+  ) {
+    throw new Error(`Incomplete OpenID Connect discovery document: ${discoveryUrl}`);
+  }
+
+  const endpoints = {
+    authorizationUrl: document.authorization_endpoint,
+    tokenUrl: document.token_endpoint,
+    userInfoUrl: document.userinfo_endpoint,
+  };
+  discoveryCache.set(discoveryUrl, {
+    endpoints,
+    expiresAt: Date.now() + DISCOVERY_CACHE_TTL,
+  });
+
+  return endpoints;
+}
+
+/**
+ * Origin of the current request (honors proxy headers)
+ */
+function getRequestOrigin(event: H3Event): string {
+  return getRequestURL(event, { xForwardedHost: true, xForwardedProto: true })
+    .origin;
+}
+
+// ========================================
+// PROVIDER REGISTRY
+// ========================================
+
+interface GitHubUser {
+  id: number;
+  login: string;
+  name?: string | null;
+  email?: string | null;
+  avatar_url?: string;
+}
+
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+// GitHub's API rejects requests without a User-Agent
+const GITHUB_API_HEADERS = {
+  Accept: "application/vnd.github+json",
+  "User-Agent": "template",
+};
+
+export const OAUTH_PROVIDERS: Record<OAuthProviderId, OAuthProviderDefinition> = {
+  google: {
+    scopes: ["openid", "email", "profile"],
+    authorizationParams: {
+      access_type: "offline", // Request refresh token
+      prompt: "consent", // Force consent screen to ensure refresh token
+    },
+    settings: (event) => clientSettings("Google", useRuntimeConfig(event).oauth?.google),
+    endpoints: () => ({
+      authorizationUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+      tokenUrl: "https://oauth2.googleapis.com/token",
+      userInfoUrl: "https://www.googleapis.com/oauth2/v3/userinfo",
+    }),
+    fetchProfile: fetchOidcProfile,
+  },
+
+  github: {
+    scopes: ["read:user", "user:email"],
+    settings: (event) => clientSettings("GitHub", useRuntimeConfig(event).oauth?.github),
+    endpoints: () => ({
+      authorizationUrl: "https://github.com/login/oauth/authorize",
+      tokenUrl: "https://github.com/login/oauth/access_token",
+      userInfoUrl: "https://api.github.com/user",
+    }),
+    // GitHub is not OpenID Connect - the verified address comes from /user/emails
+    fetchProfile: async (accessToken, endpoints) => {
+      const user = await fetchProviderJson<GitHubUser>(
+        endpoints.userInfoUrl,
+        accessToken,
+        GITHUB_API_HEADERS
+      );
+      const emails = await fetchProviderJson<GitHubEmail[]>(
+        `${endpoints.userInfoUrl}/emails`,
+        accessToken,
+        GITHUB_API_HEADERS
+      );
+      const primary =
+        emails.find((entry) => entry.primary && entry.verified) ??
+        emails.find((entry) => entry.verified);
+
+      return profileFromOidcClaims({
+        sub: String(user.id),
+        email: primary?.email ?? user.email ?? undefined,
+        email_verified: !!primary,
+        name: user.name || user.login,
+        picture: user.avatar_url,
+      });
+    },
+  },
+
+  microsoft: {
+    scopes: ["openid", "email", "profile"],
+    settings: (event) => {
+      const microsoft = useRuntimeConfig(event).oauth?.microsoft;
+      const settings = clientSettings("Microsoft", microsoft);
+      // "common" accepts work, school and personal accounts
+      const tenant = microsoft?.tenant || "common";
+
+      return settings && {
+        ...settings,
+        discoveryUrl: `https://login.microsoftonline.com/${tenant}/v2.0/.well-known/openid-configuration`,
+      };
+    },
+    endpoints: (settings) => discoverOidcEndpoints(settings.discoveryUrl!),
+    // Microsoft doesn't assert email_verified (treated as unverified, so it
+    // never auto-links), and its picture URL needs a Graph token
+    fetchProfile: async (accessToken, endpoints) => ({
+      ...(await fetchOidcProfile(accessToken, endpoints)),
+      picture: undefined,
+    }),
+  },
+
+  oidc: {
+    scopes: ["openid", "email", "profile"],
+    settings: (event) => {
+      const oidc = useRuntimeConfig(event).oauth?.oidc;
+      const settings = clientSettings(oidc?.name || "Single Sign-On", oidc);
+
+      return settings && oidc?.discoveryUrl
+        ? { ...settings, discoveryUrl: oidc.discoveryUrl }
+        : null;
+    },
+    endpoints: (settings) => discoverOidcEndpoints(settings.discoveryUrl!),
+    fetchProfile: fetchOidcProfile,
+  },
+
+  // Built-in OpenID Connect provider (server/api/dev/oidc)
+  mock: {
+    scopes: ["openid", "email", "profile"],
+    settings: (event) =>
+      isMockOidcEnabled(event)
+        ? {
+            name: "Mock OIDC",
+            clientId: MOCK_OIDC_CONFIG.CLIENT_ID,
+            clientSecret: MOCK_OIDC_CONFIG.CLIENT_SECRET,
+            discoveryUrl: `${getRequestOrigin(event)}/api/dev/oidc/openid-configuration`,
+          }
+        : null,
+    endpoints: (settings) => discoverOidcEndpoints(settings.discoveryUrl!),
+    fetchProfile: fetchOidcProfile,
+  },
+};
+
+/**
+ * Providers available for sign-in (configured ones only)
+ */
+export function listOAuthProviders(
+  event: H3Event
+): { id: OAuthProviderId; name: string }[] {
+  return OAUTH_PROVIDER_IDS.flatMap((id) => {
+    const settings = OAUTH_PROVIDERS[id].settings(event);
+    return settings ? [{ id, name: settings.name }] : [];
+  });
+}
+
+/**
+ * Resolve a provider from the registry
+ * @returns null for unknown or unconfigured providers
+ */
+export async function getOAuthProvider(
+  event: H3Event,
+  id: string | undefined
+): Promise<OAuthProvider | null> {
+  if (!isOAuthProviderId(id)) {
+    return null;
+  }
+
+  const definition = OAUTH_PROVIDERS[id];
+  const settings = definition.settings(event);
+  if (!settings) {
+    return null;
+  }
+
+  const endpoints = await definition.endpoints(settings);
+
+  return {
+    id,
+    name: settings.name,
+    clientId: settings.clientId,
+    clientSecret: settings.clientSecret,
+    scopes: definition.scopes,
+    authorizationParams: definition.authorizationParams,
+    endpoints,
+    fetchProfile: (accessToken) => definition.fetchProfile(accessToken, endpoints),
+  };
+}
+
+// ========================================
+// AUTHORIZATION CODE FLOW
 // ========================================
 
 /**
- * Build Google OAuth authorization URL
+ * Callback URL registered with the provider
+ * (e.g. https://app.example.com/api/auth/github/callback)
+ */
+export function getOAuthRedirectUri(event: H3Event, provider: OAuthProviderId): string {
+  return `${getRequestOrigin(event)}/api/auth/${provider}/callback`;
+}
+
+/**
+ * Build the provider authorization URL
+ * @param provider - Configured provider
  * @param redirectUri - Callback URL after OAuth
  * @param state - CSRF protection token
+ * @param params - Extra parameters (e.g. login_hint)
  * @returns Full authorization URL
  */
-export function buildGoogleAuthUrl(redirectUri: string, state: string): string {
-  const params = new URLSearchParams({
-    client_id: useRuntimeConfig().oauth?.google?.clientId || "",
+export function buildAuthorizationUrl(
+  provider: OAuthProvider,
+  redirectUri: string,
+  state: string,
+  params: Record<string, string> = {}
+): string {
+  const url = new URL(provider.endpoints.authorizationUrl);
+  const search = new URLSearchParams({
+    client_id: provider.clientId,
     redirect_uri: redirectUri,
     response_type: "code",
-    scope: GOOGLE_OAUTH_CONFIG.scopes.join(" "),
+    scope: provider.scopes.join(" "),
     state,
-    access_type: "offline", // Request refresh token
-    prompt: "consent", // Force consent screen to ensure refresh token
+    ...provider.authorizationParams,
+    ...params,
   });
 
-  return `${GOOGLE_OAUTH_CONFIG.authorizationUrl}?${params.toString()}`;
+  search.forEach((value, key) => url.searchParams.set(key, value));
+  return url.toString();
 }
 
 /**
  * Exchange authorization code for access token
- * @param code - Authorization code from Google
+ * @param provider - Configured provider
+ * @param code - Authorization code from the provider
  * @param redirectUri - Same redirect URI used in authorization
+ * @param codeVerifier - PKCE code_verifier of the authorization request
  * @returns Access token response
  */
-export async function exchangeGoogleCode(
+export async function exchangeAuthorizationCode(
+  provider: OAuthProvider,
   code: string,
-  redirectUri: string
-): Promise<{ access_token: string; id_token: string; refresh_token?: string }> {
-  const config = useRuntimeConfig();
-
-  const response = await fetch(GOOGLE_OAUTH_CONFIG.tokenUrl, {
+  redirectUri: string,
+  codeVerifier: string
+): Promise<OAuthTokens> {
+  const response = await fetch(provider.endpoints.tokenUrl, {
     method: "POST",
     headers: {
       "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json", // GitHub answers form-encoded otherwise
     },
     body: new URLSearchParams({
       code,
-      client_id: config.oauth?.google?.clientId || "",
-      client_secret: config.oauth?.google?.clientSecret || "",
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
       redirect_uri: redirectUri,
       grant_type: "authorization_code",
+      code_verifier: codeVerifier,
     }),
   });
 
@@ -168,32 +669,184 @@ export async function exchangeGoogleCode(
     throw new Error(`Failed to exchange code: ${error}`);
   }
 
-  return await response.json();
+  // GitHub reports errors with a 200 status
+  const tokens = (await response.json()) as OAuthTokens & { error?: string };
+  if (!tokens.access_token) {
+    throw new Error(`Failed to exchange code: ${tokens.error || "no access token"}`);
+  }
+
+  return tokens;
 }
 
 /**
- * Fetch user info from Google
- * @param accessToken - OAuth access token
- * @returns Google user info
+ * Start an authorization request: PKCE verifier cookie, bound state
+ * and the provider URL to redirect the browser to
  */
-export async function fetchGoogleUserInfo(accessToken: string): Promise<GoogleUser> {
-  const response = await fetch(GOOGLE_OAUTH_CONFIG.userInfoUrl, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
+export async function startOAuthAuthorization(
+  event: H3Event,
+  provider: OAuthProvider,
+  options: { redirectTo?: string; linkUserId?: string; loginHint?: string } = {}
+): Promise<string> {
+  const codeVerifier = generateCodeVerifier();
+  const codeChallenge = await createCodeChallenge(codeVerifier);
+  setPkceCookie(event, provider.id, codeVerifier);
+
+  const redirectTo = sanitizeRedirectPath(options.redirectTo);
+  const state = await generateOAuthStateToken(
+    provider.id,
+    {
+      codeChallenge,
+      redirectTo: redirectTo === "/" ? undefined : redirectTo,
+      linkUserId: options.linkUserId,
     },
+    event
+  );
+
+  return buildAuthorizationUrl(provider, getOAuthRedirectUri(event, provider.id), state, {
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+    ...(options.loginHint ? { login_hint: options.loginHint } : {}),
   });
+}
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to fetch user info: ${error}`);
+/**
+ * Finish an authorization request on the callback
+ * Verifies the state against this browser's PKCE cookie, exchanges the
+ * code and fetches the user
+ * @throws AppError (OAuthProviderError, InvalidTokenError, ExternalServiceError...)
+ */
+export async function completeOAuthAuthorization(
+  event: H3Event,
+  provider: OAuthProvider,
+  query: { code?: unknown; state?: unknown; error?: unknown }
+): Promise<{ profile: OAuthProfile; state: OAuthStateTokenPayload }> {
+  const codeVerifier = takePkceCookie(event, provider.id);
+
+  // Denied or failed at the provider (e.g. error=access_denied)
+  if (query.error) {
+    throw new OAuthProviderError(undefined, { provider: provider.id, error: query.error });
   }
 
-  const userInfo = (await response.json()) as GoogleUser;
+  if (typeof query.code !== "string" || typeof query.state !== "string") {
+    throw new InvalidTokenError("Missing code or state", { provider: provider.id });
+  }
 
-  // Validate required fields
-  if (!userInfo.sub || !userInfo.email) {
-    throw new Error("Missing required user info fields");
+  const state = await verifyOAuthStateToken(query.state, provider.id, codeVerifier, event);
+
+  let tokens: OAuthTokens;
+  try {
+    tokens = await exchangeAuthorizationCode(
+      provider,
+      query.code,
+      getOAuthRedirectUri(event, provider.id),
+      codeVerifier!
+    );
+  } catch (error) {
+    throw new ExternalServiceError("Failed to get access token", {
+      provider: provider.id,
+      reason: error instanceof Error ? error.message : String(error),
+    });
   }
 
-  return userInfo;
+  try {
+    return { profile: await provider.fetchProfile(tokens.access_token), state };
+  } catch (error) {
+    throw new ExternalServiceError("Failed to get user info", {
+      provider: provider.id,
+      reason: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// ========================================
+// MOCK OIDC PROVIDER (development and test only)
+// ========================================
+// Authorization codes and access tokens are signed JWTs carrying the
+// claims of the mock user, so the provider needs no storage
+// ========================================
+
+/**
+ * Mock provider endpoints respond 404 outside development and test
+ */
+export function isMockOidcEnabled(event?: H3Event): boolean {
+  return isDevelopment(event) || isTest(event);
+}
+
+/**
+ * Claims of the mock user signing in (picked with the login_hint parameter)
+ */
+export function mockOidcClaims(loginHint?: string): OidcClaims {
+  const email = (loginHint || MOCK_OIDC_CONFIG.DEFAULT_EMAIL).toLowerCase();
+  const [localPart = "user"] = email.split("@");
+
+  return {
+    sub: `mock|${email}`,
+    email,
+    email_verified: true,
+    given_name: localPart,
+    family_name: "Mock",
+  };
+}
+
+/**
+ * Sign an authorization code or access token for the mock provider
+ * Codes carry the PKCE code_challenge of the authorization request
+ */
+export async function signMockOidcToken(
+  purpose: "mock-oidc-code" | "mock-oidc-access",
+  claims: OidcClaims,
+  event?: H3Event,
+  codeChallenge?: string
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const expiresIn =
+    purpose === "mock-oidc-code"
+      ? MOCK_OIDC_CONFIG.CODE_EXPIRES_IN
+      : MOCK_OIDC_CONFIG.ACCESS_TOKEN_EXPIRES_IN;
+
+  return await new SignJWT({
+    purpose,
+    claims,
+    ...(codeChallenge ? { codeChallenge } : {}),
+  })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresIn)
+    .setIssuer("template")
+    .setAudience("template-mock-oidc")
+    .sign(getJWTSecret(event));
+}
+
+/**
+ * Verify a mock provider authorization code or access token
+ * @param codeVerifier - PKCE code_verifier sent with a code (token endpoint)
+ * @returns The mock user claims
+ */
+export async function verifyMockOidcToken(
+  purpose: "mock-oidc-code" | "mock-oidc-access",
+  token: string,
+  event?: H3Event,
+  codeVerifier?: string
+): Promise<OidcClaims> {
+  try {
+    const { payload } = await jwtVerify(token, getJWTSecret(event), {
+      issuer: "template",
+      audience: "template-mock-oidc",
+    });
+
+    if (payload.purpose !== purpose) {
+      throw new InvalidTokenError("Invalid token purpose");
+    }
+
+    if (
+      payload.codeChallenge &&
+      (!codeVerifier || payload.codeChallenge !== (await createCodeChallenge(codeVerifier)))
+    ) {
+      throw new InvalidTokenError("PKCE verification failed");
+    }
+
+    return payload.claims as OidcClaims;
+  } catch {
+    throw new InvalidTokenError("Invalid mock OIDC token");
+  }
 }
@@ -0,0 +1,230 @@
+import { renderSVG } from "uqr";
+
+// ========================================
+// TOTP LIBRARY
+// ========================================
+// Time-based one-time passwords (RFC 6238) and MFA recovery codes
+// Compatible with Google Authenticator, 1Password, Authy, etc.
+// Uses Web Crypto only - works in Workers and Node
+// ========================================
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+export const TOTP_CONFIG = {
+  ISSUER: "Template", // Shown in authenticator apps
+  PERIOD: 30, // seconds per code
+  DIGITS: 6,
+  WINDOW: 1, // accepted steps before/after the current one (clock drift)
+  SECRET_BYTES: 20, // 160 bits (RFC 4226 recommendation)
+};
+
+export const RECOVERY_CODE_CONFIG = {
+  COUNT: 10,
+  LENGTH: 10, // characters, shown as two groups of 5
+};
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Recovery codes avoid look-alike characters (0/o, 1/l/i)
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+// ========================================
+// BASE32 (RFC 4648, no padding)
+// ========================================
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Uint8Array {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+// ========================================
+// TOTP
+// ========================================
+
+/**
+ * Generate a random TOTP secret (base32)
+ */
+export function generateTotpSecret(): string {
+  const buffer = new Uint8Array(TOTP_CONFIG.SECRET_BYTES);
+  crypto.getRandomValues(buffer);
+  return base32Encode(buffer);
+}
+
+/**
+ * Time step for a timestamp (milliseconds)
+ */
+export function getTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_CONFIG.PERIOD);
+}
+
+/**
+ * Generate the code for a time step (HOTP over the step counter, RFC 4226)
+ */
+export async function generateTotp(
+  secret: string,
+  step = getTotpStep()
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base32Decode(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+
+  // 8-byte big-endian counter
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+
+  const hmac = new Uint8Array(
+    await crypto.subtle.sign("HMAC", key, counter.buffer)
+  );
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary =
+    ((hmac[offset]! & 0x7f) << 24) |
+    (hmac[offset + 1]! << 16) |
+    (hmac[offset + 2]! << 8) |
+    hmac[offset + 3]!;
+
+  return String(binary % 10 ** TOTP_CONFIG.DIGITS).padStart(
+    TOTP_CONFIG.DIGITS,
+    "0"
+  );
+}
+
+/**
+ * Verify a code against the current step (± TOTP_CONFIG.WINDOW)
+ * Returns the matched step, or null
+ *
+ * @param afterStep - Last step already used; codes at or before it are
+ *                    rejected so a code can't be replayed
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  options: { now?: number; afterStep?: number | null } = {}
+): Promise<number | null> {
+  const normalized = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${TOTP_CONFIG.DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const current = getTotpStep(options.now);
+
+  for (let offset = -TOTP_CONFIG.WINDOW; offset <= TOTP_CONFIG.WINDOW; offset++) {
+    const step = current + offset;
+    if (options.afterStep != null && step <= options.afterStep) {
+      continue;
+    }
+    if ((await generateTotp(secret, step)) === normalized) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * otpauth:// URI for authenticator apps (Key Uri Format)
+ */
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_CONFIG.ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_CONFIG.ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_CONFIG.DIGITS),
+    period: String(TOTP_CONFIG.PERIOD),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * QR code (SVG markup) for an otpauth URI
+ */
+export function renderQrCodeSvg(uri: string): string {
+  return renderSVG(uri, { ecc: "M", border: 2 });
+}
+
+// ========================================
+// RECOVERY CODES
+// ========================================
+
+/**
+ * Generate one-time recovery codes ("xxxxx-xxxxx")
+ * Only their hashes are stored (hashRecoveryCode)
+ */
+export function generateRecoveryCodes(
+  count = RECOVERY_CODE_CONFIG.COUNT
+): string[] {
+  return Array.from({ length: count }, () => {
+    const buffer = new Uint8Array(RECOVERY_CODE_CONFIG.LENGTH);
+    crypto.getRandomValues(buffer);
+    const chars = Array.from(
+      buffer,
+      (b) => RECOVERY_CODE_ALPHABET[b % RECOVERY_CODE_ALPHABET.length]
+    ).join("");
+    const half = RECOVERY_CODE_CONFIG.LENGTH / 2;
+    return `${chars.slice(0, half)}-${chars.slice(half)}`;
+  });
+}
+
+/**
+ * SHA-256 of a normalized recovery code (case, spaces and dashes ignored)
+ * Codes are random, so a fast hash is sufficient
+ */
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, "");
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(normalized)
+  );
+
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
@@ -0,0 +1,121 @@
+import { ExternalServiceError } from "#server/error/errors";
+import {
+  TURNSTILE_TEST_TOKEN,
+  isTurnstileKeyConfigured,
+} from "#shared/constants/turnstile";
+
+// ========================================
+// TURNSTILE LIBRARY
+// ========================================
+// Server-side verification of Cloudflare Turnstile tokens
+// Verifiers: cloudflare (siteverify API), test (accepts TURNSTILE_TEST_TOKEN)
+// Routes opt in via `turnstile: true` in server/config/routes.ts
+// ========================================
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+const SITEVERIFY_URL =
+  "https://challenges.cloudflare.com/turnstile/v0/siteverify";
+
+// ========================================
+// TYPES
+// ========================================
+
+export type TurnstileVerifierName = "cloudflare" | "test";
+
+export interface TurnstileResult {
+  success: boolean;
+  /** Cloudflare error codes (e.g. "invalid-input-response", "timeout-or-duplicate") */
+  errorCodes: string[];
+}
+
+/**
+ * Turnstile verifier interface
+ * verify() throws ExternalServiceError when siteverify is unavailable
+ */
+export interface TurnstileVerifier {
+  readonly name: TurnstileVerifierName;
+  verify(token: string, remoteIp?: string): Promise<TurnstileResult>;
+}
+
+// ========================================
+// VERIFIERS
+// ========================================
+
+/**
+ * Cloudflare siteverify
+ * (https://developers.cloudflare.com/turnstile/get-started/server-side-validation/)
+ */
+export class CloudflareTurnstileVerifier implements TurnstileVerifier {
+  readonly name = "cloudflare" as const;
+
+  constructor(private readonly secretKey: string) {}
+
+  async verify(token: string, remoteIp?: string): Promise<TurnstileResult> {
+    const body = new FormData();
+    body.append("secret", this.secretKey);
+    body.append("response", token);
+    if (remoteIp) {
+      body.append("remoteip", remoteIp);
+    }
+
+    const response = await fetch(SITEVERIFY_URL, { method: "POST", body });
+
+    if (!response.ok) {
+      throw new ExternalServiceError("Failed to verify Turnstile token", {
+        provider: this.name,
+        status: response.status,
+      });
+    }
+
+    const result = (await response.json()) as {
+      success?: boolean;
+      "error-codes"?: string[];
+    };
+
+    return {
+      success: result.success === true,
+      errorCodes: result["error-codes"] ?? [],
+    };
+  }
+}
+
+/**
+ * Test-mode verifier - accepts only TURNSTILE_TEST_TOKEN
+ * Use in development and tests (matches Cloudflare's test site key)
+ */
+export class TestTurnstileVerifier implements TurnstileVerifier {
+  readonly name = "test" as const;
+
+  async verify(token: string): Promise<TurnstileResult> {
+    return token === TURNSTILE_TEST_TOKEN
+      ? { success: true, errorCodes: [] }
+      : { success: false, errorCodes: ["invalid-input-response"] };
+  }
+}
+
+/**
+ * Create the verifier for an environment
+ * - test environment: always the test verifier
+ * - secret key configured: Cloudflare siteverify
+ * - not configured outside production: the test verifier
+ * - not configured in production: null (verification disabled)
+ */
+export function createTurnstileVerifier(config: {
+  secretKey?: string;
+  environment: string;
+}): TurnstileVerifier | null {
+  if (config.environment === "test") {
+    return new TestTurnstileVerifier();
+  }
+
+  if (isTurnstileKeyConfigured(config.secretKey)) {
+    return new CloudflareTurnstileVerifier(config.secretKey as string);
+  }
+
+  return config.environment === "production"
+    ? null
+    : new TestTurnstileVerifier();
+}
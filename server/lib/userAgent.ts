@@ -0,0 +1,44 @@
+// ========================================
+// USER AGENT LIBRARY
+// ========================================
+// Coarse "Browser on OS" labels for the session list
+// Not a full parser - unknown agents fall back to "Unknown device"
+// ========================================
+
+// Order matters: Edge and Opera also claim Chrome, Chrome claims Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+// iOS and Android agents also mention Mac OS X / Linux
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+function match(userAgent: string, patterns: [RegExp, string][]): string | null {
+  return patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+}
+
+/**
+ * Human-readable device label, e.g. "Chrome on macOS"
+ */
+export function describeUserAgent(userAgent?: string | null): string {
+  if (!userAgent || userAgent === "unknown") {
+    return "Unknown device";
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const os = match(userAgent, OPERATING_SYSTEMS);
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
+}
@@ -0,0 +1,51 @@
+import type { H3Event } from "h3";
+import { getRequestURL } from "h3";
+
+// ========================================
+// WEBAUTHN LIBRARY
+// ========================================
+// Relying party settings for passkeys (@simplewebauthn/server)
+// The RP ID is the request hostname, so passkeys registered on one domain
+// (e.g. staging) can't be used on another
+// ========================================
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+export const WEBAUTHN_CONFIG = {
+  RP_NAME: "Template", // Shown by the browser/OS passkey prompt
+  TIMEOUT: 60_000, // ms the browser waits for the authenticator
+  MAX_CREDENTIALS: 10, // per user
+  // Ed25519 (-8), ES256 (-7), RS256 (-257)
+  SUPPORTED_ALGORITHMS: [-8, -7, -257],
+};
+
+export interface RelyingParty {
+  rpID: string;
+  rpName: string;
+  origin: string;
+}
+
+/**
+ * Relying party for the current request (honors proxy headers)
+ */
+export function getRelyingParty(event: H3Event): RelyingParty {
+  const url = getRequestURL(event, {
+    xForwardedHost: true,
+    xForwardedProto: true,
+  });
+
+  return {
+    rpID: url.hostname,
+    rpName: WEBAUTHN_CONFIG.RP_NAME,
+    origin: url.origin,
+  };
+}
+
+/**
+ * Default passkey name from the authenticator properties
+ */
+export function defaultPasskeyNickname(deviceType?: string | null): string {
+  return deviceType === "multiDevice" ? "Synced passkey" : "Security key";
+}
@@ -1,5 +1,24 @@
-import { AuthenticationError } from "#server/error/errors";
-import { isPublicRoute } from "#server/config/routes";
+import { getHeader, type H3Event } from "h3";
+import {
+  AuthenticationError,
+  AuthorizationError,
+  EmailNotConfirmedError,
+} from "#server/error/errors";
+import {
+  isBlockedWhileImpersonating,
+  isPublicRoute,
+  isSessionOnlyRoute,
+} from "#server/config/routes";
+import {
+  UNVERIFIED_EMAIL_PERMISSIONS,
+  restrictPermissions,
+} from "#server/config/rbac";
+import { createApiKeyService } from "#server/services/apiKey";
+import { createIdentityService } from "#server/services/identity";
+import { createImpersonationService } from "#server/services/impersonation";
+import { getRBACService } from "#server/services/rbac";
+import { createSessionService } from "#server/services/session";
+import { stopImpersonationSession } from "#server/utils/session";
 
 // ========================================
 // AUTHENTICATION MIDDLEWARE
@@ -9,11 +28,97 @@ import { isPublicRoute } from "#server/config/routes";
 // Context variables set:
 // - event.context.userId: Authenticated user's ID
 // - event.context.workspaceId: Current workspace ID (from session)
+// - event.context.emailVerificationPending: Unconfirmed email under the
+//   "restrict" policy (04.permissions narrows the route permissions)
+// - event.context.apiKeyId / apiKeyScopes: Request made with an API key
+// - event.context.impersonatorId: Admin acting as userId
+//
+// Machine clients send "Authorization: Bearer <api key>" instead of the
+// cookie. The key acts as its owner in the key's workspace, and
+// RBACService only grants what both the key's scopes and the owner's
+// role allow. Routes marked sessionOnly refuse keys.
+//
+// The cookie's session must still be active in user_sessions (revoked
+// from another device, on password reset or deactivation otherwise).
+// While impersonating, that row is the admin's; the impersonation ends
+// after an hour or once the admin loses users:impersonate, and routes
+// marked noImpersonation are refused.
+//
+// Session permissions are refreshed when the stored permission version
+// moved (role change, custom role edit); sessions of deleted or
+// deactivated users are cleared.
+//
+// Sessions of users with an unconfirmed email are re-checked against the
+// email verification policy until the address is confirmed.
 //
 // Public routes are defined in server/config/routes.ts
 // Runs after workspace middleware (01 prefix)
 // ========================================
 
+/**
+ * API key from the Authorization header, if any
+ */
+function getBearerToken(event: H3Event): string | null {
+  const header = getHeader(event, "authorization");
+  return header?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? null;
+}
+
+/**
+ * Authenticate a request made with an API key (no session involved)
+ */
+async function authenticateApiKey(event: H3Event, secret: string) {
+  if (isSessionOnlyRoute(event.path, event.method)) {
+    throw new AuthorizationError("API keys can't be used for this route.");
+  }
+
+  const result = await createApiKeyService(event).authenticate(secret);
+  if (!result) {
+    throw new AuthenticationError("Invalid, expired or revoked API key.");
+  }
+
+  const { apiKey, user } = result;
+  event.context.userId = user.id;
+  event.context.workspaceId = apiKey.workspaceId ?? undefined;
+  event.context.apiKeyId = apiKey.id;
+  event.context.apiKeyScopes = apiKey.scopes;
+
+  // Same email verification policy as sessions
+  if (!user.isEmailVerified) {
+    const { policy } = await createIdentityService(
+      event
+    ).getEmailVerificationStatus(user.id);
+
+    if (policy === "block") {
+      throw new EmailNotConfirmedError();
+    }
+    event.context.emailVerificationPending = policy === "restrict";
+  }
+}
+
+/**
+ * Check an impersonation stored in the session
+ * An expired or no longer permitted one is handed back to the admin
+ */
+async function checkImpersonation(
+  event: H3Event,
+  impersonation: { impersonatorId: string; startedAt: number }
+) {
+  event.context.impersonatorId = impersonation.impersonatorId;
+
+  const impersonationService = createImpersonationService(event);
+  if (!(await impersonationService.isImpersonationAllowed(impersonation))) {
+    const admin = await impersonationService.stopImpersonation();
+    await stopImpersonationSession(event, admin);
+    throw new AuthorizationError("Impersonation has ended.");
+  }
+
+  if (isBlockedWhileImpersonating(event.path, event.method)) {
+    throw new AuthorizationError(
+      "This action isn't available while impersonating a user."
+    );
+  }
+}
+
 /**
  * Authentication Middleware
  *
@@ -32,15 +137,95 @@ export default defineEventHandler(async (event) => {
     return;
   }
 
+  const apiKey = getBearerToken(event);
+  if (apiKey) {
+    await authenticateApiKey(event, apiKey);
+    return;
+  }
+
   // Get user session from nuxt-auth-utils
-  const session = await getUserSession(event);
+  let session = await getUserSession(event);
 
   if (!session || !session.user?.id) {
     throw new AuthenticationError("Invalid or missing authentication session.");
   }
 
+  // Impersonation keeps the admin's user_sessions row
+  const isActive = await createSessionService(event).validateSession(
+    session.sessionId,
+    session.impersonation?.impersonatorId ?? (session.user.id as string)
+  );
+
+  if (!isActive) {
+    await clearUserSession(event);
+    throw new AuthenticationError("Session has expired or was revoked.");
+  }
+
   // Set user and workspace context for downstream handlers
   // workspaceId defines which workspace the user is operating in
   event.context.userId = session.user.id as string;
   event.context.workspaceId = session.workspaceId as string | undefined;
+
+  if (session.impersonation) {
+    await checkImpersonation(event, session.impersonation);
+  }
+
+  // Unconfirmed email at signin: the policy may block the session, and a
+  // confirmation (possibly from another browser) lifts the restriction
+  let verificationChanged = false;
+  if (session.user.isEmailVerified === false) {
+    const { isEmailVerified, policy } = await createIdentityService(
+      event
+    ).getEmailVerificationStatus(event.context.userId);
+
+    if (policy === "block") {
+      await clearUserSession(event);
+      throw new EmailNotConfirmedError();
+    }
+
+    const emailVerificationPending = policy === "restrict";
+    event.context.emailVerificationPending = emailVerificationPending;
+
+    verificationChanged =
+      isEmailVerified ||
+      emailVerificationPending !== !!session.emailVerificationPending;
+
+    if (verificationChanged) {
+      session = {
+        ...session,
+        user: { ...session.user, isEmailVerified },
+        emailVerificationPending,
+      };
+      await replaceUserSession(event, session);
+    }
+  }
+
+  // Permissions are frozen into the cookie at signin - refresh them when
+  // the persisted version differs (older sessions carried Date.now() values)
+  const rbacService = getRBACService(event);
+  if (!rbacService.isEnabled()) {
+    return;
+  }
+
+  const permissionVersion = await rbacService.getPermissionVersion(
+    event.context.userId
+  );
+
+  if (permissionVersion === null) {
+    await clearUserSession(event);
+    throw new AuthenticationError("Account is no longer active.");
+  }
+
+  if (permissionVersion !== session.permissionVersion || verificationChanged) {
+    const permissions = await rbacService.getUserPermissions(
+      event.context.userId
+    );
+    await replaceUserSession(event, {
+      ...session,
+      permissions: event.context.emailVerificationPending
+        ? restrictPermissions(permissions, UNVERIFIED_EMAIL_PERMISSIONS)
+        : permissions,
+      permissionVersion,
+    });
+  }
 });
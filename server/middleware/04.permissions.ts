@@ -0,0 +1,80 @@
+import {
+  AuthenticationError,
+  EmailNotConfirmedError,
+} from "#server/error/errors";
+import {
+  getRoutePermissions,
+  isPublicRoute,
+  requiresVerifiedEmail,
+} from "#server/config/routes";
+import {
+  UNVERIFIED_EMAIL_PERMISSIONS,
+  hasPermission,
+} from "#server/config/rbac";
+import { getRBACService } from "#server/services/rbac";
+import type { PermissionCode } from "#server/database/schema/identity";
+
+// ========================================
+// ROUTE PERMISSION MIDDLEWARE
+// ========================================
+// Enforces the permissions declared for a route in server/config/routes.ts
+// so handlers don't each have to call requirePermission().
+//
+// Matching supports path params (/api/v1/roles/:id) and method-specific
+// entries; the user needs every listed permission.
+//
+// Users with an unconfirmed email under the "restrict" policy only keep
+// UNVERIFIED_EMAIL_PERMISSIONS (see 02.auth; RBACService narrows handler
+// checks too) and are refused routes marked verifiedEmail.
+//
+// Runs after auth middleware (02 prefix) - relies on event.context.userId
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  // Only apply to API routes
+  if (!event.path.startsWith("/api/")) {
+    return;
+  }
+
+  // Public routes have no user to check
+  if (isPublicRoute(event.path)) {
+    return;
+  }
+
+  const permissions = getRoutePermissions(event.path, event.method);
+  const verifiedEmail = requiresVerifiedEmail(event.path, event.method);
+  if (!permissions && !verifiedEmail) {
+    return;
+  }
+
+  const userId = event.context.userId;
+  if (!userId) {
+    throw new AuthenticationError("Invalid or missing authentication session.");
+  }
+
+  if (event.context.emailVerificationPending) {
+    if (verifiedEmail) {
+      throw new EmailNotConfirmedError(
+        "Confirm your email address to use this feature"
+      );
+    }
+
+    const blocked = permissions?.find(
+      (permission) => !hasPermission(UNVERIFIED_EMAIL_PERMISSIONS, permission)
+    );
+    if (blocked) {
+      throw new EmailNotConfirmedError(
+        `Confirm your email address to use this feature (${blocked} required)`
+      );
+    }
+  }
+
+  if (!permissions) {
+    return;
+  }
+
+  const rbacService = getRBACService(event);
+  for (const permission of permissions) {
+    await rbacService.requirePermission(userId, permission as PermissionCode);
+  }
+});
@@ -0,0 +1,62 @@
+import { getHeader, readBody } from "h3";
+import { TurnstileVerificationError } from "#server/error/errors";
+import { requiresTurnstile } from "#server/config/routes";
+import { createTurnstileVerifier } from "#server/lib/turnstile";
+import { TURNSTILE_TOKEN_HEADER } from "#shared/constants/turnstile";
+
+// ========================================
+// TURNSTILE MIDDLEWARE
+// ========================================
+// Verifies Cloudflare Turnstile tokens on routes marked `turnstile: true`
+// in server/config/routes.ts (signin, signup, password reset request)
+//
+// Token: `turnstileToken` in the JSON body, or the cf-turnstile-response
+// header. Outside production without NUXT_TURNSTILE_SECRET_KEY the test
+// verifier accepts only TURNSTILE_TEST_TOKEN (shared/constants/turnstile.ts)
+// ========================================
+
+export default defineEventHandler(async (event) => {
+  // Only apply to API routes
+  if (!event.path.startsWith("/api/")) {
+    return;
+  }
+
+  if (!requiresTurnstile(event.path, event.method)) {
+    return;
+  }
+
+  const config = useRuntimeConfig(event);
+  const verifier = createTurnstileVerifier({
+    secretKey: config.turnstileSecretKey,
+    environment: config.public.environment,
+  });
+
+  // Production without keys - bot protection is optional
+  if (!verifier) {
+    console.warn(
+      `[Turnstile] NUXT_TURNSTILE_SECRET_KEY not configured - skipping verification for ${event.path}`
+    );
+    return;
+  }
+
+  const body = await readBody<{ turnstileToken?: unknown } | undefined>(event);
+  const token =
+    typeof body?.turnstileToken === "string" && body.turnstileToken
+      ? body.turnstileToken
+      : getHeader(event, TURNSTILE_TOKEN_HEADER);
+
+  if (!token) {
+    throw new TurnstileVerificationError(
+      "Please complete the security check."
+    );
+  }
+
+  // IP captured by the request context middleware (00 prefix)
+  const result = await verifier.verify(token, event.context.ipAddress);
+
+  if (!result.success) {
+    throw new TurnstileVerificationError(undefined, {
+      errorCodes: result.errorCodes,
+    });
+  }
+});
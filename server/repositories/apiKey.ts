@@ -0,0 +1,113 @@
+import { eq, and, count, desc, gt, isNull, or } from "drizzle-orm";
+import * as schema from "#server/database/schema";
+import { BaseRepository } from "#server/repositories/base";
+import { InternalServerError } from "#server/error/errors";
+import type { ApiKey, NewApiKey } from "#server/database/schema/identity";
+
+// ========================================
+// API KEY REPOSITORY
+// ========================================
+// Personal access tokens (api_keys)
+// Revoked rows are kept (revokedAt) so audit entries still resolve
+// ========================================
+
+/**
+ * API Key Repository
+ * A key is active while it is neither revoked nor expired
+ */
+export class ApiKeyRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * Conditions for a key that can still be used
+   */
+  private active() {
+    return and(
+      isNull(schema.apiKeys.revokedAt),
+      or(isNull(schema.apiKeys.expiresAt), gt(schema.apiKeys.expiresAt, new Date()))
+    );
+  }
+
+  /**
+   * Store a new key
+   */
+  async create(data: NewApiKey): Promise<ApiKey> {
+    const [apiKey] = await this.drizzle
+      .insert(schema.apiKeys)
+      .values(data)
+      .returning();
+
+    if (!apiKey) {
+      throw new InternalServerError("Failed to create API key");
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Find an active key by the SHA-256 of its secret
+   */
+  async findActiveByHash(keyHash: string): Promise<ApiKey | null> {
+    const result = await this.drizzle
+      .select()
+      .from(schema.apiKeys)
+      .where(and(eq(schema.apiKeys.keyHash, keyHash), this.active()))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * List a user's active keys (newest first)
+   */
+  async listActiveForUser(userId: string): Promise<ApiKey[]> {
+    return this.drizzle
+      .select()
+      .from(schema.apiKeys)
+      .where(and(eq(schema.apiKeys.userId, userId), this.active()))
+      .orderBy(desc(schema.apiKeys.createdAt));
+  }
+
+  /**
+   * Count a user's active keys
+   */
+  async countActiveForUser(userId: string): Promise<number> {
+    const [result] = await this.drizzle
+      .select({ count: count() })
+      .from(schema.apiKeys)
+      .where(and(eq(schema.apiKeys.userId, userId), this.active()));
+
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Record that a key was used
+   */
+  async touch(id: string): Promise<void> {
+    await this.drizzle
+      .update(schema.apiKeys)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(schema.apiKeys.id, id));
+  }
+
+  /**
+   * Revoke one of a user's keys - returns false if it isn't active
+   */
+  async revoke(id: string, userId: string): Promise<boolean> {
+    const result = await this.drizzle
+      .update(schema.apiKeys)
+      .set({ revokedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(schema.apiKeys.id, id),
+          eq(schema.apiKeys.userId, userId),
+          this.active()
+        )
+      )
+      .returning({ id: schema.apiKeys.id });
+
+    return result.length > 0;
+  }
+}
@@ -1,11 +1,18 @@
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, asc, count, desc, lte, sql } from "drizzle-orm";
 import * as schema from "#server/database/schema";
 import { BaseRepository } from "#server/repositories/base";
 import { Conditions } from "#server/repositories/helpers/conditions";
 import { InternalServerError } from "#server/error/errors";
+import {
+  createBatchDeletes,
+  createBatchUpdates,
+  executeBatch,
+} from "#server/database/batch";
 import type {
   User,
   NewUser,
+  UserIdentity,
+  NewUserIdentity,
   UserSettings,
   NewUserSettings,
   AuditLog,
@@ -64,25 +71,6 @@ export class UserRepository extends BaseRepository {
     return result[0] || null;
   }
 
-  /**
-   * Find user by OAuth provider and provider ID
-   */
-  async findByOAuth(provider: string, providerId: string): Promise<User | null> {
-    const conditions = [
-      Conditions.notDeleted(schema.users),
-      eq(schema.users.oauthProvider, provider),
-      eq(schema.users.oauthProviderId, providerId),
-    ];
-
-    const result = await this.drizzle
-      .select()
-      .from(schema.users)
-      .where(and(...conditions))
-      .limit(1);
-
-    return result[0] || null;
-  }
-
   /**
    * Count users with optional filters
    */
@@ -177,6 +165,28 @@ export class UserRepository extends BaseRepository {
     return user || null;
   }
 
+  /**
+   * Change a user's global role and bump their permission version
+   */
+  async changeRole(id: string, role: string): Promise<User | null> {
+    const conditions = [
+      Conditions.notDeleted(schema.users),
+      eq(schema.users.id, id),
+    ];
+
+    const [user] = await this.drizzle
+      .update(schema.users)
+      .set({
+        role,
+        permissionVersion: sql`${schema.users.permissionVersion} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(...conditions))
+      .returning();
+
+    return user || null;
+  }
+
   /**
    * Update password
    */
@@ -191,6 +201,53 @@ export class UserRepository extends BaseRepository {
     return this.update(id, { isEmailVerified: true });
   }
 
+  /**
+   * Switch to a new, confirmed email address
+   */
+  async updateEmail(id: string, email: string): Promise<User | null> {
+    return this.update(id, {
+      email: email.toLowerCase(),
+      isEmailVerified: true,
+      emailVerifiedAt: new Date(),
+    });
+  }
+
+  /**
+   * Count a failed password sign-in (atomic increment)
+   * Returns the number of consecutive failures
+   */
+  async recordFailedLogin(id: string): Promise<number> {
+    const [user] = await this.drizzle
+      .update(schema.users)
+      .set({
+        failedLoginAttempts: sql`${schema.users.failedLoginAttempts} + 1`,
+      })
+      .where(eq(schema.users.id, id))
+      .returning({ failedLoginAttempts: schema.users.failedLoginAttempts });
+
+    return user?.failedLoginAttempts ?? 0;
+  }
+
+  /**
+   * Lock password sign-in until the given time
+   */
+  async lock(id: string, until: Date): Promise<void> {
+    await this.drizzle
+      .update(schema.users)
+      .set({ lockedUntil: until })
+      .where(eq(schema.users.id, id));
+  }
+
+  /**
+   * Reset the failed sign-in counter and lift any lock
+   */
+  async clearFailedLogins(id: string): Promise<void> {
+    await this.drizzle
+      .update(schema.users)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(schema.users.id, id));
+  }
+
   /**
    * Soft delete user
    */
@@ -200,6 +257,199 @@ export class UserRepository extends BaseRepository {
       .set({ deletedAt: new Date() })
       .where(eq(schema.users.id, id));
   }
+
+  /**
+   * Schedule (or cancel, with null) the deletion of an account
+   */
+  async scheduleDeletion(id: string, at: Date | null): Promise<User | null> {
+    return this.update(id, { deletionScheduledAt: at });
+  }
+
+  /**
+   * Accounts whose deletion grace period has ended
+   */
+  async findDueForDeletion(now: Date, limit = 50): Promise<User[]> {
+    return this.drizzle
+      .select()
+      .from(schema.users)
+      .where(
+        and(
+          Conditions.notDeleted(schema.users),
+          lte(schema.users.deletionScheduledAt, now)
+        )
+      )
+      .limit(limit);
+  }
+
+  /**
+   * Erase a user's personal data and soft delete the row (D1 batch)
+   * The row stays (with a placeholder email) so workspaces, invites and
+   * audit entries still resolve; sign-in data, settings, sessions, keys
+   * and memberships are removed, and audit entries by or about the user
+   * lose their network info, metadata and state snapshots
+   */
+  async anonymize(id: string): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const byUser = [{ user_id: id }];
+    const scrubbedLog = {
+      ip_address: null,
+      user_agent: null,
+      metadata: null,
+      state_before: null,
+      state_after: null,
+    };
+
+    await executeBatch(this.db, [
+      ...[
+        "user_identities",
+        "user_settings",
+        "mfa_recovery_codes",
+        "user_mfa",
+        "user_credentials",
+        "email_tokens",
+        "user_sessions",
+        "api_keys",
+        "workspace_members",
+      ].flatMap((table) => createBatchDeletes(this.db, table, byUser)),
+      ...createBatchUpdates(this.db, "audit_logs", [
+        { where: { user_id: id }, set: scrubbedLog },
+        { where: { entity_type: "User", entity_id: id }, set: scrubbedLog },
+      ]),
+      this.db
+        .prepare(
+          `UPDATE users SET
+            email = ?, password_hash = NULL, is_email_verified = 0,
+            email_verified_at = NULL, picture = NULL, last_login_method = NULL,
+            first_name = NULL, last_name = NULL, date_of_birth = NULL,
+            phone = NULL, address = NULL, city = NULL, state = NULL,
+            country = NULL, postal_code = NULL, is_active = 0,
+            permission_version = permission_version + 1,
+            deletion_scheduled_at = NULL, deleted_at = ?, updated_at = ?
+          WHERE id = ?`
+        )
+        .bind(`deleted-${id}@deleted.invalid`, now, now, id),
+    ]);
+  }
+}
+
+// ========================================
+// USER IDENTITY REPOSITORY
+// ========================================
+
+/**
+ * User Identity Repository
+ * Linked OAuth / OpenID Connect accounts (user_identities)
+ * Rows are hard-deleted when an identity is unlinked
+ */
+export class UserIdentityRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * Find the identity of a provider account (sign-in lookup)
+   */
+  async findByProvider(
+    provider: string,
+    providerUserId: string
+  ): Promise<UserIdentity | null> {
+    const result = await this.drizzle
+      .select()
+      .from(schema.userIdentities)
+      .where(
+        and(
+          eq(schema.userIdentities.provider, provider),
+          eq(schema.userIdentities.providerUserId, providerUserId)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Find a user's identity by row ID
+   */
+  async findForUser(id: string, userId: string): Promise<UserIdentity | null> {
+    const result = await this.drizzle
+      .select()
+      .from(schema.userIdentities)
+      .where(
+        and(
+          eq(schema.userIdentities.id, id),
+          eq(schema.userIdentities.userId, userId)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * List a user's identities (oldest first)
+   */
+  async listForUser(userId: string): Promise<UserIdentity[]> {
+    return this.drizzle
+      .select()
+      .from(schema.userIdentities)
+      .where(eq(schema.userIdentities.userId, userId))
+      .orderBy(asc(schema.userIdentities.createdAt));
+  }
+
+  /**
+   * Number of identities linked to a user
+   */
+  async countForUser(userId: string): Promise<number> {
+    const [result] = await this.drizzle
+      .select({ count: count() })
+      .from(schema.userIdentities)
+      .where(eq(schema.userIdentities.userId, userId));
+
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Link a provider account to a user
+   */
+  async create(data: NewUserIdentity): Promise<UserIdentity> {
+    const [identity] = await this.drizzle
+      .insert(schema.userIdentities)
+      .values(data)
+      .returning();
+
+    if (!identity) {
+      throw new InternalServerError("Failed to link identity");
+    }
+
+    return identity;
+  }
+
+  /**
+   * Record a sign-in with this identity
+   */
+  async recordUse(id: string): Promise<void> {
+    await this.drizzle
+      .update(schema.userIdentities)
+      .set({ lastUsedAt: new Date(), updatedAt: new Date() })
+      .where(eq(schema.userIdentities.id, id));
+  }
+
+  /**
+   * Unlink a user's identity - returns false if it doesn't exist
+   */
+  async deleteForUser(id: string, userId: string): Promise<boolean> {
+    const result = await this.drizzle
+      .delete(schema.userIdentities)
+      .where(
+        and(
+          eq(schema.userIdentities.id, id),
+          eq(schema.userIdentities.userId, userId)
+        )
+      )
+      .returning({ id: schema.userIdentities.id });
+
+    return result.length > 0;
+  }
 }
 
 // ========================================
@@ -279,6 +529,8 @@ export class AuditLogRepository extends BaseRepository {
 
   /**
    * Log an action
+   * Actions taken while impersonating carry the real actor in
+   * metadata.impersonatorId
    */
   async log(
     workspaceId: string | null,
@@ -293,11 +545,16 @@ export class AuditLogRepository extends BaseRepository {
       statusCode?: number;
       ipAddress?: string;
       userAgent?: string;
+      impersonatorId?: string;
       metadata?: Record<string, any>;
       stateBefore?: Record<string, any>;
       stateAfter?: Record<string, any>;
     }
   ): Promise<AuditLog> {
+    const metadata = context?.impersonatorId
+      ? { ...context.metadata, impersonatorId: context.impersonatorId }
+      : context?.metadata;
+
     const [log] = await this.drizzle
       .insert(schema.auditLogs)
       .values({
@@ -312,7 +569,7 @@ export class AuditLogRepository extends BaseRepository {
         statusCode: context?.statusCode,
         ipAddress: context?.ipAddress,
         userAgent: context?.userAgent,
-        metadata: context?.metadata,
+        metadata,
         stateBefore: context?.stateBefore,
         stateAfter: context?.stateAfter,
       })
@@ -349,6 +606,22 @@ export class AuditLogRepository extends BaseRepository {
       .limit(limit);
   }
 
+  /**
+   * Audit history of a user's own actions, across workspaces (data export)
+   */
+  async listForUser(userId: string): Promise<AuditLog[]> {
+    return this.drizzle
+      .select()
+      .from(schema.auditLogs)
+      .where(
+        and(
+          Conditions.notDeleted(schema.auditLogs),
+          eq(schema.auditLogs.userId, userId)
+        )
+      )
+      .orderBy(desc(schema.auditLogs.createdAt));
+  }
+
   /**
    * Get recent audit logs (workspace-scoped)
    */
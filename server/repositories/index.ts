@@ -10,19 +10,57 @@ export * from "./base";
 // Identity repositories
 export {
   UserRepository,
+  UserIdentityRepository,
   UserSettingsRepository,
   AuditLogRepository,
 } from "./identity";
 
+// Workspace repositories
+export {
+  WorkspaceRepository,
+  WorkspaceMemberRepository,
+  WorkspaceInviteRepository,
+} from "./workspace";
+
+// RBAC repositories
+export { RoleRepository, type RoleWithPermissions } from "./role";
+
+// MFA repositories
+export { UserMfaRepository, MfaRecoveryCodeRepository } from "./mfa";
+
+// Passkey repositories
+export { UserCredentialRepository, WebAuthnChallengeRepository } from "./passkey";
+
+// Session repositories
+export { UserSessionRepository } from "./session";
+
+// Email token repositories
+export { EmailTokenRepository } from "./token";
+
+// API key repositories
+export { ApiKeyRepository } from "./apiKey";
+
 // Query condition helpers
 export { Conditions, combineConditions } from "./helpers/conditions";
 
 // Import for factory functions
 import {
   UserRepository,
+  UserIdentityRepository,
   UserSettingsRepository,
   AuditLogRepository,
 } from "./identity";
+import {
+  WorkspaceRepository,
+  WorkspaceMemberRepository,
+  WorkspaceInviteRepository,
+} from "./workspace";
+import { RoleRepository } from "./role";
+import { UserMfaRepository, MfaRecoveryCodeRepository } from "./mfa";
+import { UserCredentialRepository, WebAuthnChallengeRepository } from "./passkey";
+import { UserSessionRepository } from "./session";
+import { EmailTokenRepository } from "./token";
+import { ApiKeyRepository } from "./apiKey";
 
 // ========================================
 // FACTORY FUNCTIONS
@@ -34,16 +72,93 @@ import {
 export function createIdentityRepositories(db: D1Database) {
   return {
     userRepo: new UserRepository(db),
+    userIdentityRepo: new UserIdentityRepository(db),
     userSettingsRepo: new UserSettingsRepository(db),
     auditLogRepo: new AuditLogRepository(db),
   };
 }
 
+/**
+ * Create all workspace repositories
+ */
+export function createWorkspaceRepositories(db: D1Database) {
+  return {
+    workspaceRepo: new WorkspaceRepository(db),
+    workspaceMemberRepo: new WorkspaceMemberRepository(db),
+    workspaceInviteRepo: new WorkspaceInviteRepository(db),
+  };
+}
+
+/**
+ * Create all RBAC repositories
+ */
+export function createRBACRepositories(db: D1Database) {
+  return {
+    roleRepo: new RoleRepository(db),
+  };
+}
+
+/**
+ * Create all MFA repositories
+ */
+export function createMfaRepositories(db: D1Database) {
+  return {
+    userMfaRepo: new UserMfaRepository(db),
+    mfaRecoveryCodeRepo: new MfaRecoveryCodeRepository(db),
+  };
+}
+
+/**
+ * Create all passkey repositories
+ */
+export function createPasskeyRepositories(db: D1Database) {
+  return {
+    userCredentialRepo: new UserCredentialRepository(db),
+    webAuthnChallengeRepo: new WebAuthnChallengeRepository(db),
+  };
+}
+
+/**
+ * Create all session repositories
+ */
+export function createSessionRepositories(db: D1Database) {
+  return {
+    userSessionRepo: new UserSessionRepository(db),
+  };
+}
+
+/**
+ * Create all email token repositories
+ */
+export function createTokenRepositories(db: D1Database) {
+  return {
+    emailTokenRepo: new EmailTokenRepository(db),
+  };
+}
+
+/**
+ * Create all API key repositories
+ */
+export function createApiKeyRepositories(db: D1Database) {
+  return {
+    apiKeyRepo: new ApiKeyRepository(db),
+  };
+}
+
 /**
  * Create all repositories
  */
 export function createRepositories(db: D1Database) {
-  return createIdentityRepositories(db);
+  return {
+    ...createIdentityRepositories(db),
+    ...createWorkspaceRepositories(db),
+    ...createRBACRepositories(db),
+    ...createMfaRepositories(db),
+    ...createPasskeyRepositories(db),
+    ...createSessionRepositories(db),
+    ...createTokenRepositories(db),
+    ...createApiKeyRepositories(db),
+  };
 }
 
 /**
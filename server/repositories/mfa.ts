@@ -0,0 +1,197 @@
+import { eq, and, isNull, count, sql } from "drizzle-orm";
+import * as schema from "#server/database/schema";
+import { BaseRepository } from "#server/repositories/base";
+import { InternalServerError } from "#server/error/errors";
+import {
+  createBatchDeletes,
+  createBatchInserts,
+  executeBatch,
+} from "#server/database/batch";
+import type { UserMfa } from "#server/database/schema/identity";
+
+// ========================================
+// MFA REPOSITORIES
+// ========================================
+// TOTP authenticators (user_mfa) and recovery codes (mfa_recovery_codes)
+// Rows are hard-deleted when 2FA is turned off
+// ========================================
+
+/**
+ * User MFA Repository
+ * One row per user; totpEnabledAt is null while enrollment is pending
+ */
+export class UserMfaRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * Find a user's authenticator (pending or enabled)
+   */
+  async findByUserId(userId: string): Promise<UserMfa | null> {
+    const result = await this.drizzle
+      .select()
+      .from(schema.userMfa)
+      .where(eq(schema.userMfa.userId, userId))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Store a new (not yet enabled) secret, replacing a pending one
+   */
+  async savePendingSecret(userId: string, totpSecret: string): Promise<UserMfa> {
+    const [mfa] = await this.drizzle
+      .insert(schema.userMfa)
+      .values({ userId, totpSecret })
+      .onConflictDoUpdate({
+        target: schema.userMfa.userId,
+        set: {
+          totpSecret,
+          totpEnabledAt: null,
+          totpLastUsedStep: null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    if (!mfa) {
+      throw new InternalServerError("Failed to save authenticator secret");
+    }
+
+    return mfa;
+  }
+
+  /**
+   * Mark the authenticator as enabled (enrollment confirmed at `step`)
+   */
+  async enable(userId: string, step: number): Promise<UserMfa | null> {
+    const [mfa] = await this.drizzle
+      .update(schema.userMfa)
+      .set({
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: step,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.userMfa.userId, userId))
+      .returning();
+
+    return mfa || null;
+  }
+
+  /**
+   * Record the last accepted time step (replay protection)
+   */
+  async updateLastUsedStep(userId: string, step: number): Promise<void> {
+    await this.drizzle
+      .update(schema.userMfa)
+      .set({ totpLastUsedStep: step, updatedAt: new Date() })
+      .where(eq(schema.userMfa.userId, userId));
+  }
+
+  /**
+   * Count a wrong second-factor code (atomic increment)
+   * Returns the number of consecutive failures
+   */
+  async recordFailedAttempt(userId: string): Promise<number> {
+    const [mfa] = await this.drizzle
+      .update(schema.userMfa)
+      .set({ failedAttempts: sql`${schema.userMfa.failedAttempts} + 1` })
+      .where(eq(schema.userMfa.userId, userId))
+      .returning({ failedAttempts: schema.userMfa.failedAttempts });
+
+    return mfa?.failedAttempts ?? 0;
+  }
+
+  /**
+   * Reset the failed second-factor counter
+   */
+  async clearFailedAttempts(userId: string): Promise<void> {
+    await this.drizzle
+      .update(schema.userMfa)
+      .set({ failedAttempts: 0 })
+      .where(eq(schema.userMfa.userId, userId));
+  }
+
+  /**
+   * Remove the authenticator and all recovery codes (D1 batch)
+   */
+  async deleteForUser(userId: string): Promise<void> {
+    await executeBatch(
+      this.db,
+      createBatchDeletes(this.db, "mfa_recovery_codes", [{ user_id: userId }]).concat(
+        createBatchDeletes(this.db, "user_mfa", [{ user_id: userId }])
+      )
+    );
+  }
+}
+
+/**
+ * MFA Recovery Code Repository
+ * Stores SHA-256 hashes only; each code can be consumed once
+ */
+export class MfaRecoveryCodeRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * Replace a user's recovery codes with a new set (D1 batch)
+   */
+  async replaceForUser(userId: string, codeHashes: string[]): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+
+    await executeBatch(this.db, [
+      ...createBatchDeletes(this.db, "mfa_recovery_codes", [{ user_id: userId }]),
+      ...createBatchInserts(
+        this.db,
+        "mfa_recovery_codes",
+        codeHashes.map((codeHash) => ({
+          id: crypto.randomUUID(),
+          user_id: userId,
+          code_hash: codeHash,
+          created_at: now,
+          updated_at: now,
+        }))
+      ),
+    ]);
+  }
+
+  /**
+   * Consume an unused code - returns false if it doesn't exist or was used
+   * (single UPDATE, so a code can't be redeemed twice concurrently)
+   */
+  async consume(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.drizzle
+      .update(schema.mfaRecoveryCodes)
+      .set({ usedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(schema.mfaRecoveryCodes.userId, userId),
+          eq(schema.mfaRecoveryCodes.codeHash, codeHash),
+          isNull(schema.mfaRecoveryCodes.usedAt)
+        )
+      )
+      .returning({ id: schema.mfaRecoveryCodes.id });
+
+    return result.length > 0;
+  }
+
+  /**
+   * Number of unused codes
+   */
+  async countRemaining(userId: string): Promise<number> {
+    const [result] = await this.drizzle
+      .select({ count: count() })
+      .from(schema.mfaRecoveryCodes)
+      .where(
+        and(
+          eq(schema.mfaRecoveryCodes.userId, userId),
+          isNull(schema.mfaRecoveryCodes.usedAt)
+        )
+      );
+
+    return result?.count ?? 0;
+  }
+}
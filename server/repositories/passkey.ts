@@ -0,0 +1,179 @@
+import { eq, and, asc, count, lt } from "drizzle-orm";
+import * as schema from "#server/database/schema";
+import { BaseRepository } from "#server/repositories/base";
+import { InternalServerError } from "#server/error/errors";
+import type {
+  NewUserCredential,
+  UserCredential,
+} from "#server/database/schema/identity";
+
+// ========================================
+// PASSKEY REPOSITORY
+// ========================================
+// WebAuthn credentials (user_credentials) and consumed challenges
+// (webauthn_challenges)
+// Rows are hard-deleted when a passkey is removed
+// ========================================
+
+/**
+ * User Credential Repository
+ * Lookups by credential ID are global (passwordless sign-in starts
+ * without knowing the user)
+ */
+export class UserCredentialRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * Find a credential by the authenticator's credential ID
+   */
+  async findByCredentialId(credentialId: string): Promise<UserCredential | null> {
+    const result = await this.drizzle
+      .select()
+      .from(schema.userCredentials)
+      .where(eq(schema.userCredentials.credentialId, credentialId))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Find a user's credential by row ID
+   */
+  async findForUser(id: string, userId: string): Promise<UserCredential | null> {
+    const result = await this.drizzle
+      .select()
+      .from(schema.userCredentials)
+      .where(
+        and(
+          eq(schema.userCredentials.id, id),
+          eq(schema.userCredentials.userId, userId)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * List a user's credentials (oldest first)
+   */
+  async listForUser(userId: string): Promise<UserCredential[]> {
+    return this.drizzle
+      .select()
+      .from(schema.userCredentials)
+      .where(eq(schema.userCredentials.userId, userId))
+      .orderBy(asc(schema.userCredentials.createdAt));
+  }
+
+  /**
+   * Number of credentials a user has registered
+   */
+  async countForUser(userId: string): Promise<number> {
+    const [result] = await this.drizzle
+      .select({ count: count() })
+      .from(schema.userCredentials)
+      .where(eq(schema.userCredentials.userId, userId));
+
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Store a newly registered credential
+   */
+  async create(data: NewUserCredential): Promise<UserCredential> {
+    const [credential] = await this.drizzle
+      .insert(schema.userCredentials)
+      .values(data)
+      .returning();
+
+    if (!credential) {
+      throw new InternalServerError("Failed to save passkey");
+    }
+
+    return credential;
+  }
+
+  /**
+   * Record a successful assertion (new signature counter)
+   */
+  async recordUse(id: string, signCount: number): Promise<void> {
+    await this.drizzle
+      .update(schema.userCredentials)
+      .set({ signCount, lastUsedAt: new Date(), updatedAt: new Date() })
+      .where(eq(schema.userCredentials.id, id));
+  }
+
+  /**
+   * Rename a user's credential
+   */
+  async rename(
+    id: string,
+    userId: string,
+    nickname: string
+  ): Promise<UserCredential | null> {
+    const [credential] = await this.drizzle
+      .update(schema.userCredentials)
+      .set({ nickname, updatedAt: new Date() })
+      .where(
+        and(
+          eq(schema.userCredentials.id, id),
+          eq(schema.userCredentials.userId, userId)
+        )
+      )
+      .returning();
+
+    return credential || null;
+  }
+
+  /**
+   * Remove a user's credential - returns false if it doesn't exist
+   */
+  async deleteForUser(id: string, userId: string): Promise<boolean> {
+    const result = await this.drizzle
+      .delete(schema.userCredentials)
+      .where(
+        and(
+          eq(schema.userCredentials.id, id),
+          eq(schema.userCredentials.userId, userId)
+        )
+      )
+      .returning({ id: schema.userCredentials.id });
+
+    return result.length > 0;
+  }
+}
+
+/**
+ * WebAuthn Challenge Repository
+ * Records challenges whose ceremony has finished
+ */
+export class WebAuthnChallengeRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * Mark a challenge as used - returns false if it already was (single
+   * INSERT on a unique column, so concurrent replays can't both succeed)
+   * Expired rows are dropped on the way: their tokens no longer verify
+   */
+  async consume(
+    challenge: string,
+    purpose: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    await this.drizzle
+      .delete(schema.webauthnChallenges)
+      .where(lt(schema.webauthnChallenges.expiresAt, new Date()));
+
+    const inserted = await this.drizzle
+      .insert(schema.webauthnChallenges)
+      .values({ challenge, purpose, expiresAt })
+      .onConflictDoNothing({ target: schema.webauthnChallenges.challenge })
+      .returning({ id: schema.webauthnChallenges.id });
+
+    return inserted.length > 0;
+  }
+}
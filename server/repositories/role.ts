@@ -0,0 +1,195 @@
+import { eq, and, asc, type SQL } from "drizzle-orm";
+import * as schema from "#server/database/schema";
+import { BaseRepository } from "#server/repositories/base";
+import { Conditions } from "#server/repositories/helpers/conditions";
+import { InternalServerError } from "#server/error/errors";
+import {
+  createBatchDeletes,
+  createBatchInserts,
+  createBatchUpdates,
+  executeBatch,
+} from "#server/database/batch";
+import type { Role, NewRole } from "#server/database/schema/identity";
+
+// ========================================
+// ROLE REPOSITORY
+// ========================================
+
+/**
+ * Custom role with its permission codes
+ */
+export type RoleWithPermissions = Role & { permissions: string[] };
+
+/**
+ * Role Repository
+ *
+ * Custom roles are workspace-scoped and hard-deleted (together with their
+ * role_permissions rows) so a deleted role name can be reused.
+ */
+export class RoleRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * List custom roles of a workspace with their permissions
+   */
+  async listByWorkspace(workspaceId: string): Promise<RoleWithPermissions[]> {
+    return this.selectWithPermissions([
+      Conditions.notDeleted(schema.roles),
+      Conditions.workspaceScoped(schema.roles, workspaceId),
+    ]);
+  }
+
+  /**
+   * Find a custom role by name (workspace-scoped)
+   */
+  async findByName(
+    workspaceId: string,
+    name: string
+  ): Promise<RoleWithPermissions | null> {
+    const [role] = await this.selectWithPermissions([
+      Conditions.notDeleted(schema.roles),
+      Conditions.workspaceScoped(schema.roles, workspaceId),
+      eq(schema.roles.name, name),
+    ]);
+
+    return role || null;
+  }
+
+  /**
+   * Create a role and its permissions atomically (D1 batch)
+   */
+  async create(
+    data: Pick<NewRole, "workspaceId" | "name" | "displayName" | "description">,
+    permissions: string[]
+  ): Promise<RoleWithPermissions> {
+    const now = Math.floor(Date.now() / 1000);
+    const roleId = crypto.randomUUID();
+
+    const statements = [
+      ...createBatchInserts(this.db, "roles", [
+        {
+          id: roleId,
+          workspace_id: data.workspaceId,
+          name: data.name,
+          display_name: data.displayName,
+          description: data.description ?? null,
+          created_at: now,
+          updated_at: now,
+        },
+      ]),
+      ...this.permissionInserts(roleId, permissions, now),
+    ];
+
+    await executeBatch(this.db, statements);
+
+    const role = await this.findByName(data.workspaceId, data.name);
+    if (!role) {
+      throw new InternalServerError("Failed to create role");
+    }
+
+    return role;
+  }
+
+  /**
+   * Update a role's details and replace its permissions atomically (D1 batch)
+   * permissions = undefined keeps the existing set; otherwise the permission
+   * version of every member holding the role is bumped
+   */
+  async update(
+    role: Role,
+    data: Partial<Pick<Role, "displayName" | "description">>,
+    permissions?: string[]
+  ): Promise<RoleWithPermissions> {
+    const now = Math.floor(Date.now() / 1000);
+
+    const set: Record<string, any> = { updated_at: now };
+    if (data.displayName !== undefined) set.display_name = data.displayName;
+    if (data.description !== undefined) set.description = data.description;
+
+    const statements = createBatchUpdates(this.db, "roles", [
+      { where: { id: role.id }, set },
+    ]);
+
+    if (permissions) {
+      statements.push(
+        ...createBatchDeletes(this.db, "role_permissions", [
+          { role_id: role.id },
+        ]),
+        ...this.permissionInserts(role.id, permissions, now),
+        // Members holding the role get their session permissions refreshed
+        this.db
+          .prepare(
+            "UPDATE workspace_members SET permission_version = permission_version + 1, updated_at = ? WHERE workspace_id = ? AND role = ? AND deleted_at IS NULL"
+          )
+          .bind(now, role.workspaceId, role.name)
+      );
+    }
+
+    await executeBatch(this.db, statements);
+
+    const updated = await this.findByName(role.workspaceId, role.name);
+    if (!updated) {
+      throw new InternalServerError("Failed to update role");
+    }
+
+    return updated;
+  }
+
+  /**
+   * Delete a role and its permissions (D1 batch)
+   */
+  async delete(role: Role): Promise<void> {
+    await executeBatch(this.db, [
+      ...createBatchDeletes(this.db, "role_permissions", [{ role_id: role.id }]),
+      ...createBatchDeletes(this.db, "roles", [{ id: role.id }]),
+    ]);
+  }
+
+  /**
+   * Select roles joined with their permission rows, grouped per role
+   */
+  private async selectWithPermissions(
+    conditions: SQL[]
+  ): Promise<RoleWithPermissions[]> {
+    const rows = await this.drizzle
+      .select({
+        role: schema.roles,
+        permission: schema.rolePermissions.permission,
+      })
+      .from(schema.roles)
+      .leftJoin(
+        schema.rolePermissions,
+        eq(schema.rolePermissions.roleId, schema.roles.id)
+      )
+      .where(and(...conditions))
+      .orderBy(asc(schema.roles.name), asc(schema.rolePermissions.permission));
+
+    const byId = new Map<string, RoleWithPermissions>();
+    for (const { role, permission } of rows) {
+      const entry = byId.get(role.id) ?? { ...role, permissions: [] };
+      if (permission) entry.permissions.push(permission);
+      byId.set(role.id, entry);
+    }
+
+    return Array.from(byId.values());
+  }
+
+  /**
+   * Build role_permissions insert statements (de-duplicated)
+   */
+  private permissionInserts(roleId: string, permissions: string[], now: number) {
+    return createBatchInserts(
+      this.db,
+      "role_permissions",
+      Array.from(new Set(permissions)).map((permission) => ({
+        id: crypto.randomUUID(),
+        role_id: roleId,
+        permission,
+        created_at: now,
+        updated_at: now,
+      }))
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { eq, and, desc, gt, isNull, ne } from "drizzle-orm";
+import * as schema from "#server/database/schema";
+import { BaseRepository } from "#server/repositories/base";
+import { InternalServerError } from "#server/error/errors";
+import type {
+  NewUserSession,
+  UserSession,
+} from "#server/database/schema/identity";
+
+// ========================================
+// SESSION REPOSITORY
+// ========================================
+// Server-side session registry (user_sessions)
+// Revoked rows are kept (revokedAt) so the device list history is auditable
+// ========================================
+
+/**
+ * User Session Repository
+ * A session is active while it is neither revoked nor expired
+ */
+export class UserSessionRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * Conditions for a session that can still be used
+   */
+  private active() {
+    return and(
+      isNull(schema.userSessions.revokedAt),
+      gt(schema.userSessions.expiresAt, new Date())
+    );
+  }
+
+  /**
+   * Register a new session
+   */
+  async create(data: NewUserSession): Promise<UserSession> {
+    const [session] = await this.drizzle
+      .insert(schema.userSessions)
+      .values(data)
+      .returning();
+
+    if (!session) {
+      throw new InternalServerError("Failed to create session");
+    }
+
+    return session;
+  }
+
+  /**
+   * Find an active session of a user
+   */
+  async findActive(id: string, userId: string): Promise<UserSession | null> {
+    const result = await this.drizzle
+      .select()
+      .from(schema.userSessions)
+      .where(
+        and(
+          eq(schema.userSessions.id, id),
+          eq(schema.userSessions.userId, userId),
+          this.active()
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * List a user's active sessions (most recently seen first)
+   */
+  async listActiveForUser(userId: string): Promise<UserSession[]> {
+    return this.drizzle
+      .select()
+      .from(schema.userSessions)
+      .where(and(eq(schema.userSessions.userId, userId), this.active()))
+      .orderBy(desc(schema.userSessions.lastSeenAt));
+  }
+
+  /**
+   * Record activity on a session (and push its idle expiry back)
+   */
+  async touch(
+    id: string,
+    data: { ipAddress: string | null; userAgent: string | null; expiresAt: Date }
+  ): Promise<void> {
+    await this.drizzle
+      .update(schema.userSessions)
+      .set({ ...data, lastSeenAt: new Date(), updatedAt: new Date() })
+      .where(eq(schema.userSessions.id, id));
+  }
+
+  /**
+   * Revoke one of a user's sessions - returns false if it isn't active
+   */
+  async revoke(id: string, userId: string): Promise<boolean> {
+    const result = await this.drizzle
+      .update(schema.userSessions)
+      .set({ revokedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(schema.userSessions.id, id),
+          eq(schema.userSessions.userId, userId),
+          this.active()
+        )
+      )
+      .returning({ id: schema.userSessions.id });
+
+    return result.length > 0;
+  }
+
+  /**
+   * Revoke all of a user's active sessions, optionally keeping one
+   * Returns the number of sessions revoked
+   */
+  async revokeAllForUser(userId: string, exceptId?: string): Promise<number> {
+    const result = await this.drizzle
+      .update(schema.userSessions)
+      .set({ revokedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(schema.userSessions.userId, userId),
+          this.active(),
+          exceptId ? ne(schema.userSessions.id, exceptId) : undefined
+        )
+      )
+      .returning({ id: schema.userSessions.id });
+
+    return result.length;
+  }
+}
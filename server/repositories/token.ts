@@ -0,0 +1,85 @@
+import { eq, and, gt, isNull } from "drizzle-orm";
+import * as schema from "#server/database/schema";
+import { BaseRepository } from "#server/repositories/base";
+import {
+  createBatchDeletes,
+  createBatchInserts,
+  executeBatch,
+} from "#server/database/batch";
+import type {
+  EmailToken,
+  EmailTokenPurpose,
+} from "#server/database/schema/identity";
+
+// ========================================
+// TOKEN REPOSITORY
+// ========================================
+// Single-use email links (email_tokens)
+// Only SHA-256 hashes are stored; at most one token per user and purpose
+// ========================================
+
+/**
+ * Email Token Repository
+ */
+export class EmailTokenRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * Record a newly issued token, dropping the user's previous tokens for
+   * the same purpose (D1 batch) - older links stop working
+   */
+  async replaceForUser(data: {
+    userId: string;
+    purpose: EmailTokenPurpose;
+    tokenHash: string;
+    email: string;
+    expiresAt: Date;
+  }): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+
+    await executeBatch(this.db, [
+      ...createBatchDeletes(this.db, "email_tokens", [
+        { user_id: data.userId, purpose: data.purpose },
+      ]),
+      ...createBatchInserts(this.db, "email_tokens", [
+        {
+          id: crypto.randomUUID(),
+          user_id: data.userId,
+          purpose: data.purpose,
+          token_hash: data.tokenHash,
+          email: data.email,
+          expires_at: Math.floor(data.expiresAt.getTime() / 1000),
+          created_at: now,
+          updated_at: now,
+        },
+      ]),
+    ]);
+  }
+
+  /**
+   * Consume an unused, unexpired token - returns null if it doesn't exist,
+   * was already used or was replaced (single UPDATE, so a link can't be
+   * redeemed twice concurrently)
+   */
+  async consume(
+    tokenHash: string,
+    purpose: EmailTokenPurpose
+  ): Promise<EmailToken | null> {
+    const [token] = await this.drizzle
+      .update(schema.emailTokens)
+      .set({ consumedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(schema.emailTokens.tokenHash, tokenHash),
+          eq(schema.emailTokens.purpose, purpose),
+          isNull(schema.emailTokens.consumedAt),
+          gt(schema.emailTokens.expiresAt, new Date())
+        )
+      )
+      .returning();
+
+    return token || null;
+  }
+}
@@ -0,0 +1,542 @@
+import { eq, and, asc, desc, isNull, count, sql } from "drizzle-orm";
+import * as schema from "#server/database/schema";
+import { BaseRepository } from "#server/repositories/base";
+import { Conditions } from "#server/repositories/helpers/conditions";
+import { ConflictError, InternalServerError } from "#server/error/errors";
+import {
+  createBatchInserts,
+  createBatchUpdates,
+  executeBatch,
+} from "#server/database/batch";
+import type {
+  Workspace,
+  NewWorkspace,
+  WorkspaceMember,
+  WorkspaceInvite,
+  NewWorkspaceInvite,
+} from "#server/database/schema/identity";
+
+// ========================================
+// WORKSPACE REPOSITORY
+// ========================================
+
+/**
+ * Workspace Repository
+ *
+ * Workspaces are the application-level isolation unit inside a tenant database.
+ * Archived workspaces (isActive = false) are still returned by lookups so they
+ * can be restored; soft-deleted workspaces are not.
+ */
+export class WorkspaceRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * Find workspace by ID
+   */
+  async findById(id: string): Promise<Workspace | null> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaces),
+      eq(schema.workspaces.id, id),
+    ];
+
+    const result = await this.drizzle
+      .select()
+      .from(schema.workspaces)
+      .where(and(...conditions))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Find workspace by slug
+   * Includes soft-deleted rows because the unique constraint still applies to them
+   */
+  async findBySlug(slug: string): Promise<Workspace | null> {
+    const result = await this.drizzle
+      .select()
+      .from(schema.workspaces)
+      .where(eq(schema.workspaces.slug, slug.toLowerCase()))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * List workspaces owned by a user (archived ones included)
+   */
+  async listOwnedBy(userId: string): Promise<Workspace[]> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaces),
+      eq(schema.workspaces.ownerId, userId),
+    ];
+
+    return this.drizzle
+      .select()
+      .from(schema.workspaces)
+      .where(and(...conditions))
+      .orderBy(asc(schema.workspaces.name));
+  }
+
+  /**
+   * List workspaces a user is a member of, with the user's role in each
+   */
+  async listForUser(
+    userId: string
+  ): Promise<Array<{ workspace: Workspace; role: string; joinedAt: Date }>> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaces),
+      Conditions.notDeleted(schema.workspaceMembers),
+      eq(schema.workspaceMembers.userId, userId),
+    ];
+
+    return this.drizzle
+      .select({
+        workspace: schema.workspaces,
+        role: schema.workspaceMembers.role,
+        joinedAt: schema.workspaceMembers.joinedAt,
+      })
+      .from(schema.workspaceMembers)
+      .innerJoin(
+        schema.workspaces,
+        eq(schema.workspaceMembers.workspaceId, schema.workspaces.id)
+      )
+      .where(and(...conditions))
+      .orderBy(asc(schema.workspaces.name));
+  }
+
+  /**
+   * Create workspace and its owner membership atomically (D1 batch)
+   * Also marks the owner's onboarding complete (they created a workspace)
+   */
+  async createWithOwner(
+    data: Pick<NewWorkspace, "name" | "slug" | "description" | "settings">,
+    ownerId: string,
+    ownerRole = "admin"
+  ): Promise<Workspace> {
+    const workspaceId = crypto.randomUUID();
+    // Drizzle stores timestamp columns as unix seconds
+    const now = Math.floor(Date.now() / 1000);
+
+    const statements = [
+      ...createBatchInserts(this.db, "workspaces", [
+        {
+          id: workspaceId,
+          name: data.name,
+          slug: data.slug.toLowerCase(),
+          description: data.description ?? null,
+          settings: JSON.stringify(data.settings ?? {}),
+          owner_id: ownerId,
+          is_active: 1,
+          created_at: now,
+          updated_at: now,
+        },
+      ]),
+      ...createBatchInserts(this.db, "workspace_members", [
+        {
+          id: crypto.randomUUID(),
+          workspace_id: workspaceId,
+          user_id: ownerId,
+          role: ownerRole,
+          joined_at: now,
+          created_at: now,
+          updated_at: now,
+        },
+      ]),
+      ...createBatchUpdates(this.db, "users", [
+        {
+          where: { id: ownerId },
+          set: { has_completed_onboarding: 1, updated_at: now },
+        },
+      ]),
+    ];
+
+    await executeBatch(this.db, statements);
+
+    const workspace = await this.findById(workspaceId);
+    if (!workspace) {
+      throw new InternalServerError("Failed to create workspace");
+    }
+
+    return workspace;
+  }
+
+  /**
+   * Update workspace
+   */
+  async update(id: string, data: Partial<Workspace>): Promise<Workspace | null> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaces),
+      eq(schema.workspaces.id, id),
+    ];
+
+    const [workspace] = await this.drizzle
+      .update(schema.workspaces)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+
+    return workspace || null;
+  }
+
+  /**
+   * Transfer ownership atomically (D1 batch)
+   * Sets workspaces.owner_id and promotes the new owner's membership role
+   */
+  async transferOwnership(
+    id: string,
+    newOwnerId: string,
+    newOwnerRole = "admin"
+  ): Promise<Workspace> {
+    const now = Math.floor(Date.now() / 1000);
+
+    const statements = createBatchUpdates(this.db, "workspaces", [
+      { where: { id }, set: { owner_id: newOwnerId, updated_at: now } },
+    ]).concat(
+      createBatchUpdates(this.db, "workspace_members", [
+        {
+          where: { workspace_id: id, user_id: newOwnerId },
+          set: { role: newOwnerRole, updated_at: now },
+        },
+      ])
+    );
+
+    await executeBatch(this.db, statements);
+
+    const workspace = await this.findById(id);
+    if (!workspace) {
+      throw new InternalServerError("Failed to transfer workspace ownership");
+    }
+
+    return workspace;
+  }
+
+  /**
+   * Archive or restore workspace (isActive flag)
+   */
+  async setActive(id: string, isActive: boolean): Promise<Workspace | null> {
+    return this.update(id, { isActive });
+  }
+
+  /**
+   * Soft delete workspace
+   */
+  async softDelete(id: string): Promise<void> {
+    await this.drizzle
+      .update(schema.workspaces)
+      .set({ isActive: false, deletedAt: new Date() })
+      .where(eq(schema.workspaces.id, id));
+  }
+}
+
+// ========================================
+// WORKSPACE MEMBER REPOSITORY
+// ========================================
+
+/**
+ * Workspace Member Repository
+ *
+ * Membership rows are workspace-scoped; every query takes a workspaceId.
+ */
+export class WorkspaceMemberRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * Find a user's membership in a workspace
+   */
+  async findMembership(
+    workspaceId: string,
+    userId: string
+  ): Promise<WorkspaceMember | null> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaceMembers),
+      Conditions.workspaceScoped(schema.workspaceMembers, workspaceId),
+      eq(schema.workspaceMembers.userId, userId),
+    ];
+
+    const result = await this.drizzle
+      .select()
+      .from(schema.workspaceMembers)
+      .where(and(...conditions))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * List members of a workspace
+   */
+  async listByWorkspace(workspaceId: string): Promise<WorkspaceMember[]> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaceMembers),
+      Conditions.workspaceScoped(schema.workspaceMembers, workspaceId),
+    ];
+
+    return this.drizzle
+      .select()
+      .from(schema.workspaceMembers)
+      .where(and(...conditions))
+      .orderBy(asc(schema.workspaceMembers.joinedAt));
+  }
+
+  /**
+   * Count members holding a role (used before deleting a custom role)
+   */
+  async countByRole(workspaceId: string, role: string): Promise<number> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaceMembers),
+      Conditions.workspaceScoped(schema.workspaceMembers, workspaceId),
+      eq(schema.workspaceMembers.role, role),
+    ];
+
+    const [result] = await this.drizzle
+      .select({ count: count() })
+      .from(schema.workspaceMembers)
+      .where(and(...conditions));
+
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Count members holding a role whose accounts can still sign in
+   * Deactivated and deleted users are skipped (used by the last-admin guard)
+   */
+  async countActiveByRole(workspaceId: string, role: string): Promise<number> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaceMembers),
+      Conditions.workspaceScoped(schema.workspaceMembers, workspaceId),
+      eq(schema.workspaceMembers.role, role),
+      Conditions.notDeleted(schema.users),
+      eq(schema.users.isActive, true),
+    ];
+
+    const [result] = await this.drizzle
+      .select({ count: count() })
+      .from(schema.workspaceMembers)
+      .innerJoin(
+        schema.users,
+        eq(schema.workspaceMembers.userId, schema.users.id)
+      )
+      .where(and(...conditions));
+
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Update a member's role and bump the membership's permission version
+   */
+  async updateRole(
+    workspaceId: string,
+    userId: string,
+    role: string
+  ): Promise<WorkspaceMember | null> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaceMembers),
+      Conditions.workspaceScoped(schema.workspaceMembers, workspaceId),
+      eq(schema.workspaceMembers.userId, userId),
+    ];
+
+    const [member] = await this.drizzle
+      .update(schema.workspaceMembers)
+      .set({
+        role,
+        permissionVersion: sql`${schema.workspaceMembers.permissionVersion} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(...conditions))
+      .returning();
+
+    return member || null;
+  }
+}
+
+// ========================================
+// WORKSPACE INVITE REPOSITORY
+// ========================================
+
+/**
+ * Workspace Invite Repository
+ *
+ * Revoked invites are soft-deleted; accepted invites keep acceptedAt set.
+ */
+export class WorkspaceInviteRepository extends BaseRepository {
+  constructor(db: D1Database) {
+    super(db);
+  }
+
+  /**
+   * Find invite by token
+   */
+  async findByToken(token: string): Promise<WorkspaceInvite | null> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaceInvites),
+      eq(schema.workspaceInvites.token, token),
+    ];
+
+    const result = await this.drizzle
+      .select()
+      .from(schema.workspaceInvites)
+      .where(and(...conditions))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Find invite by ID (workspace-scoped)
+   */
+  async findById(
+    workspaceId: string,
+    id: string
+  ): Promise<WorkspaceInvite | null> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaceInvites),
+      Conditions.workspaceScoped(schema.workspaceInvites, workspaceId),
+      eq(schema.workspaceInvites.id, id),
+    ];
+
+    const result = await this.drizzle
+      .select()
+      .from(schema.workspaceInvites)
+      .where(and(...conditions))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * List invites that have not been accepted (workspace-scoped)
+   * Includes expired invites so admins can see and resend them
+   */
+  async listPending(workspaceId: string): Promise<WorkspaceInvite[]> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaceInvites),
+      Conditions.workspaceScoped(schema.workspaceInvites, workspaceId),
+      isNull(schema.workspaceInvites.acceptedAt),
+    ];
+
+    return this.drizzle
+      .select()
+      .from(schema.workspaceInvites)
+      .where(and(...conditions))
+      .orderBy(desc(schema.workspaceInvites.createdAt));
+  }
+
+  /**
+   * Create invite
+   */
+  async create(data: NewWorkspaceInvite): Promise<WorkspaceInvite> {
+    const [invite] = await this.drizzle
+      .insert(schema.workspaceInvites)
+      .values({ ...data, email: data.email.toLowerCase() })
+      .returning();
+
+    if (!invite) {
+      throw new InternalServerError("Failed to create invite");
+    }
+
+    return invite;
+  }
+
+  /**
+   * Revoke pending invites for an email (used when re-inviting)
+   */
+  async revokePendingForEmail(
+    workspaceId: string,
+    email: string
+  ): Promise<void> {
+    const conditions = [
+      Conditions.notDeleted(schema.workspaceInvites),
+      Conditions.workspaceScoped(schema.workspaceInvites, workspaceId),
+      eq(schema.workspaceInvites.email, email.toLowerCase()),
+      isNull(schema.workspaceInvites.acceptedAt),
+    ];
+
+    await this.drizzle
+      .update(schema.workspaceInvites)
+      .set({ deletedAt: new Date() })
+      .where(and(...conditions));
+  }
+
+  /**
+   * Revoke invite (soft delete)
+   */
+  async revoke(workspaceId: string, id: string): Promise<void> {
+    const conditions = [
+      Conditions.workspaceScoped(schema.workspaceInvites, workspaceId),
+      eq(schema.workspaceInvites.id, id),
+    ];
+
+    await this.drizzle
+      .update(schema.workspaceInvites)
+      .set({ deletedAt: new Date() })
+      .where(and(...conditions));
+  }
+
+  /**
+   * Accept invite atomically (D1 batch):
+   * - claims the invite for the user (only while it is still unaccepted)
+   * - creates the workspace membership with the invited role
+   * - marks the user's onboarding complete (they joined a workspace)
+   * The later statements only run when the claim changed a row, so of two
+   * concurrent accepts the second gets a ConflictError instead of a
+   * duplicate membership
+   */
+  async accept(invite: WorkspaceInvite, userId: string): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+
+    const statements = [
+      this.db
+        .prepare(
+          `UPDATE workspace_invites
+           SET accepted_at = ?, accepted_by_user_id = ?, updated_at = ?
+           WHERE id = ? AND accepted_at IS NULL`
+        )
+        .bind(now, userId, now, invite.id),
+      this.db
+        .prepare(
+          `INSERT INTO workspace_members
+             (id, workspace_id, user_id, role, joined_at, created_at, updated_at)
+           SELECT ?, ?, ?, ?, ?, ?, ? WHERE changes() = 1`
+        )
+        .bind(
+          crypto.randomUUID(),
+          invite.workspaceId,
+          userId,
+          invite.role,
+          now,
+          now,
+          now
+        ),
+      this.db
+        .prepare(
+          `UPDATE users SET has_completed_onboarding = 1, updated_at = ?
+           WHERE id = ? AND changes() = 1`
+        )
+        .bind(now, userId),
+    ];
+
+    let results: D1Result[];
+    try {
+      results = await executeBatch(this.db, statements);
+    } catch (error) {
+      // Already a member (workspace_members_unique)
+      if (error instanceof Error && error.message.includes("UNIQUE constraint failed")) {
+        throw new ConflictError("You are already a member of this workspace", {
+          workspaceId: invite.workspaceId,
+        });
+      }
+      throw error;
+    }
+
+    if (!results[0]?.meta.changes) {
+      throw new ConflictError("This invite has already been accepted", {
+        inviteId: invite.id,
+      });
+    }
+  }
+}
@@ -0,0 +1,300 @@
+import type { H3Event } from "h3";
+import {
+  UserRepository,
+  UserSettingsRepository,
+  AuditLogRepository,
+} from "#server/repositories/identity";
+import { WorkspaceRepository } from "#server/repositories/workspace";
+import {
+  AuthenticationError,
+  BusinessRuleError,
+  CurrentPasswordIncorrectError,
+  RecentSignInRequiredError,
+  UserNotFoundError,
+} from "#server/error/errors";
+import type { AuditLog, User } from "#server/database/schema/identity";
+import { getDatabase } from "#server/database/utils";
+import { buildAuditContext } from "#server/utils/audit";
+import {
+  type SafeUser,
+  sanitizeUserForClient,
+} from "#server/lib/sanitizeUser";
+import { type EmailService, createEmailService } from "#server/services/email";
+import type { AccountDeletionInput } from "#shared/validators/user";
+
+// ========================================
+// ACCOUNT SERVICE
+// ========================================
+// Self-service account deletion and personal data export
+// Deletion is scheduled first (cancellable during the grace period); the
+// accounts:purge task then erases the personal data, see
+// UserRepository.anonymize
+// ========================================
+
+export const ACCOUNT_CONFIG = {
+  DELETION_GRACE_PERIOD: 30 * 24 * 60 * 60 * 1000, // 30 days
+  REAUTH_WINDOW: 10 * 60 * 1000, // Sign-in age accepted instead of a password
+  PURGE_BATCH_SIZE: 50, // Accounts erased per task run
+};
+
+/**
+ * Personal data archive (GET /api/v1/me/export)
+ */
+export interface AccountExport {
+  exportedAt: string;
+  user: SafeUser;
+  settings: Record<string, any>;
+  memberships: Array<{
+    workspaceId: string;
+    workspaceName: string;
+    role: string;
+    joinedAt: Date;
+  }>;
+  auditLogs: AuditLog[];
+}
+
+export class AccountService {
+  private readonly userId?: string;
+
+  constructor(
+    private readonly event: H3Event,
+    private readonly userRepo: UserRepository,
+    private readonly userSettingsRepo: UserSettingsRepository,
+    private readonly workspaceRepo: WorkspaceRepository,
+    private readonly auditLogRepo: AuditLogRepository,
+    private readonly emailService: EmailService
+  ) {
+    this.userId = event.context.userId;
+  }
+
+  /**
+   * Helper to log audit events with request context
+   */
+  private async logAudit(
+    userId: string,
+    action: string,
+    metadata?: Record<string, any>
+  ) {
+    return this.auditLogRepo.log(
+      this.event.context.workspaceId || null,
+      userId,
+      action,
+      "User",
+      userId,
+      {
+        ...buildAuditContext(this.event),
+        statusCode: 200,
+        metadata,
+      }
+    );
+  }
+
+  /**
+   * Get the authenticated user or throw
+   */
+  private async requireUser(): Promise<User> {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+
+    const user = await this.userRepo.findById(this.userId);
+    if (!user) {
+      throw new UserNotFoundError();
+    }
+    return user;
+  }
+
+  /**
+   * Confirm it's really the user: their password when they have one,
+   * otherwise a sign-in within REAUTH_WINDOW
+   */
+  private async reauthenticate(
+    user: User,
+    currentPassword: string | undefined,
+    signedInAt: number | undefined
+  ): Promise<void> {
+    if (user.passwordHash) {
+      const isValid =
+        !!currentPassword && (await verifyPassword(user.passwordHash, currentPassword));
+
+      if (!isValid) {
+        throw new CurrentPasswordIncorrectError(undefined, {
+          field: "currentPassword",
+          userId: user.id,
+        });
+      }
+      return;
+    }
+
+    if (!signedInAt || Date.now() - signedInAt > ACCOUNT_CONFIG.REAUTH_WINDOW) {
+      throw new RecentSignInRequiredError(undefined, { userId: user.id });
+    }
+  }
+
+  /**
+   * Workspace owners must transfer or delete their workspaces first
+   * (workspaces.ownerId can't point to an erased account)
+   */
+  private async assertOwnsNoWorkspace(userId: string): Promise<void> {
+    const owned = await this.workspaceRepo.listOwnedBy(userId);
+
+    if (owned.length) {
+      throw new BusinessRuleError(
+        "Transfer or delete the workspaces you own before deleting your account",
+        {
+          workspaces: owned.map((workspace) => ({
+            id: workspace.id,
+            name: workspace.name,
+          })),
+        }
+      );
+    }
+  }
+
+  /**
+   * Schedule the deletion of the current user's account
+   * The account keeps working until the grace period ends
+   */
+  async requestDeletion(
+    input: AccountDeletionInput,
+    signedInAt?: number
+  ): Promise<SafeUser> {
+    const user = await this.requireUser();
+
+    if (user.deletionScheduledAt) {
+      throw new BusinessRuleError("Account deletion is already scheduled", {
+        deletionScheduledAt: user.deletionScheduledAt.toISOString(),
+      });
+    }
+
+    await this.reauthenticate(user, input.currentPassword, signedInAt);
+    await this.assertOwnsNoWorkspace(user.id);
+
+    const deletionScheduledAt = new Date(
+      Date.now() + ACCOUNT_CONFIG.DELETION_GRACE_PERIOD
+    );
+    const updatedUser = await this.userRepo.scheduleDeletion(
+      user.id,
+      deletionScheduledAt
+    );
+    if (!updatedUser) {
+      throw new UserNotFoundError();
+    }
+
+    await this.emailService.sendSecurityNotice(user, "accountDeletionScheduled", {
+      ipAddress: this.event.context.ipAddress,
+    });
+
+    await this.logAudit(user.id, "ACCOUNT_DELETION_SCHEDULED", {
+      deletionScheduledAt: deletionScheduledAt.toISOString(),
+    });
+
+    return sanitizeUserForClient(updatedUser);
+  }
+
+  /**
+   * Cancel a scheduled deletion during the grace period
+   */
+  async cancelDeletion(): Promise<SafeUser> {
+    const user = await this.requireUser();
+
+    if (!user.deletionScheduledAt) {
+      throw new BusinessRuleError("Account deletion is not scheduled");
+    }
+
+    const updatedUser = await this.userRepo.scheduleDeletion(user.id, null);
+    if (!updatedUser) {
+      throw new UserNotFoundError();
+    }
+
+    await this.logAudit(user.id, "ACCOUNT_DELETION_CANCELLED");
+
+    return sanitizeUserForClient(updatedUser);
+  }
+
+  /**
+   * Assemble the current user's personal data: account, settings,
+   * workspace memberships and the audit history of their actions
+   */
+  async exportData(): Promise<AccountExport> {
+    const user = await this.requireUser();
+
+    const [settings, memberships, auditLogs] = await Promise.all([
+      this.userSettingsRepo.getSettings(user.id),
+      this.workspaceRepo.listForUser(user.id),
+      this.auditLogRepo.listForUser(user.id),
+    ]);
+
+    await this.logAudit(user.id, "ACCOUNT_DATA_EXPORTED");
+
+    return {
+      exportedAt: new Date().toISOString(),
+      user: sanitizeUserForClient(user),
+      settings,
+      memberships: memberships.map(({ workspace, role, joinedAt }) => ({
+        workspaceId: workspace.id,
+        workspaceName: workspace.name,
+        role,
+        joinedAt,
+      })),
+      auditLogs,
+    };
+  }
+}
+
+// ========================================
+// PURGE
+// ========================================
+
+/**
+ * Erase the accounts whose grace period has ended (accounts:purge task)
+ * Users who became workspace owners in the meantime are skipped until
+ * ownership is transferred. Returns the number of accounts erased
+ */
+export async function purgeScheduledAccounts(db: D1Database): Promise<number> {
+  const userRepo = new UserRepository(db);
+  const workspaceRepo = new WorkspaceRepository(db);
+  const auditLogRepo = new AuditLogRepository(db);
+
+  const due = await userRepo.findDueForDeletion(
+    new Date(),
+    ACCOUNT_CONFIG.PURGE_BATCH_SIZE
+  );
+
+  let purged = 0;
+  for (const user of due) {
+    const owned = await workspaceRepo.listOwnedBy(user.id);
+    if (owned.length) {
+      console.warn(
+        `[Account] Deletion of user ${user.id} postponed: still owns ${owned.length} workspace(s)`
+      );
+      continue;
+    }
+
+    await userRepo.anonymize(user.id);
+    await auditLogRepo.log(null, null, "ACCOUNT_DELETED", "User", user.id);
+    purged++;
+  }
+
+  return purged;
+}
+
+// ========================================
+// FACTORY FUNCTION
+// ========================================
+
+/**
+ * Create AccountService from H3Event
+ */
+export function createAccountService(event: H3Event): AccountService {
+  const db = getDatabase(event);
+
+  return new AccountService(
+    event,
+    new UserRepository(db),
+    new UserSettingsRepository(db),
+    new WorkspaceRepository(db),
+    new AuditLogRepository(db),
+    createEmailService(event)
+  );
+}
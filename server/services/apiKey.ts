@@ -0,0 +1,248 @@
+import type { H3Event } from "h3";
+import {
+  UserRepository,
+  AuditLogRepository,
+} from "#server/repositories/identity";
+import { ApiKeyRepository } from "#server/repositories/apiKey";
+import {
+  AuthenticationError,
+  BusinessRuleError,
+  NotFoundError,
+  PermissionDeniedError,
+  ValidationError,
+} from "#server/error/errors";
+import type {
+  ApiKey,
+  PermissionCode,
+  User,
+} from "#server/database/schema/identity";
+import { PERMISSION_DEFINITIONS, hasPermission } from "#server/config/rbac";
+import { generateSecureToken, hashToken } from "#server/lib/crypto";
+import { getDatabase } from "#server/database/utils";
+import { buildAuditContext } from "#server/utils/audit";
+import { type RBACService, getRBACService } from "#server/services/rbac";
+import type { ApiKeyCreateInput } from "#shared/validators/apiKey";
+
+// ========================================
+// API KEY SERVICE
+// ========================================
+// Personal access tokens for machine clients
+// A key acts as its owner in the workspace it was created in; 02.auth
+// limits its permissions to the scopes it was given (see RBACService)
+// The secret is only returned once, at creation
+// ========================================
+
+export const API_KEY_CONFIG = {
+  SECRET_PREFIX: "pat_", // Tells keys apart from other Bearer tokens
+  DISPLAY_PREFIX_LENGTH: 12, // "pat_" plus 8 characters, listed with the key
+  MAX_KEYS_PER_USER: 20,
+  TOUCH_INTERVAL: 5 * 60 * 1000, // Write lastUsedAt at most every 5 minutes
+};
+
+/**
+ * API key as listed to its owner (the hash stays server-side)
+ */
+export type SafeApiKey = Omit<ApiKey, "keyHash" | "userId" | "revokedAt" | "deletedAt">;
+
+function sanitizeApiKey(apiKey: ApiKey): SafeApiKey {
+  const { keyHash, userId, revokedAt, deletedAt, ...safe } = apiKey;
+  return safe;
+}
+
+/**
+ * Scope a key can be given, with its description
+ */
+export interface ApiKeyScope {
+  code: PermissionCode;
+  description: string;
+}
+
+export class ApiKeyService {
+  private readonly userId?: string;
+
+  constructor(
+    private readonly event: H3Event,
+    private readonly userRepo: UserRepository,
+    private readonly apiKeyRepo: ApiKeyRepository,
+    private readonly auditLogRepo: AuditLogRepository,
+    private readonly rbacService: RBACService
+  ) {
+    this.userId = event.context.userId;
+  }
+
+  /**
+   * Helper to log audit events with request context
+   */
+  private async logAudit(
+    userId: string,
+    action: string,
+    metadata?: Record<string, any>
+  ) {
+    return this.auditLogRepo.log(
+      this.event.context.workspaceId || null,
+      userId,
+      action,
+      "User",
+      userId,
+      {
+        ...buildAuditContext(this.event),
+        statusCode: 200,
+        metadata,
+      }
+    );
+  }
+
+  /**
+   * Get the authenticated user ID or throw
+   */
+  private requireUserId(): string {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+    return this.userId;
+  }
+
+  /**
+   * Permissions the current user holds in the current workspace
+   * null when RBAC is disabled (every scope can be granted)
+   */
+  private async getGrantablePermissions(userId: string): Promise<PermissionCode[] | null> {
+    if (!this.rbacService.isEnabled()) {
+      return null;
+    }
+    return this.rbacService.getUserPermissions(userId);
+  }
+
+  /**
+   * Scopes the current user can give a key - the permissions they hold
+   */
+  async listScopes(): Promise<ApiKeyScope[]> {
+    const granted = await this.getGrantablePermissions(this.requireUserId());
+
+    return Object.entries(PERMISSION_DEFINITIONS)
+      .filter(([code]) => !granted || hasPermission(granted, code))
+      .map(([code, description]) => ({ code: code as PermissionCode, description }));
+  }
+
+  /**
+   * List the current user's active keys
+   */
+  async listKeys(): Promise<SafeApiKey[]> {
+    const userId = this.requireUserId();
+    const apiKeys = await this.apiKeyRepo.listActiveForUser(userId);
+
+    return apiKeys.map(sanitizeApiKey);
+  }
+
+  /**
+   * Create a key for the current user in the current workspace
+   * Scopes must be ones the user holds, so a key never starts out with
+   * more than its owner (later role changes still narrow it, see 02.auth)
+   */
+  async createKey(
+    input: ApiKeyCreateInput
+  ): Promise<{ apiKey: SafeApiKey; secret: string }> {
+    const userId = this.requireUserId();
+    const scopes = [...new Set(input.scopes)] as PermissionCode[];
+
+    const unknown = scopes.find((scope) => !Object.hasOwn(PERMISSION_DEFINITIONS, scope));
+    if (unknown) {
+      throw new ValidationError(`Unknown scope: ${unknown}`, { scope: unknown });
+    }
+
+    const granted = await this.getGrantablePermissions(userId);
+    const missing = granted && scopes.find((scope) => !hasPermission(granted, scope));
+    if (missing) {
+      throw new PermissionDeniedError(`You don't have the ${missing} permission`, {
+        scope: missing,
+      });
+    }
+
+    const count = await this.apiKeyRepo.countActiveForUser(userId);
+    if (count >= API_KEY_CONFIG.MAX_KEYS_PER_USER) {
+      throw new BusinessRuleError(
+        `You can have at most ${API_KEY_CONFIG.MAX_KEYS_PER_USER} API keys`
+      );
+    }
+
+    const secret = `${API_KEY_CONFIG.SECRET_PREFIX}${generateSecureToken()}`;
+    const apiKey = await this.apiKeyRepo.create({
+      userId,
+      workspaceId: this.event.context.workspaceId || null,
+      name: input.name,
+      prefix: secret.slice(0, API_KEY_CONFIG.DISPLAY_PREFIX_LENGTH),
+      keyHash: await hashToken(secret),
+      scopes,
+      expiresAt: input.expiresInDays
+        ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+    });
+
+    await this.logAudit(userId, "API_KEY_CREATED", {
+      apiKeyId: apiKey.id,
+      name: apiKey.name,
+      scopes,
+    });
+
+    return { apiKey: sanitizeApiKey(apiKey), secret };
+  }
+
+  /**
+   * Revoke one of the current user's keys
+   */
+  async revokeKey(id: string): Promise<void> {
+    const userId = this.requireUserId();
+
+    if (!(await this.apiKeyRepo.revoke(id, userId))) {
+      throw new NotFoundError("API key not found", { apiKeyId: id });
+    }
+
+    await this.logAudit(userId, "API_KEY_REVOKED", { apiKeyId: id });
+  }
+
+  /**
+   * Resolve the key of a Bearer token - records use
+   * Returns null for unknown, revoked or expired keys and inactive owners
+   */
+  async authenticate(secret: string): Promise<{ apiKey: ApiKey; user: User } | null> {
+    if (!secret.startsWith(API_KEY_CONFIG.SECRET_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepo.findActiveByHash(await hashToken(secret));
+    if (!apiKey) {
+      return null;
+    }
+
+    const user = await this.userRepo.findById(apiKey.userId);
+    if (!user || !user.isActive) {
+      return null;
+    }
+
+    const lastUsedAt = apiKey.lastUsedAt?.getTime() ?? 0;
+    if (Date.now() - lastUsedAt >= API_KEY_CONFIG.TOUCH_INTERVAL) {
+      await this.apiKeyRepo.touch(apiKey.id);
+    }
+
+    return { apiKey, user };
+  }
+}
+
+// ========================================
+// FACTORY FUNCTION
+// ========================================
+
+/**
+ * Create ApiKeyService from H3Event
+ */
+export function createApiKeyService(event: H3Event): ApiKeyService {
+  const db = getDatabase(event);
+
+  return new ApiKeyService(
+    event,
+    new UserRepository(db),
+    new ApiKeyRepository(db),
+    new AuditLogRepository(db),
+    getRBACService(event)
+  );
+}
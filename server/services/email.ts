@@ -0,0 +1,280 @@
+import type { H3Event } from "h3";
+import { getCookie, getHeader, getRequestURL } from "h3";
+import {
+  createEmailProvider,
+  type EmailMessage,
+  type EmailProvider,
+} from "#server/lib/email";
+import {
+  DEFAULT_EMAIL_LOCALE,
+  renderEmailTemplate,
+  resolveEmailLocale,
+  type EmailLocale,
+  type EmailTemplateData,
+  type EmailTemplateName,
+  type SecurityNoticeEvent,
+} from "#server/lib/email-templates";
+import { UserSettingsRepository } from "#server/repositories/identity";
+import { getDatabase } from "#server/database/utils";
+import { isDevelopment, isProduction } from "#server/utils/environment";
+
+// ========================================
+// EMAIL SERVICE
+// ========================================
+// Transactional emails (confirmation, password reset, invites, security
+// notices) rendered from server/lib/email-templates.ts
+// Locale: recipient's userSettings.settings.language, else the request locale
+// Delivery goes through the provider from runtimeConfig.email
+// Delivery failures are logged and reported as `false` - they never fail the
+// request that triggered them (the action itself already succeeded)
+// ========================================
+
+/**
+ * Email recipient (id enables the preferred locale lookup)
+ */
+export interface EmailRecipient {
+  id?: string;
+  email: string;
+  firstName?: string | null;
+}
+
+/** i18n cookie set by @nuxtjs/i18n browser language detection */
+const LOCALE_COOKIE = "i18n_redirected";
+
+export class EmailService {
+  constructor(
+    private readonly provider: EmailProvider,
+    private readonly from: string,
+    private readonly appUrl: string,
+    private readonly defaultLocale: EmailLocale = DEFAULT_EMAIL_LOCALE,
+    private readonly userSettingsRepo?: UserSettingsRepository
+  ) {}
+
+  /**
+   * Name of the configured provider
+   */
+  getProviderName() {
+    return this.provider.name;
+  }
+
+  /**
+   * Send a message, returns whether the provider accepted it
+   */
+  async send(message: EmailMessage): Promise<boolean> {
+    try {
+      await this.provider.send({ ...message, from: this.from });
+      return true;
+    } catch (error) {
+      console.error(
+        `[Email] Failed to send "${message.subject}" via ${this.provider.name}:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  // ========================================
+  // TRANSACTIONAL EMAILS
+  // ========================================
+
+  /**
+   * Email address confirmation after signup
+   */
+  async sendEmailConfirmation(
+    user: EmailRecipient,
+    token: string
+  ): Promise<boolean> {
+    return this.sendTemplate(user, "email-confirm", {
+      name: user.firstName,
+      actionUrl: this.buildUrl("/auth/email/confirm", { token }),
+    });
+  }
+
+  /**
+   * Password reset link
+   */
+  async sendPasswordReset(
+    user: EmailRecipient,
+    token: string
+  ): Promise<boolean> {
+    return this.sendTemplate(user, "password-reset", {
+      name: user.firstName,
+      actionUrl: this.buildUrl("/auth/password/reset", { token }),
+    });
+  }
+
+  /**
+   * Confirmation link for a new email address
+   * Sent to the new address; the account keeps the old one until confirmed
+   */
+  async sendEmailChangeConfirmation(
+    user: EmailRecipient,
+    newEmail: string,
+    token: string
+  ): Promise<boolean> {
+    return this.sendTemplate({ ...user, email: newEmail }, "email-change", {
+      name: user.firstName,
+      newEmail,
+      actionUrl: this.buildUrl("/auth/email/change", { token }),
+    });
+  }
+
+  /**
+   * One-time sign-in link
+   * redirectTo: same-origin path to land on after sign-in
+   */
+  async sendMagicLink(
+    user: EmailRecipient,
+    token: string,
+    redirectTo?: string
+  ): Promise<boolean> {
+    return this.sendTemplate(user, "magic-link", {
+      name: user.firstName,
+      actionUrl: this.buildUrl("/auth/magic-link", {
+        token,
+        ...(redirectTo && redirectTo !== "/" ? { redirectTo } : {}),
+      }),
+    });
+  }
+
+  /**
+   * Workspace invitation
+   * recipientId: the invitee's user ID when they already have an account
+   */
+  async sendWorkspaceInvite(invite: {
+    email: string;
+    recipientId?: string;
+    workspaceName: string;
+    inviterName?: string | null;
+    role: string;
+    token: string;
+  }): Promise<boolean> {
+    return this.sendTemplate(
+      { id: invite.recipientId, email: invite.email },
+      "workspace-invite",
+      {
+        workspace: invite.workspaceName,
+        inviter: invite.inviterName,
+        role: invite.role,
+        actionUrl: this.buildUrl(`/invite/${encodeURIComponent(invite.token)}`),
+      }
+    );
+  }
+
+  /**
+   * Notify a user about a security-relevant change of their account
+   */
+  async sendSecurityNotice(
+    user: EmailRecipient,
+    event: SecurityNoticeEvent,
+    context?: { ipAddress?: string | null }
+  ): Promise<boolean> {
+    return this.sendTemplate(user, "security-notice", {
+      name: user.firstName,
+      event,
+      occurredAt: new Date(),
+      ipAddress: context?.ipAddress,
+      actionUrl: this.buildUrl("/account"),
+    });
+  }
+
+  // ========================================
+  // RENDERING
+  // ========================================
+
+  /**
+   * Absolute app URL for a path
+   */
+  buildUrl(path: string, query?: Record<string, string>): string {
+    const url = new URL(path, this.appUrl);
+    for (const [key, value] of Object.entries(query ?? {})) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Recipient's preferred locale (userSettings.settings.language)
+   * Falls back to the request locale
+   */
+  async resolveLocale(userId?: string): Promise<EmailLocale> {
+    if (userId && this.userSettingsRepo) {
+      const settings = await this.userSettingsRepo.getSettings(userId);
+      const preferred = resolveEmailLocale(settings.language);
+      if (preferred) {
+        return preferred;
+      }
+    }
+    return this.defaultLocale;
+  }
+
+  /**
+   * Render a template in the recipient's locale and send it
+   */
+  private async sendTemplate<T extends EmailTemplateName>(
+    recipient: EmailRecipient,
+    template: T,
+    data: EmailTemplateData[T]
+  ): Promise<boolean> {
+    const locale = await this.resolveLocale(recipient.id);
+    const rendered = renderEmailTemplate(template, locale, data);
+
+    return this.send({ to: recipient.email, ...rendered, tag: template });
+  }
+}
+
+// ========================================
+// FACTORY FUNCTION
+// ========================================
+
+/**
+ * Locale of the current request (i18n cookie, then Accept-Language)
+ */
+function getRequestLocale(event: H3Event): EmailLocale {
+  const candidates = [
+    getCookie(event, LOCALE_COOKIE),
+    ...(getHeader(event, "accept-language") ?? "")
+      .split(",")
+      .map((entry) => entry.split(";")[0]),
+  ];
+
+  for (const candidate of candidates) {
+    const locale = resolveEmailLocale(candidate);
+    if (locale) {
+      return locale;
+    }
+  }
+
+  return DEFAULT_EMAIL_LOCALE;
+}
+
+/**
+ * Create EmailService from H3Event
+ * Links point at the origin of the current request
+ */
+export function createEmailService(event: H3Event): EmailService {
+  const config = useRuntimeConfig(event);
+  const provider = createEmailProvider({
+    ...config.email,
+    logBody: isDevelopment(event),
+  });
+
+  if (isProduction(event) && (provider.name === "none" || provider.name === "capture")) {
+    console.warn(
+      `[Email] Provider "${provider.name}" does not deliver emails - set NUXT_EMAIL_PROVIDER`
+    );
+  }
+
+  const appUrl = getRequestURL(event, {
+    xForwardedHost: true,
+    xForwardedProto: true,
+  }).origin;
+
+  return new EmailService(
+    provider,
+    config.email.from,
+    appUrl,
+    getRequestLocale(event),
+    new UserSettingsRepository(getDatabase(event))
+  );
+}
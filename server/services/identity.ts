@@ -1,14 +1,24 @@
 import type { H3Event } from "h3";
 import {
   UserRepository,
+  UserIdentityRepository,
   UserSettingsRepository,
   AuditLogRepository,
 } from "#server/repositories/identity";
+import { UserCredentialRepository } from "#server/repositories/passkey";
+import { UserSessionRepository } from "#server/repositories/session";
+import { EmailTokenRepository } from "#server/repositories/token";
+import { WorkspaceRepository } from "#server/repositories/workspace";
 import {
+  EMAIL_TOKEN_TTL_SECONDS,
   generateEmailConfirmToken,
   generatePasswordResetToken,
+  generateEmailChangeToken,
+  generateMagicLinkToken,
   verifyEmailConfirmToken,
   verifyPasswordResetToken,
+  verifyEmailChangeToken,
+  verifyMagicLinkToken,
 } from "#server/lib/auth";
 import { validatePasswordStrength } from "#shared/validators/password";
 import {
@@ -19,16 +29,38 @@ import {
   ValidationError,
   AccountInactiveError,
   AuthenticationError,
+  AuthorizationError,
   InternalServerError,
   PasswordSameAsOldError,
+  CurrentPasswordIncorrectError,
+  InvalidTokenError,
+  EmailNotConfirmedError,
+  AccountLockedError,
+  ConflictError,
+  InvalidStateError,
+  LastLoginMethodError,
+  NotFoundError,
 } from "#server/error/errors";
-import type { User } from "#server/database/schema/identity";
-import { getDatabase } from "#server/database/utils";
+import type {
+  EmailTokenPurpose,
+  User,
+  UserIdentity,
+  Workspace,
+} from "#server/database/schema/identity";
+import { getDatabase, getTenantId } from "#server/database/utils";
+import { buildAuditContext } from "#server/utils/audit";
+import { hashToken } from "#server/lib/crypto";
+import {
+  isEmailVerificationPolicy,
+  type EmailVerificationPolicy,
+  type OAuthProviderId,
+} from "#shared/constants/auth";
 import { isTest } from "#server/utils/environment";
 import {
   sanitizeUserForClient,
   type SafeUser,
 } from "#server/lib/sanitizeUser";
+import { type EmailService, createEmailService } from "#server/services/email";
 
 // Note: hashPassword, verifyPassword are auto-imported by nuxt-auth-utils
 
@@ -40,6 +72,76 @@ import {
 // Note: Permissions are now managed by RBACService (see services/rbac.ts)
 // ========================================
 
+/**
+ * Per-account brute-force protection for password sign-in
+ * Works without the Cloudflare rate limit bindings (03.rate-limit is per IP)
+ */
+export const LOCKOUT_CONFIG = {
+  MAX_ATTEMPTS: 5, // Consecutive failures before the first lock
+  BASE_LOCK_SECONDS: 5 * 60, // First lock, doubled for every further failure
+  MAX_LOCK_SECONDS: 24 * 60 * 60, // Longest lock
+};
+
+/**
+ * Lock duration after a number of consecutive failures (0 = not locked)
+ */
+export function getLockDurationSeconds(failedAttempts: number): number {
+  if (failedAttempts < LOCKOUT_CONFIG.MAX_ATTEMPTS) {
+    return 0;
+  }
+
+  const doublings = failedAttempts - LOCKOUT_CONFIG.MAX_ATTEMPTS;
+  return Math.min(
+    LOCKOUT_CONFIG.BASE_LOCK_SECONDS * 2 ** doublings,
+    LOCKOUT_CONFIG.MAX_LOCK_SECONDS
+  );
+}
+
+/**
+ * Whether a workspace lets its members sign in with an emailed link
+ * On unless settings.magicLink is false
+ */
+export function workspaceAllowsMagicLink(
+  workspace: Pick<Workspace, "settings">
+): boolean {
+  return workspace.settings?.magicLink !== false;
+}
+
+/**
+ * Provider account as returned by OAuth callbacks (see lib/oauth.ts OAuthProfile)
+ */
+export interface OAuthIdentityData {
+  provider: OAuthProviderId;
+  providerId: string;
+  email: string;
+  emailVerified: boolean;
+  firstName: string;
+  lastName: string;
+  picture?: string;
+}
+
+/**
+ * Linked identity as returned to clients
+ */
+export type SafeIdentity = Pick<
+  UserIdentity,
+  "id" | "provider" | "email" | "createdAt" | "lastUsedAt"
+>;
+
+function sanitizeIdentity(identity: UserIdentity): SafeIdentity {
+  const { id, provider, email, createdAt, lastUsedAt } = identity;
+  return { id, provider, email, createdAt, lastUsedAt };
+}
+
+/**
+ * Ways the current user can sign in (GET /api/v1/me/identities)
+ */
+export interface LoginMethods {
+  hasPassword: boolean;
+  identities: SafeIdentity[];
+  passkeys: number;
+}
+
 export class IdentityService {
   private readonly db: D1Database;
   private readonly userId?: string;
@@ -47,8 +149,14 @@ export class IdentityService {
   constructor(
     private readonly event: H3Event,
     private readonly userRepo: UserRepository,
+    private readonly userIdentityRepo: UserIdentityRepository,
+    private readonly userCredentialRepo: UserCredentialRepository,
     private readonly userSettingsRepo: UserSettingsRepository,
-    private readonly auditLogRepo: AuditLogRepository
+    private readonly userSessionRepo: UserSessionRepository,
+    private readonly emailTokenRepo: EmailTokenRepository,
+    private readonly workspaceRepo: WorkspaceRepository,
+    private readonly auditLogRepo: AuditLogRepository,
+    private readonly emailService: EmailService
   ) {
     // Get database from event context (set by workspace middleware)
     this.db = getDatabase(event);
@@ -75,18 +183,122 @@ export class IdentityService {
     const workspaceId = this.event.context.workspaceId || null;
 
     return this.auditLogRepo.log(workspaceId, userId, action, entityType, entityId, {
-      requestId: this.event.context.requestId,
-      endpoint: this.event.context.endpoint,
-      method: this.event.context.method,
+      ...buildAuditContext(this.event),
       statusCode: options?.statusCode || 200,
-      ipAddress: this.event.context.ipAddress,
-      userAgent: this.event.context.userAgent,
       metadata: options?.metadata,
       stateBefore: options?.stateBefore,
       stateAfter: options?.stateAfter,
     });
   }
 
+  /**
+   * Mint an email link token and record its hash
+   * Tokens are bound to the tenant (public routes have no workspace) and
+   * replace any earlier token of the same purpose
+   */
+  private async issueEmailToken(
+    user: Pick<User, "id" | "email">,
+    purpose: Exclude<EmailTokenPurpose, "email-change">
+  ): Promise<string> {
+    const generators = {
+      "email-confirm": generateEmailConfirmToken,
+      "password-reset": generatePasswordResetToken,
+      "magic-link": generateMagicLinkToken,
+    };
+    const token = await generators[purpose](
+      user.id,
+      user.email,
+      getTenantId(this.event),
+      this.event
+    );
+
+    await this.recordEmailToken(user.id, purpose, token, user.email);
+
+    return token;
+  }
+
+  /**
+   * Store the hash of an emailed token (replacing earlier ones)
+   * sentTo: the address the link goes to
+   */
+  private async recordEmailToken(
+    userId: string,
+    purpose: EmailTokenPurpose,
+    token: string,
+    sentTo: string
+  ): Promise<void> {
+    await this.emailTokenRepo.replaceForUser({
+      userId,
+      purpose,
+      tokenHash: await hashToken(token),
+      email: sentTo,
+      expiresAt: new Date(Date.now() + EMAIL_TOKEN_TTL_SECONDS[purpose] * 1000),
+    });
+  }
+
+  /**
+   * Mark an email link token as used - call once every other check passed,
+   * so a failed attempt (e.g. weak password) doesn't burn the link
+   */
+  private async consumeEmailToken(
+    token: string,
+    purpose: EmailTokenPurpose
+  ): Promise<void> {
+    const record = await this.emailTokenRepo.consume(await hashToken(token), purpose);
+    if (!record) {
+      throw new InvalidTokenError(
+        "This link has already been used or a newer one was sent",
+        { tokenPurpose: purpose }
+      );
+    }
+  }
+
+  /**
+   * Count a wrong password and lock the account once there are too many
+   * Throws AccountLockedError when this failure locked it
+   */
+  private async registerFailedLogin(user: User): Promise<void> {
+    const failedAttempts = await this.userRepo.recordFailedLogin(user.id);
+    const lockSeconds = getLockDurationSeconds(failedAttempts);
+    if (!lockSeconds) {
+      return;
+    }
+
+    const lockedUntil = new Date(Date.now() + lockSeconds * 1000);
+    await this.userRepo.lock(user.id, lockedUntil);
+
+    await this.logAudit(user.id, "ACCOUNT_LOCKED", "User", user.id, {
+      statusCode: 429,
+      metadata: { failedAttempts, lockedUntil: lockedUntil.toISOString() },
+    });
+
+    throw new AccountLockedError(undefined, lockSeconds);
+  }
+
+  /**
+   * Link a provider account to a user (one account per provider)
+   */
+  private async addIdentity(
+    userId: string,
+    data: OAuthIdentityData
+  ): Promise<UserIdentity> {
+    const identities = await this.userIdentityRepo.listForUser(userId);
+    if (identities.some((identity) => identity.provider === data.provider)) {
+      throw new ConflictError(
+        `Another ${data.provider} account is already linked to this user`,
+        { userId, provider: data.provider }
+      );
+    }
+
+    return this.userIdentityRepo.create({
+      userId,
+      provider: data.provider,
+      providerUserId: data.providerId,
+      email: data.email.toLowerCase(),
+      lastUsedAt: new Date(),
+    });
+  }
+
   // ========================================
   // AUTHENTICATION
   // ========================================
@@ -145,16 +357,9 @@ export class IdentityService {
       return { user, confirmToken: null };
     }
 
-    // Generate email confirmation token
-    // Use "global" as workspaceId since signup is workspace-agnostic
-    const confirmToken = await generateEmailConfirmToken(
-      user.id,
-      user.email,
-      "global",
-      this.event
-    );
+    const confirmToken = await this.issueEmailToken(user, "email-confirm");
 
-    // TODO: Send confirmation email (implement based on your email provider)
+    await this.emailService.sendEmailConfirmation(user, confirmToken);
 
     return { user, confirmToken };
   }
@@ -179,6 +384,14 @@ export class IdentityService {
       });
     }
 
+    // Locked after too many wrong passwords - don't even check this one
+    if (user.lockedUntil && user.lockedUntil.getTime() > Date.now()) {
+      throw new AccountLockedError(
+        undefined,
+        Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000)
+      );
+    }
+
     // Check if user has a password (OAuth-only users won't have password)
     if (!user.passwordHash || user.passwordHash === "") {
       throw new PasswordNotSetError(
@@ -186,7 +399,6 @@ export class IdentityService {
         {
           userId: user.id,
           email: email,
-          oauthProvider: user.oauthProvider,
         }
       );
     }
@@ -195,12 +407,28 @@ export class IdentityService {
     //* according to nuxt-auth-utils docs, it's (hash, password)
     const isValid = await verifyPassword(user.passwordHash, password);
     if (!isValid) {
+      await this.registerFailedLogin(user);
       throw new InvalidCredentialsError(undefined, {
         userId: user.id,
         email: email,
       });
     }
 
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await this.userRepo.clearFailedLogins(user.id);
+    }
+
+    // Email verification policy "block" (restrict is applied to the session)
+    if (
+      !user.isEmailVerified &&
+      (await this.resolveEmailVerificationPolicy(user.id)) === "block"
+    ) {
+      throw new EmailNotConfirmedError(undefined, {
+        userId: user.id,
+        email: user.email,
+      });
+    }
+
     // Log the signin
     await this.logAudit(user.id, "USER_SIGNED_IN", "User", user.id);
 
@@ -209,24 +437,118 @@ export class IdentityService {
     };
   }
 
+  // ========================================
+  // MAGIC LINK
+  // ========================================
+  // Passwordless sign-in with a single-use, 15-minute emailed link
+  // Off for members of a workspace with settings.magicLink = false
+  // ========================================
+
+  /**
+   * Whether a user may sign in with a magic link
+   * Any of their active workspaces can turn it off (like requireMfa)
+   */
+  async isMagicLinkAllowed(userId: string): Promise<boolean> {
+    const memberships = await this.workspaceRepo.listForUser(userId);
+    return memberships.every(
+      ({ workspace }) => !workspace.isActive || workspaceAllowsMagicLink(workspace)
+    );
+  }
+
+  /**
+   * Email a sign-in link (earlier links stop working)
+   * Silent for unknown or inactive accounts and where it is turned off,
+   * so the response doesn't reveal whether the address exists
+   */
+  async requestMagicLink(email: string, redirectTo?: string): Promise<void> {
+    const user = await this.userRepo.findByEmail(email);
+    if (!user || !user.isActive || !(await this.isMagicLinkAllowed(user.id))) {
+      return;
+    }
+
+    const token = await this.issueEmailToken(user, "magic-link");
+
+    await this.logAudit(user.id, "MAGIC_LINK_REQUESTED", "User", user.id);
+
+    await this.emailService.sendMagicLink(user, token, redirectTo);
+  }
+
+  /**
+   * Sign in with a magic link
+   * Opening the link proves the address, so it also counts as confirmed
+   * The caller continues like a password sign-in (2FA, then the session)
+   */
+  async signInWithMagicLink(token: string) {
+    const { userId, email } = await verifyMagicLinkToken(
+      token,
+      getTenantId(this.event),
+      this.event
+    );
+
+    // Void once the address changed in the meantime
+    const user = await this.userRepo.findById(userId);
+    if (!user || user.email !== email) {
+      throw new InvalidTokenError("Invalid sign-in link", { userId });
+    }
+
+    if (!user.isActive) {
+      throw new AccountInactiveError(undefined, {
+        userId: user.id,
+        email: user.email,
+      });
+    }
+
+    // A workspace may have turned it off since the link was sent
+    if (!(await this.isMagicLinkAllowed(user.id))) {
+      throw new AuthorizationError("Magic link sign-in is turned off for your workspace", {
+        userId: user.id,
+      });
+    }
+
+    await this.consumeEmailToken(token, "magic-link");
+
+    const updatedUser = await this.userRepo.update(user.id, {
+      isEmailVerified: true,
+      lastLoginAt: new Date(),
+      lastLoginMethod: "magic-link",
+    });
+    if (!updatedUser) {
+      throw new InternalServerError("Failed to update user login info");
+    }
+
+    await this.logAudit(user.id, "USER_SIGNED_IN", "User", user.id, {
+      metadata: { method: "magic-link" },
+    });
+
+    return {
+      user: sanitizeUserForClient(updatedUser),
+    };
+  }
+
   /**
    * Find or create user from OAuth provider
    */
-  async findOrCreateOAuthUser(data: {
-    provider: "google";
-    providerId: string;
-    email: string;
-    emailVerified: boolean;
-    firstName: string;
-    lastName: string;
-    picture?: string;
-  }) {
+  async findOrCreateOAuthUser(data: OAuthIdentityData) {
     const { provider, providerId, email, emailVerified, firstName, lastName, picture } = data;
 
-    // Step 1: Try to find existing OAuth user
-    let user = await this.userRepo.findByOAuth(provider, providerId);
+    // Step 1: Provider account already linked - sign in as its user
+    const identity = await this.userIdentityRepo.findByProvider(provider, providerId);
+
+    if (identity) {
+      const user = await this.userRepo.findById(identity.userId);
+      if (!user) {
+        throw new UserNotFoundError(undefined, { userId: identity.userId });
+      }
+
+      if (!user.isActive) {
+        throw new AccountInactiveError(undefined, {
+          userId: user.id,
+          email: user.email,
+        });
+      }
+
+      await this.userIdentityRepo.recordUse(identity.id);
 
-    if (user) {
       // Update login info
       const updatedUser = await this.userRepo.update(user.id, {
         picture: picture || user.picture,
@@ -242,9 +564,16 @@ export class IdentityService {
     }
 
     // Step 2: Check if email already exists (account linking)
-    user = await this.userRepo.findByEmail(email);
+    const user = await this.userRepo.findByEmail(email);
 
     if (user) {
+      if (!user.isActive) {
+        throw new AccountInactiveError(undefined, {
+          userId: user.id,
+          email: user.email,
+        });
+      }
+
       // Auto-link ONLY if OAuth email is verified
       if (!emailVerified) {
         throw new ValidationError(
@@ -253,18 +582,9 @@ export class IdentityService {
         );
       }
 
-      // Check if already linked to different provider
-      if (user.oauthProvider && user.oauthProvider !== provider) {
-        throw new ValidationError(
-          `This email is already linked to ${user.oauthProvider}. Please sign in with that provider.`,
-          { email, existingProvider: user.oauthProvider, attemptedProvider: provider }
-        );
-      }
+      await this.addIdentity(user.id, data);
 
-      // Link OAuth to existing account
       const linkedUser = await this.userRepo.update(user.id, {
-        oauthProvider: provider,
-        oauthProviderId: providerId,
         picture: picture || user.picture,
         isEmailVerified: true,
         lastLoginAt: new Date(),
@@ -285,12 +605,10 @@ export class IdentityService {
     // Step 3: Create new OAuth-only user
     const newUser = await this.userRepo.create({
       email: email.toLowerCase(),
-      passwordHash: "", // Empty for OAuth-only accounts
+      passwordHash: "", // Empty until the user sets one (POST /api/v1/me/password)
       firstName,
       lastName,
       picture,
-      oauthProvider: provider,
-      oauthProviderId: providerId,
       isEmailVerified: emailVerified,
       role: "user",
       isActive: true,
@@ -298,6 +616,8 @@ export class IdentityService {
       lastLoginMethod: provider,
     });
 
+    await this.addIdentity(newUser.id, data);
+
     await this.logAudit(newUser.id, "USER_OAUTH_SIGNUP", "User", newUser.id, {
       statusCode: 201,
       metadata: { email: newUser.email, provider, emailVerified },
@@ -310,14 +630,9 @@ export class IdentityService {
    * Confirm email address
    */
   async confirmEmail(token: string) {
-    const workspaceId = this.event.context.workspaceId;
-    if (!workspaceId) {
-      throw new InternalServerError("Workspace context not available");
-    }
-
     const { userId, email } = await verifyEmailConfirmToken(
       token,
-      workspaceId,
+      getTenantId(this.event),
       this.event
     );
 
@@ -329,6 +644,8 @@ export class IdentityService {
       });
     }
 
+    await this.consumeEmailToken(token, "email-confirm");
+
     const updatedUser = await this.userRepo.confirmEmail(userId);
     if (!updatedUser) {
       throw new UserNotFoundError(undefined, {
@@ -342,6 +659,23 @@ export class IdentityService {
     return updatedUser;
   }
 
+  /**
+   * Send a fresh confirmation link (earlier links stop working)
+   * Silent for unknown, inactive or already confirmed addresses
+   */
+  async resendEmailConfirmation(email: string): Promise<void> {
+    const user = await this.userRepo.findByEmail(email);
+    if (!user || !user.isActive || user.isEmailVerified) {
+      return;
+    }
+
+    const confirmToken = await this.issueEmailToken(user, "email-confirm");
+
+    await this.logAudit(user.id, "EMAIL_CONFIRMATION_RESENT", "User", user.id);
+
+    await this.emailService.sendEmailConfirmation(user, confirmToken);
+  }
+
   /**
    * Request password reset
    */
@@ -352,24 +686,14 @@ export class IdentityService {
       return { resetToken: null };
     }
 
-    const workspaceId = this.event.context.workspaceId;
-    if (!workspaceId) {
-      throw new InternalServerError("Workspace context not available");
-    }
-
-    const resetToken = await generatePasswordResetToken(
-      user.id,
-      user.email,
-      workspaceId,
-      this.event
-    );
+    const resetToken = await this.issueEmailToken(user, "password-reset");
 
     // Log password reset request
     await this.logAudit(user.id, "PASSWORD_RESET_REQUESTED", "User", user.id, {
       metadata: { email },
     });
 
-    // TODO: Send password reset email
+    await this.emailService.sendPasswordReset(user, resetToken);
 
     return { resetToken };
   }
@@ -378,14 +702,9 @@ export class IdentityService {
    * Reset password with token
    */
   async resetPassword(token: string, newPassword: string) {
-    const workspaceId = this.event.context.workspaceId;
-    if (!workspaceId) {
-      throw new InternalServerError("Workspace context not available");
-    }
-
     const { userId, email } = await verifyPasswordResetToken(
       token,
-      workspaceId,
+      getTenantId(this.event),
       this.event
     );
 
@@ -412,6 +731,8 @@ export class IdentityService {
       });
     }
 
+    await this.consumeEmailToken(token, "password-reset");
+
     // Hash new password
     const passwordHash = await hashPassword(newPassword);
 
@@ -424,12 +745,374 @@ export class IdentityService {
       throw new UserNotFoundError();
     }
 
+    // Whoever knew the old password is signed out everywhere, and a lock
+    // from their guesses no longer applies
+    const revokedSessions = await this.userSessionRepo.revokeAllForUser(userId);
+    await this.userRepo.clearFailedLogins(userId);
+
     // Log password reset
-    await this.logAudit(userId, "PASSWORD_RESET", "User", userId);
+    await this.logAudit(userId, "PASSWORD_RESET", "User", userId, {
+      metadata: { revokedSessions },
+    });
+
+    await this.emailService.sendSecurityNotice(updatedUser, "passwordReset", {
+      ipAddress: this.event.context.ipAddress,
+    });
 
     return updatedUser;
   }
 
+  // ========================================
+  // LOGIN METHODS
+  // ========================================
+  // Password, linked OAuth identities and passkeys
+  // The last remaining one can't be removed
+  // ========================================
+
+  /**
+   * Number of ways a user can sign in
+   */
+  async countLoginMethods(userId: string): Promise<number> {
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new UserNotFoundError(undefined, { userId });
+    }
+
+    const [identities, passkeys] = await Promise.all([
+      this.userIdentityRepo.countForUser(userId),
+      this.userCredentialRepo.countForUser(userId),
+    ]);
+
+    return (user.passwordHash ? 1 : 0) + identities + passkeys;
+  }
+
+  /**
+   * Current user's password, linked identities and passkey count
+   */
+  async getLoginMethods(): Promise<LoginMethods> {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+
+    const user = await this.userRepo.findById(this.userId);
+    if (!user) {
+      throw new UserNotFoundError();
+    }
+
+    const [identities, passkeys] = await Promise.all([
+      this.userIdentityRepo.listForUser(user.id),
+      this.userCredentialRepo.countForUser(user.id),
+    ]);
+
+    return {
+      hasPassword: !!user.passwordHash,
+      identities: identities.map(sanitizeIdentity),
+      passkeys,
+    };
+  }
+
+  /**
+   * Link a provider account to a signed-in user
+   * Called from the OAuth callback when the state carries linkUserId
+   */
+  async linkIdentity(userId: string, data: OAuthIdentityData): Promise<SafeIdentity> {
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new UserNotFoundError(undefined, { userId });
+    }
+
+    const existing = await this.userIdentityRepo.findByProvider(
+      data.provider,
+      data.providerId
+    );
+    if (existing) {
+      if (existing.userId === userId) {
+        return sanitizeIdentity(existing);
+      }
+      throw new ConflictError(
+        `This ${data.provider} account is already linked to another user`,
+        { provider: data.provider }
+      );
+    }
+
+    const identity = await this.addIdentity(userId, data);
+
+    await this.logAudit(userId, "IDENTITY_LINKED", "User", userId, {
+      metadata: { identityId: identity.id, provider: data.provider, email: data.email },
+    });
+
+    await this.emailService.sendSecurityNotice(user, "identityLinked", {
+      ipAddress: this.event.context.ipAddress,
+    });
+
+    return sanitizeIdentity(identity);
+  }
+
+  /**
+   * Unlink one of the current user's identities
+   * Refused when it is the only way left to sign in
+   */
+  async unlinkIdentity(id: string): Promise<void> {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+    const userId = this.userId;
+
+    const identity = await this.userIdentityRepo.findForUser(id, userId);
+    if (!identity) {
+      throw new NotFoundError("Linked account not found", { identityId: id });
+    }
+
+    if ((await this.countLoginMethods(userId)) <= 1) {
+      throw new LastLoginMethodError(undefined, {
+        identityId: id,
+        provider: identity.provider,
+      });
+    }
+
+    await this.userIdentityRepo.deleteForUser(id, userId);
+
+    await this.logAudit(userId, "IDENTITY_UNLINKED", "User", userId, {
+      metadata: { identityId: id, provider: identity.provider },
+    });
+
+    const user = await this.userRepo.findById(userId);
+    if (user) {
+      await this.emailService.sendSecurityNotice(user, "identityUnlinked", {
+        ipAddress: this.event.context.ipAddress,
+      });
+    }
+  }
+
+  /**
+   * Set a password for an account created through OAuth (empty passwordHash)
+   * Changing an existing password goes through changePassword
+   */
+  async setPassword(newPassword: string): Promise<SafeUser> {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+
+    const user = await this.userRepo.findById(this.userId);
+    if (!user) {
+      throw new UserNotFoundError();
+    }
+
+    if (user.passwordHash) {
+      throw new InvalidStateError("A password is already set for this account", {
+        userId: user.id,
+      });
+    }
+
+    const { valid, errors } = validatePasswordStrength(newPassword);
+    if (!valid) {
+      throw new ValidationError(errors.join(", "), { field: "newPassword" });
+    }
+
+    const updatedUser = await this.userRepo.updatePassword(
+      user.id,
+      await hashPassword(newPassword)
+    );
+    if (!updatedUser) {
+      throw new UserNotFoundError();
+    }
+
+    await this.logAudit(user.id, "PASSWORD_SET", "User", user.id);
+
+    await this.emailService.sendSecurityNotice(updatedUser, "passwordSet", {
+      ipAddress: this.event.context.ipAddress,
+    });
+
+    return sanitizeUserForClient(updatedUser);
+  }
+
+  // ========================================
+  // PASSWORD & EMAIL CHANGE
+  // ========================================
+  // Signed-in changes that re-check the current password
+  // A new email only takes effect once confirmed from that inbox
+  // ========================================
+
+  /**
+   * Change the current user's password
+   * Other devices are signed out; currentSessionId stays signed in
+   */
+  async changePassword(
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId?: string
+  ): Promise<SafeUser> {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+
+    const user = await this.userRepo.findById(this.userId);
+    if (!user) {
+      throw new UserNotFoundError();
+    }
+
+    // OAuth-only accounts set their first password with setPassword
+    if (!user.passwordHash) {
+      throw new PasswordNotSetError(undefined, { userId: user.id });
+    }
+
+    await this.verifyCurrentPassword(user, currentPassword);
+
+    const { valid, errors } = validatePasswordStrength(newPassword);
+    if (!valid) {
+      throw new ValidationError(errors.join(", "), { field: "newPassword" });
+    }
+
+    if (await verifyPassword(user.passwordHash, newPassword)) {
+      throw new PasswordSameAsOldError(undefined, {
+        field: "newPassword",
+        userId: user.id,
+      });
+    }
+
+    const updatedUser = await this.userRepo.updatePassword(
+      user.id,
+      await hashPassword(newPassword)
+    );
+    if (!updatedUser) {
+      throw new UserNotFoundError();
+    }
+
+    const revokedSessions = await this.userSessionRepo.revokeAllForUser(
+      user.id,
+      currentSessionId
+    );
+
+    await this.logAudit(user.id, "PASSWORD_CHANGED", "User", user.id, {
+      metadata: { revokedSessions },
+    });
+
+    await this.emailService.sendSecurityNotice(updatedUser, "passwordChanged", {
+      ipAddress: this.event.context.ipAddress,
+    });
+
+    return sanitizeUserForClient(updatedUser);
+  }
+
+  /**
+   * Start changing the current user's email address
+   * The confirmation link goes to the new address, a notice to the old one;
+   * nothing changes until the link is used (confirmEmailChange)
+   * currentPassword is required when the account has a password
+   */
+  async requestEmailChange(
+    newEmail: string,
+    currentPassword?: string
+  ): Promise<void> {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+
+    const user = await this.userRepo.findById(this.userId);
+    if (!user) {
+      throw new UserNotFoundError();
+    }
+
+    const normalizedEmail = newEmail.trim().toLowerCase();
+    if (normalizedEmail === user.email) {
+      throw new ValidationError("New email must differ from the current one", {
+        field: "newEmail",
+      });
+    }
+
+    if (user.passwordHash) {
+      await this.verifyCurrentPassword(user, currentPassword);
+    }
+
+    if (await this.userRepo.findByEmail(normalizedEmail)) {
+      throw new EmailAlreadyExistsError(undefined, { field: "newEmail" });
+    }
+
+    const token = await generateEmailChangeToken(
+      user.id,
+      user.email,
+      normalizedEmail,
+      getTenantId(this.event),
+      this.event
+    );
+    await this.recordEmailToken(user.id, "email-change", token, normalizedEmail);
+
+    await this.emailService.sendEmailChangeConfirmation(user, normalizedEmail, token);
+    await this.emailService.sendSecurityNotice(user, "emailChangeRequested", {
+      ipAddress: this.event.context.ipAddress,
+    });
+
+    await this.logAudit(user.id, "EMAIL_CHANGE_REQUESTED", "User", user.id, {
+      metadata: { newEmail: normalizedEmail },
+    });
+  }
+
+  /**
+   * Swap in the new email address with the link sent to it
+   * Public (the link may be opened in another browser); the new address
+   * counts as verified since the link reached it
+   */
+  async confirmEmailChange(token: string): Promise<SafeUser> {
+    const { userId, email, newEmail } = await verifyEmailChangeToken(
+      token,
+      getTenantId(this.event),
+      this.event
+    );
+
+    // Void once the address changed in the meantime
+    const user = await this.userRepo.findById(userId);
+    if (!user || user.email !== email) {
+      throw new ValidationError("Invalid confirmation token", {
+        userId,
+        email,
+      });
+    }
+
+    // Taken by a signup since the request
+    if (await this.userRepo.findByEmail(newEmail)) {
+      throw new EmailAlreadyExistsError(undefined, { field: "newEmail" });
+    }
+
+    await this.consumeEmailToken(token, "email-change");
+
+    const updatedUser = await this.userRepo.updateEmail(userId, newEmail);
+    if (!updatedUser) {
+      throw new UserNotFoundError(undefined, { userId });
+    }
+
+    await this.logAudit(userId, "EMAIL_CHANGED", "User", userId, {
+      stateBefore: { email: user.email },
+      stateAfter: { email: updatedUser.email },
+    });
+
+    // To the old address - the new one just confirmed the change
+    await this.emailService.sendSecurityNotice(user, "emailChanged", {
+      ipAddress: this.event.context.ipAddress,
+    });
+
+    return sanitizeUserForClient(updatedUser);
+  }
+
+  /**
+   * Re-authenticate a signed-in user for a sensitive change
+   */
+  private async verifyCurrentPassword(
+    user: User,
+    currentPassword: string | undefined
+  ): Promise<void> {
+    const isValid =
+      !!user.passwordHash &&
+      !!currentPassword &&
+      (await verifyPassword(user.passwordHash, currentPassword));
+
+    if (!isValid) {
+      throw new CurrentPasswordIncorrectError(undefined, {
+        field: "currentPassword",
+        userId: user.id,
+      });
+    }
+  }
+
   // ========================================
   // USER MANAGEMENT
   // ========================================
@@ -478,6 +1161,11 @@ export class IdentityService {
       throw new UserNotFoundError();
     }
 
+    // Deactivated accounts are signed out on every device
+    if (updateData.isActive === false) {
+      await this.userSessionRepo.revokeAllForUser(userId);
+    }
+
     // Log the update
     await this.logAudit(this.userId, "USER_UPDATED", "User", userId, {
       metadata: { updates: updateData },
@@ -486,6 +1174,35 @@ export class IdentityService {
     return sanitizeUserForClient(user);
   }
 
+  /**
+   * Lift a brute-force lock (admin)
+   */
+  async unlockUser(userId: string): Promise<SafeUser> {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new UserNotFoundError(undefined, { userId });
+    }
+
+    await this.userRepo.clearFailedLogins(userId);
+
+    await this.logAudit(this.userId, "ACCOUNT_UNLOCKED", "User", userId, {
+      metadata: {
+        failedAttempts: user.failedLoginAttempts,
+        lockedUntil: user.lockedUntil?.toISOString() ?? null,
+      },
+    });
+
+    return sanitizeUserForClient({
+      ...user,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    });
+  }
+
   /**
    * List users with pagination, filtering, and sorting
    */
@@ -520,8 +1237,12 @@ export class IdentityService {
   /**
    * Get user permissions from RBAC system
    * Delegates to RBACService for permission resolution
+   * Scoped to the request's workspace unless workspaceId is given
    */
-  async getUserPermissions(userId: string): Promise<string[]> {
+  async getUserPermissions(
+    userId: string,
+    workspaceId: string | undefined = this.event.context.workspaceId
+  ): Promise<string[]> {
     // Import here to avoid circular dependency
     const { getRBACService } = await import("./rbac");
     const rbacService = getRBACService(this.event);
@@ -531,14 +1252,17 @@ export class IdentityService {
       return [];
     }
 
-    return rbacService.getUserPermissions(userId);
+    return rbacService.getUserPermissions(userId, workspaceId);
   }
 
   /**
    * Get permission version for cache invalidation
-   * Returns a timestamp representing when user's permissions last changed
+   * Persisted per user and per workspace member (see RBACService)
    */
-  async getPermissionVersion(userId: string): Promise<number> {
+  async getPermissionVersion(
+    userId: string,
+    workspaceId: string | undefined = this.event.context.workspaceId
+  ): Promise<number> {
     // Import here to avoid circular dependency
     const { getRBACService } = await import("./rbac");
     const rbacService = getRBACService(this.event);
@@ -548,9 +1272,59 @@ export class IdentityService {
       return 0;
     }
 
-    // For now, return current timestamp
-    // TODO: Implement actual version tracking in database
-    return Date.now();
+    return (await rbacService.getPermissionVersion(userId, workspaceId)) ?? 0;
+  }
+
+  // ========================================
+  // EMAIL VERIFICATION POLICY
+  // ========================================
+
+  /**
+   * Policy for unconfirmed email addresses in a workspace
+   * The workspace's settings.emailVerification wins over
+   * runtimeConfig.emailVerification.policy. Without a workspace (sign-in),
+   * the one the user lands in is used (see WorkspaceService.getDefaultWorkspaceId)
+   */
+  private async resolveEmailVerificationPolicy(
+    userId: string,
+    workspaceId: string | undefined = this.event.context.workspaceId
+  ): Promise<EmailVerificationPolicy> {
+    const workspace = workspaceId
+      ? await this.workspaceRepo.findById(workspaceId)
+      : (await this.workspaceRepo.listForUser(userId)).find(
+          ({ workspace }) => workspace.isActive
+        )?.workspace;
+
+    const override = workspace?.settings?.emailVerification;
+    if (isEmailVerificationPolicy(override)) {
+      return override;
+    }
+
+    const policy = useRuntimeConfig(this.event).emailVerification?.policy;
+    return isEmailVerificationPolicy(policy) ? policy : "off";
+  }
+
+  /**
+   * Whether a user's email is confirmed, and the policy that applies until it is
+   * (always "off" once confirmed)
+   */
+  async getEmailVerificationStatus(
+    userId: string,
+    workspaceId: string | undefined = this.event.context.workspaceId
+  ): Promise<{ isEmailVerified: boolean; policy: EmailVerificationPolicy }> {
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new UserNotFoundError(undefined, { userId });
+    }
+
+    if (user.isEmailVerified) {
+      return { isEmailVerified: true, policy: "off" };
+    }
+
+    return {
+      isEmailVerified: false,
+      policy: await this.resolveEmailVerificationPolicy(userId, workspaceId),
+    };
   }
 
   // ========================================
@@ -601,7 +1375,13 @@ export function createIdentityService(event: H3Event): IdentityService {
   return new IdentityService(
     event,
     new UserRepository(db),
+    new UserIdentityRepository(db),
+    new UserCredentialRepository(db),
     new UserSettingsRepository(db),
-    new AuditLogRepository(db)
+    new UserSessionRepository(db),
+    new EmailTokenRepository(db),
+    new WorkspaceRepository(db),
+    new AuditLogRepository(db),
+    createEmailService(event)
   );
 }
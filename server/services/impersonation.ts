@@ -0,0 +1,206 @@
+import type { H3Event } from "h3";
+import {
+  UserRepository,
+  AuditLogRepository,
+} from "#server/repositories/identity";
+import { WorkspaceMemberRepository } from "#server/repositories/workspace";
+import {
+  AuthenticationError,
+  AuthorizationError,
+  BusinessRuleError,
+  UserNotFoundError,
+} from "#server/error/errors";
+import { getDatabase } from "#server/database/utils";
+import { buildAuditContext } from "#server/utils/audit";
+import { hasPermission } from "#server/config/rbac";
+import {
+  type SafeUser,
+  sanitizeUserForClient,
+} from "#server/lib/sanitizeUser";
+import { type RBACService, getRBACService } from "#server/services/rbac";
+
+// ========================================
+// IMPERSONATION SERVICE
+// ========================================
+// Lets support staff (users:impersonate) act as a member of their workspace
+// The session keeps the admin's user_sessions row and records who started
+// it; 02.auth sets event.context.impersonatorId, which every audit entry
+// carries in metadata. Credential changes are refused meanwhile
+// (noImpersonation routes in server/config/routes.ts)
+// ========================================
+
+export const IMPERSONATION_CONFIG = {
+  MAX_DURATION: 60 * 60 * 1000, // Back to the admin's own session after 1 hour
+};
+
+export class ImpersonationService {
+  private readonly userId?: string;
+  private readonly workspaceId?: string;
+
+  constructor(
+    private readonly event: H3Event,
+    private readonly userRepo: UserRepository,
+    private readonly workspaceMemberRepo: WorkspaceMemberRepository,
+    private readonly auditLogRepo: AuditLogRepository,
+    private readonly rbacService: RBACService
+  ) {
+    this.userId = event.context.userId;
+    this.workspaceId = event.context.workspaceId;
+  }
+
+  /**
+   * Helper to log audit events with request context
+   * Logged as the admin, about the impersonated user
+   */
+  private async logAudit(
+    adminId: string,
+    action: string,
+    targetUserId: string,
+    metadata?: Record<string, any>
+  ) {
+    return this.auditLogRepo.log(
+      this.workspaceId || null,
+      adminId,
+      action,
+      "User",
+      targetUserId,
+      {
+        ...buildAuditContext(this.event),
+        statusCode: 200,
+        metadata,
+      }
+    );
+  }
+
+  /**
+   * Get the authenticated user ID or throw
+   */
+  private requireUserId(): string {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+    return this.userId;
+  }
+
+  /**
+   * Check that the current user may act as another user
+   * The target must be an active member of the current workspace and hold
+   * no permission the admin lacks (no escalation through impersonation)
+   * Returns the user to act as; the caller swaps the session and then
+   * records it with recordImpersonationStarted
+   */
+  async startImpersonation(targetUserId: string): Promise<SafeUser> {
+    const adminId = this.requireUserId();
+
+    if (this.event.context.impersonatorId) {
+      throw new BusinessRuleError("Stop impersonating before switching users");
+    }
+
+    if (targetUserId === adminId) {
+      throw new BusinessRuleError("You can't impersonate yourself");
+    }
+
+    const target = await this.userRepo.findById(targetUserId);
+    if (!target || !target.isActive) {
+      throw new UserNotFoundError(undefined, { userId: targetUserId });
+    }
+
+    if (this.workspaceId) {
+      const membership = await this.workspaceMemberRepo.findMembership(
+        this.workspaceId,
+        target.id
+      );
+      if (!membership) {
+        throw new UserNotFoundError("User is not a member of this workspace");
+      }
+    }
+
+    if (this.rbacService.isEnabled()) {
+      const adminPermissions = await this.rbacService.getUserPermissions(adminId);
+      const targetPermissions = await this.rbacService.getUserPermissions(target.id);
+      const covered = targetPermissions.every((permission) =>
+        hasPermission(adminPermissions, permission)
+      );
+
+      if (!covered) {
+        throw new AuthorizationError(
+          "You cannot impersonate users with more permissions than your own",
+          { userId: target.id }
+        );
+      }
+    }
+
+    return sanitizeUserForClient(target);
+  }
+
+  /**
+   * Audit an impersonation once the session acts as the user
+   */
+  async recordImpersonationStarted(target: SafeUser): Promise<void> {
+    const adminId = this.requireUserId();
+
+    await this.logAudit(adminId, "IMPERSONATION_STARTED", target.id, {
+      email: target.email,
+    });
+  }
+
+  /**
+   * End the current impersonation
+   * Returns the admin to restore the session of
+   */
+  async stopImpersonation(): Promise<SafeUser> {
+    const targetUserId = this.requireUserId();
+    const adminId = this.event.context.impersonatorId;
+
+    if (!adminId) {
+      throw new BusinessRuleError("You are not impersonating a user");
+    }
+
+    const admin = await this.userRepo.findById(adminId);
+    if (!admin || !admin.isActive) {
+      throw new UserNotFoundError(undefined, { userId: adminId });
+    }
+
+    await this.logAudit(adminId, "IMPERSONATION_STOPPED", targetUserId);
+
+    return sanitizeUserForClient(admin);
+  }
+
+  /**
+   * Whether an impersonation stored in the session may go on: it hasn't
+   * run for longer than MAX_DURATION and the admin still holds
+   * users:impersonate in the current workspace
+   */
+  async isImpersonationAllowed(impersonation: {
+    impersonatorId: string;
+    startedAt: number;
+  }): Promise<boolean> {
+    if (Date.now() - impersonation.startedAt > IMPERSONATION_CONFIG.MAX_DURATION) {
+      return false;
+    }
+
+    return this.rbacService.userHasPermission(
+      impersonation.impersonatorId,
+      "users:impersonate"
+    );
+  }
+}
+
+// ========================================
+// FACTORY FUNCTION
+// ========================================
+
+/**
+ * Create ImpersonationService from H3Event
+ */
+export function createImpersonationService(event: H3Event): ImpersonationService {
+  const db = getDatabase(event);
+
+  return new ImpersonationService(
+    event,
+    new UserRepository(db),
+    new WorkspaceMemberRepository(db),
+    new AuditLogRepository(db),
+    getRBACService(event)
+  );
+}
@@ -6,3 +6,11 @@
 
 export * from "./identity";
 export * from "./rbac";
+export * from "./workspace";
+export * from "./role";
+export * from "./mfa";
+export * from "./passkey";
+export * from "./session";
+export * from "./apiKey";
+export * from "./impersonation";
+export * from "./account";
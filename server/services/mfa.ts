@@ -0,0 +1,535 @@
+import type { H3Event } from "h3";
+import {
+  UserRepository,
+  AuditLogRepository,
+} from "#server/repositories/identity";
+import { WorkspaceRepository } from "#server/repositories/workspace";
+import {
+  UserMfaRepository,
+  MfaRecoveryCodeRepository,
+} from "#server/repositories/mfa";
+import { UserCredentialRepository } from "#server/repositories/passkey";
+import {
+  AccountInactiveError,
+  AccountLockedError,
+  AuthenticationError,
+  ConflictError,
+  InvalidMfaCodeError,
+  InvalidStateError,
+  MfaEnrollmentRequiredError,
+  UserNotFoundError,
+} from "#server/error/errors";
+import {
+  generateMfaPendingToken,
+  verifyMfaPendingToken,
+} from "#server/lib/auth";
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  renderQrCodeSvg,
+  verifyTotp,
+} from "#server/lib/totp";
+import type { User, Workspace } from "#server/database/schema/identity";
+import { getDatabase } from "#server/database/utils";
+import { buildAuditContext } from "#server/utils/audit";
+import { getLockDurationSeconds } from "#server/services/identity";
+import {
+  sanitizeUserForClient,
+  type SafeUser,
+} from "#server/lib/sanitizeUser";
+
+// ========================================
+// MFA SERVICE
+// ========================================
+// Optional TOTP two-factor authentication with one-time recovery codes
+// Enrollment: setup (pending secret + QR) -> activate (first valid code)
+// Sign-in: password OK -> short-lived mfa-pending token -> code/recovery code
+// (or a passkey, see PasskeyService - any registered passkey is a second factor)
+// Workspaces can require 2FA for members via settings.requireMfa
+// ========================================
+
+/**
+ * Whether a workspace requires its members to use 2FA
+ */
+export function workspaceRequiresMfa(
+  workspace: Pick<Workspace, "settings">
+): boolean {
+  return workspace.settings?.requireMfa === true;
+}
+
+export type MfaMethod = "totp" | "passkey";
+
+export interface MfaStatus {
+  enabled: boolean; // TOTP authenticator
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  passkeys: number;
+  required: boolean; // A workspace the user belongs to requires 2FA
+}
+
+export interface TotpEnrollment {
+  secret: string; // For manual entry
+  otpauthUri: string;
+  qrCodeSvg: string;
+}
+
+export interface MfaSignInChallenge {
+  mfaToken: string;
+  methods: MfaMethod[];
+  enrollmentRequired: boolean; // No authenticator yet, but a workspace requires one
+}
+
+export type MfaCredentials = { code?: string; recoveryCode?: string };
+
+export class MfaService {
+  private readonly userId?: string;
+
+  constructor(
+    private readonly event: H3Event,
+    private readonly userRepo: UserRepository,
+    private readonly userMfaRepo: UserMfaRepository,
+    private readonly mfaRecoveryCodeRepo: MfaRecoveryCodeRepository,
+    private readonly workspaceRepo: WorkspaceRepository,
+    private readonly userCredentialRepo: UserCredentialRepository,
+    private readonly auditLogRepo: AuditLogRepository
+  ) {
+    this.userId = event.context.userId;
+  }
+
+  /**
+   * Helper to log audit events with request context
+   * MFA is per user, so events are logged against the session workspace (if any)
+   */
+  private async logAudit(
+    userId: string,
+    action: string,
+    options?: {
+      statusCode?: number;
+      metadata?: Record<string, any>;
+    }
+  ) {
+    return this.auditLogRepo.log(
+      this.event.context.workspaceId || null,
+      userId,
+      action,
+      "User",
+      userId,
+      {
+        ...buildAuditContext(this.event),
+        statusCode: options?.statusCode || 200,
+        metadata: options?.metadata,
+      }
+    );
+  }
+
+  /**
+   * Get the authenticated user ID or throw
+   */
+  private requireUserId(): string {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+    return this.userId;
+  }
+
+  /**
+   * Load an active user (pending-token flows run before a session exists)
+   */
+  private async requireActiveUser(userId: string): Promise<User> {
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new UserNotFoundError(undefined, { userId });
+    }
+    if (!user.isActive) {
+      throw new AccountInactiveError(undefined, { userId });
+    }
+    return user;
+  }
+
+  /**
+   * Refuse second-factor attempts while the account is locked
+   * Shares the password lockout (users.lockedUntil, see IdentityService)
+   */
+  private async assertNotLocked(userId: string): Promise<void> {
+    const user = await this.userRepo.findById(userId);
+
+    if (user?.lockedUntil && user.lockedUntil.getTime() > Date.now()) {
+      throw new AccountLockedError(
+        undefined,
+        Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000)
+      );
+    }
+  }
+
+  /**
+   * Count a wrong code and lock the account once there are too many
+   * The counter survives password sign-ins, so a new pending token does not
+   * reset it. Throws AccountLockedError when this failure locked it
+   */
+  private async registerFailedAttempt(userId: string): Promise<void> {
+    const failedAttempts = await this.userMfaRepo.recordFailedAttempt(userId);
+    const lockSeconds = getLockDurationSeconds(failedAttempts);
+    if (!lockSeconds) {
+      return;
+    }
+
+    const lockedUntil = new Date(Date.now() + lockSeconds * 1000);
+    await this.userRepo.lock(userId, lockedUntil);
+
+    await this.logAudit(userId, "ACCOUNT_LOCKED", {
+      statusCode: 429,
+      metadata: {
+        factor: "mfa",
+        failedAttempts,
+        lockedUntil: lockedUntil.toISOString(),
+      },
+    });
+
+    throw new AccountLockedError(undefined, lockSeconds);
+  }
+
+  /**
+   * Generate, store (hashed) and return a fresh set of recovery codes
+   */
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    const hashes = await Promise.all(recoveryCodes.map(hashRecoveryCode));
+    await this.mfaRecoveryCodeRepo.replaceForUser(userId, hashes);
+    return recoveryCodes;
+  }
+
+  // ========================================
+  // STATUS
+  // ========================================
+
+  /**
+   * Whether the user has an enabled authenticator
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const mfa = await this.userMfaRepo.findByUserId(userId);
+    return !!mfa?.totpEnabledAt;
+  }
+
+  /**
+   * Second factors the user can sign in with
+   */
+  async getMethods(userId: string): Promise<MfaMethod[]> {
+    const [totpEnabled, passkeys] = await Promise.all([
+      this.isEnabled(userId),
+      this.userCredentialRepo.countForUser(userId),
+    ]);
+
+    const methods: MfaMethod[] = [];
+    if (totpEnabled) methods.push("totp");
+    if (passkeys > 0) methods.push("passkey");
+    return methods;
+  }
+
+  /**
+   * Whether any active workspace the user belongs to requires 2FA
+   */
+  async isRequiredForUser(userId: string): Promise<boolean> {
+    const memberships = await this.workspaceRepo.listForUser(userId);
+    return memberships.some(
+      ({ workspace }) => workspace.isActive && workspaceRequiresMfa(workspace)
+    );
+  }
+
+  /**
+   * 2FA status for the current user (settings page)
+   */
+  async getStatus(): Promise<MfaStatus> {
+    const userId = this.requireUserId();
+
+    const [mfa, required, passkeys] = await Promise.all([
+      this.userMfaRepo.findByUserId(userId),
+      this.isRequiredForUser(userId),
+      this.userCredentialRepo.countForUser(userId),
+    ]);
+    const enabled = !!mfa?.totpEnabledAt;
+
+    return {
+      enabled,
+      enabledAt: mfa?.totpEnabledAt ?? null,
+      recoveryCodesRemaining: enabled
+        ? await this.mfaRecoveryCodeRepo.countRemaining(userId)
+        : 0,
+      passkeys,
+      required,
+    };
+  }
+
+  /**
+   * Throw if the user must enroll before entering a workspace
+   */
+  async assertWorkspaceRequirement(
+    userId: string,
+    workspace: Pick<Workspace, "id" | "settings">
+  ): Promise<void> {
+    if (
+      workspaceRequiresMfa(workspace) &&
+      (await this.getMethods(userId)).length === 0
+    ) {
+      throw new MfaEnrollmentRequiredError(undefined, {
+        workspaceId: workspace.id,
+      });
+    }
+  }
+
+  // ========================================
+  // ENROLLMENT
+  // ========================================
+
+  /**
+   * Start enrollment: store a pending secret and return it with a QR code
+   * Calling again replaces the pending secret (e.g. QR scanned on another device)
+   */
+  async startEnrollment(userId: string = this.requireUserId()): Promise<TotpEnrollment> {
+    const user = await this.requireActiveUser(userId);
+
+    if (await this.isEnabled(userId)) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    await this.userMfaRepo.savePendingSecret(userId, secret);
+
+    const otpauthUri = buildOtpauthUri(secret, user.email);
+
+    return {
+      secret,
+      otpauthUri,
+      qrCodeSvg: renderQrCodeSvg(otpauthUri),
+    };
+  }
+
+  /**
+   * Confirm enrollment with the first code from the authenticator app
+   * Returns the recovery codes - shown once, only hashes are stored
+   */
+  async activate(
+    code: string,
+    userId: string = this.requireUserId()
+  ): Promise<{ recoveryCodes: string[] }> {
+    const mfa = await this.userMfaRepo.findByUserId(userId);
+
+    if (!mfa) {
+      throw new InvalidStateError("Two-factor setup has not been started");
+    }
+    if (mfa.totpEnabledAt) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+
+    const step = await verifyTotp(mfa.totpSecret, code);
+    if (step === null) {
+      throw new InvalidMfaCodeError(undefined, { userId });
+    }
+
+    await this.userMfaRepo.enable(userId, step);
+    const recoveryCodes = await this.issueRecoveryCodes(userId);
+
+    await this.logAudit(userId, "MFA_ENABLED", { metadata: { method: "totp" } });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn the authenticator off (requires a current code or recovery code)
+   * Not allowed while a workspace the user belongs to requires 2FA, unless
+   * a passkey remains as second factor
+   */
+  async disable(credentials: MfaCredentials): Promise<void> {
+    const userId = this.requireUserId();
+
+    if (
+      (await this.userCredentialRepo.countForUser(userId)) === 0 &&
+      (await this.isRequiredForUser(userId))
+    ) {
+      throw new MfaEnrollmentRequiredError(
+        "A workspace you belong to requires two-factor authentication"
+      );
+    }
+
+    await this.verify(userId, credentials);
+    await this.userMfaRepo.deleteForUser(userId);
+
+    await this.logAudit(userId, "MFA_DISABLED", { metadata: { method: "totp" } });
+  }
+
+  /**
+   * Replace all recovery codes (requires a current code or recovery code)
+   */
+  async regenerateRecoveryCodes(
+    credentials: MfaCredentials
+  ): Promise<{ recoveryCodes: string[] }> {
+    const userId = this.requireUserId();
+
+    await this.verify(userId, credentials);
+    const recoveryCodes = await this.issueRecoveryCodes(userId);
+
+    await this.logAudit(userId, "MFA_RECOVERY_CODES_REGENERATED");
+
+    return { recoveryCodes };
+  }
+
+  // ========================================
+  // VERIFICATION
+  // ========================================
+
+  /**
+   * Verify a TOTP code (replay-protected) or consume a recovery code
+   * Wrong codes count towards the account lockout (LOCKOUT_CONFIG)
+   */
+  async verify(userId: string, credentials: MfaCredentials): Promise<void> {
+    const mfa = await this.userMfaRepo.findByUserId(userId);
+
+    if (!mfa?.totpEnabledAt) {
+      throw new InvalidStateError("Two-factor authentication is not enabled");
+    }
+
+    // Locked after too many wrong codes - don't even check this one
+    await this.assertNotLocked(userId);
+
+    let verified = false;
+    if (credentials.code) {
+      const step = await verifyTotp(mfa.totpSecret, credentials.code, {
+        afterStep: mfa.totpLastUsedStep,
+      });
+      if (step !== null) {
+        await this.userMfaRepo.updateLastUsedStep(userId, step);
+        verified = true;
+      }
+    } else if (credentials.recoveryCode) {
+      const consumed = await this.mfaRecoveryCodeRepo.consume(
+        userId,
+        await hashRecoveryCode(credentials.recoveryCode)
+      );
+      if (consumed) {
+        await this.logAudit(userId, "MFA_RECOVERY_CODE_USED");
+        verified = true;
+      }
+    }
+
+    if (verified) {
+      if (mfa.failedAttempts > 0) {
+        await this.userMfaRepo.clearFailedAttempts(userId);
+      }
+      return;
+    }
+
+    await this.registerFailedAttempt(userId);
+    throw new InvalidMfaCodeError(undefined, {
+      userId,
+      method: credentials.recoveryCode ? "recovery_code" : "totp",
+    });
+  }
+
+  // ========================================
+  // SIGN-IN
+  // ========================================
+
+  /**
+   * Called after the first factor succeeded
+   * Returns null when no second factor is needed, otherwise a pending token
+   * for POST /api/v1/auth/mfa/verify (or /setup + /activate when a
+   * workspace requires 2FA and the user has not enrolled yet)
+   */
+  async createSignInChallenge(userId: string): Promise<MfaSignInChallenge | null> {
+    const methods = await this.getMethods(userId);
+    const enrollmentRequired =
+      methods.length === 0 && (await this.isRequiredForUser(userId));
+
+    if (methods.length === 0 && !enrollmentRequired) {
+      return null;
+    }
+
+    return {
+      mfaToken: await generateMfaPendingToken(userId, this.event),
+      methods,
+      enrollmentRequired,
+    };
+  }
+
+  /**
+   * Finish sign-in with the second factor
+   * (USER_SIGNED_IN was already logged for the password step)
+   */
+  async completeSignIn(
+    mfaToken: string,
+    credentials: MfaCredentials
+  ): Promise<SafeUser> {
+    const { userId } = await verifyMfaPendingToken(mfaToken, this.event);
+    const user = await this.requireActiveUser(userId);
+
+    await this.verify(userId, credentials);
+    await this.logAudit(userId, "MFA_VERIFIED", {
+      metadata: { method: credentials.recoveryCode ? "recovery_code" : "totp" },
+    });
+
+    return sanitizeUserForClient(user);
+  }
+
+  /**
+   * Sign-in enrollment is only for users a workspace forces into 2FA who
+   * have no second factor yet - otherwise a pending token (password only)
+   * could replace an existing passkey with the caller's authenticator
+   */
+  private async assertSignInEnrollmentAllowed(userId: string): Promise<void> {
+    const methods = await this.getMethods(userId);
+
+    if (methods.length > 0 || !(await this.isRequiredForUser(userId))) {
+      throw new InvalidStateError("Two-factor enrollment is not required", {
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Enrollment during sign-in (workspace requires 2FA, user not enrolled)
+   */
+  async startSignInEnrollment(mfaToken: string): Promise<TotpEnrollment> {
+    const { userId } = await verifyMfaPendingToken(mfaToken, this.event);
+    await this.assertSignInEnrollmentAllowed(userId);
+
+    return this.startEnrollment(userId);
+  }
+
+  /**
+   * Confirm enrollment during sign-in - signs the user in
+   */
+  async activateSignInEnrollment(
+    mfaToken: string,
+    code: string
+  ): Promise<{ user: SafeUser; recoveryCodes: string[] }> {
+    const { userId } = await verifyMfaPendingToken(mfaToken, this.event);
+    const user = await this.requireActiveUser(userId);
+    await this.assertSignInEnrollmentAllowed(userId);
+
+    const { recoveryCodes } = await this.activate(code, userId);
+
+    return { user: sanitizeUserForClient(user), recoveryCodes };
+  }
+}
+
+// ========================================
+// FACTORY FUNCTION
+// ========================================
+
+/**
+ * Create MfaService from H3Event
+ */
+export function createMfaService(event: H3Event): MfaService {
+  const db = getDatabase(event);
+
+  return new MfaService(
+    event,
+    new UserRepository(db),
+    new UserMfaRepository(db),
+    new MfaRecoveryCodeRepository(db),
+    new WorkspaceRepository(db),
+    new UserCredentialRepository(db),
+    new AuditLogRepository(db)
+  );
+}
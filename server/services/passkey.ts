@@ -0,0 +1,482 @@
+import type { H3Event } from "h3";
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "@simplewebauthn/server";
+import { isoBase64URL } from "@simplewebauthn/server/helpers";
+import type {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/types";
+import {
+  UserRepository,
+  AuditLogRepository,
+} from "#server/repositories/identity";
+import {
+  UserCredentialRepository,
+  WebAuthnChallengeRepository,
+} from "#server/repositories/passkey";
+import {
+  AccountInactiveError,
+  AuthenticationError,
+  BusinessRuleError,
+  ConflictError,
+  InvalidTokenError,
+  LastLoginMethodError,
+  MfaEnrollmentRequiredError,
+  NotFoundError,
+  PasskeyVerificationError,
+  UserNotFoundError,
+} from "#server/error/errors";
+import {
+  type WebAuthnCeremony,
+  type WebAuthnChallengeTokenPayload,
+  generateWebAuthnChallengeToken,
+  verifyMfaPendingToken,
+  verifyWebAuthnChallengeToken,
+} from "#server/lib/auth";
+import {
+  WEBAUTHN_CONFIG,
+  defaultPasskeyNickname,
+  getRelyingParty,
+} from "#server/lib/webauthn";
+import type {
+  User,
+  UserCredential,
+} from "#server/database/schema/identity";
+import { getDatabase } from "#server/database/utils";
+import { buildAuditContext } from "#server/utils/audit";
+import {
+  sanitizeUserForClient,
+  type SafeUser,
+} from "#server/lib/sanitizeUser";
+import { type MfaService, createMfaService } from "#server/services/mfa";
+import {
+  type IdentityService,
+  createIdentityService,
+} from "#server/services/identity";
+
+// ========================================
+// PASSKEY SERVICE
+// ========================================
+// WebAuthn registration and sign-in (@simplewebauthn/server)
+// Passwordless: discoverable credential, user verification required
+// Second factor: after the password step, for the user in the mfaToken
+// Challenges travel in short-lived signed tokens (see lib/auth.ts) and are
+// single use: each is recorded in webauthn_challenges once redeemed
+// ========================================
+
+/**
+ * Passkey as returned to clients (public key stays server-side)
+ */
+export type SafePasskey = Omit<UserCredential, "publicKey" | "userId" | "deletedAt">;
+
+function sanitizePasskey(credential: UserCredential): SafePasskey {
+  const { publicKey, userId, deletedAt, ...safe } = credential;
+  return safe;
+}
+
+export interface PasskeyCeremony<T> {
+  options: T;
+  challengeToken: string; // Sent back with the authenticator response
+}
+
+export class PasskeyService {
+  private readonly userId?: string;
+
+  constructor(
+    private readonly event: H3Event,
+    private readonly userRepo: UserRepository,
+    private readonly userCredentialRepo: UserCredentialRepository,
+    private readonly webAuthnChallengeRepo: WebAuthnChallengeRepository,
+    private readonly auditLogRepo: AuditLogRepository,
+    private readonly mfaService: MfaService,
+    private readonly identityService: IdentityService
+  ) {
+    this.userId = event.context.userId;
+  }
+
+  /**
+   * Helper to log audit events with request context
+   */
+  private async logAudit(
+    userId: string,
+    action: string,
+    options?: {
+      statusCode?: number;
+      metadata?: Record<string, any>;
+    }
+  ) {
+    return this.auditLogRepo.log(
+      this.event.context.workspaceId || null,
+      userId,
+      action,
+      "User",
+      userId,
+      {
+        ...buildAuditContext(this.event),
+        statusCode: options?.statusCode || 200,
+        metadata: options?.metadata,
+      }
+    );
+  }
+
+  /**
+   * Get the authenticated user ID or throw
+   */
+  private requireUserId(): string {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+    return this.userId;
+  }
+
+  /**
+   * Load an active user (sign-in runs before a session exists)
+   */
+  private async requireActiveUser(userId: string): Promise<User> {
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new UserNotFoundError(undefined, { userId });
+    }
+    if (!user.isActive) {
+      throw new AccountInactiveError(undefined, { userId });
+    }
+    return user;
+  }
+
+  /**
+   * Verify a challenge token and redeem its challenge
+   * A token whose challenge was already redeemed is rejected (replay)
+   */
+  private async redeemChallengeToken(
+    challengeToken: string,
+    purpose: WebAuthnCeremony
+  ): Promise<WebAuthnChallengeTokenPayload> {
+    const payload = await verifyWebAuthnChallengeToken(
+      challengeToken,
+      purpose,
+      this.event
+    );
+
+    const isFirstUse = await this.webAuthnChallengeRepo.consume(
+      payload.challenge,
+      purpose,
+      new Date(payload.exp * 1000)
+    );
+    if (!isFirstUse) {
+      throw new InvalidTokenError("This challenge was already used", { purpose });
+    }
+
+    return payload;
+  }
+
+  // ========================================
+  // MANAGEMENT (signed-in user)
+  // ========================================
+
+  /**
+   * List the current user's passkeys
+   */
+  async listPasskeys(): Promise<SafePasskey[]> {
+    const userId = this.requireUserId();
+    const credentials = await this.userCredentialRepo.listForUser(userId);
+    return credentials.map(sanitizePasskey);
+  }
+
+  /**
+   * Registration options for a new passkey
+   * Existing credentials are excluded so an authenticator isn't added twice
+   */
+  async startRegistration(): Promise<
+    PasskeyCeremony<PublicKeyCredentialCreationOptionsJSON>
+  > {
+    const user = await this.requireActiveUser(this.requireUserId());
+    const existing = await this.userCredentialRepo.listForUser(user.id);
+
+    if (existing.length >= WEBAUTHN_CONFIG.MAX_CREDENTIALS) {
+      throw new BusinessRuleError(
+        `You can register up to ${WEBAUTHN_CONFIG.MAX_CREDENTIALS} passkeys`,
+        { limit: WEBAUTHN_CONFIG.MAX_CREDENTIALS }
+      );
+    }
+
+    const { rpID, rpName } = getRelyingParty(this.event);
+    const displayName = `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim();
+
+    const options = await generateRegistrationOptions({
+      rpName,
+      rpID,
+      userID: new TextEncoder().encode(user.id),
+      userName: user.email,
+      userDisplayName: displayName || user.email,
+      timeout: WEBAUTHN_CONFIG.TIMEOUT,
+      attestationType: "none",
+      excludeCredentials: existing.map((credential) => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+      // Discoverable so the passkey also works without typing an email
+      authenticatorSelection: {
+        residentKey: "required",
+        userVerification: "preferred",
+      },
+      supportedAlgorithmIDs: WEBAUTHN_CONFIG.SUPPORTED_ALGORITHMS,
+    });
+
+    return {
+      options,
+      challengeToken: await generateWebAuthnChallengeToken(
+        options.challenge,
+        "webauthn-register",
+        user.id,
+        this.event
+      ),
+    };
+  }
+
+  /**
+   * Verify the authenticator's attestation and store the credential
+   */
+  async finishRegistration(data: {
+    challengeToken: string;
+    response: RegistrationResponseJSON;
+    nickname?: string;
+  }): Promise<SafePasskey> {
+    const userId = this.requireUserId();
+    const { challenge, userId: tokenUserId } = await this.redeemChallengeToken(
+      data.challengeToken,
+      "webauthn-register"
+    );
+
+    if (tokenUserId !== userId) {
+      throw new InvalidTokenError("Registration was started by another user");
+    }
+
+    const { rpID, origin } = getRelyingParty(this.event);
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response: data.response,
+        expectedChallenge: challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: false,
+        supportedAlgorithmIDs: WEBAUTHN_CONFIG.SUPPORTED_ALGORITHMS,
+      });
+    } catch (error) {
+      throw new PasskeyVerificationError(undefined, {
+        reason: error instanceof Error ? error.message : "unknown",
+      });
+    }
+
+    const info = verification.registrationInfo;
+    if (!verification.verified || !info) {
+      throw new PasskeyVerificationError();
+    }
+
+    if (await this.userCredentialRepo.findByCredentialId(info.credential.id)) {
+      throw new ConflictError("This passkey is already registered");
+    }
+
+    const credential = await this.userCredentialRepo.create({
+      userId,
+      credentialId: info.credential.id,
+      publicKey: isoBase64URL.fromBuffer(info.credential.publicKey),
+      signCount: info.credential.counter,
+      transports: info.credential.transports ?? [],
+      deviceType: info.credentialDeviceType,
+      backedUp: info.credentialBackedUp,
+      nickname: data.nickname || defaultPasskeyNickname(info.credentialDeviceType),
+    });
+
+    await this.logAudit(userId, "PASSKEY_REGISTERED", {
+      statusCode: 201,
+      metadata: { passkeyId: credential.id, deviceType: credential.deviceType },
+    });
+
+    return sanitizePasskey(credential);
+  }
+
+  /**
+   * Rename one of the current user's passkeys
+   */
+  async renamePasskey(id: string, nickname: string): Promise<SafePasskey> {
+    const userId = this.requireUserId();
+
+    const credential = await this.userCredentialRepo.rename(id, userId, nickname);
+    if (!credential) {
+      throw new NotFoundError("Passkey not found", { passkeyId: id });
+    }
+
+    return sanitizePasskey(credential);
+  }
+
+  /**
+   * Remove one of the current user's passkeys
+   * The last second factor can't be removed while a workspace requires 2FA
+   */
+  async deletePasskey(id: string): Promise<void> {
+    const userId = this.requireUserId();
+
+    const credential = await this.userCredentialRepo.findForUser(id, userId);
+    if (!credential) {
+      throw new NotFoundError("Passkey not found", { passkeyId: id });
+    }
+
+    // Passwordless accounts keep at least one way to sign in
+    if ((await this.identityService.countLoginMethods(userId)) <= 1) {
+      throw new LastLoginMethodError(undefined, { passkeyId: id });
+    }
+
+    const methods = await this.mfaService.getMethods(userId);
+    const isLastFactor =
+      !methods.includes("totp") &&
+      (await this.userCredentialRepo.countForUser(userId)) === 1;
+
+    if (isLastFactor && (await this.mfaService.isRequiredForUser(userId))) {
+      throw new MfaEnrollmentRequiredError(
+        "A workspace you belong to requires two-factor authentication"
+      );
+    }
+
+    await this.userCredentialRepo.deleteForUser(id, userId);
+
+    await this.logAudit(userId, "PASSKEY_REMOVED", {
+      metadata: { passkeyId: id },
+    });
+  }
+
+  // ========================================
+  // SIGN-IN
+  // ========================================
+
+  /**
+   * Authentication options
+   * Without mfaToken: passwordless, the browser offers any discoverable passkey
+   * With mfaToken: second factor, limited to that user's passkeys
+   */
+  async startAuthentication(
+    mfaToken?: string
+  ): Promise<PasskeyCeremony<PublicKeyCredentialRequestOptionsJSON>> {
+    let userId: string | undefined;
+    let allowCredentials: { id: string; transports?: AuthenticatorTransportFuture[] }[] = [];
+
+    if (mfaToken) {
+      ({ userId } = await verifyMfaPendingToken(mfaToken, this.event));
+      const credentials = await this.userCredentialRepo.listForUser(userId);
+      allowCredentials = credentials.map((credential) => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      }));
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID: getRelyingParty(this.event).rpID,
+      timeout: WEBAUTHN_CONFIG.TIMEOUT,
+      allowCredentials,
+      userVerification: mfaToken ? "preferred" : "required",
+    });
+
+    return {
+      options,
+      challengeToken: await generateWebAuthnChallengeToken(
+        options.challenge,
+        "webauthn-authenticate",
+        userId,
+        this.event
+      ),
+    };
+  }
+
+  /**
+   * Verify an assertion and return the signed-in user
+   * A lower signature counter than stored is rejected (cloned authenticator)
+   */
+  async finishAuthentication(data: {
+    challengeToken: string;
+    response: AuthenticationResponseJSON;
+  }): Promise<SafeUser> {
+    const { challenge, userId: expectedUserId } = await this.redeemChallengeToken(
+      data.challengeToken,
+      "webauthn-authenticate"
+    );
+    const isSecondFactor = !!expectedUserId;
+
+    const credential = await this.userCredentialRepo.findByCredentialId(
+      data.response.id
+    );
+    if (!credential || (isSecondFactor && credential.userId !== expectedUserId)) {
+      throw new PasskeyVerificationError(undefined, { reason: "unknown_credential" });
+    }
+
+    const { rpID, origin } = getRelyingParty(this.event);
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response: data.response,
+        expectedChallenge: challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        credential: {
+          id: credential.credentialId,
+          publicKey: isoBase64URL.toBuffer(credential.publicKey),
+          counter: credential.signCount,
+          transports: credential.transports as AuthenticatorTransportFuture[],
+        },
+        // Passwordless sign-in must prove both possession and the user
+        requireUserVerification: !isSecondFactor,
+      });
+    } catch (error) {
+      throw new PasskeyVerificationError(undefined, {
+        reason: error instanceof Error ? error.message : "unknown",
+      });
+    }
+
+    if (!verification.verified) {
+      throw new PasskeyVerificationError();
+    }
+
+    const user = await this.requireActiveUser(credential.userId);
+    await this.userCredentialRepo.recordUse(
+      credential.id,
+      verification.authenticationInfo.newCounter
+    );
+
+    if (isSecondFactor) {
+      await this.logAudit(user.id, "MFA_VERIFIED", { metadata: { method: "passkey" } });
+    } else {
+      await this.logAudit(user.id, "USER_SIGNED_IN", { metadata: { method: "passkey" } });
+    }
+
+    return sanitizeUserForClient(user);
+  }
+}
+
+// ========================================
+// FACTORY FUNCTION
+// ========================================
+
+/**
+ * Create PasskeyService from H3Event
+ */
+export function createPasskeyService(event: H3Event): PasskeyService {
+  const db = getDatabase(event);
+
+  return new PasskeyService(
+    event,
+    new UserRepository(db),
+    new UserCredentialRepository(db),
+    new WebAuthnChallengeRepository(db),
+    new AuditLogRepository(db),
+    createMfaService(event),
+    createIdentityService(event)
+  );
+}
@@ -1,6 +1,11 @@
 import type { H3Event } from "h3";
 import { UserRepository } from "#server/repositories/identity";
-import type { PermissionCode } from "#server/database/schema/identity";
+import { WorkspaceMemberRepository } from "#server/repositories/workspace";
+import {
+  RoleRepository,
+  type RoleWithPermissions,
+} from "#server/repositories/role";
+import type { PermissionCode, User } from "#server/database/schema/identity";
 import { getDatabase } from "#server/database/utils";
 import { AuthorizationError, PermissionDeniedError } from "#server/error/errors";
 import {
@@ -8,17 +13,46 @@ import {
   PERMISSION_DEFINITIONS,
   hasPermission as configHasPermission,
   getRolePermissions,
+  intersectPermissions,
+  UNVERIFIED_EMAIL_PERMISSIONS,
   type RoleName,
+  type RoleConfig,
 } from "#server/config/rbac";
 
 // ========================================
 // RBAC SERVICE
 // ========================================
 // Config-based Role-Based Access Control
-// Roles are defined in server/config/rbac.ts (no database tables)
-// User's role is stored in users.role field
+// System roles are defined in server/config/rbac.ts
+// Custom roles are stored per workspace (roles / role_permissions tables)
+// Inside a workspace the role comes from workspace_members.role
+// Outside a workspace (or for system admins) it comes from users.role
+// API key requests are further limited to the key's scopes
 // ========================================
 
+/** Global role that keeps full access in workspaces the user is not a member of */
+const SYSTEM_ADMIN_ROLE: RoleName = "admin";
+
+/**
+ * Role as listed by the API: system (config) or custom (database)
+ */
+export interface AvailableRole {
+  name: string;
+  config: RoleConfig;
+  isSystem: boolean;
+}
+
+/**
+ * Convert a custom role row to the config format used by system roles
+ */
+function toRoleConfig(role: RoleWithPermissions): RoleConfig {
+  return {
+    name: role.displayName,
+    description: role.description ?? "",
+    permissions: role.permissions,
+  };
+}
+
 /**
  * RBAC Service Configuration
  */
@@ -31,16 +65,30 @@ export interface RBACConfig {
  * RBAC Service
  *
  * Config-based role system:
- * - Roles defined in server/config/rbac.ts
- * - User's role stored in users.role field
- * - No database queries for permission checks (fast)
+ * - System roles defined in server/config/rbac.ts, custom roles per workspace
+ * - Workspace role stored in workspace_members.role, global role in users.role
+ * - workspaceId defaults to the request's workspace (see getRBACService)
+ * - scopes (API key requests) narrow every check, even with RBAC disabled
  */
 export class RBACService {
   private userRepo: UserRepository;
+  private workspaceMemberRepo: WorkspaceMemberRepository;
+  private roleRepo: RoleRepository;
   private config: RBACConfig;
-
-  constructor(database: D1Database, config?: Partial<RBACConfig>) {
+  private workspaceId?: string;
+  private scopes?: PermissionCode[];
+
+  constructor(
+    database: D1Database,
+    config?: Partial<RBACConfig>,
+    workspaceId?: string,
+    scopes?: PermissionCode[]
+  ) {
     this.userRepo = new UserRepository(database);
+    this.workspaceMemberRepo = new WorkspaceMemberRepository(database);
+    this.roleRepo = new RoleRepository(database);
+    this.workspaceId = workspaceId;
+    this.scopes = scopes;
 
     // Default configuration: RBAC enabled
     this.config = {
@@ -67,6 +115,52 @@ export class RBACService {
     return { ...this.config };
   }
 
+  // ========================================
+  // ROLE RESOLUTION
+  // ========================================
+
+  /**
+   * Resolve the role a user acts with
+   *
+   * - No workspace: global users.role
+   * - Workspace member: workspace_members.role
+   * - Not a member: system admins fall back to users.role, everyone else has no role
+   */
+  private async resolveRole(
+    user: User,
+    workspaceId: string | undefined
+  ): Promise<string | null> {
+    if (!workspaceId) {
+      return user.role;
+    }
+
+    const membership = await this.workspaceMemberRepo.findMembership(
+      workspaceId,
+      user.id
+    );
+    if (membership) {
+      return membership.role;
+    }
+
+    return user.role === SYSTEM_ADMIN_ROLE ? SYSTEM_ADMIN_ROLE : null;
+  }
+
+  /**
+   * Resolve the permissions granted by a role name
+   * Custom roles are only loaded when the name is not a system role
+   */
+  private async resolveRolePermissions(
+    roleName: string,
+    workspaceId: string | undefined
+  ): Promise<string[]> {
+    if (this.isValidRole(roleName)) {
+      return getRolePermissions(roleName);
+    }
+
+    const customRoles = await this.getCustomRoles(workspaceId);
+    return getRolePermissions(roleName, customRoles);
+  }
+
   // ========================================
   // AUTHORIZATION CHECKS
   // ========================================
@@ -75,10 +169,19 @@ export class RBACService {
    * Check if user has a specific permission
    * Graceful degradation: Returns true when RBAC disabled
    *
-   * Reads user's role from users.role field and checks
-   * permissions from config/rbac.ts based on that role.
+   * Resolves the user's role in the workspace (see resolveRole) and
+   * checks permissions from config/rbac.ts based on that role.
    */
-  async userHasPermission(userId: string, permission: PermissionCode): Promise<boolean> {
+  async userHasPermission(
+    userId: string,
+    permission: PermissionCode,
+    workspaceId: string | undefined = this.workspaceId
+  ): Promise<boolean> {
+    // API keys never exceed their scopes, whatever the owner's role
+    if (this.scopes && !configHasPermission(this.scopes, permission)) {
+      return false;
+    }
+
     // Graceful degradation: Allow all when RBAC disabled
     if (!this.config.enabled && this.config.allowAllWhenDisabled) {
       return true;
@@ -90,9 +193,11 @@ export class RBACService {
       return false;
     }
 
-    // Get permissions from config based on user's role
-    const roleName = user.role as RoleName;
-    const permissions = getRolePermissions(roleName);
+    // Get permissions based on the resolved role
+    const roleName = await this.resolveRole(user, workspaceId);
+    if (!roleName) return false;
+
+    const permissions = await this.resolveRolePermissions(roleName, workspaceId);
     return configHasPermission(permissions, permission);
   }
 
@@ -115,8 +220,8 @@ export class RBACService {
     userId: string,
     permissions: PermissionCode[]
   ): Promise<boolean> {
-    // Graceful degradation
-    if (!this.config.enabled && this.config.allowAllWhenDisabled) {
+    // Graceful degradation (API keys still go through their scopes)
+    if (!this.scopes && !this.config.enabled && this.config.allowAllWhenDisabled) {
       return true;
     }
 
@@ -136,8 +241,8 @@ export class RBACService {
     userId: string,
     permissions: PermissionCode[]
   ): Promise<boolean> {
-    // Graceful degradation
-    if (!this.config.enabled && this.config.allowAllWhenDisabled) {
+    // Graceful degradation (API keys still go through their scopes)
+    if (!this.scopes && !this.config.enabled && this.config.allowAllWhenDisabled) {
       return true;
     }
 
@@ -151,29 +256,66 @@ export class RBACService {
   }
 
   /**
-   * Get all permissions for a user
+   * Get all permissions for a user in a workspace
    */
-  async getUserPermissions(userId: string): Promise<PermissionCode[]> {
+  async getUserPermissions(
+    userId: string,
+    workspaceId: string | undefined = this.workspaceId
+  ): Promise<PermissionCode[]> {
     // Graceful degradation: Return empty array when disabled
     if (!this.config.enabled) {
       return [];
     }
 
     const user = await this.userRepo.findById(userId);
-    if (!user) return [];
+    if (!user || !user.isActive) return [];
+
+    const roleName = await this.resolveRole(user, workspaceId);
+    if (!roleName) return [];
+
+    const permissions = await this.resolveRolePermissions(roleName, workspaceId);
+    return (
+      this.scopes ? intersectPermissions(permissions, this.scopes) : permissions
+    ) as PermissionCode[];
+  }
+
+  /**
+   * Get the permission version for a user in a workspace
+   *
+   * Sum of users.permission_version and workspace_members.permission_version,
+   * both only ever increase. Sessions store the value at signin/switch and
+   * 02.auth refreshes permissions when it moves.
+   * Returns null when the user no longer exists or is inactive.
+   */
+  async getPermissionVersion(
+    userId: string,
+    workspaceId: string | undefined = this.workspaceId
+  ): Promise<number | null> {
+    const user = await this.userRepo.findById(userId);
+    if (!user || !user.isActive) return null;
+
+    if (!workspaceId) {
+      return user.permissionVersion;
+    }
 
-    const roleName = user.role as RoleName;
-    return getRolePermissions(roleName) as PermissionCode[];
+    const membership = await this.workspaceMemberRepo.findMembership(
+      workspaceId,
+      userId
+    );
+    return user.permissionVersion + (membership?.permissionVersion ?? 0);
   }
 
   /**
-   * Get user's role name
+   * Get user's role name in a workspace
    */
-  async getUserRole(userId: string): Promise<RoleName | null> {
+  async getUserRole(
+    userId: string,
+    workspaceId: string | undefined = this.workspaceId
+  ): Promise<string | null> {
     const user = await this.userRepo.findById(userId);
     if (!user) return null;
 
-    return user.role as RoleName;
+    return this.resolveRole(user, workspaceId);
   }
 
   // ========================================
@@ -190,6 +332,59 @@ export class RBACService {
     }));
   }
 
+  /**
+   * Get custom roles of a workspace keyed by name (config format)
+   */
+  async getCustomRoles(
+    workspaceId: string | undefined = this.workspaceId
+  ): Promise<Record<string, RoleConfig>> {
+    if (!workspaceId) return {};
+
+    const roles = await this.roleRepo.listByWorkspace(workspaceId);
+    return Object.fromEntries(roles.map((role) => [role.name, toRoleConfig(role)]));
+  }
+
+  /**
+   * List system roles followed by the workspace's custom roles
+   */
+  async listRoles(
+    workspaceId: string | undefined = this.workspaceId
+  ): Promise<AvailableRole[]> {
+    const customRoles = await this.getCustomRoles(workspaceId);
+
+    return [
+      ...this.getAvailableRoles().map(({ name, config }) => ({
+        name,
+        config,
+        isSystem: true,
+      })),
+      ...Object.entries(customRoles).map(([name, config]) => ({
+        name,
+        config,
+        isSystem: false,
+      })),
+    ];
+  }
+
+  /**
+   * Find a system or custom role by name
+   */
+  async findRole(
+    roleName: string,
+    workspaceId: string | undefined = this.workspaceId
+  ): Promise<AvailableRole | null> {
+    if (this.isValidRole(roleName)) {
+      return { name: roleName, config: DEFAULT_ROLES[roleName], isSystem: true };
+    }
+
+    if (!workspaceId) return null;
+
+    const role = await this.roleRepo.findByName(workspaceId, roleName);
+    if (!role) return null;
+
+    return { name: role.name, config: toRoleConfig(role), isSystem: false };
+  }
+
   /**
    * Get role config by name
    */
@@ -208,7 +403,8 @@ export class RBACService {
    * Check if a role name is valid
    */
   isValidRole(roleName: string): roleName is RoleName {
-    return roleName in DEFAULT_ROLES;
+    // Own keys only - role names come from user input (custom roles)
+    return Object.hasOwn(DEFAULT_ROLES, roleName);
   }
 }
 
@@ -218,6 +414,10 @@ export class RBACService {
 
 /**
  * Get RBAC service for current request
+ * Permission checks are scoped to the session's workspace (event.context.workspaceId)
+ * and, for API key requests, to the key's scopes (event.context.apiKeyScopes)
+ * Unconfirmed emails under the "restrict" policy (event.context.emailVerificationPending)
+ * are narrowed the same way, to UNVERIFIED_EMAIL_PERMISSIONS
  */
 export function getRBACService(event: H3Event, config?: Partial<RBACConfig>): RBACService {
   const db = getDatabase(event);
@@ -226,10 +426,24 @@ export function getRBACService(event: H3Event, config?: Partial<RBACConfig>): RB
   // Get RBAC configuration from runtime config
   const rbacEnabled = runtimeConfig.rbac?.enabled ?? true;
 
-  return new RBACService(db, {
-    enabled: config?.enabled ?? rbacEnabled,
-    allowAllWhenDisabled: config?.allowAllWhenDisabled ?? true,
-  });
+  let scopes = event.context.apiKeyScopes;
+  if (event.context.emailVerificationPending) {
+    scopes = (
+      scopes
+        ? intersectPermissions(scopes, UNVERIFIED_EMAIL_PERMISSIONS)
+        : UNVERIFIED_EMAIL_PERMISSIONS
+    ) as PermissionCode[];
+  }
+
+  return new RBACService(
+    db,
+    {
+      enabled: config?.enabled ?? rbacEnabled,
+      allowAllWhenDisabled: config?.allowAllWhenDisabled ?? true,
+    },
+    event.context.workspaceId,
+    scopes
+  );
 }
 
 /**
@@ -282,7 +496,7 @@ export async function getCurrentUserPermissions(event: H3Event): Promise<Permiss
 /**
  * Get current user's role
  */
-export async function getCurrentUserRole(event: H3Event): Promise<RoleName | null> {
+export async function getCurrentUserRole(event: H3Event): Promise<string | null> {
   const userId = event.context.userId;
   if (!userId) {
     return null;
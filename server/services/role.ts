@@ -0,0 +1,392 @@
+import type { H3Event } from "h3";
+import { RoleRepository } from "#server/repositories/role";
+import { WorkspaceMemberRepository } from "#server/repositories/workspace";
+import {
+  UserRepository,
+  AuditLogRepository,
+} from "#server/repositories/identity";
+import {
+  AuthenticationError,
+  AuthorizationError,
+  BusinessRuleError,
+  ConflictError,
+  InvalidInputError,
+  NotFoundError,
+  UserNotFoundError,
+  ValidationError,
+  WorkspaceContextMissingError,
+} from "#server/error/errors";
+import { getDatabase } from "#server/database/utils";
+import { buildAuditContext } from "#server/utils/audit";
+import { hasPermission } from "#server/config/rbac";
+import { PermissionValidator, RoleUtils } from "#server/utils/rbac";
+import { type RBACService, getRBACService } from "#server/services/rbac";
+import type {
+  CreateRoleInput,
+  UpdateRoleInput,
+} from "#shared/validators/role";
+
+// ========================================
+// ROLE SERVICE
+// ========================================
+// Custom role management for the current workspace
+// Role assignment (workspace member role, or users.role outside a workspace)
+// System roles (server/config/rbac.ts) are read-only
+// Permission resolution stays in RBACService
+// ========================================
+
+/** Role that must always be held by at least one user/member */
+const ADMIN_ROLE = "admin";
+
+export class RoleService {
+  private readonly userId?: string;
+  private readonly workspaceId?: string;
+
+  constructor(
+    private readonly event: H3Event,
+    private readonly roleRepo: RoleRepository,
+    private readonly workspaceMemberRepo: WorkspaceMemberRepository,
+    private readonly userRepo: UserRepository,
+    private readonly auditLogRepo: AuditLogRepository,
+    private readonly rbacService: RBACService
+  ) {
+    this.userId = event.context.userId;
+    this.workspaceId = event.context.workspaceId;
+  }
+
+  /**
+   * Helper to log audit events with request context
+   */
+  private async logAudit(
+    workspaceId: string | null,
+    action: string,
+    entityType: string,
+    entityId: string,
+    options?: {
+      metadata?: Record<string, any>;
+      stateBefore?: Record<string, any>;
+      stateAfter?: Record<string, any>;
+    }
+  ) {
+    return this.auditLogRepo.log(
+      workspaceId,
+      this.userId || null,
+      action,
+      entityType,
+      entityId,
+      {
+        ...buildAuditContext(this.event),
+        statusCode: 200,
+        metadata: options?.metadata,
+        stateBefore: options?.stateBefore,
+        stateAfter: options?.stateAfter,
+      }
+    );
+  }
+
+  /**
+   * Get the authenticated user ID or throw
+   */
+  private requireUserId(): string {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+    return this.userId;
+  }
+
+  /**
+   * Custom roles live in a workspace; fail without one
+   */
+  private requireWorkspaceId(): string {
+    if (!this.workspaceId) {
+      throw new WorkspaceContextMissingError();
+    }
+    return this.workspaceId;
+  }
+
+  /**
+   * Reject malformed permission codes (e.g. "users", "Users:Read")
+   */
+  private assertValidPermissions(permissions: string[]) {
+    const invalid = permissions.filter(
+      (code) => !PermissionValidator.isValidFormat(code)
+    );
+
+    if (invalid.length > 0) {
+      throw new InvalidInputError("Invalid permission codes", { invalid });
+    }
+  }
+
+  /**
+   * Build a check for "the actor already holds every one of these permissions"
+   * Guards against privilege escalation through role changes
+   */
+  private async actorCovers(workspaceId?: string) {
+    const actorPermissions = await this.rbacService.getUserPermissions(
+      this.requireUserId(),
+      workspaceId
+    );
+
+    return (permissions: string[]) =>
+      permissions.every((permission) =>
+        hasPermission(actorPermissions, permission)
+      );
+  }
+
+  /**
+   * Load a custom role of the current workspace
+   * System roles cannot be changed through this service
+   */
+  private async requireCustomRole(name: string) {
+    const workspaceId = this.requireWorkspaceId();
+
+    if (RoleUtils.isSystemRole(name)) {
+      throw new AuthorizationError("System roles cannot be modified", {
+        role: name,
+      });
+    }
+
+    const role = await this.roleRepo.findByName(workspaceId, name);
+    if (!role) {
+      throw new NotFoundError("Role not found", { role: name });
+    }
+
+    return role;
+  }
+
+  // ========================================
+  // MUTATIONS
+  // ========================================
+
+  /**
+   * Create a custom role in the current workspace
+   */
+  async createRole(input: CreateRoleInput) {
+    const workspaceId = this.requireWorkspaceId();
+
+    if (RoleUtils.isSystemRole(input.name)) {
+      throw new ConflictError("Role name is reserved for a system role", {
+        role: input.name,
+      });
+    }
+
+    this.assertValidPermissions(input.permissions);
+
+    const covers = await this.actorCovers(workspaceId);
+    if (!covers(input.permissions)) {
+      throw new AuthorizationError(
+        "You cannot create a role with more permissions than your own",
+        { role: input.name }
+      );
+    }
+
+    const existing = await this.roleRepo.findByName(workspaceId, input.name);
+    if (existing) {
+      throw new ConflictError("A role with this name already exists", {
+        role: input.name,
+      });
+    }
+
+    const role = await this.roleRepo.create(
+      {
+        workspaceId,
+        name: input.name,
+        displayName: input.displayName,
+        description: input.description,
+      },
+      input.permissions
+    );
+
+    await this.logAudit(workspaceId, "ROLE_CREATED", "Role", role.id, {
+      stateAfter: { name: role.name, permissions: role.permissions },
+    });
+
+    return role;
+  }
+
+  /**
+   * Update a custom role's details and/or permissions
+   */
+  async updateRole(name: string, input: UpdateRoleInput) {
+    const role = await this.requireCustomRole(name);
+
+    if (input.permissions) {
+      this.assertValidPermissions(input.permissions);
+    }
+
+    // Privilege escalation: the actor must cover the role before and after
+    const covers = await this.actorCovers(role.workspaceId);
+    if (!covers(role.permissions) || !covers(input.permissions ?? [])) {
+      throw new AuthorizationError(
+        "You cannot change roles with more permissions than your own",
+        { role: role.name }
+      );
+    }
+
+    const updated = await this.roleRepo.update(
+      role,
+      { displayName: input.displayName, description: input.description },
+      input.permissions
+    );
+
+    await this.logAudit(role.workspaceId, "ROLE_UPDATED", "Role", role.id, {
+      stateBefore: {
+        displayName: role.displayName,
+        description: role.description,
+        permissions: role.permissions,
+      },
+      stateAfter: {
+        displayName: updated.displayName,
+        description: updated.description,
+        permissions: updated.permissions,
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Delete a custom role
+   * Refused while members still hold it (reassign them first)
+   */
+  async deleteRole(name: string) {
+    const role = await this.requireCustomRole(name);
+
+    const memberCount = await this.workspaceMemberRepo.countByRole(
+      role.workspaceId,
+      role.name
+    );
+    if (memberCount > 0) {
+      throw new ConflictError("Role is still assigned to workspace members", {
+        role: role.name,
+        memberCount,
+      });
+    }
+
+    await this.roleRepo.delete(role);
+
+    await this.logAudit(role.workspaceId, "ROLE_DELETED", "Role", role.id, {
+      stateBefore: { name: role.name, permissions: role.permissions },
+    });
+  }
+
+  // ========================================
+  // ROLE ASSIGNMENT
+  // ========================================
+
+  /**
+   * Assign a role to a user
+   *
+   * Inside a workspace this changes the member's workspace role, otherwise
+   * the global users.role. Guards:
+   * - the role must exist (system role or custom role of the workspace)
+   * - the actor must already hold every permission of both the old and the
+   *   new role (a manager can neither grant nor revoke admin)
+   * - the last admin cannot be demoted
+   */
+  async assignUserRole(targetUserId: string, roleName: string) {
+    this.requireUserId();
+    const workspaceId = this.workspaceId;
+
+    const target = await this.userRepo.findById(targetUserId);
+    if (!target) {
+      throw new UserNotFoundError();
+    }
+
+    const newRole = await this.rbacService.findRole(roleName, workspaceId);
+    if (!newRole) {
+      throw new ValidationError(`Invalid role: ${roleName}`, {
+        field: "role",
+        role: roleName,
+      });
+    }
+
+    // Current role in scope (workspace membership or global)
+    let currentRoleName = target.role;
+    if (workspaceId) {
+      const membership = await this.workspaceMemberRepo.findMembership(
+        workspaceId,
+        target.id
+      );
+      if (!membership) {
+        throw new UserNotFoundError("User is not a member of this workspace");
+      }
+      currentRoleName = membership.role;
+    }
+
+    if (currentRoleName === roleName) {
+      return { userId: target.id, role: roleName, changed: false };
+    }
+
+    // Privilege escalation: the actor must cover both roles
+    const currentRole = await this.rbacService.findRole(
+      currentRoleName,
+      workspaceId
+    );
+    const covers = await this.actorCovers(workspaceId);
+
+    if (
+      !covers(newRole.config.permissions) ||
+      !covers(currentRole?.config.permissions ?? [])
+    ) {
+      throw new AuthorizationError(
+        "You cannot change roles with more permissions than your own",
+        { from: currentRoleName, to: roleName }
+      );
+    }
+
+    // Last admin guard
+    if (currentRoleName === ADMIN_ROLE) {
+      const adminCount = workspaceId
+        ? await this.workspaceMemberRepo.countActiveByRole(
+            workspaceId,
+            ADMIN_ROLE
+          )
+        : await this.userRepo.count([
+            { field: "role", operator: "eq", value: ADMIN_ROLE },
+            { field: "isActive", operator: "eq", value: true },
+          ]);
+
+      if (adminCount <= 1) {
+        throw new BusinessRuleError("Cannot demote the last admin", {
+          userId: target.id,
+        });
+      }
+    }
+
+    // Apply (both paths bump the permission version, see 02.auth)
+    if (workspaceId) {
+      await this.workspaceMemberRepo.updateRole(workspaceId, target.id, roleName);
+    } else {
+      await this.userRepo.changeRole(target.id, roleName);
+    }
+
+    await this.logAudit(workspaceId ?? null, "ROLE_CHANGED", "User", target.id, {
+      metadata: { scope: workspaceId ? "workspace" : "global" },
+      stateBefore: { role: currentRoleName },
+      stateAfter: { role: roleName },
+    });
+
+    return { userId: target.id, role: roleName, changed: true };
+  }
+}
+
+// ========================================
+// FACTORY FUNCTION
+// ========================================
+
+/**
+ * Create RoleService from H3Event
+ */
+export function createRoleService(event: H3Event): RoleService {
+  const db = getDatabase(event);
+
+  return new RoleService(
+    event,
+    new RoleRepository(db),
+    new WorkspaceMemberRepository(db),
+    new UserRepository(db),
+    new AuditLogRepository(db),
+    getRBACService(event)
+  );
+}
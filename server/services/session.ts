@@ -0,0 +1,199 @@
+import type { H3Event } from "h3";
+import { AuditLogRepository } from "#server/repositories/identity";
+import { UserSessionRepository } from "#server/repositories/session";
+import { AuthenticationError, NotFoundError } from "#server/error/errors";
+import type { UserSession } from "#server/database/schema/identity";
+import { getDatabase } from "#server/database/utils";
+import { buildAuditContext } from "#server/utils/audit";
+import { describeUserAgent } from "#server/lib/userAgent";
+
+// ========================================
+// SESSION SERVICE
+// ========================================
+// Server-side registry behind the sealed session cookie
+// The cookie carries the session ID; 02.auth rejects cookies whose
+// session was revoked (sign out other devices, password reset, deactivation)
+// ========================================
+
+export const SESSION_CONFIG = {
+  IDLE_TIMEOUT: 30 * 24 * 60 * 60 * 1000, // Sessions unused for 30 days expire
+  TOUCH_INTERVAL: 5 * 60 * 1000, // Write lastSeenAt at most every 5 minutes
+};
+
+/**
+ * Session as listed to its owner
+ */
+export interface SafeSession {
+  id: string;
+  device: string; // e.g. "Chrome on macOS"
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean; // The session making the request
+}
+
+export class SessionService {
+  private readonly userId?: string;
+
+  constructor(
+    private readonly event: H3Event,
+    private readonly userSessionRepo: UserSessionRepository,
+    private readonly auditLogRepo: AuditLogRepository
+  ) {
+    this.userId = event.context.userId;
+  }
+
+  /**
+   * Helper to log audit events with request context
+   */
+  private async logAudit(
+    userId: string,
+    action: string,
+    metadata?: Record<string, any>
+  ) {
+    return this.auditLogRepo.log(
+      this.event.context.workspaceId || null,
+      userId,
+      action,
+      "User",
+      userId,
+      {
+        ...buildAuditContext(this.event),
+        statusCode: 200,
+        metadata,
+      }
+    );
+  }
+
+  /**
+   * Get the authenticated user ID or throw
+   */
+  private requireUserId(): string {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+    return this.userId;
+  }
+
+  /**
+   * Register a session for a user signing in on this device
+   */
+  async createSession(userId: string): Promise<UserSession> {
+    const now = Date.now();
+
+    return this.userSessionRepo.create({
+      userId,
+      ipAddress: this.event.context.ipAddress || null,
+      userAgent: this.event.context.userAgent || null,
+      lastSeenAt: new Date(now),
+      expiresAt: new Date(now + SESSION_CONFIG.IDLE_TIMEOUT),
+    });
+  }
+
+  /**
+   * Whether the cookie's session is still active - records activity
+   * Cookies issued before the registry existed carry no session ID and
+   * are rejected (the user signs in again)
+   */
+  async validateSession(
+    sessionId: string | undefined,
+    userId: string
+  ): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+
+    const session = await this.userSessionRepo.findActive(sessionId, userId);
+    if (!session) {
+      return false;
+    }
+
+    const now = Date.now();
+    if (now - session.lastSeenAt.getTime() >= SESSION_CONFIG.TOUCH_INTERVAL) {
+      await this.userSessionRepo.touch(session.id, {
+        ipAddress: this.event.context.ipAddress || session.ipAddress,
+        userAgent: this.event.context.userAgent || session.userAgent,
+        expiresAt: new Date(now + SESSION_CONFIG.IDLE_TIMEOUT),
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * List the current user's active sessions
+   */
+  async listSessions(currentSessionId?: string): Promise<SafeSession[]> {
+    const userId = this.requireUserId();
+    const sessions = await this.userSessionRepo.listActiveForUser(userId);
+
+    return sessions.map((session) => ({
+      id: session.id,
+      device: describeUserAgent(session.userAgent),
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of the current user's sessions
+   */
+  async revokeSession(id: string): Promise<void> {
+    const userId = this.requireUserId();
+
+    if (!(await this.userSessionRepo.revoke(id, userId))) {
+      throw new NotFoundError("Session not found", { sessionId: id });
+    }
+
+    await this.logAudit(userId, "SESSION_REVOKED", { sessionId: id });
+  }
+
+  /**
+   * Sign out every other device of the current user
+   * Returns the number of sessions revoked
+   */
+  async revokeOtherSessions(currentSessionId?: string): Promise<number> {
+    const userId = this.requireUserId();
+
+    const revoked = await this.userSessionRepo.revokeAllForUser(
+      userId,
+      currentSessionId
+    );
+
+    await this.logAudit(userId, "SESSIONS_REVOKED", { count: revoked });
+
+    return revoked;
+  }
+
+  /**
+   * End the session of this device (sign out)
+   * While impersonating, the session belongs to the admin
+   */
+  async endSession(sessionId: string | undefined): Promise<void> {
+    const ownerId = this.event.context.impersonatorId ?? this.userId;
+    if (sessionId && ownerId) {
+      await this.userSessionRepo.revoke(sessionId, ownerId);
+    }
+  }
+}
+
+// ========================================
+// FACTORY FUNCTION
+// ========================================
+
+/**
+ * Create SessionService from H3Event
+ */
+export function createSessionService(event: H3Event): SessionService {
+  const db = getDatabase(event);
+
+  return new SessionService(
+    event,
+    new UserSessionRepository(db),
+    new AuditLogRepository(db)
+  );
+}
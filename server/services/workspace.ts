@@ -0,0 +1,745 @@
+import type { H3Event } from "h3";
+import {
+  WorkspaceRepository,
+  WorkspaceMemberRepository,
+  WorkspaceInviteRepository,
+} from "#server/repositories/workspace";
+import {
+  UserRepository,
+  AuditLogRepository,
+} from "#server/repositories/identity";
+import { RoleRepository } from "#server/repositories/role";
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  InvalidStateError,
+  InviteExpiredError,
+  InviteNotFoundError,
+  UserNotFoundError,
+  ValidationError,
+  WorkspaceIdTakenError,
+  WorkspaceNotFoundError,
+} from "#server/error/errors";
+import type {
+  Workspace,
+  WorkspaceMember,
+  WorkspaceInvite,
+} from "#server/database/schema/identity";
+import { getDatabase } from "#server/database/utils";
+import { buildAuditContext } from "#server/utils/audit";
+import { DEFAULT_ROLES } from "#server/config/rbac";
+import { generateSecureToken } from "#server/lib/crypto";
+import { addDays, isInPast } from "#server/lib/time";
+import { type EmailService, createEmailService } from "#server/services/email";
+
+// ========================================
+// WORKSPACE SERVICE
+// ========================================
+// Workspace lifecycle: create, rename, settings, archive, ownership transfer
+// Invitations: send, list, revoke, accept
+// Access is decided by workspace_members.role (admin manages, owner transfers)
+// ========================================
+
+/** Workspace role allowed to manage workspace details */
+const WORKSPACE_MANAGER_ROLE = "admin";
+
+/** How long an invite link stays valid */
+const INVITE_EXPIRY_DAYS = 7;
+
+/**
+ * Invite as returned to clients (token is only ever delivered to the invitee)
+ */
+export type SafeWorkspaceInvite = Omit<WorkspaceInvite, "token">;
+
+function sanitizeInvite(invite: WorkspaceInvite): SafeWorkspaceInvite {
+  const { token, ...safe } = invite;
+  return safe;
+}
+
+export class WorkspaceService {
+  private readonly db: D1Database;
+  private readonly userId?: string;
+
+  constructor(
+    private readonly event: H3Event,
+    private readonly workspaceRepo: WorkspaceRepository,
+    private readonly workspaceMemberRepo: WorkspaceMemberRepository,
+    private readonly workspaceInviteRepo: WorkspaceInviteRepository,
+    private readonly userRepo: UserRepository,
+    private readonly auditLogRepo: AuditLogRepository,
+    private readonly roleRepo: RoleRepository,
+    private readonly emailService: EmailService
+  ) {
+    this.db = getDatabase(event);
+    this.userId = event.context.userId;
+  }
+
+  /**
+   * Helper to log audit events with request context
+   * Workspace actions are logged against the workspace being changed
+   * actorId overrides the context user (e.g. invite accepted during signup)
+   */
+  private async logAudit(
+    workspaceId: string,
+    action: string,
+    entityType: string,
+    entityId: string,
+    options?: {
+      actorId?: string;
+      statusCode?: number;
+      metadata?: Record<string, any>;
+      stateBefore?: Record<string, any>;
+      stateAfter?: Record<string, any>;
+    }
+  ) {
+    return this.auditLogRepo.log(
+      workspaceId,
+      options?.actorId || this.userId || null,
+      action,
+      entityType,
+      entityId,
+      {
+        ...buildAuditContext(this.event),
+        statusCode: options?.statusCode || 200,
+        metadata: options?.metadata,
+        stateBefore: options?.stateBefore,
+        stateAfter: options?.stateAfter,
+      }
+    );
+  }
+
+  /**
+   * Get the authenticated user ID or throw
+   */
+  private requireUserId(): string {
+    if (!this.userId) {
+      throw new AuthenticationError("User not authenticated");
+    }
+    return this.userId;
+  }
+
+  /**
+   * Load a workspace the current user belongs to
+   * Non-members get WorkspaceNotFoundError so workspace IDs are not leaked
+   */
+  private async requireMembership(
+    workspaceId: string
+  ): Promise<{ workspace: Workspace; membership: WorkspaceMember }> {
+    const userId = this.requireUserId();
+
+    const [workspace, membership] = await Promise.all([
+      this.workspaceRepo.findById(workspaceId),
+      this.workspaceMemberRepo.findMembership(workspaceId, userId),
+    ]);
+
+    if (!workspace || !membership) {
+      throw new WorkspaceNotFoundError(undefined, { workspaceId });
+    }
+
+    return { workspace, membership };
+  }
+
+  /**
+   * Require the current user to be the owner or a workspace admin
+   */
+  private async requireManager(workspaceId: string) {
+    const result = await this.requireMembership(workspaceId);
+    const { workspace, membership } = result;
+
+    if (
+      workspace.ownerId !== this.userId &&
+      membership.role !== WORKSPACE_MANAGER_ROLE
+    ) {
+      throw new AuthorizationError(
+        "Only workspace owners and admins can manage this workspace",
+        { workspaceId, role: membership.role }
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Require the current user to be the workspace owner
+   */
+  private async requireOwner(workspaceId: string) {
+    const result = await this.requireMembership(workspaceId);
+
+    if (result.workspace.ownerId !== this.userId) {
+      throw new AuthorizationError(
+        "Only the workspace owner can perform this action",
+        { workspaceId }
+      );
+    }
+
+    return result;
+  }
+
+  // ========================================
+  // QUERIES
+  // ========================================
+
+  /**
+   * List workspaces the current user belongs to
+   */
+  async listMyWorkspaces() {
+    const userId = this.requireUserId();
+    const rows = await this.workspaceRepo.listForUser(userId);
+
+    return rows.map(({ workspace, role, joinedAt }) => ({
+      ...workspace,
+      role,
+      joinedAt,
+      isOwner: workspace.ownerId === userId,
+    }));
+  }
+
+  /**
+   * Get a workspace the current user belongs to
+   */
+  async getWorkspace(workspaceId: string) {
+    const { workspace, membership } = await this.requireMembership(workspaceId);
+
+    return {
+      ...workspace,
+      role: membership.role,
+      joinedAt: membership.joinedAt,
+      isOwner: workspace.ownerId === this.userId,
+    };
+  }
+
+  /**
+   * Pick the workspace a user lands in after signin
+   * Returns the first active workspace they belong to (alphabetical), or null
+   */
+  async getDefaultWorkspaceId(userId: string): Promise<string | null> {
+    const rows = await this.workspaceRepo.listForUser(userId);
+    const first = rows.find(({ workspace }) => workspace.isActive);
+    return first?.workspace.id ?? null;
+  }
+
+  // ========================================
+  // WORKSPACE SWITCHING
+  // ========================================
+
+  /**
+   * Verify the current user can switch into a workspace
+   * The caller re-binds the session (see POST /api/v1/workspaces/:id/switch)
+   * and records the switch with recordWorkspaceSwitch once it has succeeded
+   */
+  async switchWorkspace(
+    workspaceId: string
+  ): Promise<{ workspace: Workspace; role: string }> {
+    const { workspace, membership } = await this.requireMembership(workspaceId);
+    this.assertActive(workspace);
+
+    return { workspace, role: membership.role };
+  }
+
+  /**
+   * Audit a completed workspace switch
+   * Only call after every check has passed and the session was re-bound
+   */
+  async recordWorkspaceSwitch(
+    workspaceId: string,
+    fromWorkspaceId: string | null
+  ): Promise<void> {
+    await this.logAudit(
+      workspaceId,
+      "WORKSPACE_SWITCHED",
+      "Workspace",
+      workspaceId,
+      { metadata: { fromWorkspaceId } }
+    );
+  }
+
+  // ========================================
+  // MUTATIONS
+  // ========================================
+
+  /**
+   * Create a workspace owned by the current user
+   * The creator is added as a workspace admin in the same batch
+   */
+  async createWorkspace(data: {
+    name: string;
+    slug: string;
+    description?: string;
+  }): Promise<Workspace> {
+    const userId = this.requireUserId();
+    const slug = data.slug.toLowerCase();
+
+    const existing = await this.workspaceRepo.findBySlug(slug);
+    if (existing) {
+      throw new WorkspaceIdTakenError(undefined, { field: "slug", slug });
+    }
+
+    const workspace = await this.workspaceRepo.createWithOwner(
+      {
+        name: data.name,
+        slug,
+        description: data.description,
+        settings: {},
+      },
+      userId,
+      WORKSPACE_MANAGER_ROLE
+    );
+
+    await this.logAudit(
+      workspace.id,
+      "WORKSPACE_CREATED",
+      "Workspace",
+      workspace.id,
+      {
+        statusCode: 201,
+        metadata: { name: workspace.name, slug: workspace.slug },
+      }
+    );
+
+    return workspace;
+  }
+
+  /**
+   * Rename workspace / update description
+   */
+  async updateWorkspace(
+    workspaceId: string,
+    data: { name?: string; description?: string | null }
+  ): Promise<Workspace> {
+    const { workspace } = await this.requireManager(workspaceId);
+    this.assertActive(workspace);
+
+    const updated = await this.workspaceRepo.update(workspaceId, data);
+    if (!updated) {
+      throw new WorkspaceNotFoundError(undefined, { workspaceId });
+    }
+
+    await this.logAudit(
+      workspaceId,
+      "WORKSPACE_UPDATED",
+      "Workspace",
+      workspaceId,
+      {
+        stateBefore: { name: workspace.name, description: workspace.description },
+        stateAfter: { name: updated.name, description: updated.description },
+      }
+    );
+
+    return updated;
+  }
+
+  /**
+   * Update workspace settings (shallow merge into existing JSON)
+   */
+  async updateSettings(
+    workspaceId: string,
+    settings: Record<string, any>
+  ): Promise<Workspace> {
+    const { workspace } = await this.requireManager(workspaceId);
+    this.assertActive(workspace);
+
+    const merged = { ...(workspace.settings || {}), ...settings };
+
+    const updated = await this.workspaceRepo.update(workspaceId, {
+      settings: merged,
+    });
+    if (!updated) {
+      throw new WorkspaceNotFoundError(undefined, { workspaceId });
+    }
+
+    await this.logAudit(
+      workspaceId,
+      "WORKSPACE_SETTINGS_UPDATED",
+      "Workspace",
+      workspaceId,
+      {
+        stateBefore: workspace.settings || {},
+        stateAfter: merged,
+      }
+    );
+
+    return updated;
+  }
+
+  /**
+   * Archive workspace (isActive = false, data kept)
+   */
+  async archiveWorkspace(workspaceId: string): Promise<Workspace> {
+    const { workspace } = await this.requireOwner(workspaceId);
+
+    if (!workspace.isActive) {
+      throw new InvalidStateError("Workspace is already archived", {
+        workspaceId,
+      });
+    }
+
+    const updated = await this.workspaceRepo.setActive(workspaceId, false);
+    if (!updated) {
+      throw new WorkspaceNotFoundError(undefined, { workspaceId });
+    }
+
+    await this.logAudit(workspaceId, "WORKSPACE_ARCHIVED", "Workspace", workspaceId);
+
+    return updated;
+  }
+
+  /**
+   * Restore an archived workspace
+   */
+  async restoreWorkspace(workspaceId: string): Promise<Workspace> {
+    const { workspace } = await this.requireOwner(workspaceId);
+
+    if (workspace.isActive) {
+      throw new InvalidStateError("Workspace is not archived", {
+        workspaceId,
+      });
+    }
+
+    const updated = await this.workspaceRepo.setActive(workspaceId, true);
+    if (!updated) {
+      throw new WorkspaceNotFoundError(undefined, { workspaceId });
+    }
+
+    await this.logAudit(workspaceId, "WORKSPACE_RESTORED", "Workspace", workspaceId);
+
+    return updated;
+  }
+
+  /**
+   * Delete workspace (soft delete via deletedAt)
+   * Only archived workspaces can be deleted
+   */
+  async deleteWorkspace(workspaceId: string): Promise<void> {
+    const { workspace } = await this.requireOwner(workspaceId);
+
+    if (workspace.isActive) {
+      throw new InvalidStateError(
+        "Workspace must be archived before it can be deleted",
+        { workspaceId }
+      );
+    }
+
+    await this.workspaceRepo.softDelete(workspaceId);
+
+    await this.logAudit(
+      workspaceId,
+      "WORKSPACE_DELETED",
+      "Workspace",
+      workspaceId,
+      {
+        metadata: { name: workspace.name, slug: workspace.slug },
+      }
+    );
+  }
+
+  /**
+   * Transfer ownership to another member of the workspace
+   * The new owner is promoted to workspace admin
+   */
+  async transferOwnership(
+    workspaceId: string,
+    newOwnerId: string
+  ): Promise<Workspace> {
+    const { workspace } = await this.requireOwner(workspaceId);
+    this.assertActive(workspace);
+
+    if (newOwnerId === workspace.ownerId) {
+      throw new ValidationError("User already owns this workspace", {
+        field: "newOwnerId",
+      });
+    }
+
+    const newOwnerMembership = await this.workspaceMemberRepo.findMembership(
+      workspaceId,
+      newOwnerId
+    );
+    if (!newOwnerMembership) {
+      throw new ValidationError("New owner must be a member of the workspace", {
+        field: "newOwnerId",
+        newOwnerId,
+      });
+    }
+
+    const updated = await this.workspaceRepo.transferOwnership(
+      workspaceId,
+      newOwnerId,
+      WORKSPACE_MANAGER_ROLE
+    );
+
+    await this.logAudit(
+      workspaceId,
+      "WORKSPACE_OWNERSHIP_TRANSFERRED",
+      "Workspace",
+      workspaceId,
+      {
+        stateBefore: { ownerId: workspace.ownerId },
+        stateAfter: { ownerId: newOwnerId },
+      }
+    );
+
+    return updated;
+  }
+
+  // ========================================
+  // INVITATIONS
+  // ========================================
+
+  /**
+   * Invite an email address to the workspace
+   * Re-inviting the same email revokes any earlier pending invite
+   */
+  async sendInvite(
+    workspaceId: string,
+    data: { email: string; role: string }
+  ): Promise<{ invite: SafeWorkspaceInvite; token: string }> {
+    const userId = this.requireUserId();
+    const { workspace } = await this.requireManager(workspaceId);
+    this.assertActive(workspace);
+
+    const email = data.email.toLowerCase();
+
+    // System roles or custom roles of this workspace
+    const isKnownRole =
+      Object.hasOwn(DEFAULT_ROLES, data.role) ||
+      !!(await this.roleRepo.findByName(workspaceId, data.role));
+    if (!isKnownRole) {
+      throw new ValidationError(`Invalid role: ${data.role}`, {
+        field: "role",
+        role: data.role,
+      });
+    }
+
+    const existingUser = await this.userRepo.findByEmail(email);
+    if (existingUser) {
+      const existingMembership = await this.workspaceMemberRepo.findMembership(
+        workspaceId,
+        existingUser.id
+      );
+      if (existingMembership) {
+        throw new ConflictError("User is already a member of this workspace", {
+          field: "email",
+          email,
+        });
+      }
+    }
+
+    await this.workspaceInviteRepo.revokePendingForEmail(workspaceId, email);
+
+    const token = generateSecureToken();
+    const invite = await this.workspaceInviteRepo.create({
+      workspaceId,
+      email,
+      role: data.role,
+      invitedById: userId,
+      token,
+      expiresAt: addDays(new Date(), INVITE_EXPIRY_DAYS),
+    });
+
+    await this.logAudit(
+      workspaceId,
+      "WORKSPACE_INVITE_SENT",
+      "WorkspaceInvite",
+      invite.id,
+      {
+        statusCode: 201,
+        metadata: { email, role: data.role },
+      }
+    );
+
+    const inviter = await this.userRepo.findById(userId);
+    await this.emailService.sendWorkspaceInvite({
+      email,
+      recipientId: existingUser?.id,
+      workspaceName: workspace.name,
+      inviterName: inviter
+        ? [inviter.firstName, inviter.lastName].filter(Boolean).join(" ")
+        : null,
+      role: data.role,
+      token,
+    });
+
+    return { invite: sanitizeInvite(invite), token };
+  }
+
+  /**
+   * List pending (not yet accepted) invites
+   */
+  async listInvites(workspaceId: string): Promise<SafeWorkspaceInvite[]> {
+    await this.requireManager(workspaceId);
+
+    const invites = await this.workspaceInviteRepo.listPending(workspaceId);
+    return invites.map(sanitizeInvite);
+  }
+
+  /**
+   * Revoke a pending invite
+   */
+  async revokeInvite(workspaceId: string, inviteId: string): Promise<void> {
+    await this.requireManager(workspaceId);
+
+    const invite = await this.workspaceInviteRepo.findById(
+      workspaceId,
+      inviteId
+    );
+    if (!invite) {
+      throw new InviteNotFoundError(undefined, { inviteId });
+    }
+    if (invite.acceptedAt) {
+      throw new InvalidStateError("Invite has already been accepted", {
+        inviteId,
+      });
+    }
+
+    await this.workspaceInviteRepo.revoke(workspaceId, inviteId);
+
+    await this.logAudit(
+      workspaceId,
+      "WORKSPACE_INVITE_REVOKED",
+      "WorkspaceInvite",
+      inviteId,
+      {
+        metadata: { email: invite.email },
+      }
+    );
+  }
+
+  /**
+   * Resolve an invite token that can still be accepted
+   * Throws for unknown/revoked, already accepted, expired or archived-workspace invites
+   *
+   * @param email - When given, the invite must have been sent to this address
+   */
+  async getAcceptableInvite(
+    token: string,
+    email?: string
+  ): Promise<{ invite: WorkspaceInvite; workspace: Workspace }> {
+    const invite = await this.workspaceInviteRepo.findByToken(token);
+    if (!invite || invite.acceptedAt) {
+      throw new InviteNotFoundError();
+    }
+
+    if (isInPast(invite.expiresAt)) {
+      throw new InviteExpiredError(undefined, { expiresAt: invite.expiresAt });
+    }
+
+    const workspace = await this.workspaceRepo.findById(invite.workspaceId);
+    if (!workspace || !workspace.isActive) {
+      throw new InviteNotFoundError("Workspace is no longer available");
+    }
+
+    if (email && invite.email !== email.toLowerCase()) {
+      throw new AuthorizationError(
+        "This invite was sent to a different email address",
+        { field: "email" }
+      );
+    }
+
+    return { invite, workspace };
+  }
+
+  /**
+   * Public invite preview (for the accept page)
+   */
+  async previewInvite(token: string) {
+    const { invite, workspace } = await this.getAcceptableInvite(token);
+    const inviter = await this.userRepo.findById(invite.invitedById);
+
+    return {
+      email: invite.email,
+      role: invite.role,
+      expiresAt: invite.expiresAt,
+      workspace: { id: workspace.id, name: workspace.name, slug: workspace.slug },
+      invitedBy: inviter
+        ? { firstName: inviter.firstName, lastName: inviter.lastName }
+        : null,
+      hasAccount: !!(await this.userRepo.findByEmail(invite.email)),
+    };
+  }
+
+  /**
+   * Accept an invite as the current user
+   */
+  async acceptInvite(token: string): Promise<Workspace> {
+    const userId = this.requireUserId();
+
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new UserNotFoundError();
+    }
+
+    const { invite, workspace } = await this.getAcceptableInvite(
+      token,
+      user.email
+    );
+
+    const existingMembership = await this.workspaceMemberRepo.findMembership(
+      workspace.id,
+      userId
+    );
+    if (existingMembership) {
+      throw new ConflictError("You are already a member of this workspace", {
+        workspaceId: workspace.id,
+      });
+    }
+
+    await this.acceptInviteForUser(invite, userId);
+
+    return workspace;
+  }
+
+  /**
+   * Complete invite acceptance for a user (membership + invite + onboarding)
+   * Used directly by signup, where the new user has no session yet
+   */
+  async acceptInviteForUser(
+    invite: WorkspaceInvite,
+    userId: string
+  ): Promise<void> {
+    await this.workspaceInviteRepo.accept(invite, userId);
+
+    await this.logAudit(
+      invite.workspaceId,
+      "WORKSPACE_INVITE_ACCEPTED",
+      "WorkspaceInvite",
+      invite.id,
+      {
+        actorId: userId,
+        metadata: { email: invite.email, role: invite.role },
+      }
+    );
+  }
+
+  /**
+   * Archived workspaces are read-only
+   */
+  private assertActive(workspace: Workspace) {
+    if (!workspace.isActive) {
+      throw new InvalidStateError("Workspace is archived", {
+        workspaceId: workspace.id,
+      });
+    }
+  }
+}
+
+// ========================================
+// FACTORY FUNCTION
+// ========================================
+
+/**
+ * Create WorkspaceService from H3Event
+ */
+export function createWorkspaceService(event: H3Event): WorkspaceService {
+  const db = getDatabase(event);
+
+  return new WorkspaceService(
+    event,
+    new WorkspaceRepository(db),
+    new WorkspaceMemberRepository(db),
+    new WorkspaceInviteRepository(db),
+    new UserRepository(db),
+    new AuditLogRepository(db),
+    new RoleRepository(db),
+    createEmailService(event)
+  );
+}
@@ -0,0 +1,27 @@
+import { purgeScheduledAccounts } from "#server/services/account";
+
+// ========================================
+// TASK accounts:purge
+// ========================================
+// Erase accounts whose deletion grace period has ended
+// Runs daily on the Cloudflare Cron Trigger (nitro.scheduledTasks); in
+// development run it with POST /_nitro/tasks/accounts:purge
+// Only the default DB binding is purged - multi-tenant deployments with
+// per-tenant databases need a run per binding
+// ========================================
+
+export default defineTask({
+  meta: {
+    name: "accounts:purge",
+    description: "Erase accounts past their deletion grace period",
+  },
+  async run({ context }) {
+    const db = context.cloudflare?.env.DB;
+    if (!db) {
+      console.warn("[Account] No DB binding - skipped purging deleted accounts");
+      return { result: 0 };
+    }
+
+    return { result: await purgeScheduledAccounts(db) };
+  },
+});
@@ -1,26 +0,0 @@
-// Type definitions for nuxt-auth-utils
-import type { PermissionCode } from '#server/database/schema/identity'
-
-declare module '#auth-utils' {
-  interface User {
-    id: string
-    email: string
-    firstName?: string
-    lastName?: string
-    isEmailVerified: boolean
-    isActive: boolean
-  }
-
-  interface UserSession {
-    workspaceId: string // Workspace ID bound to session (prevents cross-workspace access)
-    permissions: PermissionCode[]
-    permissionVersion: number // Version for permission cache invalidation
-    loggedInAt: number
-  }
-
-  interface SecureSessionData {
-    // Add sensitive data that should only be accessible server-side
-  }
-}
-
-export {}
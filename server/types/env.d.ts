@@ -1,5 +1,7 @@
 /// <reference types="@cloudflare/workers-types" />
 
+import type { PermissionCode } from "#server/database/schema/identity";
+
 // Cloudflare Workers environment bindings
 export interface Env {
   DB: D1Database;
@@ -9,9 +11,12 @@ export interface Env {
   // Rate Limiting bindings
   AUTH_SIGNIN_LIMITER?: RateLimiterBinding;
   AUTH_SIGNUP_LIMITER?: RateLimiterBinding;
+  AUTH_EMAIL_RESEND_LIMITER?: RateLimiterBinding;
   AUTH_PASSWORD_RESET_LIMITER?: RateLimiterBinding;
   OAUTH_AUTHORIZE_LIMITER?: RateLimiterBinding;
   OAUTH_CALLBACK_LIMITER?: RateLimiterBinding;
+  ACCOUNT_CREDENTIALS_LIMITER?: RateLimiterBinding;
+  AUTH_MAGIC_LINK_LIMITER?: RateLimiterBinding;
 
   JWT_SECRET?: string;
   JWT_REFRESH_SECRET?: string;
@@ -36,10 +41,25 @@ declare module "h3" {
     db?: D1Database; // Selected database (per-workspace or default)
     workspaceId?: string;
     userId?: string;
+    emailVerificationPending?: boolean; // Unconfirmed email under the "restrict" policy (02.auth)
+    apiKeyId?: string; // Set when the request authenticated with an API key (02.auth)
+    apiKeyScopes?: PermissionCode[]; // That key's scopes - narrow every permission check
+    impersonatorId?: string; // Admin acting as userId (02.auth) - recorded in audit metadata
     tokenPayload?: AccessTokenPayload;
   }
 }
 
+// Nitro tasks run by a Cron Trigger get the worker bindings
+// (server/tasks, see nitro.scheduledTasks)
+declare module "nitropack/types" {
+  interface TaskContext {
+    cloudflare?: {
+      env: Env;
+      context: ExecutionContext;
+    };
+  }
+}
+
 // JWT token payload types
 export interface AccessTokenPayload {
   jti: string;
@@ -0,0 +1,23 @@
+import type { H3Event } from "h3";
+
+// ========================================
+// AUDIT UTILITIES
+// ========================================
+// Request details every audit entry carries, read from the event context
+// (00.request-context, and 02.auth for the impersonating admin)
+// ========================================
+
+/**
+ * Request context for AuditLogRepository.log
+ * Services add the status code, metadata and state snapshots
+ */
+export function buildAuditContext(event: H3Event) {
+  return {
+    requestId: event.context.requestId,
+    endpoint: event.context.endpoint,
+    method: event.context.method,
+    ipAddress: event.context.ipAddress,
+    userAgent: event.context.userAgent,
+    impersonatorId: event.context.impersonatorId,
+  };
+}
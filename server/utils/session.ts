@@ -0,0 +1,184 @@
+import type { H3Event } from "h3";
+import type { SafeUser } from "#server/lib/sanitizeUser";
+import { EmailNotConfirmedError } from "#server/error/errors";
+import {
+  UNVERIFIED_EMAIL_PERMISSIONS,
+  restrictPermissions,
+} from "#server/config/rbac";
+import { createIdentityService } from "#server/services/identity";
+import { createSessionService } from "#server/services/session";
+import { createWorkspaceService } from "#server/services/workspace";
+
+// ========================================
+// SESSION UTILITIES
+// ========================================
+// Shared by every route that signs a user in (password, 2FA, OAuth),
+// workspace switching, impersonation and the auth middleware
+// ========================================
+
+/**
+ * User fields stored in the session cookie
+ */
+function toSessionUser(user: SafeUser) {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName || "",
+    lastName: user.lastName || "",
+    role: user.role,
+    isEmailVerified: user.isEmailVerified,
+    picture: user.picture,
+  };
+}
+
+/**
+ * Compute the permissions about to be stored in the session, under the email
+ * verification policy of the request's workspace
+ * "block" throws EmailNotConfirmedError, "restrict" narrows the permissions
+ * to UNVERIFIED_EMAIL_PERMISSIONS (enforced by 04.permissions and RBACService)
+ */
+export async function applyEmailVerificationPolicy(
+  event: H3Event,
+  userId: string
+): Promise<{
+  permissions: string[];
+  isEmailVerified: boolean;
+  emailVerificationPending: boolean;
+}> {
+  // The request's restriction belongs to the session being replaced
+  event.context.emailVerificationPending = undefined;
+
+  const identityService = createIdentityService(event);
+  const { isEmailVerified, policy } =
+    await identityService.getEmailVerificationStatus(userId);
+
+  if (policy === "block") {
+    throw new EmailNotConfirmedError(undefined, { userId });
+  }
+
+  const permissions = await identityService.getUserPermissions(userId);
+  const emailVerificationPending = policy === "restrict";
+  event.context.emailVerificationPending = emailVerificationPending;
+
+  return {
+    permissions: emailVerificationPending
+      ? restrictPermissions(permissions, UNVERIFIED_EMAIL_PERMISSIONS)
+      : permissions,
+    isEmailVerified,
+    emailVerificationPending,
+  };
+}
+
+/**
+ * Sign a user in: land them in their default workspace, compute permissions,
+ * register the device session and write the session cookie
+ */
+export async function startUserSession(
+  event: H3Event,
+  user: SafeUser
+): Promise<{ permissions: string[]; permissionVersion: number }> {
+  // Land the user in their default workspace (switchable afterwards via
+  // POST /api/v1/workspaces/:id/switch)
+  event.context.workspaceId =
+    event.context.workspaceId ||
+    (await createWorkspaceService(event).getDefaultWorkspaceId(user.id)) ||
+    undefined;
+
+  // Pass userId since context isn't set during sign-in
+  const identityService = createIdentityService(event);
+  const permissionVersion = await identityService.getPermissionVersion(user.id);
+
+  // Unconfirmed email: refused or restricted depending on the workspace policy
+  const { permissions, emailVerificationPending } = await applyEmailVerificationPolicy(
+    event,
+    user.id
+  );
+
+  // Warn if permissions exceed 100 (session size concern)
+  if (permissions.length > 100) {
+    console.warn(
+      `[WARN] User ${user.id} has ${permissions.length} permissions (>100). Consider refactoring permission model.`
+    );
+  }
+
+  // Listed under GET /api/v1/me/sessions, revocable from other devices
+  const { id: sessionId } = await createSessionService(event).createSession(user.id);
+
+  // NOTE: nuxt-auth-utils requires a 'user' key for loggedIn to work
+  // IMPORTANT: workspaceId is bound to session to prevent cross-workspace access
+  await setUserSession(event, {
+    user: toSessionUser(user),
+    sessionId,
+    emailVerificationPending, // Restricted until the email is confirmed (02.auth lifts it)
+    workspaceId: event.context.workspaceId, // Bind session to workspace (prevents cross-workspace session reuse)
+    permissions,
+    permissionVersion,
+    loggedInAt: Date.now(),
+  });
+
+  return { permissions, permissionVersion };
+}
+
+/**
+ * Rewrite the session for another user of the same workspace and device
+ * Permissions are those of that user in the session's workspace; the
+ * user_sessions row, sign-in time and workspace are kept
+ */
+async function replaceSessionUser(
+  event: H3Event,
+  user: SafeUser,
+  impersonation?: {
+    impersonatorId: string;
+    impersonatorEmail: string;
+    startedAt: number;
+  }
+): Promise<{ permissions: string[]; permissionVersion: number }> {
+  const identityService = createIdentityService(event);
+  const permissionVersion = await identityService.getPermissionVersion(user.id);
+  const { permissions, emailVerificationPending } = await applyEmailVerificationPolicy(
+    event,
+    user.id
+  );
+
+  // Replace (not merge) so the previous user's permissions are dropped
+  const { sessionId, workspaceId, loggedInAt } = await getUserSession(event);
+  await replaceUserSession(event, {
+    user: toSessionUser(user),
+    sessionId,
+    emailVerificationPending,
+    workspaceId,
+    permissions,
+    permissionVersion,
+    loggedInAt,
+    impersonation,
+  });
+
+  return { permissions, permissionVersion };
+}
+
+/**
+ * Act as another user (checked by ImpersonationService.startImpersonation)
+ * The session remembers the admin, whose user_sessions row it keeps
+ */
+export async function startImpersonationSession(
+  event: H3Event,
+  user: SafeUser
+): Promise<{ permissions: string[]; permissionVersion: number }> {
+  const session = await getUserSession(event);
+
+  return replaceSessionUser(event, user, {
+    impersonatorId: session.user?.id as string,
+    impersonatorEmail: session.user?.email as string,
+    startedAt: Date.now(),
+  });
+}
+
+/**
+ * Give the session back to the admin who started the impersonation
+ */
+export async function stopImpersonationSession(
+  event: H3Event,
+  admin: SafeUser
+): Promise<{ permissions: string[]; permissionVersion: number }> {
+  return replaceSessionUser(event, admin);
+}
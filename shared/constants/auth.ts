@@ -0,0 +1,49 @@
+// ========================================
+// AUTH CONSTANTS
+// ========================================
+// Shared by the workspace settings validator (frontend and backend),
+// the server-side policy checks and the OAuth provider registry
+// ========================================
+
+/**
+ * What happens to users whose email address is not confirmed yet
+ * - off: nothing (default)
+ * - block: sign-in is refused until the address is confirmed
+ * - restrict: sign-in works, but permissions are narrowed to
+ *   UNVERIFIED_EMAIL_PERMISSIONS (server/config/rbac.ts)
+ */
+export const EMAIL_VERIFICATION_POLICIES = ["off", "block", "restrict"] as const;
+
+export type EmailVerificationPolicy = (typeof EMAIL_VERIFICATION_POLICIES)[number];
+
+/**
+ * Check if a value is a known email verification policy
+ */
+export function isEmailVerificationPolicy(
+  value: unknown
+): value is EmailVerificationPolicy {
+  return (EMAIL_VERIFICATION_POLICIES as readonly unknown[]).includes(value);
+}
+
+/**
+ * OAuth / OpenID Connect sign-in providers (see server/lib/oauth.ts)
+ * - oidc: any OpenID Connect provider, configured by discovery URL
+ * - mock: built-in OIDC provider for development and integration tests
+ *   (server/api/dev/oidc), never available in staging or production
+ */
+export const OAUTH_PROVIDER_IDS = [
+  "google",
+  "github",
+  "microsoft",
+  "oidc",
+  "mock",
+] as const;
+
+export type OAuthProviderId = (typeof OAUTH_PROVIDER_IDS)[number];
+
+/**
+ * Check if a value is a known OAuth provider
+ */
+export function isOAuthProviderId(value: unknown): value is OAuthProviderId {
+  return (OAUTH_PROVIDER_IDS as readonly unknown[]).includes(value);
+}
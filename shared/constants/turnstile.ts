@@ -0,0 +1,37 @@
+// ========================================
+// TURNSTILE CONSTANTS
+// ========================================
+// Shared by the Turnstile widget (frontend) and verifier (backend)
+// Test keys: https://developers.cloudflare.com/turnstile/troubleshooting/testing/
+// ========================================
+
+/**
+ * Cloudflare test site key - always passes and yields TURNSTILE_TEST_TOKEN
+ * Used by the widget outside production when no site key is configured
+ */
+export const TURNSTILE_TEST_SITE_KEY = "1x00000000000000000000AA";
+
+/**
+ * Dummy token produced by Cloudflare test site keys
+ * The only token accepted by the test-mode verifier
+ */
+export const TURNSTILE_TEST_TOKEN = "XXXX.DUMMY.TOKEN.XXXX";
+
+/**
+ * Header clients without a JSON body can send the token in
+ * (same name as the widget's hidden form field)
+ */
+export const TURNSTILE_TOKEN_HEADER = "cf-turnstile-response";
+
+/**
+ * Default value of the Turnstile keys in nuxt.config.ts (= not configured)
+ */
+export const TURNSTILE_KEY_PLACEHOLDER =
+  "overwrite-this-with-environment-in-production";
+
+/**
+ * Check if a Turnstile key has been configured
+ */
+export function isTurnstileKeyConfigured(key: string | undefined | null): boolean {
+  return !!key && key !== TURNSTILE_KEY_PLACEHOLDER;
+}
@@ -27,12 +27,18 @@ export const ERROR_CODES = {
   WORKSPACE_CONTEXT_MISSING: 'WORKSPACE_CONTEXT_MISSING',
   EMAIL_NOT_CONFIRMED: 'EMAIL_NOT_CONFIRMED',
   ACCOUNT_INACTIVE: 'ACCOUNT_INACTIVE',
+  MFA_INVALID_CODE: 'MFA_INVALID_CODE', // Wrong/expired TOTP or recovery code
+  PASSKEY_VERIFICATION_FAILED: 'PASSKEY_VERIFICATION_FAILED', // WebAuthn ceremony rejected
+  OAUTH_PROVIDER_ERROR: 'OAUTH_PROVIDER_ERROR', // Sign-in denied or failed at the OAuth provider
 
   // ========================================
   // AUTHORIZATION (403)
   // ========================================
   FORBIDDEN: 'FORBIDDEN',
   PERMISSION_DENIED: 'PERMISSION_DENIED',
+  TURNSTILE_FAILED: 'TURNSTILE_FAILED', // Bot challenge (Cloudflare Turnstile) failed
+  MFA_ENROLLMENT_REQUIRED: 'MFA_ENROLLMENT_REQUIRED', // Workspace requires two-factor authentication
+  RECENT_SIGNIN_REQUIRED: 'RECENT_SIGNIN_REQUIRED', // Re-authentication of a user without a password
 
   // ========================================
   // VALIDATION (400)
@@ -49,6 +55,7 @@ export const ERROR_CODES = {
   PASSWORD_MISSING_NUMBER: 'PASSWORD_MISSING_NUMBER',
   PASSWORD_MISSING_SPECIAL: 'PASSWORD_MISSING_SPECIAL',
   PASSWORD_SAME_AS_OLD: 'PASSWORD_SAME_AS_OLD',
+  CURRENT_PASSWORD_INCORRECT: 'CURRENT_PASSWORD_INCORRECT', // Re-authentication of a signed-in user failed
 
   // Email validation errors
   INVALID_EMAIL_FORMAT: 'INVALID_EMAIL_FORMAT',
@@ -59,6 +66,8 @@ export const ERROR_CODES = {
   NOT_FOUND: 'NOT_FOUND',
   USER_NOT_FOUND: 'USER_NOT_FOUND',
   COMPANY_NOT_FOUND: 'COMPANY_NOT_FOUND',
+  WORKSPACE_NOT_FOUND: 'WORKSPACE_NOT_FOUND',
+  INVITE_NOT_FOUND: 'INVITE_NOT_FOUND',
 
   // ========================================
   // CONFLICT (409)
@@ -67,11 +76,13 @@ export const ERROR_CODES = {
   DUPLICATE: 'DUPLICATE',
   EMAIL_EXISTS: 'EMAIL_EXISTS',
   WORKSPACE_ID_TAKEN: 'WORKSPACE_ID_TAKEN',
+  LAST_LOGIN_METHOD: 'LAST_LOGIN_METHOD', // Removing it would leave no way to sign in
 
   // ========================================
   // RATE LIMIT (429)
   // ========================================
   RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
+  ACCOUNT_LOCKED: 'ACCOUNT_LOCKED', // Too many failed sign-ins (per account)
 
   // ========================================
   // SERVER ERRORS (500)
@@ -85,6 +96,7 @@ export const ERROR_CODES = {
   // ========================================
   BUSINESS_RULE_VIOLATION: 'BUSINESS_RULE_VIOLATION',
   INVALID_STATE: 'INVALID_STATE',
+  INVITE_EXPIRED: 'INVITE_EXPIRED',
 } as const;
 
 // TypeScript type for error codes (for type safety)
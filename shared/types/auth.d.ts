@@ -0,0 +1,37 @@
+// Type definitions for nuxt-auth-utils
+// Shared so the app's useUserSession() sees the same session as the server
+// Note: Using a relative path for consistent module resolution
+import type { PermissionCode } from '../../server/database/schema/identity'
+
+declare module '#auth-utils' {
+  interface User {
+    id: string
+    email: string
+    firstName?: string
+    lastName?: string
+    isEmailVerified: boolean
+    isActive: boolean
+  }
+
+  interface UserSession {
+    sessionId: string // user_sessions row (revocable server-side)
+    emailVerificationPending?: boolean // Unconfirmed email under the "restrict" policy
+    workspaceId: string // Workspace ID bound to session (prevents cross-workspace access)
+    permissions: PermissionCode[]
+    permissionVersion: number // Version for permission cache invalidation
+    loggedInAt: number
+    impersonation?: Impersonation // Set while an admin acts as this user
+  }
+
+  interface Impersonation {
+    impersonatorId: string // Admin who started it (owns the sessionId row)
+    impersonatorEmail: string // Shown in the banner
+    startedAt: number
+  }
+
+  interface SecureSessionData {
+    // Add sensitive data that should only be accessible server-side
+  }
+}
+
+export {}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// ========================================
+// API KEY VALIDATORS
+// ========================================
+// Zod schemas for personal access token management
+// Scopes are checked against the permission registry on the server
+// ========================================
+
+/**
+ * Create an API key
+ * POST /api/v1/me/api-keys
+ * expiresInDays: omit for a key that doesn't expire
+ */
+export const apiKeyCreateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(64, "Name must be less than 64 characters"),
+  scopes: z
+    .array(z.string().min(1, "Scope is required"))
+    .min(1, "Select at least one scope")
+    .max(50, "A key can have at most 50 scopes"),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1, "Expiry must be at least 1 day")
+    .max(365, "Expiry must be at most 365 days")
+    .optional(),
+});
+
+// ========================================
+// TYPE EXPORTS
+// ========================================
+
+export type ApiKeyCreateInput = z.infer<typeof apiKeyCreateSchema>;
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { passwordSchema } from "./password";
+import { OAUTH_PROVIDER_IDS } from "../constants/auth";
 
 // ========================================
 // AUTHENTICATION VALIDATORS
@@ -23,7 +24,7 @@ export const signinSchema = z.object({
     .string()
     .min(1, "Password is required")
     .max(128, "Password must be less than 128 characters"),
-  turnstileToken: z.string().optional(), // TODO: Turnstile - see docs/ROADMAP.md
+  turnstileToken: z.string().optional(), // Verified by 05.turnstile middleware
 });
 
 /**
@@ -49,7 +50,8 @@ export const signupSchema = z
       .string()
       .min(1, "Last name is required")
       .max(100, "Last name must be less than 100 characters"),
-    turnstileToken: z.string().optional(), // TODO: Turnstile - see docs/ROADMAP.md
+    turnstileToken: z.string().optional(), // Verified by 05.turnstile middleware
+    inviteToken: z.string().optional(), // Workspace invite being accepted on signup
   })
   .refine((data) => data.password === data.passwordConfirmation, {
     message: "Passwords must match",
@@ -66,7 +68,7 @@ export const passwordResetRequestSchema = z.object({
     .min(1, "Email is required")
     .email("Invalid email format")
     .max(255, "Email must be less than 255 characters"),
-  turnstileToken: z.string().optional(), // TODO: Turnstile - see docs/ROADMAP.md
+  turnstileToken: z.string().optional(), // Verified by 05.turnstile middleware
 });
 
 /**
@@ -86,6 +88,96 @@ export const passwordResetSchema = z
     path: ["newPasswordConfirmation"],
   });
 
+/**
+ * Initial password for accounts created through OAuth
+ * POST /api/v1/me/password
+ */
+export const passwordSetSchema = z
+  .object({
+    newPassword: passwordSchema,
+    newPasswordConfirmation: z
+      .string()
+      .min(1, "Password confirmation is required"),
+  })
+  .refine((data) => data.newPassword === data.newPasswordConfirmation, {
+    message: "Passwords must match",
+    path: ["newPasswordConfirmation"],
+  });
+
+/**
+ * Change the password of a signed-in user
+ * PUT /api/v1/me/password
+ */
+export const passwordChangeSchema = z
+  .object({
+    currentPassword: z
+      .string()
+      .min(1, "Current password is required")
+      .max(128, "Password must be less than 128 characters"),
+    newPassword: passwordSchema,
+    newPasswordConfirmation: z
+      .string()
+      .min(1, "Password confirmation is required"),
+  })
+  .refine((data) => data.newPassword === data.newPasswordConfirmation, {
+    message: "Passwords must match",
+    path: ["newPasswordConfirmation"],
+  });
+
+/**
+ * Start an email change (a confirmation goes to the new address)
+ * POST /api/v1/me/email
+ */
+export const emailChangeRequestSchema = z.object({
+  newEmail: z
+    .string()
+    .min(1, "Email is required")
+    .email("Invalid email format")
+    .max(255, "Email must be less than 255 characters"),
+  currentPassword: z
+    .string()
+    .max(128, "Password must be less than 128 characters")
+    .optional(), // Required when the account has a password
+});
+
+/**
+ * Confirm an email change with the link sent to the new address
+ * POST /api/v1/auth/email/change
+ */
+export const emailChangeConfirmSchema = z.object({
+  token: z.string().min(1, "Confirmation token is required"),
+});
+
+/**
+ * Link an OAuth provider to the current user
+ * POST /api/v1/me/identities
+ */
+export const identityLinkSchema = z.object({
+  provider: z.enum(OAUTH_PROVIDER_IDS),
+});
+
+/**
+ * Magic link request validation schema
+ * POST /api/v1/auth/magic-link
+ */
+export const magicLinkRequestSchema = z.object({
+  email: z
+    .string()
+    .min(1, "Email is required")
+    .email("Invalid email format")
+    .max(255, "Email must be less than 255 characters"),
+  redirectTo: z.string().max(2048).optional(), // Same-origin path to land on after sign-in
+  turnstileToken: z.string().optional(), // Verified by 05.turnstile middleware
+});
+
+/**
+ * Magic link sign-in validation schema
+ * POST /api/v1/auth/magic-link/verify
+ */
+export const magicLinkVerifySchema = z.object({
+  token: z.string().min(1, "Sign-in token is required"),
+});
+
 /**
  * Email confirmation validation schema
  * POST /api/v1/auth/email/confirm
@@ -94,6 +186,81 @@ export const emailConfirmSchema = z.object({
   token: z.string().min(1, "Confirmation token is required"),
 });
 
+export const emailResendSchema = z.object({
+  email: z
+    .string()
+    .min(1, "Email is required")
+    .email("Invalid email format")
+    .max(255, "Email must be less than 255 characters"),
+  turnstileToken: z.string().optional(), // Verified by 05.turnstile middleware
+});
+
+// ========================================
+// TWO-FACTOR AUTHENTICATION
+// ========================================
+
+/** 6-digit code from an authenticator app (spaces allowed, e.g. "123 456") */
+const totpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{3}\s?\d{3}$/, "Code must be 6 digits");
+
+/** One-time recovery code ("xxxxx-xxxxx") */
+const recoveryCodeSchema = z
+  .string()
+  .trim()
+  .min(1, "Recovery code is required")
+  .max(32, "Recovery code is too long");
+
+/**
+ * Second factor: an authenticator code or a recovery code
+ * DELETE /api/v1/me/mfa/totp, POST /api/v1/me/mfa/recovery-codes
+ */
+export const mfaCredentialsSchema = z
+  .object({
+    code: totpCodeSchema.optional(),
+    recoveryCode: recoveryCodeSchema.optional(),
+  })
+  .refine((data) => !!data.code !== !!data.recoveryCode, {
+    message: "Provide either a code or a recovery code",
+    path: ["code"],
+  });
+
+/**
+ * Finish sign-in with the second factor
+ * POST /api/v1/auth/mfa/verify
+ */
+export const mfaVerifySchema = z
+  .object({
+    mfaToken: z.string().min(1, "MFA token is required"),
+    code: totpCodeSchema.optional(),
+    recoveryCode: recoveryCodeSchema.optional(),
+  })
+  .refine((data) => !!data.code !== !!data.recoveryCode, {
+    message: "Provide either a code or a recovery code",
+    path: ["code"],
+  });
+
+/**
+ * Start enrollment during sign-in
+ * POST /api/v1/auth/mfa/setup
+ */
+export const mfaSetupSchema = z.object({
+  mfaToken: z.string().min(1, "MFA token is required"),
+});
+
+/**
+ * Confirm enrollment with the first code
+ * POST /api/v1/me/mfa/totp/activate (mfaToken: POST /api/v1/auth/mfa/activate)
+ */
+export const mfaActivateSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const mfaSignInActivateSchema = mfaActivateSchema.extend({
+  mfaToken: z.string().min(1, "MFA token is required"),
+});
+
 // ========================================
 // TYPE EXPORTS
 // ========================================
@@ -105,4 +272,14 @@ export type PasswordResetRequestInput = z.infer<
   typeof passwordResetRequestSchema
 >;
 export type PasswordResetInput = z.infer<typeof passwordResetSchema>;
+export type PasswordSetInput = z.infer<typeof passwordSetSchema>;
+export type PasswordChangeInput = z.infer<typeof passwordChangeSchema>;
+export type EmailChangeRequestInput = z.infer<typeof emailChangeRequestSchema>;
+export type EmailChangeConfirmInput = z.infer<typeof emailChangeConfirmSchema>;
+export type IdentityLinkInput = z.infer<typeof identityLinkSchema>;
+export type MagicLinkRequestInput = z.infer<typeof magicLinkRequestSchema>;
+export type MagicLinkVerifyInput = z.infer<typeof magicLinkVerifySchema>;
 export type EmailConfirmInput = z.infer<typeof emailConfirmSchema>;
+export type EmailResendInput = z.infer<typeof emailResendSchema>;
+export type MfaCredentialsInput = z.infer<typeof mfaCredentialsSchema>;
+export type MfaVerifyInput = z.infer<typeof mfaVerifySchema>;
@@ -0,0 +1,70 @@
+import { z } from "zod";
+
+// ========================================
+// PASSKEY VALIDATORS
+// ========================================
+// Zod schemas for WebAuthn endpoints
+// Authenticator responses are only shape-checked here - the signature,
+// challenge and origin are verified by @simplewebauthn/server
+// ========================================
+
+/**
+ * Credential JSON produced by @simplewebauthn/browser
+ */
+const webAuthnResponseSchema = z
+  .object({
+    id: z.string().min(1, "Credential ID is required"),
+    rawId: z.string().min(1, "Credential ID is required"),
+    type: z.literal("public-key"),
+    response: z.object({}).passthrough(),
+  })
+  .passthrough();
+
+const nicknameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name is required")
+  .max(64, "Name must be less than 64 characters");
+
+/**
+ * Passkey sign-in options
+ * POST /api/v1/auth/passkey/options
+ * mfaToken: second factor after the password step (omit for passwordless)
+ */
+export const passkeyAuthenticationOptionsSchema = z.object({
+  mfaToken: z.string().min(1).optional(),
+});
+
+/**
+ * Passkey sign-in
+ * POST /api/v1/auth/passkey/verify
+ */
+export const passkeyAuthenticationSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+  response: webAuthnResponseSchema,
+});
+
+/**
+ * Register a passkey
+ * POST /api/v1/me/passkeys
+ */
+export const passkeyRegistrationSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+  response: webAuthnResponseSchema,
+  nickname: nicknameSchema.optional(),
+});
+
+/**
+ * Rename a passkey
+ * PATCH /api/v1/me/passkeys/:id
+ */
+export const passkeyRenameSchema = z.object({
+  nickname: nicknameSchema,
+});
+
+// ========================================
+// TYPE EXPORTS
+// ========================================
+
+export type PasskeyRegistrationInput = z.infer<typeof passkeyRegistrationSchema>;
+export type PasskeyRenameInput = z.infer<typeof passkeyRenameSchema>;
@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+// ========================================
+// ROLE VALIDATORS
+// ========================================
+// Zod schemas for custom role management endpoints
+// Permission code format is checked on the server (PermissionValidator)
+// ========================================
+
+/**
+ * Role name as stored in workspace_members.role
+ * Lowercase letters, numbers and underscores
+ */
+export const roleNameSchema = z
+  .string()
+  .min(2, "Role name must be at least 2 characters")
+  .max(50, "Role name must be less than 50 characters")
+  .regex(
+    /^[a-z0-9_]+$/,
+    "Role name may only contain lowercase letters, numbers and underscores"
+  );
+
+const rolePermissionsSchema = z
+  .array(z.string().min(1, "Permission code is required"))
+  .max(100, "A role can have at most 100 permissions");
+
+/**
+ * Create custom role validation schema
+ * POST /api/v1/roles
+ */
+export const createRoleSchema = z.object({
+  name: roleNameSchema,
+  displayName: z
+    .string()
+    .min(1, "Display name is required")
+    .max(100, "Display name must be less than 100 characters"),
+  description: z
+    .string()
+    .max(500, "Description must be less than 500 characters")
+    .optional(),
+  permissions: rolePermissionsSchema,
+});
+
+/**
+ * Update custom role validation schema
+ * PUT /api/v1/roles/:id
+ * permissions replaces the whole set when provided
+ */
+export const updateRoleSchema = z.object({
+  displayName: z
+    .string()
+    .min(1, "Display name is required")
+    .max(100, "Display name must be less than 100 characters")
+    .optional(),
+  description: z
+    .string()
+    .max(500, "Description must be less than 500 characters")
+    .nullable()
+    .optional(),
+  permissions: rolePermissionsSchema.optional(),
+});
+
+/**
+ * Assign role validation schema
+ * PUT /api/v1/users/:userId/roles
+ * System role or custom role of the current workspace
+ */
+export const assignUserRoleSchema = z.object({
+  role: z.string().min(1, "Role is required"),
+});
+
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+export type AssignUserRoleInput = z.infer<typeof assignUserRoleSchema>;
@@ -42,3 +42,16 @@ export const updateProfileSchema = z.object({
 });
 
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+
+/**
+ * Schedule the deletion of the current user's account
+ * POST /api/v1/me/deletion
+ */
+export const accountDeletionSchema = z.object({
+  currentPassword: z
+    .string()
+    .max(128, "Password must be less than 128 characters")
+    .optional(), // Required when the account has a password
+});
+
+export type AccountDeletionInput = z.infer<typeof accountDeletionSchema>;
@@ -0,0 +1,113 @@
+import { z } from "zod";
+import { EMAIL_VERIFICATION_POLICIES } from "../constants/auth";
+
+// ========================================
+// WORKSPACE VALIDATORS
+// ========================================
+// Zod schemas for workspace management endpoints
+// ========================================
+
+/**
+ * Workspace slug
+ * Lowercase letters, numbers and single hyphens (URL/subdomain safe)
+ */
+export const workspaceSlugSchema = z
+  .string()
+  .min(3, "Slug must be at least 3 characters")
+  .max(50, "Slug must be less than 50 characters")
+  .regex(
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    "Slug may only contain lowercase letters, numbers and hyphens"
+  );
+
+/**
+ * Create workspace validation schema
+ * POST /api/v1/workspaces
+ */
+export const createWorkspaceSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters"),
+  slug: workspaceSlugSchema,
+  description: z
+    .string()
+    .max(500, "Description must be less than 500 characters")
+    .optional(),
+});
+
+/**
+ * Update (rename) workspace validation schema
+ * PUT /api/v1/workspaces/:id
+ */
+export const updateWorkspaceSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters")
+    .optional(),
+  description: z
+    .string()
+    .max(500, "Description must be less than 500 characters")
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Update workspace settings validation schema
+ * PUT /api/v1/workspaces/:id/settings
+ * Settings are merged into the existing JSON object
+ * Known keys are typed; anything else is stored as-is
+ */
+export const updateWorkspaceSettingsSchema = z.object({
+  settings: z
+    .object({
+      requireMfa: z.boolean().optional(), // Members must use two-factor authentication
+      emailVerification: z.enum(EMAIL_VERIFICATION_POLICIES).optional(), // Overrides runtimeConfig.emailVerification.policy
+      magicLink: z.boolean().optional(), // false: members can't sign in with an emailed link
+    })
+    .catchall(z.any()),
+});
+
+/**
+ * Transfer workspace ownership validation schema
+ * POST /api/v1/workspaces/:id/transfer
+ */
+export const transferWorkspaceSchema = z.object({
+  newOwnerId: z.string().min(1, "New owner ID is required"),
+});
+
+/**
+ * Send workspace invite validation schema
+ * POST /api/v1/workspaces/:id/invites
+ * Role is checked against the configured roles on the server
+ */
+export const createWorkspaceInviteSchema = z.object({
+  email: z
+    .string()
+    .min(1, "Email is required")
+    .email("Invalid email format")
+    .max(255, "Email must be less than 255 characters"),
+  role: z.string().min(1, "Role is required").default("user"),
+});
+
+/**
+ * Accept workspace invite validation schema
+ * POST /api/v1/invites/accept
+ */
+export const acceptWorkspaceInviteSchema = z.object({
+  token: z.string().min(1, "Invite token is required"),
+});
+
+export type CreateWorkspaceInput = z.infer<typeof createWorkspaceSchema>;
+export type UpdateWorkspaceInput = z.infer<typeof updateWorkspaceSchema>;
+export type UpdateWorkspaceSettingsInput = z.infer<
+  typeof updateWorkspaceSettingsSchema
+>;
+export type TransferWorkspaceInput = z.infer<typeof transferWorkspaceSchema>;
+export type CreateWorkspaceInviteInput = z.infer<
+  typeof createWorkspaceInviteSchema
+>;
+export type AcceptWorkspaceInviteInput = z.infer<
+  typeof acceptWorkspaceInviteSchema
+>;
@@ -5,6 +5,8 @@ declare global {
   var verifyPassword: Mock<(hash: string, password: string) => Promise<boolean>>
   var getUserSession: Mock<() => Promise<any>>
   var setUserSession: Mock<(session: any) => Promise<void>>
+  var replaceUserSession: Mock<(event: any, session: any) => Promise<void>>
+  var clearUserSession: Mock<(event: any) => Promise<boolean>>
   var defineEventHandler: Mock<(handler: any) => any>
   var setHeader: Mock<(event: any, name: string, value: string) => void>
 }
@@ -135,6 +135,18 @@ describe("Authentication", () => {
       expect(response.ok).toBe(false);
       expect(response.status).toBe(400);
     });
+
+    it("should reject an invalid Turnstile token", async () => {
+      const response = await client.post<ApiResponse>(
+        "/api/v1/auth/signin",
+        { email: "test@example.com", password: "somepassword" },
+        { headers: { "cf-turnstile-response": "invalid-token" } }
+      );
+
+      expect(response.ok).toBe(false);
+      expect(response.status).toBe(403);
+      expect(response.data.error?.code).toBe("TURNSTILE_FAILED");
+    });
   });
 
   describe("POST /api/v1/auth/signup", () => {
@@ -290,6 +302,171 @@ describe("Authentication", () => {
       expect(afterSignout.status).toBe(401);
     });
   });
+
+  describe("PUT /api/v1/me/password", () => {
+    it("changes the password and signs out other devices", async () => {
+      const { client: authClient, email, password } =
+        await createAuthenticatedClient("change-password");
+
+      const otherDevice = new TestClient();
+      await signIn(otherDevice, email, password);
+
+      const response = await authClient.put("/api/v1/me/password", {
+        currentPassword: password,
+        newPassword: "NewPassword123!",
+        newPasswordConfirmation: "NewPassword123!",
+      });
+      expect(response.ok).toBe(true);
+
+      // This device stays signed in, the other one doesn't
+      expect((await authClient.get("/api/v1/user/profile")).ok).toBe(true);
+      expect((await otherDevice.get("/api/v1/user/profile")).status).toBe(401);
+
+      const signin = await new TestClient().post("/api/v1/auth/signin", {
+        email,
+        password: "NewPassword123!",
+      });
+      expect(signin.ok).toBe(true);
+    });
+
+    it("rejects a wrong current password", async () => {
+      const { client: authClient } = await createAuthenticatedClient("change-password-wrong");
+
+      const response = await authClient.put<ApiResponse>("/api/v1/me/password", {
+        currentPassword: "not-my-password",
+        newPassword: "NewPassword123!",
+        newPasswordConfirmation: "NewPassword123!",
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.data.error?.code).toBe("CURRENT_PASSWORD_INCORRECT");
+    });
+  });
+
+  describe("POST /api/v1/me/email", () => {
+    it("keeps the current address until the new one is confirmed", async () => {
+      const { client: authClient, email, password } =
+        await createAuthenticatedClient("change-email");
+
+      const response = await authClient.post("/api/v1/me/email", {
+        newEmail: uniqueEmail("changed"),
+        currentPassword: password,
+      });
+      expect(response.ok).toBe(true);
+
+      const profile = await authClient.get<ApiResponse<{ email: string }>>(
+        "/api/v1/user/profile"
+      );
+      expect(profile.data.data.email).toBe(email);
+    });
+
+    it("rejects an address that is already in use", async () => {
+      const { email: takenEmail } = await createAuthenticatedClient("change-email-taken");
+      const { client: authClient, password } =
+        await createAuthenticatedClient("change-email-owner");
+
+      const response = await authClient.post("/api/v1/me/email", {
+        newEmail: takenEmail,
+        currentPassword: password,
+      });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe("API keys", () => {
+    interface CreatedApiKey {
+      apiKey: { id: string; prefix: string };
+      secret: string;
+    }
+
+    it("authenticates machine clients with a Bearer key until it is revoked", async () => {
+      const { client: authClient } = await createAuthenticatedClient("api-key");
+
+      const created = await authClient.post<ApiResponse<CreatedApiKey>>(
+        "/api/v1/me/api-keys",
+        { name: "CI", scopes: ["profile:read"], expiresInDays: 30 }
+      );
+      expect(created.ok).toBe(true);
+      const { apiKey, secret } = created.data.data;
+      expect(secret.startsWith(apiKey.prefix)).toBe(true);
+
+      // No cookies - only the key
+      const headers = { Authorization: `Bearer ${secret}` };
+      const profile = await client.get("/api/v1/user/profile", { headers });
+      expect(profile.ok).toBe(true);
+
+      // Account security routes need the browser session
+      const sessions = await client.get("/api/v1/me/sessions", { headers });
+      expect(sessions.status).toBe(403);
+
+      await authClient.delete(`/api/v1/me/api-keys/${apiKey.id}`);
+      const revoked = await client.get("/api/v1/user/profile", { headers });
+      expect(revoked.status).toBe(401);
+    });
+
+    it("refuses scopes the user doesn't have", async () => {
+      const { client: authClient } = await createAuthenticatedClient("api-key-scope");
+
+      const response = await authClient.post<ApiResponse>("/api/v1/me/api-keys", {
+        name: "Too much",
+        scopes: ["users:delete"],
+      });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("DELETE /api/v1/me/impersonation", () => {
+    it("rejects when not impersonating", async () => {
+      const { client: authClient } = await createAuthenticatedClient("impersonation");
+
+      const response = await authClient.delete<ApiResponse>("/api/v1/me/impersonation");
+
+      expect(response.status).toBe(422);
+    });
+  });
+
+  describe("DELETE /api/v1/me/deletion", () => {
+    it("rejects when no deletion is scheduled", async () => {
+      const { client: authClient } = await createAuthenticatedClient("deletion");
+
+      const response = await authClient.delete<ApiResponse>("/api/v1/me/deletion");
+
+      expect(response.status).toBe(422);
+    });
+  });
+
+  describe("GET /api/v1/me/export", () => {
+    it("downloads the user's data", async () => {
+      const { client: authClient, email } = await createAuthenticatedClient("export");
+
+      const response = await authClient.get<any>("/api/v1/me/export");
+
+      expect(response.ok).toBe(true);
+      expect(response.data.user.email).toBe(email);
+      expect(response.data.user).not.toHaveProperty("passwordHash");
+    });
+  });
+
+  describe("POST /api/v1/auth/magic-link", () => {
+    it("answers the same for unknown addresses", async () => {
+      const response = await client.post<ApiResponse>("/api/v1/auth/magic-link", {
+        email: uniqueEmail("magic-unknown"),
+      });
+
+      expect(response.ok).toBe(true);
+      expect(response.data.success).toBe(true);
+    });
+
+    it("rejects an invalid sign-in link", async () => {
+      const response = await client.post<ApiResponse>("/api/v1/auth/magic-link/verify", {
+        token: "not-a-token",
+      });
+
+      expect(response.status).toBe(401);
+    });
+  });
 });
 
 describe("Health Check", () => {
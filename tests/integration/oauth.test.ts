@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { TestClient } from "./utils/client";
+import { signInWithMockOidc, uniqueEmail } from "./utils/auth";
+
+// Response types
+interface ApiResponse<T = unknown> {
+  success?: boolean;
+  message: string;
+  data: T;
+  error?: { traceID: string; code: string; message?: string } | null;
+}
+
+/**
+ * Integration Tests for OAuth sign-in
+ *
+ * Uses the mock OpenID Connect provider (server/api/dev/oidc), which is
+ * only available in development and test.
+ *
+ * Prerequisites:
+ * 1. npm run db:reset:local:test
+ * 2. npm run dev:test (in a separate terminal)
+ */
+describe("OAuth", () => {
+  let client: TestClient;
+
+  beforeEach(() => {
+    client = new TestClient();
+  });
+
+  describe("GET /api/auth/providers", () => {
+    it("lists the mock provider in the test environment", async () => {
+      const response = await client.get<ApiResponse<{ id: string; name: string }[]>>(
+        "/api/auth/providers"
+      );
+
+      expect(response.ok).toBe(true);
+      expect(response.data.data).toContainEqual({ id: "mock", name: "Mock OIDC" });
+    });
+  });
+
+  describe("GET /api/auth/:provider/authorize", () => {
+    it("redirects to the provider with state", async () => {
+      const response = await client.get("/api/auth/mock/authorize", {
+        redirect: "manual",
+      });
+      const location = new URL(response.headers.get("location")!);
+
+      expect(response.status).toBe(302);
+      expect(location.pathname).toBe("/api/dev/oidc/authorize");
+      expect(location.searchParams.get("client_id")).toBe("mock-client");
+      expect(location.searchParams.get("state")).toBeTruthy();
+      expect(location.searchParams.get("code_challenge_method")).toBe("S256");
+      expect(response.headers.get("set-cookie")).toContain("oauth_pkce_mock=");
+    });
+
+    it("returns 404 for unknown providers", async () => {
+      const response = await client.get("/api/auth/myspace/authorize", {
+        redirect: "manual",
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /api/auth/:provider/callback", () => {
+    it("creates the user and signs them in", async () => {
+      const email = uniqueEmail("oidc");
+
+      const destination = await signInWithMockOidc(client, email);
+      const profile = await client.get<ApiResponse<{ email: string }>>(
+        "/api/v1/user/profile"
+      );
+
+      expect(destination).toBe("/");
+      expect(profile.ok).toBe(true);
+      expect(profile.data.data.email).toBe(email);
+    });
+
+    it("signs an existing OAuth user back in", async () => {
+      const email = uniqueEmail("oidc-again");
+      await signInWithMockOidc(new TestClient(), email);
+
+      expect(await signInWithMockOidc(client, email)).toBe("/");
+    });
+
+    it("returns to the page that asked for sign-in", async () => {
+      const email = uniqueEmail("oidc-redirect");
+
+      expect(await signInWithMockOidc(client, email, "/settings?tab=security")).toBe(
+        "/settings?tab=security"
+      );
+    });
+
+    it("ignores a redirectTo outside the app", async () => {
+      const email = uniqueEmail("oidc-open-redirect");
+
+      expect(await signInWithMockOidc(client, email, "//evil.example.com")).toBe("/");
+    });
+
+    it("rejects a forged state", async () => {
+      const response = await client.get(
+        "/api/auth/mock/callback?code=abc&state=forged",
+        { redirect: "manual" }
+      );
+
+      expect(response.status).toBe(302);
+      expect(response.headers.get("location")).toBe("/auth/error?code=INVALID_TOKEN");
+    });
+
+    it("rejects a state started in another browser", async () => {
+      const authorize = await new TestClient().get("/api/auth/mock/authorize", {
+        redirect: "manual",
+      });
+      const provider = await new TestClient().get(authorize.headers.get("location")!, {
+        redirect: "manual",
+      });
+
+      // Callback URL (code + state) replayed without the PKCE cookie
+      const response = await client.get(provider.headers.get("location")!, {
+        redirect: "manual",
+      });
+
+      expect(response.headers.get("location")).toBe("/auth/error?code=INVALID_TOKEN");
+    });
+
+    it("reports a sign-in denied at the provider", async () => {
+      const response = await client.get("/api/auth/mock/callback?error=access_denied", {
+        redirect: "manual",
+      });
+
+      expect(response.headers.get("location")).toBe(
+        "/auth/error?code=OAUTH_PROVIDER_ERROR"
+      );
+    });
+
+    it("rejects an invalid authorization code", async () => {
+      const authorize = await client.get("/api/auth/mock/authorize", {
+        redirect: "manual",
+      });
+      const state = new URL(authorize.headers.get("location")!).searchParams.get("state")!;
+
+      const response = await client.get(
+        `/api/auth/mock/callback?code=abc&state=${encodeURIComponent(state)}`,
+        { redirect: "manual" }
+      );
+
+      expect(response.status).toBe(302);
+      expect(response.headers.get("location")).toBe(
+        "/auth/error?code=EXTERNAL_SERVICE_ERROR"
+      );
+    });
+  });
+
+  describe("Linked accounts", () => {
+    interface LoginMethods {
+      hasPassword: boolean;
+      identities: { id: string; provider: string; email: string | null }[];
+      passkeys: number;
+    }
+
+    it("lists the provider an OAuth-only user signed up with", async () => {
+      const email = uniqueEmail("oidc-linked");
+      await signInWithMockOidc(client, email);
+
+      const response = await client.get<ApiResponse<LoginMethods>>("/api/v1/me/identities");
+
+      expect(response.ok).toBe(true);
+      expect(response.data.data.hasPassword).toBe(false);
+      expect(response.data.data.identities).toEqual([
+        expect.objectContaining({ provider: "mock", email }),
+      ]);
+    });
+
+    it("refuses to unlink the last way to sign in", async () => {
+      await signInWithMockOidc(client, uniqueEmail("oidc-last"));
+      const methods = await client.get<ApiResponse<LoginMethods>>("/api/v1/me/identities");
+
+      const response = await client.delete<ApiResponse>(
+        `/api/v1/me/identities/${methods.data.data.identities[0]!.id}`
+      );
+
+      expect(response.status).toBe(409);
+      expect(response.data.error?.code).toBe("LAST_LOGIN_METHOD");
+    });
+
+    it("unlinks once the user has set a password", async () => {
+      await signInWithMockOidc(client, uniqueEmail("oidc-password"));
+
+      const setPassword = await client.post<ApiResponse>("/api/v1/me/password", {
+        newPassword: "Password123",
+        newPasswordConfirmation: "Password123",
+      });
+      expect(setPassword.ok).toBe(true);
+
+      const methods = await client.get<ApiResponse<LoginMethods>>("/api/v1/me/identities");
+      expect(methods.data.data.hasPassword).toBe(true);
+
+      const response = await client.delete<ApiResponse>(
+        `/api/v1/me/identities/${methods.data.data.identities[0]!.id}`
+      );
+      expect(response.ok).toBe(true);
+    });
+
+    it("starts linking with a provider authorization URL", async () => {
+      await signInWithMockOidc(client, uniqueEmail("oidc-link"));
+
+      const response = await client.post<ApiResponse<{ authorizationUrl: string }>>(
+        "/api/v1/me/identities",
+        { provider: "mock" }
+      );
+
+      expect(response.ok).toBe(true);
+      expect(new URL(response.data.data.authorizationUrl).pathname).toBe(
+        "/api/dev/oidc/authorize"
+      );
+    });
+  });
+});
@@ -115,3 +115,35 @@ export async function signOut(client: TestClient): Promise<void> {
   await client.post("/api/v1/auth/signout");
   client.clearCookies();
 }
+
+/**
+ * Sign in through the mock OpenID Connect provider (/api/dev/oidc)
+ * Follows the authorize -> provider -> callback redirects by hand and
+ * returns where the callback sent the browser ("/" once signed in)
+ */
+export async function signInWithMockOidc(
+  client: TestClient,
+  email: string,
+  redirectTo?: string
+): Promise<string> {
+  const query = new URLSearchParams({ login_hint: email });
+  if (redirectTo) {
+    query.set("redirectTo", redirectTo);
+  }
+  let location = `/api/auth/mock/authorize?${query.toString()}`;
+
+  // authorize -> mock provider -> callback
+  for (let hop = 0; hop < 3; hop++) {
+    const response = await client.get(location, { redirect: "manual" });
+    const next = response.headers.get("location");
+
+    if (response.status < 300 || response.status >= 400 || !next) {
+      throw new Error(
+        `Mock OIDC sign in failed for ${email}: ${response.status} - ${JSON.stringify(response.data)}`
+      );
+    }
+    location = next;
+  }
+
+  return location;
+}
@@ -1,4 +1,8 @@
 import { BASE_URL } from "../config";
+import {
+  TURNSTILE_TEST_TOKEN,
+  TURNSTILE_TOKEN_HEADER,
+} from "../../../shared/constants/turnstile";
 
 interface RequestOptions extends RequestInit {
   params?: Record<string, string>;
@@ -68,6 +72,10 @@ export class TestClient {
     if (!headers.has("Content-Type")) {
       headers.set("Content-Type", "application/json");
     }
+    // Pass Turnstile on protected routes (test-mode verifier)
+    if (!headers.has(TURNSTILE_TOKEN_HEADER)) {
+      headers.set(TURNSTILE_TOKEN_HEADER, TURNSTILE_TEST_TOKEN);
+    }
 
     const response = await fetch(url.toString(), {
       ...options,
@@ -45,6 +45,10 @@ global.getUserSession = vi.fn().mockResolvedValue(null)
 
 global.setUserSession = vi.fn().mockResolvedValue(undefined)
 
+global.replaceUserSession = vi.fn().mockResolvedValue(undefined)
+
+global.clearUserSession = vi.fn().mockResolvedValue(true)
+
 // ========================================
 // MOCK NUXT UTILITIES
 // ========================================
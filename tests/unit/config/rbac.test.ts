@@ -6,6 +6,9 @@ import {
   hasPermission,
   getRolePermissions,
   getCombinedPermissions,
+  restrictPermissions,
+  intersectPermissions,
+  UNVERIFIED_EMAIL_PERMISSIONS,
   type RoleName,
 } from "#server/config/rbac";
 
@@ -157,6 +160,26 @@ describe("getRolePermissions", () => {
     const permissions = getRolePermissions("");
     expect(permissions).toEqual([]);
   });
+
+  it("falls back to custom roles", () => {
+    const customRoles = {
+      support_agent: {
+        name: "Support Agent",
+        description: "",
+        permissions: ["users:read"],
+      },
+    };
+    expect(getRolePermissions("support_agent", customRoles)).toEqual([
+      "users:read",
+    ]);
+  });
+
+  it("never lets a custom role override a system role", () => {
+    const customRoles = {
+      user: { name: "User", description: "", permissions: ["*"] },
+    };
+    expect(getRolePermissions("user", customRoles)).not.toContain("*");
+  });
 });
 
 describe("getCombinedPermissions", () => {
@@ -190,3 +213,40 @@ describe("getCombinedPermissions", () => {
     expect(permissions).toContain("*");
   });
 });
+
+describe("restrictPermissions", () => {
+  it("keeps only allowed permissions", () => {
+    expect(
+      restrictPermissions(["users:read", "profile:read"], ["profile:read", "profile:update"])
+    ).toEqual(["profile:read"]);
+  });
+
+  it("expands wildcards to the allowed permissions", () => {
+    expect(restrictPermissions(["*"], UNVERIFIED_EMAIL_PERMISSIONS)).toEqual(
+      UNVERIFIED_EMAIL_PERMISSIONS
+    );
+  });
+
+  it("never grants more than the role has", () => {
+    expect(restrictPermissions([], UNVERIFIED_EMAIL_PERMISSIONS)).toEqual([]);
+  });
+});
+
+describe("intersectPermissions", () => {
+  it("narrows a wildcard role to the key's scopes", () => {
+    expect(intersectPermissions(["*"], ["users:read", "audit:read"])).toEqual([
+      "users:read",
+      "audit:read",
+    ]);
+  });
+
+  it("narrows a category scope to what the role grants", () => {
+    expect(
+      intersectPermissions(["users:read", "roles:read"], ["users:*"])
+    ).toEqual(["users:read"]);
+  });
+
+  it("grants nothing outside either list", () => {
+    expect(intersectPermissions(["profile:read"], ["users:read"])).toEqual([]);
+  });
+});
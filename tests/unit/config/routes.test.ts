@@ -0,0 +1,236 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchesRoutePath,
+  getRoutePermissions,
+  findUnconfiguredRoutes,
+  getRateLimitConfig,
+  isPublicRoute,
+  isBlockedWhileImpersonating,
+  isSessionOnlyRoute,
+  requiresTurnstile,
+  requiresVerifiedEmail,
+} from "#server/config/routes";
+
+describe("Route Configuration", () => {
+  // ========================================
+  // PATH MATCHING
+  // ========================================
+
+  describe("matchesRoutePath", () => {
+    it("matches exact paths", () => {
+      expect(matchesRoutePath("/api/v1/roles", "/api/v1/roles")).toBe(true);
+      expect(matchesRoutePath("/api/v1/roles", "/api/v1/rolesx")).toBe(false);
+    });
+
+    it("matches path params against any non-empty segment", () => {
+      expect(
+        matchesRoutePath("/api/v1/users/:userId/roles", "/api/v1/users/u-1/roles")
+      ).toBe(true);
+      expect(
+        matchesRoutePath("/api/v1/users/:userId/roles", "/api/v1/users//roles")
+      ).toBe(false);
+      expect(matchesRoutePath("/api/v1/roles/:id", "/api/v1/roles")).toBe(false);
+    });
+
+    it("ignores query strings and trailing slashes", () => {
+      expect(matchesRoutePath("/api/v1/user", "/api/v1/user?page=2")).toBe(true);
+      expect(matchesRoutePath("/api/v1/user", "/api/v1/user/")).toBe(true);
+    });
+
+    it("treats a trailing slash in the pattern as a prefix", () => {
+      expect(
+        matchesRoutePath("/api/v1/auth/invites/", "/api/v1/auth/invites/abc")
+      ).toBe(true);
+    });
+  });
+
+  // ========================================
+  // PERMISSIONS
+  // ========================================
+
+  describe("getRoutePermissions", () => {
+    it("resolves method-specific permissions", () => {
+      expect(getRoutePermissions("/api/v1/roles", "GET")).toEqual(["roles:read"]);
+      expect(getRoutePermissions("/api/v1/roles", "POST")).toEqual([
+        "roles:create",
+      ]);
+      expect(getRoutePermissions("/api/v1/roles/editor", "delete")).toEqual([
+        "roles:delete",
+      ]);
+    });
+
+    it("resolves permissions for routes with params", () => {
+      expect(getRoutePermissions("/api/v1/users/u-1/roles", "GET")).toEqual([
+        "users:read",
+      ]);
+    });
+
+    it("prefers literal entries listed before param entries", () => {
+      expect(getRoutePermissions("/api/v1/user/profile", "GET")).toBeUndefined();
+      expect(getRoutePermissions("/api/v1/user/u-1", "GET")).toEqual([
+        "users:read",
+      ]);
+    });
+
+    it("returns undefined for routes without permission requirements", () => {
+      expect(getRoutePermissions("/api/v1/workspaces", "GET")).toBeUndefined();
+      expect(getRoutePermissions("/api/v1/unknown", "GET")).toBeUndefined();
+    });
+  });
+
+  describe("requiresTurnstile", () => {
+    it("requires Turnstile on public auth forms", () => {
+      expect(requiresTurnstile("/api/v1/auth/signin", "POST")).toBe(true);
+      expect(requiresTurnstile("/api/v1/auth/signup", "POST")).toBe(true);
+      expect(requiresTurnstile("/api/v1/auth/password/reset/request", "POST")).toBe(true);
+      expect(requiresTurnstile("/api/v1/auth/magic-link", "POST")).toBe(true);
+    });
+
+    it("does not require Turnstile elsewhere", () => {
+      expect(requiresTurnstile("/api/v1/auth/password/reset", "PUT")).toBe(false);
+      expect(requiresTurnstile("/api/v1/roles", "GET")).toBe(false);
+    });
+  });
+
+  describe("isSessionOnlyRoute", () => {
+    it("keeps API keys away from account security routes", () => {
+      expect(isSessionOnlyRoute("/api/v1/me/password", "PUT")).toBe(true);
+      expect(isSessionOnlyRoute("/api/v1/me/api-keys", "POST")).toBe(true);
+      expect(isSessionOnlyRoute("/api/v1/me/sessions/abc", "DELETE")).toBe(true);
+      expect(isSessionOnlyRoute("/api/v1/workspaces/ws-1/switch", "POST")).toBe(true);
+      expect(isSessionOnlyRoute("/api/v1/me/deletion", "POST")).toBe(true);
+      expect(isSessionOnlyRoute("/api/v1/me/export", "GET")).toBe(true);
+    });
+
+    it("allows API keys elsewhere", () => {
+      expect(isSessionOnlyRoute("/api/v1/user", "GET")).toBe(false);
+      expect(isSessionOnlyRoute("/api/v1/roles/role-1", "PUT")).toBe(false);
+    });
+  });
+
+  describe("isBlockedWhileImpersonating", () => {
+    it("refuses credential changes while impersonating", () => {
+      expect(isBlockedWhileImpersonating("/api/v1/me/password", "PUT")).toBe(true);
+      expect(isBlockedWhileImpersonating("/api/v1/me/email", "POST")).toBe(true);
+      expect(isBlockedWhileImpersonating("/api/v1/me/api-keys", "POST")).toBe(true);
+      expect(
+        isBlockedWhileImpersonating("/api/v1/users/u-1/impersonate", "POST")
+      ).toBe(true);
+      expect(isBlockedWhileImpersonating("/api/v1/me/deletion", "POST")).toBe(true);
+      expect(isBlockedWhileImpersonating("/api/v1/me/sessions", "DELETE")).toBe(true);
+      expect(isBlockedWhileImpersonating("/api/v1/me/sessions/abc", "DELETE")).toBe(true);
+      expect(isBlockedWhileImpersonating("/api/v1/me/api-keys/key-1", "DELETE")).toBe(
+        true
+      );
+      expect(isBlockedWhileImpersonating("/api/v1/me/export", "GET")).toBe(true);
+    });
+
+    it("allows browsing as the user", () => {
+      expect(isBlockedWhileImpersonating("/api/v1/me/api-keys", "GET")).toBe(false);
+      expect(isBlockedWhileImpersonating("/api/v1/me/sessions", "GET")).toBe(false);
+      expect(isBlockedWhileImpersonating("/api/v1/user/profile", "GET")).toBe(false);
+      expect(isBlockedWhileImpersonating("/api/v1/me/impersonation", "DELETE")).toBe(
+        false
+      );
+    });
+  });
+
+  describe("requiresVerifiedEmail", () => {
+    it("marks workspace, invite and API key mutations", () => {
+      expect(requiresVerifiedEmail("/api/v1/workspaces/ws-1/invites", "POST")).toBe(true);
+      expect(
+        requiresVerifiedEmail("/api/v1/workspaces/ws-1/invites/inv-1", "DELETE")
+      ).toBe(true);
+      expect(requiresVerifiedEmail("/api/v1/workspaces/ws-1/transfer", "POST")).toBe(true);
+      expect(requiresVerifiedEmail("/api/v1/workspaces/ws-1/settings", "PUT")).toBe(true);
+      expect(requiresVerifiedEmail("/api/v1/me/api-keys", "POST")).toBe(true);
+    });
+
+    it("leaves reads and onboarding open", () => {
+      expect(requiresVerifiedEmail("/api/v1/workspaces/ws-1/invites", "GET")).toBe(false);
+      expect(requiresVerifiedEmail("/api/v1/me/api-keys", "GET")).toBe(false);
+      expect(requiresVerifiedEmail("/api/v1/workspaces", "POST")).toBe(false);
+      expect(requiresVerifiedEmail("/api/v1/invites/accept", "POST")).toBe(false);
+    });
+  });
+
+  // ========================================
+  // STARTUP CHECK
+  // ========================================
+
+  describe("findUnconfiguredRoutes", () => {
+    it("reports API routes missing from ROUTE_CONFIG", () => {
+      const unconfigured = findUnconfiguredRoutes([
+        { route: "/api/v1/roles/:id", method: "put" },
+        { route: "/api/v1/widgets", method: "get" },
+        { route: "/api/v1/auth/invites/:token", method: "get" },
+        { route: "/_nuxt/**" },
+        { route: undefined },
+      ]);
+
+      expect(unconfigured).toEqual([{ route: "/api/v1/widgets", method: "get" }]);
+    });
+
+    it("reports methods not covered by method-specific entries", () => {
+      expect(
+        findUnconfiguredRoutes([{ route: "/api/v1/roles/:id", method: "patch" }])
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("isPublicRoute", () => {
+    it("keeps prefix matching for public routes", () => {
+      expect(isPublicRoute("/api/_auth/session/verify")).toBe(true);
+      expect(isPublicRoute("/api/v1/roles")).toBe(false);
+    });
+
+    it("matches public routes with params", () => {
+      expect(isPublicRoute("/api/auth/mock/authorize")).toBe(true);
+      expect(isPublicRoute("/api/auth/mock/callback?code=abc")).toBe(true);
+    });
+  });
+
+  // ========================================
+  // RATE LIMITS
+  // ========================================
+
+  describe("getRateLimitConfig", () => {
+    it("rate limits every OAuth provider", () => {
+      for (const provider of ["google", "github", "microsoft", "oidc", "mock"]) {
+        expect(getRateLimitConfig(`/api/auth/${provider}/authorize`)?.binding).toBe(
+          "OAUTH_AUTHORIZE_LIMITER"
+        );
+        expect(getRateLimitConfig(`/api/auth/${provider}/callback`)?.binding).toBe(
+          "OAUTH_CALLBACK_LIMITER"
+        );
+      }
+    });
+
+    it("rate limits password and email changes", () => {
+      expect(getRateLimitConfig("/api/v1/me/password")?.binding).toBe(
+        "ACCOUNT_CREDENTIALS_LIMITER"
+      );
+      expect(getRateLimitConfig("/api/v1/me/email")?.binding).toBe(
+        "ACCOUNT_CREDENTIALS_LIMITER"
+      );
+    });
+
+    it("rate limits magic link requests but not their use", () => {
+      expect(getRateLimitConfig("/api/v1/auth/magic-link")?.binding).toBe(
+        "AUTH_MAGIC_LINK_LIMITER"
+      );
+      expect(getRateLimitConfig("/api/v1/auth/magic-link/verify")).toBeUndefined();
+    });
+
+    it("ignores query strings", () => {
+      expect(
+        getRateLimitConfig("/api/auth/github/callback?code=abc&state=xyz")
+      ).toEqual({ binding: "OAUTH_CALLBACK_LIMITER", limit: 5, period: 60 });
+    });
+
+    it("returns undefined for routes without rate limiting", () => {
+      expect(getRateLimitConfig("/api/auth/providers")).toBeUndefined();
+      expect(getRateLimitConfig("/api/v1/roles")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,419 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getCookie, setCookie } from "h3";
+import {
+  buildAuthorizationUrl,
+  completeOAuthAuthorization,
+  createCodeChallenge,
+  exchangeAuthorizationCode,
+  generateCodeVerifier,
+  generateOAuthStateToken,
+  getOAuthProvider,
+  listOAuthProviders,
+  profileFromOidcClaims,
+  signMockOidcToken,
+  verifyMockOidcToken,
+  verifyOAuthStateToken,
+  mockOidcClaims,
+  sanitizeRedirectPath,
+  startOAuthAuthorization,
+} from "#server/lib/oauth";
+import { InvalidTokenError, OAuthProviderError } from "#server/error/errors";
+import { createMockH3Event } from "../../helpers/mocks";
+
+vi.mock("h3", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("h3")>()),
+  getRequestURL: () => new URL("https://app.example.com/api/auth/mock/authorize"),
+  getCookie: vi.fn(),
+  setCookie: vi.fn(),
+  deleteCookie: vi.fn(),
+}));
+
+const defaultConfig = {
+  public: { environment: "test" },
+  jwtSecret: "test-jwt-secret",
+};
+
+function mockConfig(overrides: Record<string, unknown>) {
+  vi.mocked(useRuntimeConfig).mockReturnValue({ ...defaultConfig, ...overrides } as any);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("OAuth Library", () => {
+  let mockEvent: any;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockEvent = createMockH3Event();
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(useRuntimeConfig).mockReturnValue(defaultConfig as any);
+  });
+
+  // ========================================
+  // PROVIDER REGISTRY
+  // ========================================
+
+  describe("listOAuthProviders", () => {
+    it("lists configured providers only", () => {
+      mockConfig({
+        oauth: {
+          google: { clientId: "g-id", clientSecret: "g-secret" },
+          github: { clientId: "gh-id", clientSecret: "" },
+        },
+      });
+
+      expect(listOAuthProviders(mockEvent)).toEqual([
+        { id: "google", name: "Google" },
+        { id: "mock", name: "Mock OIDC" },
+      ]);
+    });
+
+    it("hides the mock provider outside development and test", () => {
+      mockConfig({ public: { environment: "production" } });
+
+      expect(listOAuthProviders(mockEvent)).toEqual([]);
+    });
+
+    it("requires a discovery URL for the generic OIDC provider", () => {
+      mockConfig({
+        public: { environment: "production" },
+        oauth: { oidc: { name: "Acme SSO", clientId: "id", clientSecret: "secret" } },
+      });
+      expect(listOAuthProviders(mockEvent)).toEqual([]);
+
+      mockConfig({
+        public: { environment: "production" },
+        oauth: {
+          oidc: {
+            name: "Acme SSO",
+            clientId: "id",
+            clientSecret: "secret",
+            discoveryUrl: "https://sso.acme.test/.well-known/openid-configuration",
+          },
+        },
+      });
+      expect(listOAuthProviders(mockEvent)).toEqual([{ id: "oidc", name: "Acme SSO" }]);
+    });
+  });
+
+  describe("getOAuthProvider", () => {
+    it("returns null for unknown or unconfigured providers", async () => {
+      expect(await getOAuthProvider(mockEvent, "myspace")).toBeNull();
+      expect(await getOAuthProvider(mockEvent, "google")).toBeNull();
+      expect(await getOAuthProvider(mockEvent, undefined)).toBeNull();
+    });
+
+    it("resolves OIDC endpoints from the discovery document once", async () => {
+      mockConfig({
+        oauth: {
+          oidc: {
+            clientId: "id",
+            clientSecret: "secret",
+            discoveryUrl: "https://sso.example.test/.well-known/openid-configuration",
+          },
+        },
+      });
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({
+          authorization_endpoint: "https://sso.example.test/authorize",
+          token_endpoint: "https://sso.example.test/token",
+          userinfo_endpoint: "https://sso.example.test/userinfo",
+        })
+      );
+
+      const provider = await getOAuthProvider(mockEvent, "oidc");
+      await getOAuthProvider(mockEvent, "oidc");
+
+      expect(provider).toMatchObject({
+        id: "oidc",
+        name: "Single Sign-On",
+        endpoints: {
+          authorizationUrl: "https://sso.example.test/authorize",
+          tokenUrl: "https://sso.example.test/token",
+          userInfoUrl: "https://sso.example.test/userinfo",
+        },
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("points the mock provider at the built-in discovery endpoint", async () => {
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({
+          authorization_endpoint: "https://app.example.com/api/dev/oidc/authorize",
+          token_endpoint: "https://app.example.com/api/dev/oidc/token",
+          userinfo_endpoint: "https://app.example.com/api/dev/oidc/userinfo",
+        })
+      );
+
+      const provider = await getOAuthProvider(mockEvent, "mock");
+
+      expect(fetchMock.mock.calls[0]![0]).toBe(
+        "https://app.example.com/api/dev/oidc/openid-configuration"
+      );
+      expect(provider?.clientId).toBe("mock-client");
+    });
+
+    it("uses the verified primary GitHub email", async () => {
+      mockConfig({ oauth: { github: { clientId: "gh-id", clientSecret: "gh-secret" } } });
+      fetchMock
+        .mockResolvedValueOnce(
+          jsonResponse({ id: 42, login: "octocat", name: "Mona Lisa Octocat", avatar_url: "https://a.test/42" })
+        )
+        .mockResolvedValueOnce(
+          jsonResponse([
+            { email: "old@example.com", primary: false, verified: true },
+            { email: "mona@example.com", primary: true, verified: true },
+          ])
+        );
+
+      const provider = await getOAuthProvider(mockEvent, "github");
+      const profile = await provider!.fetchProfile("gh-token");
+
+      expect(profile).toEqual({
+        providerId: "42",
+        email: "mona@example.com",
+        emailVerified: true,
+        firstName: "Mona",
+        lastName: "Lisa Octocat",
+        picture: "https://a.test/42",
+      });
+      expect(fetchMock.mock.calls[1]![0]).toBe("https://api.github.com/user/emails");
+    });
+  });
+
+  // ========================================
+  // AUTHORIZATION CODE FLOW
+  // ========================================
+
+  describe("buildAuthorizationUrl", () => {
+    it("adds client, scopes, state and provider parameters", async () => {
+      mockConfig({ oauth: { google: { clientId: "g-id", clientSecret: "g-secret" } } });
+      const provider = await getOAuthProvider(mockEvent, "google");
+
+      const url = new URL(
+        buildAuthorizationUrl(provider!, "https://app.example.com/api/auth/google/callback", "state-1", {
+          login_hint: "user@example.com",
+        })
+      );
+
+      expect(url.origin + url.pathname).toBe("https://accounts.google.com/o/oauth2/v2/auth");
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        client_id: "g-id",
+        redirect_uri: "https://app.example.com/api/auth/google/callback",
+        response_type: "code",
+        scope: "openid email profile",
+        state: "state-1",
+        access_type: "offline",
+        prompt: "consent",
+        login_hint: "user@example.com",
+      });
+    });
+  });
+
+  describe("exchangeAuthorizationCode", () => {
+    it("rejects token responses without an access token", async () => {
+      mockConfig({ oauth: { github: { clientId: "gh-id", clientSecret: "gh-secret" } } });
+      const provider = await getOAuthProvider(mockEvent, "github");
+      fetchMock.mockResolvedValue(jsonResponse({ error: "bad_verification_code" }));
+
+      await expect(
+        exchangeAuthorizationCode(provider!, "code", "https://app.example.com/cb", "verifier")
+      ).rejects.toThrow("bad_verification_code");
+    });
+
+    it("sends the PKCE code_verifier", async () => {
+      mockConfig({ oauth: { google: { clientId: "g-id", clientSecret: "g-secret" } } });
+      const provider = await getOAuthProvider(mockEvent, "google");
+      fetchMock.mockResolvedValue(jsonResponse({ access_token: "token" }));
+
+      await exchangeAuthorizationCode(provider!, "code", "https://app.example.com/cb", "verifier");
+
+      const body = fetchMock.mock.calls[0]![1].body as URLSearchParams;
+      expect(body.get("code_verifier")).toBe("verifier");
+    });
+  });
+
+  describe("startOAuthAuthorization", () => {
+    it("sends an S256 challenge and keeps the verifier in a cookie", async () => {
+      mockConfig({ oauth: { google: { clientId: "g-id", clientSecret: "g-secret" } } });
+      const provider = await getOAuthProvider(mockEvent, "google");
+
+      const url = new URL(
+        await startOAuthAuthorization(mockEvent, provider!, { redirectTo: "/settings?tab=1" })
+      );
+
+      const [, name, verifier, options] = vi.mocked(setCookie).mock.calls[0]!;
+      expect(name).toBe("oauth_pkce_google");
+      expect(options).toMatchObject({ httpOnly: true, sameSite: "lax" });
+      expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+      expect(url.searchParams.get("code_challenge")).toBe(await createCodeChallenge(verifier));
+
+      await expect(
+        verifyOAuthStateToken(url.searchParams.get("state")!, "google", verifier, mockEvent)
+      ).resolves.toMatchObject({ redirectTo: "/settings?tab=1" });
+    });
+  });
+
+  describe("completeOAuthAuthorization", () => {
+    it("reports provider errors", async () => {
+      const provider = await getOAuthProvider(mockEvent, "mock");
+
+      await expect(
+        completeOAuthAuthorization(mockEvent, provider!, { error: "access_denied" })
+      ).rejects.toThrow(OAuthProviderError);
+    });
+
+    it("rejects a callback without the PKCE cookie", async () => {
+      const provider = await getOAuthProvider(mockEvent, "mock");
+      const codeChallenge = await createCodeChallenge(generateCodeVerifier());
+      const state = await generateOAuthStateToken("mock", { codeChallenge }, mockEvent);
+      vi.mocked(getCookie).mockReturnValue(undefined);
+
+      await expect(
+        completeOAuthAuthorization(mockEvent, provider!, { code: "code", state })
+      ).rejects.toThrow(InvalidTokenError);
+      expect(fetchMock).not.toHaveBeenCalledWith(
+        expect.stringContaining("/token"),
+        expect.anything()
+      );
+    });
+  });
+
+  describe("profileFromOidcClaims", () => {
+    it("treats a missing email_verified claim as unverified", () => {
+      expect(
+        profileFromOidcClaims({ sub: "abc", email: "user@example.com", name: "Ada Lovelace" })
+      ).toEqual({
+        providerId: "abc",
+        email: "user@example.com",
+        emailVerified: false,
+        firstName: "Ada",
+        lastName: "Lovelace",
+        picture: undefined,
+      });
+    });
+
+    it("requires sub and email", () => {
+      expect(() => profileFromOidcClaims({ sub: "abc" })).toThrow();
+    });
+  });
+
+  // ========================================
+  // TOKENS
+  // ========================================
+
+  describe("OAuth state token", () => {
+    let codeVerifier: string;
+    let codeChallenge: string;
+
+    beforeEach(async () => {
+      codeVerifier = generateCodeVerifier();
+      codeChallenge = await createCodeChallenge(codeVerifier);
+    });
+
+    it("is bound to the provider it was issued for", async () => {
+      const state = await generateOAuthStateToken("github", { codeChallenge }, mockEvent);
+
+      await expect(
+        verifyOAuthStateToken(state, "github", codeVerifier, mockEvent)
+      ).resolves.toMatchObject({
+        purpose: "oauth-state",
+        provider: "github",
+      });
+      await expect(
+        verifyOAuthStateToken(state, "google", codeVerifier, mockEvent)
+      ).rejects.toThrow(InvalidTokenError);
+    });
+
+    it("is bound to the browser holding the code verifier", async () => {
+      const state = await generateOAuthStateToken("github", { codeChallenge }, mockEvent);
+
+      await expect(
+        verifyOAuthStateToken(state, "github", generateCodeVerifier(), mockEvent)
+      ).rejects.toThrow(InvalidTokenError);
+      await expect(
+        verifyOAuthStateToken(state, "github", undefined, mockEvent)
+      ).rejects.toThrow(InvalidTokenError);
+    });
+
+    it("carries the user linking the provider", async () => {
+      const state = await generateOAuthStateToken(
+        "github",
+        { codeChallenge, linkUserId: "user-1" },
+        mockEvent
+      );
+
+      await expect(
+        verifyOAuthStateToken(state, "github", codeVerifier, mockEvent)
+      ).resolves.toMatchObject({ linkUserId: "user-1" });
+    });
+  });
+
+  describe("sanitizeRedirectPath", () => {
+    it("keeps same-origin paths", () => {
+      expect(sanitizeRedirectPath("/settings?tab=security#mfa")).toBe(
+        "/settings?tab=security#mfa"
+      );
+    });
+
+    it("falls back to / for anything that could leave the app", () => {
+      for (const value of [
+        "https://evil.test",
+        "//evil.test",
+        "/\\evil.test",
+        "/ /evil.test",
+        "javascript:alert(1)",
+        "settings",
+        undefined,
+        ["/settings"],
+      ]) {
+        expect(sanitizeRedirectPath(value)).toBe("/");
+      }
+    });
+  });
+
+  describe("Mock OIDC tokens", () => {
+    it("round-trips the mock user claims", async () => {
+      const claims = mockOidcClaims("Tester@Example.com");
+      const code = await signMockOidcToken("mock-oidc-code", claims, mockEvent);
+
+      expect(claims).toMatchObject({ sub: "mock|tester@example.com", email_verified: true });
+      await expect(verifyMockOidcToken("mock-oidc-code", code, mockEvent)).resolves.toEqual(claims);
+    });
+
+    it("checks the PKCE verifier of a code", async () => {
+      const codeVerifier = generateCodeVerifier();
+      const code = await signMockOidcToken(
+        "mock-oidc-code",
+        mockOidcClaims(),
+        mockEvent,
+        await createCodeChallenge(codeVerifier)
+      );
+
+      await expect(
+        verifyMockOidcToken("mock-oidc-code", code, mockEvent, "wrong-verifier")
+      ).rejects.toThrow(InvalidTokenError);
+      await expect(
+        verifyMockOidcToken("mock-oidc-code", code, mockEvent, codeVerifier)
+      ).resolves.toMatchObject({ sub: "mock|oidc-user@example.com" });
+    });
+
+    it("does not accept an authorization code as access token", async () => {
+      const code = await signMockOidcToken("mock-oidc-code", mockOidcClaims(), mockEvent);
+
+      await expect(verifyMockOidcToken("mock-oidc-access", code, mockEvent)).rejects.toThrow(
+        InvalidTokenError
+      );
+    });
+  });
+});
@@ -1,8 +1,70 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
+import { getHeader } from "h3";
 import authMiddleware from "../../../server/middleware/02.auth";
-import { AuthenticationError } from "../../../server/error/errors";
+import {
+  AuthenticationError,
+  AuthorizationError,
+  EmailNotConfirmedError,
+} from "../../../server/error/errors";
+
+// Mock h3 utilities (vi.mock is hoisted above the imports)
+vi.mock("h3", async () => {
+  const actual = await vi.importActual("h3");
+  return {
+    ...actual,
+    getHeader: vi.fn(),
+  };
+});
+
+// Note: getUserSession, replaceUserSession and clearUserSession are
+// globally mocked in tests/setup.ts
+
+const mockRbacService = {
+  isEnabled: vi.fn(),
+  getPermissionVersion: vi.fn(),
+  getUserPermissions: vi.fn(),
+};
+
+vi.mock("#server/services/rbac", () => ({
+  getRBACService: vi.fn(() => mockRbacService),
+}));
+
+const mockSessionService = {
+  validateSession: vi.fn(),
+};
+
+vi.mock("#server/services/session", () => ({
+  createSessionService: vi.fn(() => mockSessionService),
+}));
+
+const mockIdentityService = {
+  getEmailVerificationStatus: vi.fn(),
+};
 
-// Note: getUserSession is globally mocked in tests/setup.ts
+vi.mock("#server/services/identity", () => ({
+  createIdentityService: vi.fn(() => mockIdentityService),
+}));
+
+const mockApiKeyService = {
+  authenticate: vi.fn(),
+};
+
+vi.mock("#server/services/apiKey", () => ({
+  createApiKeyService: vi.fn(() => mockApiKeyService),
+}));
+
+const mockImpersonationService = {
+  isImpersonationAllowed: vi.fn(),
+  stopImpersonation: vi.fn(),
+};
+
+vi.mock("#server/services/impersonation", () => ({
+  createImpersonationService: vi.fn(() => mockImpersonationService),
+}));
+
+vi.mock("#server/utils/session", () => ({
+  stopImpersonationSession: vi.fn(),
+}));
 
 describe("Authentication Middleware (02.auth)", () => {
   let mockEvent: any;
@@ -22,6 +84,21 @@ describe("Authentication Middleware (02.auth)", () => {
 
     // Reset global getUserSession mock
     global.getUserSession.mockResolvedValue(null);
+
+    // Cookie sessions unless a test sends an API key
+    vi.mocked(getHeader).mockReturnValue(undefined);
+    mockApiKeyService.authenticate.mockResolvedValue(null);
+
+    // Sessions are up to date unless a test says otherwise
+    mockRbacService.isEnabled.mockReturnValue(true);
+    mockRbacService.getPermissionVersion.mockResolvedValue(undefined);
+    mockRbacService.getUserPermissions.mockResolvedValue([]);
+    mockSessionService.validateSession.mockResolvedValue(true);
+    mockImpersonationService.isImpersonationAllowed.mockResolvedValue(true);
+    mockIdentityService.getEmailVerificationStatus.mockResolvedValue({
+      isEmailVerified: false,
+      policy: "off",
+    });
   });
 
   // ========================================
@@ -268,6 +345,369 @@ describe("Authentication Middleware (02.auth)", () => {
     });
   });
 
+  // ========================================
+  // SESSION REGISTRY TESTS
+  // ========================================
+
+  describe("Session Registry", () => {
+    beforeEach(() => {
+      mockEvent.path = "/api/v1/users";
+      global.getUserSession.mockResolvedValue({
+        user: { id: "user-123" },
+        sessionId: "session-1",
+        workspaceId: "test-workspace",
+      });
+    });
+
+    it("checks the cookie's session against the registry", async () => {
+      await authMiddleware(mockEvent);
+
+      expect(mockSessionService.validateSession).toHaveBeenCalledWith(
+        "session-1",
+        "user-123"
+      );
+      expect(mockEvent.context.userId).toBe("user-123");
+    });
+
+    it("clears the cookie of a revoked or expired session", async () => {
+      mockSessionService.validateSession.mockResolvedValue(false);
+
+      await expect(authMiddleware(mockEvent)).rejects.toThrow(
+        AuthenticationError
+      );
+      expect(global.clearUserSession).toHaveBeenCalledWith(mockEvent);
+      expect(mockEvent.context.userId).toBeUndefined();
+    });
+
+    it("checks the registry even when RBAC is disabled", async () => {
+      mockRbacService.isEnabled.mockReturnValue(false);
+      mockSessionService.validateSession.mockResolvedValue(false);
+
+      await expect(authMiddleware(mockEvent)).rejects.toThrow(
+        AuthenticationError
+      );
+    });
+  });
+
+  // ========================================
+  // PERMISSION VERSION TESTS
+  // ========================================
+
+  describe("Permission Version", () => {
+    const session = {
+      user: { id: "user-123" },
+      workspaceId: "test-workspace",
+      permissions: ["*"],
+      permissionVersion: 1,
+    };
+
+    beforeEach(() => {
+      mockEvent.path = "/api/v1/users";
+      global.getUserSession.mockResolvedValue(session);
+    });
+
+    it("keeps the session when the version is unchanged", async () => {
+      mockRbacService.getPermissionVersion.mockResolvedValue(1);
+
+      await authMiddleware(mockEvent);
+
+      expect(mockRbacService.getPermissionVersion).toHaveBeenCalledWith(
+        "user-123"
+      );
+      expect(global.replaceUserSession).not.toHaveBeenCalled();
+    });
+
+    it("refreshes session permissions when the version moved", async () => {
+      mockRbacService.getPermissionVersion.mockResolvedValue(2);
+      mockRbacService.getUserPermissions.mockResolvedValue(["profile:read"]);
+
+      await authMiddleware(mockEvent);
+
+      expect(global.replaceUserSession).toHaveBeenCalledWith(mockEvent, {
+        ...session,
+        permissions: ["profile:read"],
+        permissionVersion: 2,
+      });
+    });
+
+    it("refreshes legacy sessions carrying a timestamp version", async () => {
+      global.getUserSession.mockResolvedValue({
+        ...session,
+        permissionVersion: 1700000000000,
+      });
+      mockRbacService.getPermissionVersion.mockResolvedValue(0);
+
+      await authMiddleware(mockEvent);
+
+      expect(global.replaceUserSession).toHaveBeenCalledWith(
+        mockEvent,
+        expect.objectContaining({ permissionVersion: 0 })
+      );
+    });
+
+    it("clears the session of deleted or deactivated users", async () => {
+      mockRbacService.getPermissionVersion.mockResolvedValue(null);
+
+      await expect(authMiddleware(mockEvent)).rejects.toThrow(
+        AuthenticationError
+      );
+      expect(global.clearUserSession).toHaveBeenCalledWith(mockEvent);
+      expect(global.replaceUserSession).not.toHaveBeenCalled();
+    });
+
+    it("skips the check when RBAC is disabled", async () => {
+      mockRbacService.isEnabled.mockReturnValue(false);
+
+      await authMiddleware(mockEvent);
+
+      expect(mockEvent.context.userId).toBe("user-123");
+      expect(mockRbacService.getPermissionVersion).not.toHaveBeenCalled();
+    });
+  });
+
+  // ========================================
+  // EMAIL VERIFICATION POLICY TESTS
+  // ========================================
+
+  describe("Email Verification Policy", () => {
+    const session = {
+      user: { id: "user-123", isEmailVerified: false },
+      workspaceId: "test-workspace",
+      permissions: ["*"],
+      permissionVersion: 1,
+    };
+
+    beforeEach(() => {
+      mockEvent.path = "/api/v1/users";
+      global.getUserSession.mockResolvedValue(session);
+      mockRbacService.getPermissionVersion.mockResolvedValue(1);
+      mockRbacService.getUserPermissions.mockResolvedValue(["*"]);
+    });
+
+    it("skips the check for confirmed users", async () => {
+      global.getUserSession.mockResolvedValue({
+        ...session,
+        user: { id: "user-123", isEmailVerified: true },
+      });
+
+      await authMiddleware(mockEvent);
+
+      expect(
+        mockIdentityService.getEmailVerificationStatus
+      ).not.toHaveBeenCalled();
+    });
+
+    it("clears the session when the policy blocks unconfirmed users", async () => {
+      mockIdentityService.getEmailVerificationStatus.mockResolvedValue({
+        isEmailVerified: false,
+        policy: "block",
+      });
+
+      await expect(authMiddleware(mockEvent)).rejects.toThrow(
+        EmailNotConfirmedError
+      );
+      expect(global.clearUserSession).toHaveBeenCalledWith(mockEvent);
+    });
+
+    it("narrows session permissions under the restrict policy", async () => {
+      mockIdentityService.getEmailVerificationStatus.mockResolvedValue({
+        isEmailVerified: false,
+        policy: "restrict",
+      });
+
+      await authMiddleware(mockEvent);
+
+      expect(mockEvent.context.emailVerificationPending).toBe(true);
+      expect(global.replaceUserSession).toHaveBeenLastCalledWith(
+        mockEvent,
+        expect.objectContaining({
+          emailVerificationPending: true,
+          permissions: ["profile:read", "profile:update"],
+        })
+      );
+    });
+
+    it("lifts the restriction once the email is confirmed", async () => {
+      global.getUserSession.mockResolvedValue({
+        ...session,
+        emailVerificationPending: true,
+        permissions: ["profile:read", "profile:update"],
+      });
+      mockIdentityService.getEmailVerificationStatus.mockResolvedValue({
+        isEmailVerified: true,
+        policy: "off",
+      });
+
+      await authMiddleware(mockEvent);
+
+      expect(mockEvent.context.emailVerificationPending).toBe(false);
+      expect(global.replaceUserSession).toHaveBeenLastCalledWith(
+        mockEvent,
+        expect.objectContaining({
+          user: { id: "user-123", isEmailVerified: true },
+          emailVerificationPending: false,
+          permissions: ["*"],
+        })
+      );
+    });
+
+    it("leaves the session alone when the policy is off", async () => {
+      await authMiddleware(mockEvent);
+
+      expect(mockEvent.context.emailVerificationPending).toBe(false);
+      expect(global.replaceUserSession).not.toHaveBeenCalled();
+    });
+  });
+
+  // ========================================
+  // API KEY TESTS
+  // ========================================
+
+  describe("API Keys", () => {
+    const apiKey = {
+      id: "key-1",
+      userId: "user-123",
+      workspaceId: "key-workspace",
+      scopes: ["users:read"],
+    };
+    const user = { id: "user-123", isActive: true, isEmailVerified: true };
+
+    beforeEach(() => {
+      mockEvent.path = "/api/v1/users";
+      vi.mocked(getHeader).mockImplementation((_event, name) =>
+        name === "authorization" ? "Bearer pat_secret" : undefined
+      );
+      mockApiKeyService.authenticate.mockResolvedValue({ apiKey, user });
+    });
+
+    it("acts as the owner in the key's workspace, limited to its scopes", async () => {
+      await authMiddleware(mockEvent);
+
+      expect(mockApiKeyService.authenticate).toHaveBeenCalledWith("pat_secret");
+      expect(mockEvent.context.userId).toBe("user-123");
+      expect(mockEvent.context.workspaceId).toBe("key-workspace");
+      expect(mockEvent.context.apiKeyId).toBe("key-1");
+      expect(mockEvent.context.apiKeyScopes).toEqual(["users:read"]);
+      expect(global.getUserSession).not.toHaveBeenCalled();
+    });
+
+    it("rejects unknown, expired or revoked keys", async () => {
+      mockApiKeyService.authenticate.mockResolvedValue(null);
+
+      await expect(authMiddleware(mockEvent)).rejects.toThrow(AuthenticationError);
+      expect(mockEvent.context.userId).toBeUndefined();
+    });
+
+    it("refuses keys on session-only routes", async () => {
+      mockEvent.path = "/api/v1/me/password";
+      mockEvent.method = "PUT";
+
+      await expect(authMiddleware(mockEvent)).rejects.toThrow(AuthorizationError);
+      expect(mockApiKeyService.authenticate).not.toHaveBeenCalled();
+    });
+
+    it("applies the email verification policy", async () => {
+      mockApiKeyService.authenticate.mockResolvedValue({
+        apiKey,
+        user: { ...user, isEmailVerified: false },
+      });
+      mockIdentityService.getEmailVerificationStatus.mockResolvedValue({
+        isEmailVerified: false,
+        policy: "restrict",
+      });
+
+      await authMiddleware(mockEvent);
+
+      expect(mockEvent.context.emailVerificationPending).toBe(true);
+    });
+
+    it("ignores other authorization schemes", async () => {
+      vi.mocked(getHeader).mockReturnValue("Basic dXNlcjpwYXNz");
+
+      await expect(authMiddleware(mockEvent)).rejects.toThrow(AuthenticationError);
+      expect(mockApiKeyService.authenticate).not.toHaveBeenCalled();
+      expect(global.getUserSession).toHaveBeenCalled();
+    });
+  });
+
+  // ========================================
+  // IMPERSONATION TESTS
+  // ========================================
+
+  describe("Impersonation", () => {
+    const impersonatedSession = () => ({
+      user: { id: "user-123", email: "member@example.com" },
+      sessionId: "session-1",
+      workspaceId: "test-workspace",
+      permissions: [],
+      permissionVersion: undefined,
+      impersonation: {
+        impersonatorId: "admin-1",
+        impersonatorEmail: "admin@example.com",
+        startedAt: Date.now(),
+      },
+    });
+
+    beforeEach(() => {
+      mockEvent.path = "/api/v1/user/profile";
+      global.getUserSession.mockResolvedValue(impersonatedSession());
+    });
+
+    it("acts as the user and records the admin", async () => {
+      await authMiddleware(mockEvent);
+
+      expect(mockEvent.context.userId).toBe("user-123");
+      expect(mockEvent.context.impersonatorId).toBe("admin-1");
+    });
+
+    it("validates the admin's session row", async () => {
+      await authMiddleware(mockEvent);
+
+      expect(mockSessionService.validateSession).toHaveBeenCalledWith(
+        "session-1",
+        "admin-1"
+      );
+    });
+
+    it("refuses credential changes", async () => {
+      mockEvent.path = "/api/v1/me/password";
+      mockEvent.method = "PUT";
+
+      await expect(authMiddleware(mockEvent)).rejects.toThrow(AuthorizationError);
+    });
+
+    it("refuses creating API keys but allows listing them", async () => {
+      mockEvent.path = "/api/v1/me/api-keys";
+      mockEvent.method = "POST";
+      await expect(authMiddleware(mockEvent)).rejects.toThrow(AuthorizationError);
+
+      mockEvent.method = "GET";
+      await expect(authMiddleware(mockEvent)).resolves.not.toThrow();
+    });
+
+    it("hands the session back to the admin once no longer allowed", async () => {
+      const { stopImpersonationSession } = await import("#server/utils/session");
+      const admin = { id: "admin-1", email: "admin@example.com" };
+      mockImpersonationService.isImpersonationAllowed.mockResolvedValue(false);
+      mockImpersonationService.stopImpersonation.mockResolvedValue(admin);
+
+      await expect(authMiddleware(mockEvent)).rejects.toThrow(AuthorizationError);
+      expect(stopImpersonationSession).toHaveBeenCalledWith(mockEvent, admin);
+    });
+
+    it("leaves regular sessions alone", async () => {
+      global.getUserSession.mockResolvedValue({
+        ...impersonatedSession(),
+        impersonation: undefined,
+      });
+
+      await authMiddleware(mockEvent);
+
+      expect(mockEvent.context.impersonatorId).toBeUndefined();
+      expect(mockImpersonationService.isImpersonationAllowed).not.toHaveBeenCalled();
+    });
+  });
+
   // ========================================
   // EDGE CASES
   // ========================================
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import permissionsMiddleware from "../../../server/middleware/04.permissions";
+import {
+  AuthenticationError,
+  EmailNotConfirmedError,
+  PermissionDeniedError,
+} from "../../../server/error/errors";
+
+const mockRequirePermission = vi.fn();
+
+vi.mock("#server/services/rbac", () => ({
+  getRBACService: vi.fn(() => ({
+    requirePermission: mockRequirePermission,
+  })),
+}));
+
+describe("Route Permission Middleware (04.permissions)", () => {
+  let mockEvent: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRequirePermission.mockResolvedValue(undefined);
+
+    mockEvent = {
+      path: "/api/v1/roles",
+      method: "GET",
+      context: { userId: "user-123", workspaceId: "ws-1" },
+    };
+  });
+
+  it("ignores non-API routes", async () => {
+    mockEvent.path = "/roles";
+
+    await permissionsMiddleware(mockEvent);
+
+    expect(mockRequirePermission).not.toHaveBeenCalled();
+  });
+
+  it("ignores public routes", async () => {
+    mockEvent.path = "/api/v1/auth/signin";
+    mockEvent.method = "POST";
+    mockEvent.context = {};
+
+    await permissionsMiddleware(mockEvent);
+
+    expect(mockRequirePermission).not.toHaveBeenCalled();
+  });
+
+  it("ignores routes without declared permissions", async () => {
+    mockEvent.path = "/api/v1/user/profile";
+
+    await permissionsMiddleware(mockEvent);
+
+    expect(mockRequirePermission).not.toHaveBeenCalled();
+  });
+
+  it("requires the permission declared for the method", async () => {
+    mockEvent.method = "POST";
+
+    await permissionsMiddleware(mockEvent);
+
+    expect(mockRequirePermission).toHaveBeenCalledWith(
+      "user-123",
+      "roles:create"
+    );
+  });
+
+  it("matches routes with path params", async () => {
+    mockEvent.path = "/api/v1/users/user-456/roles";
+
+    await permissionsMiddleware(mockEvent);
+
+    expect(mockRequirePermission).toHaveBeenCalledWith("user-123", "users:read");
+  });
+
+  it("rejects users lacking the permission", async () => {
+    mockEvent.path = "/api/v1/roles/editor";
+    mockEvent.method = "DELETE";
+    mockRequirePermission.mockRejectedValue(
+      new PermissionDeniedError("roles:delete")
+    );
+
+    await expect(permissionsMiddleware(mockEvent)).rejects.toThrow(
+      PermissionDeniedError
+    );
+  });
+
+  it("requires an authenticated user for protected routes", async () => {
+    mockEvent.context = {};
+
+    await expect(permissionsMiddleware(mockEvent)).rejects.toThrow(
+      AuthenticationError
+    );
+    expect(mockRequirePermission).not.toHaveBeenCalled();
+  });
+
+  it("limits unconfirmed users under the restrict policy", async () => {
+    mockEvent.context.emailVerificationPending = true;
+
+    await expect(permissionsMiddleware(mockEvent)).rejects.toThrow(
+      EmailNotConfirmedError
+    );
+    expect(mockRequirePermission).not.toHaveBeenCalled();
+  });
+
+  it("refuses verifiedEmail routes to unconfirmed users", async () => {
+    mockEvent.path = "/api/v1/workspaces/ws-1/invites";
+    mockEvent.method = "POST";
+    mockEvent.context.emailVerificationPending = true;
+
+    await expect(permissionsMiddleware(mockEvent)).rejects.toThrow(
+      EmailNotConfirmedError
+    );
+  });
+
+  it("lets confirmed users through verifiedEmail routes", async () => {
+    mockEvent.path = "/api/v1/workspaces/ws-1/invites";
+    mockEvent.method = "POST";
+
+    await expect(permissionsMiddleware(mockEvent)).resolves.toBeUndefined();
+    // Workspace admin checks live in WorkspaceService
+    expect(mockRequirePermission).not.toHaveBeenCalled();
+  });
+
+  it("keeps routes without declared permissions open to unconfirmed users", async () => {
+    mockEvent.path = "/api/v1/user/profile";
+    mockEvent.context.emailVerificationPending = true;
+
+    await expect(permissionsMiddleware(mockEvent)).resolves.toBeUndefined();
+  });
+});
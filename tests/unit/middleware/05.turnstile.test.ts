@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { readBody, getHeader } from "h3";
+import turnstileMiddleware from "../../../server/middleware/05.turnstile";
+import {
+  CloudflareTurnstileVerifier,
+  TestTurnstileVerifier,
+  createTurnstileVerifier,
+} from "../../../server/lib/turnstile";
+import {
+  ExternalServiceError,
+  TurnstileVerificationError,
+} from "../../../server/error/errors";
+import { TURNSTILE_TEST_TOKEN } from "../../../shared/constants/turnstile";
+
+// Mock h3 utilities (vi.mock is hoisted above the imports)
+vi.mock("h3", async () => {
+  const actual = await vi.importActual("h3");
+  return {
+    ...actual,
+    readBody: vi.fn(),
+    getHeader: vi.fn(),
+  };
+});
+
+describe("Turnstile Middleware (05.turnstile)", () => {
+  let mockEvent: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockEvent = {
+      path: "/api/v1/auth/signin",
+      method: "POST",
+      context: { ipAddress: "203.0.113.7" },
+    };
+
+    vi.mocked(readBody).mockResolvedValue({ email: "user@example.com" });
+    vi.mocked(getHeader).mockReturnValue(undefined);
+  });
+
+  it("ignores routes without turnstile in ROUTE_CONFIG", async () => {
+    mockEvent.path = "/api/v1/auth/password/reset";
+    mockEvent.method = "PUT";
+
+    await turnstileMiddleware(mockEvent);
+
+    expect(readBody).not.toHaveBeenCalled();
+  });
+
+  it("rejects requests without a token", async () => {
+    await expect(turnstileMiddleware(mockEvent)).rejects.toThrow(
+      TurnstileVerificationError
+    );
+  });
+
+  it("rejects invalid tokens with the Cloudflare error codes", async () => {
+    vi.mocked(readBody).mockResolvedValue({ turnstileToken: "forged" });
+
+    const error = await turnstileMiddleware(mockEvent).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TurnstileVerificationError);
+    expect(error).toMatchObject({
+      statusCode: 403,
+      code: "TURNSTILE_FAILED",
+      details: { errorCodes: ["invalid-input-response"] },
+    });
+  });
+
+  it("accepts the test token from the body", async () => {
+    vi.mocked(readBody).mockResolvedValue({ turnstileToken: TURNSTILE_TEST_TOKEN });
+
+    await expect(turnstileMiddleware(mockEvent)).resolves.toBeUndefined();
+  });
+
+  it("accepts the token from the cf-turnstile-response header", async () => {
+    vi.mocked(getHeader).mockReturnValue(TURNSTILE_TEST_TOKEN);
+
+    await expect(turnstileMiddleware(mockEvent)).resolves.toBeUndefined();
+    expect(getHeader).toHaveBeenCalledWith(mockEvent, "cf-turnstile-response");
+  });
+});
+
+describe("Turnstile verifiers", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe("createTurnstileVerifier", () => {
+    it("always uses the test verifier in the test environment", () => {
+      expect(
+        createTurnstileVerifier({ secretKey: "real-secret", environment: "test" })
+      ).toBeInstanceOf(TestTurnstileVerifier);
+    });
+
+    it("uses Cloudflare when a secret key is configured", () => {
+      expect(
+        createTurnstileVerifier({ secretKey: "real-secret", environment: "production" })
+      ).toBeInstanceOf(CloudflareTurnstileVerifier);
+    });
+
+    it("falls back to the test verifier outside production", () => {
+      expect(
+        createTurnstileVerifier({
+          secretKey: "overwrite-this-with-environment-in-production",
+          environment: "development",
+        })
+      ).toBeInstanceOf(TestTurnstileVerifier);
+    });
+
+    it("disables verification in production without a secret key", () => {
+      expect(
+        createTurnstileVerifier({ secretKey: "", environment: "production" })
+      ).toBeNull();
+    });
+  });
+
+  describe("CloudflareTurnstileVerifier", () => {
+    it("posts the token, secret and IP to siteverify", async () => {
+      global.fetch = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ success: true, "error-codes": [] }))
+      );
+
+      const result = await new CloudflareTurnstileVerifier("secret").verify(
+        "token-123",
+        "203.0.113.7"
+      );
+
+      expect(result).toEqual({ success: true, errorCodes: [] });
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0]!;
+      expect(url).toBe("https://challenges.cloudflare.com/turnstile/v0/siteverify");
+      const body = init?.body as FormData;
+      expect(body.get("secret")).toBe("secret");
+      expect(body.get("response")).toBe("token-123");
+      expect(body.get("remoteip")).toBe("203.0.113.7");
+    });
+
+    it("reports failed challenges", async () => {
+      global.fetch = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({ success: false, "error-codes": ["timeout-or-duplicate"] })
+        )
+      );
+
+      await expect(
+        new CloudflareTurnstileVerifier("secret").verify("used-token")
+      ).resolves.toEqual({ success: false, errorCodes: ["timeout-or-duplicate"] });
+    });
+
+    it("throws ExternalServiceError when siteverify is unavailable", async () => {
+      global.fetch = vi.fn().mockResolvedValue(new Response("", { status: 503 }));
+
+      await expect(
+        new CloudflareTurnstileVerifier("secret").verify("token-123")
+      ).rejects.toThrow(ExternalServiceError);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { WorkspaceInviteRepository } from "../../../server/repositories/workspace";
+import { ConflictError } from "../../../server/error/errors";
+import { createMockD1Database } from "../../helpers/mocks";
+
+describe("WorkspaceInviteRepository.accept", () => {
+  let db: any;
+  let repo: WorkspaceInviteRepository;
+
+  const invite = {
+    id: "invite-1",
+    workspaceId: "ws-1",
+    role: "user",
+  } as any;
+
+  beforeEach(() => {
+    db = createMockD1Database();
+    repo = new WorkspaceInviteRepository(db);
+  });
+
+  it("claims the invite and creates the membership in one batch", async () => {
+    db.batch.mockResolvedValue([{ meta: { changes: 1 } }, {}, {}]);
+
+    await repo.accept(invite, "user-1");
+
+    expect(db.batch).toHaveBeenCalledTimes(1);
+    expect(db.prepare.mock.calls[0][0]).toContain("accepted_at IS NULL");
+    expect(db.prepare.mock.calls[1][0]).toContain("WHERE changes() = 1");
+  });
+
+  it("rejects an invite accepted concurrently", async () => {
+    db.batch.mockResolvedValue([{ meta: { changes: 0 } }, {}, {}]);
+
+    await expect(repo.accept(invite, "user-1")).rejects.toThrow(ConflictError);
+  });
+
+  it("maps a duplicate membership to a conflict", async () => {
+    db.batch.mockRejectedValue(
+      new Error(
+        "D1_ERROR: UNIQUE constraint failed: workspace_members.workspace_id, workspace_members.user_id"
+      )
+    );
+
+    await expect(repo.accept(invite, "user-1")).rejects.toThrow(ConflictError);
+  });
+});
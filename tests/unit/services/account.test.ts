@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  AccountService,
+  ACCOUNT_CONFIG,
+  purgeScheduledAccounts,
+} from "../../../server/services/account";
+import {
+  BusinessRuleError,
+  CurrentPasswordIncorrectError,
+  RecentSignInRequiredError,
+} from "../../../server/error/errors";
+import { createMockH3Event } from "../../helpers/mocks";
+
+// purgeScheduledAccounts builds its own repositories from the database
+const mockUserRepo: any = {};
+const mockWorkspaceRepo: any = {};
+const mockAuditLogRepo: any = {};
+
+vi.mock("#server/repositories/identity", () => ({
+  UserRepository: vi.fn(function () {
+    return mockUserRepo;
+  }),
+  UserSettingsRepository: vi.fn(),
+  AuditLogRepository: vi.fn(function () {
+    return mockAuditLogRepo;
+  }),
+}));
+
+vi.mock("#server/repositories/workspace", () => ({
+  WorkspaceRepository: vi.fn(function () {
+    return mockWorkspaceRepo;
+  }),
+}));
+
+const user = (overrides: Record<string, any> = {}) => ({
+  id: "test-user-id",
+  email: "user@example.com",
+  passwordHash: "hashed_secret",
+  isActive: true,
+  deletionScheduledAt: null,
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+
+  Object.assign(mockUserRepo, {
+    findById: vi.fn().mockResolvedValue(user()),
+    scheduleDeletion: vi
+      .fn()
+      .mockImplementation(async (id: string, at: Date | null) =>
+        user({ id, deletionScheduledAt: at })
+      ),
+    findDueForDeletion: vi.fn().mockResolvedValue([]),
+    anonymize: vi.fn(),
+  });
+  Object.assign(mockWorkspaceRepo, {
+    listOwnedBy: vi.fn().mockResolvedValue([]),
+    listForUser: vi.fn().mockResolvedValue([]),
+  });
+  Object.assign(mockAuditLogRepo, {
+    log: vi.fn(),
+    listForUser: vi.fn().mockResolvedValue([]),
+  });
+});
+
+describe("AccountService", () => {
+  let service: AccountService;
+  let mockEvent: any;
+  let mockSettingsRepo: any;
+  let mockEmailService: any;
+
+  beforeEach(() => {
+    mockEvent = createMockH3Event({});
+
+    mockSettingsRepo = { getSettings: vi.fn().mockResolvedValue({ locale: "en" }) };
+    mockEmailService = { sendSecurityNotice: vi.fn() };
+
+    service = new AccountService(
+      mockEvent,
+      mockUserRepo,
+      mockSettingsRepo,
+      mockWorkspaceRepo,
+      mockAuditLogRepo,
+      mockEmailService
+    );
+  });
+
+  describe("requestDeletion", () => {
+    it("schedules the deletion after the grace period", async () => {
+      const result = await service.requestDeletion({ currentPassword: "secret" });
+
+      const [, at] = mockUserRepo.scheduleDeletion.mock.calls[0];
+      expect(at.getTime()).toBeGreaterThan(
+        Date.now() + ACCOUNT_CONFIG.DELETION_GRACE_PERIOD - 60_000
+      );
+      expect(result).not.toHaveProperty("passwordHash");
+      expect(mockEmailService.sendSecurityNotice).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "test-user-id" }),
+        "accountDeletionScheduled",
+        expect.any(Object)
+      );
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "ACCOUNT_DELETION_SCHEDULED",
+        "User",
+        "test-user-id",
+        expect.any(Object)
+      );
+    });
+
+    it("requires the current password", async () => {
+      await expect(
+        service.requestDeletion({ currentPassword: "wrong" })
+      ).rejects.toThrow(CurrentPasswordIncorrectError);
+      expect(mockUserRepo.scheduleDeletion).not.toHaveBeenCalled();
+    });
+
+    it("requires a recent sign-in from passwordless users", async () => {
+      mockUserRepo.findById.mockResolvedValue(user({ passwordHash: null }));
+
+      await expect(
+        service.requestDeletion({}, Date.now() - ACCOUNT_CONFIG.REAUTH_WINDOW - 1)
+      ).rejects.toThrow(RecentSignInRequiredError);
+
+      await service.requestDeletion({}, Date.now());
+      expect(mockUserRepo.scheduleDeletion).toHaveBeenCalled();
+    });
+
+    it("refuses workspace owners", async () => {
+      mockWorkspaceRepo.listOwnedBy.mockResolvedValue([{ id: "ws-1", name: "Acme" }]);
+
+      await expect(
+        service.requestDeletion({ currentPassword: "secret" })
+      ).rejects.toThrow(BusinessRuleError);
+      expect(mockUserRepo.scheduleDeletion).not.toHaveBeenCalled();
+    });
+
+    it("refuses when a deletion is already scheduled", async () => {
+      mockUserRepo.findById.mockResolvedValue(
+        user({ deletionScheduledAt: new Date() })
+      );
+
+      await expect(
+        service.requestDeletion({ currentPassword: "secret" })
+      ).rejects.toThrow(BusinessRuleError);
+    });
+  });
+
+  describe("cancelDeletion", () => {
+    it("clears the scheduled deletion", async () => {
+      mockUserRepo.findById.mockResolvedValue(
+        user({ deletionScheduledAt: new Date() })
+      );
+
+      const result = await service.cancelDeletion();
+
+      expect(mockUserRepo.scheduleDeletion).toHaveBeenCalledWith("test-user-id", null);
+      expect(result.deletionScheduledAt).toBeNull();
+    });
+
+    it("throws when no deletion is scheduled", async () => {
+      await expect(service.cancelDeletion()).rejects.toThrow(BusinessRuleError);
+    });
+  });
+
+  describe("exportData", () => {
+    it("assembles the user's data without secrets", async () => {
+      const joinedAt = new Date();
+      mockWorkspaceRepo.listForUser.mockResolvedValue([
+        { workspace: { id: "ws-1", name: "Acme" }, role: "user", joinedAt },
+      ]);
+      mockAuditLogRepo.listForUser.mockResolvedValue([{ id: "log-1" }]);
+
+      const archive = await service.exportData();
+
+      expect(archive.user).not.toHaveProperty("passwordHash");
+      expect(archive.settings).toEqual({ locale: "en" });
+      expect(archive.memberships).toEqual([
+        { workspaceId: "ws-1", workspaceName: "Acme", role: "user", joinedAt },
+      ]);
+      expect(archive.auditLogs).toEqual([{ id: "log-1" }]);
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "ACCOUNT_DATA_EXPORTED",
+        "User",
+        "test-user-id",
+        expect.any(Object)
+      );
+    });
+  });
+});
+
+describe("purgeScheduledAccounts", () => {
+  it("erases due accounts and postpones workspace owners", async () => {
+    mockUserRepo.findDueForDeletion.mockResolvedValue([
+      { id: "user-1" },
+      { id: "owner-1" },
+    ]);
+    mockWorkspaceRepo.listOwnedBy.mockImplementation(async (userId: string) =>
+      userId === "owner-1" ? [{ id: "ws-1" }] : []
+    );
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const purged = await purgeScheduledAccounts({} as any);
+
+    expect(purged).toBe(1);
+    expect(mockUserRepo.anonymize).toHaveBeenCalledTimes(1);
+    expect(mockUserRepo.anonymize).toHaveBeenCalledWith("user-1");
+    expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+      null,
+      null,
+      "ACCOUNT_DELETED",
+      "User",
+      "user-1"
+    );
+    warn.mockRestore();
+  });
+});
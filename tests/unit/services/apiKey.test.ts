@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ApiKeyService, API_KEY_CONFIG } from "../../../server/services/apiKey";
+import { hashToken } from "../../../server/lib/crypto";
+import {
+  BusinessRuleError,
+  NotFoundError,
+  PermissionDeniedError,
+  ValidationError,
+} from "../../../server/error/errors";
+import { createMockH3Event } from "../../helpers/mocks";
+
+describe("ApiKeyService", () => {
+  let service: ApiKeyService;
+  let mockEvent: any;
+  let mockUserRepo: any;
+  let mockApiKeyRepo: any;
+  let mockAuditLogRepo: any;
+  let mockRbacService: any;
+
+  const storedKey = (overrides: Record<string, any> = {}) => ({
+    id: "key-1",
+    userId: "test-user-id",
+    workspaceId: "test-workspace",
+    name: "CI",
+    prefix: "pat_12345678",
+    keyHash: "hash",
+    scopes: ["users:read"],
+    expiresAt: null,
+    lastUsedAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deletedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockEvent = createMockH3Event({});
+
+    mockUserRepo = {
+      findById: vi.fn().mockResolvedValue({ id: "test-user-id", isActive: true }),
+    };
+    mockApiKeyRepo = {
+      create: vi.fn().mockImplementation(async (data) => storedKey({ id: "key-new", ...data })),
+      findActiveByHash: vi.fn().mockResolvedValue(null),
+      listActiveForUser: vi.fn().mockResolvedValue([]),
+      countActiveForUser: vi.fn().mockResolvedValue(0),
+      touch: vi.fn(),
+      revoke: vi.fn().mockResolvedValue(false),
+    };
+    mockAuditLogRepo = { log: vi.fn() };
+    mockRbacService = {
+      isEnabled: vi.fn().mockReturnValue(true),
+      getUserPermissions: vi.fn().mockResolvedValue(["users:read", "users:create", "roles:read"]),
+    };
+
+    service = new ApiKeyService(
+      mockEvent,
+      mockUserRepo,
+      mockApiKeyRepo,
+      mockAuditLogRepo,
+      mockRbacService
+    );
+  });
+
+  describe("createKey", () => {
+    it("stores only the hash and returns the secret once", async () => {
+      const { apiKey, secret } = await service.createKey({
+        name: "CI",
+        scopes: ["users:read", "users:read"],
+        expiresInDays: 30,
+      });
+
+      expect(secret.startsWith(API_KEY_CONFIG.SECRET_PREFIX)).toBe(true);
+      expect(mockApiKeyRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "test-user-id",
+          workspaceId: "test-workspace",
+          prefix: secret.slice(0, API_KEY_CONFIG.DISPLAY_PREFIX_LENGTH),
+          keyHash: await hashToken(secret),
+          scopes: ["users:read"],
+          expiresAt: expect.any(Date),
+        })
+      );
+      expect(apiKey).not.toHaveProperty("keyHash");
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "API_KEY_CREATED",
+        "User",
+        "test-user-id",
+        expect.objectContaining({
+          metadata: expect.objectContaining({ apiKeyId: "key-new", scopes: ["users:read"] }),
+        })
+      );
+    });
+
+    it("creates keys without expiry", async () => {
+      await service.createKey({ name: "CI", scopes: ["users:read"] });
+
+      expect(mockApiKeyRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ expiresAt: null })
+      );
+    });
+
+    it("rejects unknown scopes", async () => {
+      await expect(
+        service.createKey({ name: "CI", scopes: ["widgets:read"] })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it("rejects scopes the user doesn't hold", async () => {
+      await expect(
+        service.createKey({ name: "CI", scopes: ["users:*"] })
+      ).rejects.toThrow(PermissionDeniedError);
+      expect(mockApiKeyRepo.create).not.toHaveBeenCalled();
+    });
+
+    it("limits the number of keys", async () => {
+      mockApiKeyRepo.countActiveForUser.mockResolvedValue(API_KEY_CONFIG.MAX_KEYS_PER_USER);
+
+      await expect(
+        service.createKey({ name: "CI", scopes: ["users:read"] })
+      ).rejects.toThrow(BusinessRuleError);
+    });
+  });
+
+  describe("listScopes", () => {
+    it("offers the permissions the user holds", async () => {
+      const scopes = await service.listScopes();
+
+      expect(scopes.map((scope) => scope.code)).toEqual([
+        "users:read",
+        "users:create",
+        "roles:read",
+      ]);
+    });
+  });
+
+  describe("revokeKey", () => {
+    it("revokes the user's key", async () => {
+      mockApiKeyRepo.revoke.mockResolvedValue(true);
+
+      await service.revokeKey("key-1");
+
+      expect(mockApiKeyRepo.revoke).toHaveBeenCalledWith("key-1", "test-user-id");
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "API_KEY_REVOKED",
+        "User",
+        "test-user-id",
+        expect.any(Object)
+      );
+    });
+
+    it("throws for unknown or already revoked keys", async () => {
+      await expect(service.revokeKey("key-1")).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe("authenticate", () => {
+    it("resolves an active key and records its use", async () => {
+      mockApiKeyRepo.findActiveByHash.mockResolvedValue(storedKey());
+
+      const result = await service.authenticate("pat_secret");
+
+      expect(mockApiKeyRepo.findActiveByHash).toHaveBeenCalledWith(
+        await hashToken("pat_secret")
+      );
+      expect(result?.apiKey.id).toBe("key-1");
+      expect(mockApiKeyRepo.touch).toHaveBeenCalledWith("key-1");
+    });
+
+    it("records use at most every few minutes", async () => {
+      mockApiKeyRepo.findActiveByHash.mockResolvedValue(
+        storedKey({ lastUsedAt: new Date() })
+      );
+
+      await service.authenticate("pat_secret");
+
+      expect(mockApiKeyRepo.touch).not.toHaveBeenCalled();
+    });
+
+    it("ignores tokens that aren't API keys", async () => {
+      expect(await service.authenticate("eyJhbGciOi")).toBeNull();
+      expect(mockApiKeyRepo.findActiveByHash).not.toHaveBeenCalled();
+    });
+
+    it("refuses keys of inactive users", async () => {
+      mockApiKeyRepo.findActiveByHash.mockResolvedValue(storedKey());
+      mockUserRepo.findById.mockResolvedValue({ id: "test-user-id", isActive: false });
+
+      expect(await service.authenticate("pat_secret")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EmailService } from "../../../server/services/email";
+import {
+  CaptureEmailProvider,
+  NoopEmailProvider,
+  PostmarkEmailProvider,
+  ResendEmailProvider,
+  clearCapturedEmails,
+  createEmailProvider,
+  extractEmailLinks,
+  getCapturedEmails,
+  getLastCapturedEmail,
+} from "../../../server/lib/email";
+import {
+  EMAIL_TEMPLATE_NAMES,
+  EMAIL_TEMPLATE_SAMPLES,
+  renderEmailTemplate,
+  resolveEmailLocale,
+} from "../../../server/lib/email-templates";
+import {
+  ExternalServiceError,
+  InternalServerError,
+} from "../../../server/error/errors";
+
+const outgoing = {
+  from: "noreply@example.com",
+  to: "user@example.com",
+  subject: "Hello",
+  html: "<p>Hello</p>",
+  text: "Hello",
+  tag: "test",
+};
+
+describe("EmailService", () => {
+  let service: EmailService;
+
+  beforeEach(() => {
+    clearCapturedEmails();
+    service = new EmailService(
+      new CaptureEmailProvider(),
+      "noreply@example.com",
+      "https://app.example.com"
+    );
+  });
+
+  describe("sendEmailConfirmation", () => {
+    it("sends a confirmation link with the token", async () => {
+      const sent = await service.sendEmailConfirmation(
+        { email: "user@example.com", firstName: "Ada" },
+        "confirm-token"
+      );
+
+      expect(sent).toBe(true);
+      const email = getLastCapturedEmail("user@example.com");
+      expect(email?.from).toBe("noreply@example.com");
+      expect(email?.subject).toBe("Confirm your email address");
+      expect(email?.tag).toBe("email-confirm");
+      expect(extractEmailLinks(email!)).toEqual([
+        "https://app.example.com/auth/email/confirm?token=confirm-token",
+      ]);
+    });
+  });
+
+  describe("sendEmailChangeConfirmation", () => {
+    it("sends the link to the new address only", async () => {
+      await service.sendEmailChangeConfirmation(
+        { id: "user-1", email: "old@example.com", firstName: "Ada" },
+        "new@example.com",
+        "change-token"
+      );
+
+      expect(getLastCapturedEmail("old@example.com")).toBeUndefined();
+      const email = getLastCapturedEmail("new@example.com");
+      expect(email?.tag).toBe("email-change");
+      expect(email?.text).toContain("new@example.com");
+      expect(extractEmailLinks(email!)).toEqual([
+        "https://app.example.com/auth/email/change?token=change-token",
+      ]);
+    });
+  });
+
+  describe("sendMagicLink", () => {
+    it("links to the sign-in page with the destination", async () => {
+      const user = { id: "user-1", email: "ada@example.com", firstName: "Ada" };
+
+      await service.sendMagicLink(user, "magic-token", "/settings");
+      await service.sendMagicLink(user, "other-token", "/");
+
+      const [first, second] = getCapturedEmails().map((email) => extractEmailLinks(email));
+      expect(first).toEqual([
+        "https://app.example.com/auth/magic-link?token=magic-token&redirectTo=%2Fsettings",
+      ]);
+      expect(second).toEqual(["https://app.example.com/auth/magic-link?token=other-token"]);
+    });
+  });
+
+  describe("sendWorkspaceInvite", () => {
+    it("escapes user-provided values in the HTML part", async () => {
+      await service.sendWorkspaceInvite({
+        email: "invitee@example.com",
+        workspaceName: "<b>Acme</b>",
+        inviterName: "Jane",
+        role: "user",
+        token: "abc",
+      });
+
+      const email = getLastCapturedEmail("invitee@example.com");
+      expect(email?.html).toContain("&lt;b&gt;Acme&lt;&#x2F;b&gt;");
+      expect(email?.html).not.toContain("<b>Acme</b>");
+      expect(email?.text).toContain("https://app.example.com/invite/abc");
+    });
+  });
+
+  describe("locale", () => {
+    it("uses the recipient's preferred language from user settings", async () => {
+      const userSettingsRepo = {
+        getSettings: vi.fn().mockResolvedValue({ language: "zh-TW" }),
+      };
+      const localized = new EmailService(
+        new CaptureEmailProvider(),
+        "noreply@example.com",
+        "https://app.example.com",
+        "en",
+        userSettingsRepo as any
+      );
+
+      await localized.sendPasswordReset(
+        { id: "user-1", email: "user@example.com" },
+        "token"
+      );
+
+      expect(userSettingsRepo.getSettings).toHaveBeenCalledWith("user-1");
+      expect(getLastCapturedEmail()?.subject).toBe("重置您的密碼");
+    });
+
+    it("falls back to the request locale", async () => {
+      const localized = new EmailService(
+        new CaptureEmailProvider(),
+        "noreply@example.com",
+        "https://app.example.com",
+        "zh-CN"
+      );
+
+      await localized.sendEmailConfirmation({ email: "user@example.com" }, "t");
+
+      expect(getLastCapturedEmail()?.subject).toBe("请确认您的邮箱地址");
+    });
+  });
+
+  describe("sendSecurityNotice", () => {
+    it("describes the change and links to the account page", async () => {
+      await service.sendSecurityNotice(
+        { email: "user@example.com", firstName: "Ada" },
+        "passwordReset",
+        { ipAddress: "203.0.113.7" }
+      );
+
+      const email = getLastCapturedEmail("user@example.com");
+      expect(email?.text).toContain("Your password was reset.");
+      expect(email?.text).toContain("IP address: 203.0.113.7");
+      expect(extractEmailLinks(email!)).toEqual([
+        "https://app.example.com/account",
+      ]);
+    });
+  });
+
+  describe("send", () => {
+    it("returns false instead of throwing when delivery fails", async () => {
+      const failing = new EmailService(
+        {
+          name: "resend",
+          send: vi.fn().mockRejectedValue(new ExternalServiceError()),
+        },
+        "noreply@example.com",
+        "https://app.example.com"
+      );
+
+      await expect(
+        failing.sendPasswordReset({ email: "user@example.com" }, "token")
+      ).resolves.toBe(false);
+    });
+  });
+});
+
+describe("Email providers", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    clearCapturedEmails();
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("createEmailProvider", () => {
+    it("creates the configured provider", () => {
+      expect(createEmailProvider({ provider: "capture" })).toBeInstanceOf(
+        CaptureEmailProvider
+      );
+      expect(createEmailProvider({ provider: "none" })).toBeInstanceOf(
+        NoopEmailProvider
+      );
+      expect(
+        createEmailProvider({ provider: "resend", apiKey: "key" })
+      ).toBeInstanceOf(ResendEmailProvider);
+      expect(
+        createEmailProvider({ provider: "postmark", apiKey: "key" })
+      ).toBeInstanceOf(PostmarkEmailProvider);
+    });
+
+    it("requires an API key for remote providers", () => {
+      expect(() => createEmailProvider({ provider: "resend" })).toThrow(
+        InternalServerError
+      );
+    });
+
+    it("rejects unknown providers", () => {
+      expect(() => createEmailProvider({ provider: "smtp" })).toThrow(
+        InternalServerError
+      );
+    });
+  });
+
+  it("posts messages to Resend", async () => {
+    fetchMock.mockResolvedValue(new Response("{}", { status: 200 }));
+
+    await new ResendEmailProvider("re_key").send(outgoing);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.resend.com/emails");
+    expect(init.headers.Authorization).toBe("Bearer re_key");
+    expect(JSON.parse(init.body)).toMatchObject({
+      from: "noreply@example.com",
+      to: ["user@example.com"],
+      subject: "Hello",
+    });
+  });
+
+  it("posts messages to Postmark", async () => {
+    fetchMock.mockResolvedValue(new Response("{}", { status: 200 }));
+
+    await new PostmarkEmailProvider("pm_token").send(outgoing);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.postmarkapp.com/email");
+    expect(init.headers["X-Postmark-Server-Token"]).toBe("pm_token");
+    expect(JSON.parse(init.body)).toMatchObject({
+      From: "noreply@example.com",
+      To: "user@example.com",
+      TextBody: "Hello",
+    });
+  });
+
+  it("throws ExternalServiceError when the provider rejects the message", async () => {
+    fetchMock.mockResolvedValue(new Response("invalid", { status: 422 }));
+
+    await expect(
+      new PostmarkEmailProvider("pm_token").send(outgoing)
+    ).rejects.toThrow(ExternalServiceError);
+  });
+
+  it("captures messages in memory", async () => {
+    await new CaptureEmailProvider().send(outgoing);
+
+    expect(getCapturedEmails("USER@example.com")).toHaveLength(1);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("only logs the body when asked to", async () => {
+    const info = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    const email = { ...outgoing, text: "https://app.test/reset?token=secret" };
+
+    await new CaptureEmailProvider().send(email);
+    expect(info.mock.calls[0][0]).not.toContain("token=secret");
+
+    await new CaptureEmailProvider(true).send(email);
+    expect(info.mock.calls[1][0]).toContain("token=secret");
+
+    info.mockRestore();
+  });
+});
+
+describe("Email templates", () => {
+  it.each(EMAIL_TEMPLATE_NAMES)(
+    "renders %s in every locale",
+    (template) => {
+      for (const locale of ["en", "zh-CN", "zh-TW"] as const) {
+        const rendered = renderEmailTemplate(
+          template,
+          locale,
+          EMAIL_TEMPLATE_SAMPLES[template] as any
+        );
+
+        expect(rendered.subject).not.toMatch(/\{\w+\}|^emails\./);
+        expect(rendered.text).not.toMatch(/\{\w+\}/);
+        expect(rendered.html).toContain(`<html lang="${locale}">`);
+      }
+    }
+  );
+
+  it("interpolates placeholders", () => {
+    const rendered = renderEmailTemplate("workspace-invite", "zh-CN", {
+      workspace: "Acme",
+      inviter: "Grace",
+      role: "manager",
+      actionUrl: "https://app.example.com/invite/abc",
+    });
+
+    expect(rendered.subject).toBe("邀请您加入 Acme");
+    expect(rendered.text).toContain("Grace 邀请您以 manager 身份加入 Acme。");
+  });
+
+  it("resolves supported locales", () => {
+    expect(resolveEmailLocale("zh-CN")).toBe("zh-CN");
+    expect(resolveEmailLocale("zh-Hant-HK")).toBe("zh-TW");
+    expect(resolveEmailLocale("en-US")).toBe("en");
+    expect(resolveEmailLocale("fr")).toBeNull();
+    expect(resolveEmailLocale(undefined)).toBeNull();
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { IdentityService } from "../../../server/services/identity";
+import {
+  IdentityService,
+  LOCKOUT_CONFIG,
+  getLockDurationSeconds,
+} from "../../../server/services/identity";
 import {
   InvalidCredentialsError,
   EmailAlreadyExistsError,
@@ -7,8 +11,26 @@ import {
   ValidationError,
   AccountInactiveError,
   AuthenticationError,
+  InvalidTokenError,
+  EmailNotConfirmedError,
+  AccountLockedError,
+  ConflictError,
+  InvalidStateError,
+  LastLoginMethodError,
+  PasswordNotSetError,
+  PasswordSameAsOldError,
+  CurrentPasswordIncorrectError,
+  AuthorizationError,
 } from "../../../server/error/errors";
 import { createMockH3Event, createMockRepository } from "../../helpers/mocks";
+import { EmailService } from "../../../server/services/email";
+import {
+  CaptureEmailProvider,
+  clearCapturedEmails,
+  extractEmailLinks,
+  getCapturedEmails,
+  getLastCapturedEmail,
+} from "../../../server/lib/email";
 
 // Note: hashPassword, verifyPassword, getUserSession, setUserSession are globally mocked in tests/setup.ts
 
@@ -17,10 +39,20 @@ const mockGenerateEmailConfirmToken = vi.fn();
 const mockGeneratePasswordResetToken = vi.fn();
 const mockVerifyEmailConfirmToken = vi.fn();
 const mockVerifyPasswordResetToken = vi.fn();
+const mockGenerateEmailChangeToken = vi.fn();
+const mockVerifyEmailChangeToken = vi.fn();
+const mockGenerateMagicLinkToken = vi.fn();
+const mockVerifyMagicLinkToken = vi.fn();
 const mockValidatePasswordStrength = vi.fn();
 
 // Mock auth utilities
 vi.mock("../../../server/lib/auth", () => ({
+  EMAIL_TOKEN_TTL_SECONDS: {
+    "email-confirm": 86400,
+    "password-reset": 600,
+    "email-change": 3600,
+    "magic-link": 900,
+  },
   generateEmailConfirmToken: (...args: any[]) =>
     mockGenerateEmailConfirmToken(...args),
   generatePasswordResetToken: (...args: any[]) =>
@@ -29,6 +61,14 @@ vi.mock("../../../server/lib/auth", () => ({
     mockVerifyEmailConfirmToken(...args),
   verifyPasswordResetToken: (...args: any[]) =>
     mockVerifyPasswordResetToken(...args),
+  generateEmailChangeToken: (...args: any[]) =>
+    mockGenerateEmailChangeToken(...args),
+  verifyEmailChangeToken: (...args: any[]) =>
+    mockVerifyEmailChangeToken(...args),
+  generateMagicLinkToken: (...args: any[]) =>
+    mockGenerateMagicLinkToken(...args),
+  verifyMagicLinkToken: (...args: any[]) =>
+    mockVerifyMagicLinkToken(...args),
 }));
 
 // Mock password validator
@@ -41,8 +81,14 @@ describe("IdentityService", () => {
   let service: IdentityService;
   let mockEvent: any;
   let mockUserRepo: any;
+  let mockUserIdentityRepo: any;
+  let mockUserCredentialRepo: any;
   let mockUserSettingsRepo: any;
+  let mockUserSessionRepo: any;
+  let mockEmailTokenRepo: any;
+  let mockWorkspaceRepo: any;
   let mockAuditLogRepo: any;
+  let emailService: EmailService;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -61,6 +107,17 @@ describe("IdentityService", () => {
       userId: "user-1",
       email: "test@example.com",
     });
+    mockGenerateEmailChangeToken.mockReturnValue("mock-change-token");
+    mockVerifyEmailChangeToken.mockResolvedValue({
+      userId: "test-user-id",
+      email: "old@example.com",
+      newEmail: "new@example.com",
+    });
+    mockGenerateMagicLinkToken.mockReturnValue("mock-magic-token");
+    mockVerifyMagicLinkToken.mockResolvedValue({
+      userId: "test-user-id",
+      email: "test@example.com",
+    });
 
     // Create mock event with db in context
     mockEvent = createMockH3Event({});
@@ -70,22 +127,67 @@ describe("IdentityService", () => {
     mockUserRepo.findByEmail = vi.fn();
     mockUserRepo.confirmEmail = vi.fn();
     mockUserRepo.updatePassword = vi.fn();
+    mockUserRepo.updateEmail = vi.fn();
     mockUserRepo.list = vi.fn();
+    mockUserRepo.recordFailedLogin = vi.fn().mockResolvedValue(1);
+    mockUserRepo.lock = vi.fn();
+    mockUserRepo.clearFailedLogins = vi.fn();
+
+    mockUserIdentityRepo = {
+      findByProvider: vi.fn().mockResolvedValue(null),
+      findForUser: vi.fn().mockResolvedValue(null),
+      listForUser: vi.fn().mockResolvedValue([]),
+      countForUser: vi.fn().mockResolvedValue(0),
+      create: vi.fn(async (data: any) => ({ id: "identity-1", createdAt: new Date(), ...data })),
+      recordUse: vi.fn(),
+      deleteForUser: vi.fn().mockResolvedValue(true),
+    };
+
+    mockUserCredentialRepo = {
+      countForUser: vi.fn().mockResolvedValue(0),
+    };
 
     mockUserSettingsRepo = {
       getSettings: vi.fn(),
       updateSettings: vi.fn(),
     };
 
+    mockUserSessionRepo = {
+      revokeAllForUser: vi.fn().mockResolvedValue(0),
+    };
+
+    mockEmailTokenRepo = {
+      replaceForUser: vi.fn().mockResolvedValue(undefined),
+      consume: vi.fn().mockResolvedValue({ id: "token-1" }),
+    };
+
+    mockWorkspaceRepo = {
+      findById: vi.fn().mockResolvedValue(null),
+      listForUser: vi.fn().mockResolvedValue([]),
+    };
+
     mockAuditLogRepo = {
       log: vi.fn().mockResolvedValue(undefined),
     };
 
+    clearCapturedEmails();
+    emailService = new EmailService(
+      new CaptureEmailProvider(),
+      "noreply@example.com",
+      "https://app.example.com"
+    );
+
     service = new IdentityService(
       mockEvent as any,
       mockUserRepo as any,
+      mockUserIdentityRepo as any,
+      mockUserCredentialRepo as any,
       mockUserSettingsRepo as any,
-      mockAuditLogRepo as any
+      mockUserSessionRepo as any,
+      mockEmailTokenRepo as any,
+      mockWorkspaceRepo as any,
+      mockAuditLogRepo as any,
+      emailService
     );
   });
 
@@ -238,6 +340,187 @@ describe("IdentityService", () => {
         service.signIn("test@example.com", "password123")
       ).rejects.toThrow(AccountInactiveError);
     });
+
+    describe("brute-force lockout", () => {
+      const user = {
+        id: "user-1",
+        email: "test@example.com",
+        passwordHash: "hashed_password123",
+        isEmailVerified: true,
+        isActive: true,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      };
+
+      it("counts wrong passwords", async () => {
+        mockUserRepo.findByEmail.mockResolvedValue(user);
+
+        await expect(
+          service.signIn("test@example.com", "wrong")
+        ).rejects.toThrow(InvalidCredentialsError);
+        expect(mockUserRepo.recordFailedLogin).toHaveBeenCalledWith("user-1");
+        expect(mockUserRepo.lock).not.toHaveBeenCalled();
+      });
+
+      it("locks the account after too many failures", async () => {
+        mockUserRepo.findByEmail.mockResolvedValue(user);
+        mockUserRepo.recordFailedLogin.mockResolvedValue(
+          LOCKOUT_CONFIG.MAX_ATTEMPTS
+        );
+
+        await expect(
+          service.signIn("test@example.com", "wrong")
+        ).rejects.toThrow(AccountLockedError);
+        expect(mockUserRepo.lock).toHaveBeenCalledWith(
+          "user-1",
+          expect.any(Date)
+        );
+        expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+          "test-workspace",
+          "user-1",
+          "ACCOUNT_LOCKED",
+          "User",
+          "user-1",
+          expect.objectContaining({ statusCode: 429 })
+        );
+      });
+
+      it("refuses a locked account without checking the password", async () => {
+        mockUserRepo.findByEmail.mockResolvedValue({
+          ...user,
+          failedLoginAttempts: 5,
+          lockedUntil: new Date(Date.now() + 60_000),
+        });
+
+        await expect(
+          service.signIn("test@example.com", "password123")
+        ).rejects.toThrow(AccountLockedError);
+        expect(global.verifyPassword).not.toHaveBeenCalled();
+      });
+
+      it("resets the counter on a successful sign-in", async () => {
+        mockUserRepo.findByEmail.mockResolvedValue({
+          ...user,
+          failedLoginAttempts: 5,
+          lockedUntil: new Date(Date.now() - 1000), // Lock expired
+        });
+
+        await service.signIn("test@example.com", "password123");
+
+        expect(mockUserRepo.clearFailedLogins).toHaveBeenCalledWith("user-1");
+      });
+    });
+
+    describe("email verification policy", () => {
+      const unconfirmedUser = {
+        id: "user-1",
+        email: "test@example.com",
+        passwordHash: "hashed_password123",
+        isEmailVerified: false,
+        isActive: true,
+      };
+
+      beforeEach(() => {
+        mockUserRepo.findByEmail.mockResolvedValue(unconfirmedUser);
+      });
+
+      it("signs in unconfirmed users when the policy is off", async () => {
+        const result = await service.signIn("test@example.com", "password123");
+
+        expect(result.user.id).toBe("user-1");
+      });
+
+      it("refuses unconfirmed users under the runtime config policy", async () => {
+        const config = global.useRuntimeConfig();
+        global.useRuntimeConfig.mockReturnValue({
+          ...config,
+          emailVerification: { policy: "block" },
+        });
+
+        try {
+          await expect(
+            service.signIn("test@example.com", "password123")
+          ).rejects.toThrow(EmailNotConfirmedError);
+        } finally {
+          global.useRuntimeConfig.mockReturnValue(config);
+        }
+      });
+
+      it("lets the workspace they land in override the policy", async () => {
+        delete mockEvent.context.workspaceId; // Public route - no session yet
+        mockWorkspaceRepo.listForUser.mockResolvedValue([
+          { workspace: { id: "ws-archived", isActive: false, settings: {} } },
+          {
+            workspace: {
+              id: "ws-1",
+              isActive: true,
+              settings: { emailVerification: "block" },
+            },
+          },
+        ]);
+
+        await expect(
+          service.signIn("test@example.com", "password123")
+        ).rejects.toThrow(EmailNotConfirmedError);
+        expect(mockAuditLogRepo.log).not.toHaveBeenCalled();
+      });
+
+      it("never applies to confirmed users", async () => {
+        mockUserRepo.findByEmail.mockResolvedValue({
+          ...unconfirmedUser,
+          isEmailVerified: true,
+        });
+
+        await service.signIn("test@example.com", "password123");
+
+        expect(mockWorkspaceRepo.listForUser).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("getEmailVerificationStatus", () => {
+    it("reports confirmed users as unrestricted", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "user-1",
+        isEmailVerified: true,
+      });
+
+      const status = await service.getEmailVerificationStatus("user-1");
+
+      expect(status).toEqual({ isEmailVerified: true, policy: "off" });
+      expect(mockWorkspaceRepo.findById).not.toHaveBeenCalled();
+    });
+
+    it("uses the session workspace's override", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "user-1",
+        isEmailVerified: false,
+      });
+      mockWorkspaceRepo.findById.mockResolvedValue({
+        id: "test-workspace",
+        settings: { emailVerification: "restrict" },
+      });
+
+      const status = await service.getEmailVerificationStatus("user-1");
+
+      expect(mockWorkspaceRepo.findById).toHaveBeenCalledWith("test-workspace");
+      expect(status).toEqual({ isEmailVerified: false, policy: "restrict" });
+    });
+
+    it("ignores unknown override values", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "user-1",
+        isEmailVerified: false,
+      });
+      mockWorkspaceRepo.findById.mockResolvedValue({
+        id: "test-workspace",
+        settings: { emailVerification: "sometimes" },
+      });
+
+      const status = await service.getEmailVerificationStatus("user-1");
+
+      expect(status.policy).toBe("off");
+    });
   });
 
   // ========================================
@@ -307,6 +590,80 @@ describe("IdentityService", () => {
         ValidationError
       );
     });
+
+    it("binds the token to the tenant", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "user-1",
+        email: "test@example.com",
+        isEmailVerified: false,
+      });
+      mockUserRepo.confirmEmail.mockResolvedValue({ id: "user-1" });
+
+      await service.confirmEmail("valid-token");
+
+      expect(mockVerifyEmailConfirmToken).toHaveBeenCalledWith(
+        "valid-token",
+        "default", // single-tenant mode
+        mockEvent
+      );
+    });
+
+    it("rejects a link that was already used or replaced", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "user-1",
+        email: "test@example.com",
+        isEmailVerified: false,
+      });
+      mockEmailTokenRepo.consume.mockResolvedValue(null);
+
+      await expect(service.confirmEmail("valid-token")).rejects.toThrow(
+        InvalidTokenError
+      );
+      expect(mockEmailTokenRepo.consume).toHaveBeenCalledWith(
+        expect.stringMatching(/^[0-9a-f]{64}$/),
+        "email-confirm"
+      );
+      expect(mockUserRepo.confirmEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resendEmailConfirmation", () => {
+    it("issues a new link for an unconfirmed address", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue({
+        id: "user-1",
+        email: "test@example.com",
+        firstName: "John",
+        isActive: true,
+        isEmailVerified: false,
+      });
+
+      await service.resendEmailConfirmation("test@example.com");
+
+      expect(mockEmailTokenRepo.replaceForUser).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-1",
+          purpose: "email-confirm",
+          tokenHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        })
+      );
+      expect(getLastCapturedEmail("test@example.com")).toBeDefined();
+    });
+
+    it("stays silent for confirmed or unknown addresses", async () => {
+      mockUserRepo.findByEmail.mockResolvedValueOnce({
+        id: "user-1",
+        email: "test@example.com",
+        isActive: true,
+        isEmailVerified: true,
+      });
+      mockUserRepo.findByEmail.mockResolvedValueOnce(null);
+
+      await service.resendEmailConfirmation("test@example.com");
+      await service.resendEmailConfirmation("unknown@example.com");
+
+      expect(mockEmailTokenRepo.replaceForUser).not.toHaveBeenCalled();
+      expect(getCapturedEmails()).toHaveLength(0);
+    });
   });
 
   // ========================================
@@ -326,6 +683,19 @@ describe("IdentityService", () => {
       const result = await service.requestPasswordReset("test@example.com");
 
       expect(result.resetToken).toBe("reset-token");
+      expect(mockGeneratePasswordResetToken).toHaveBeenCalledWith(
+        "user-1",
+        "test@example.com",
+        "default", // single-tenant mode
+        mockEvent
+      );
+      expect(mockEmailTokenRepo.replaceForUser).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-1",
+          purpose: "password-reset",
+          email: "test@example.com",
+        })
+      );
       expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
         "test-workspace", // workspaceId from mock event context
         "user-1",
@@ -336,6 +706,24 @@ describe("IdentityService", () => {
       );
     });
 
+    it("emails the reset link", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue({
+        id: "user-1",
+        email: "test@example.com",
+        firstName: "John",
+      });
+      mockGeneratePasswordResetToken.mockReturnValue("reset-token");
+
+      await service.requestPasswordReset("test@example.com");
+
+      const email = getLastCapturedEmail("test@example.com");
+      expect(email?.subject).toBe("Reset your password");
+      expect(email?.text).toContain("Hi John,");
+      expect(extractEmailLinks(email!)).toEqual([
+        "https://app.example.com/auth/password/reset?token=reset-token",
+      ]);
+    });
+
     it("does not reveal if email exists (security)", async () => {
       mockUserRepo.findByEmail.mockResolvedValue(null);
 
@@ -345,6 +733,7 @@ describe("IdentityService", () => {
 
       expect(result.resetToken).toBe(null);
       expect(mockGeneratePasswordResetToken).not.toHaveBeenCalled();
+      expect(getCapturedEmails()).toHaveLength(0);
     });
   });
 
@@ -384,6 +773,36 @@ describe("IdentityService", () => {
       );
     });
 
+    it("signs the user out on every device", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "user-1",
+        email: "test@example.com",
+      });
+      mockUserRepo.updatePassword.mockResolvedValue({
+        id: "user-1",
+        email: "test@example.com",
+      });
+
+      await service.resetPassword("valid-token", "NewPassword123!");
+
+      expect(mockUserSessionRepo.revokeAllForUser).toHaveBeenCalledWith("user-1");
+    });
+
+    it("unlocks an account locked by failed sign-ins", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "user-1",
+        email: "test@example.com",
+      });
+      mockUserRepo.updatePassword.mockResolvedValue({
+        id: "user-1",
+        email: "test@example.com",
+      });
+
+      await service.resetPassword("valid-token", "NewPassword123!");
+
+      expect(mockUserRepo.clearFailedLogins).toHaveBeenCalledWith("user-1");
+    });
+
     it("validates new password strength", async () => {
       const mockUser = {
         id: "user-1",
@@ -402,6 +821,21 @@ describe("IdentityService", () => {
       await expect(
         service.resetPassword("valid-token", "weak")
       ).rejects.toThrow(ValidationError);
+      // A rejected password doesn't burn the link
+      expect(mockEmailTokenRepo.consume).not.toHaveBeenCalled();
+    });
+
+    it("rejects a link that was already used or replaced", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "user-1",
+        email: "test@example.com",
+      });
+      mockEmailTokenRepo.consume.mockResolvedValue(null);
+
+      await expect(
+        service.resetPassword("valid-token", "NewPassword123!")
+      ).rejects.toThrow(InvalidTokenError);
+      expect(mockUserRepo.updatePassword).not.toHaveBeenCalled();
     });
 
     it("throws error if user not found", async () => {
@@ -417,6 +851,622 @@ describe("IdentityService", () => {
     });
   });
 
+  // ========================================
+  // MAGIC LINK TESTS
+  // ========================================
+
+  describe("requestMagicLink", () => {
+    const user = {
+      id: "test-user-id",
+      email: "test@example.com",
+      firstName: "Ada",
+      isActive: true,
+    };
+
+    beforeEach(() => {
+      mockUserRepo.findByEmail.mockResolvedValue(user);
+    });
+
+    it("emails a single-use sign-in link", async () => {
+      await service.requestMagicLink("test@example.com", "/settings");
+
+      expect(mockEmailTokenRepo.replaceForUser).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "test-user-id", purpose: "magic-link" })
+      );
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "MAGIC_LINK_REQUESTED",
+        "User",
+        "test-user-id",
+        expect.any(Object)
+      );
+
+      const email = getLastCapturedEmail("test@example.com");
+      expect(email?.tag).toBe("magic-link");
+      expect(extractEmailLinks(email!)).toEqual([
+        "https://app.example.com/auth/magic-link?token=mock-magic-token&redirectTo=%2Fsettings",
+      ]);
+    });
+
+    it("stays silent for unknown and inactive accounts", async () => {
+      mockUserRepo.findByEmail.mockResolvedValueOnce(null);
+      await service.requestMagicLink("nobody@example.com");
+
+      mockUserRepo.findByEmail.mockResolvedValueOnce({ ...user, isActive: false });
+      await service.requestMagicLink("test@example.com");
+
+      expect(getCapturedEmails()).toHaveLength(0);
+      expect(mockEmailTokenRepo.replaceForUser).not.toHaveBeenCalled();
+    });
+
+    it("stays silent when a workspace turned magic links off", async () => {
+      mockWorkspaceRepo.listForUser.mockResolvedValue([
+        { workspace: { id: "ws-1", isActive: true, settings: { magicLink: false } } },
+      ]);
+
+      await service.requestMagicLink("test@example.com");
+
+      expect(getCapturedEmails()).toHaveLength(0);
+    });
+  });
+
+  describe("signInWithMagicLink", () => {
+    const user = {
+      id: "test-user-id",
+      email: "test@example.com",
+      isActive: true,
+      isEmailVerified: false,
+    };
+
+    beforeEach(() => {
+      mockUserRepo.findById.mockResolvedValue(user);
+      mockUserRepo.update.mockResolvedValue({ ...user, isEmailVerified: true });
+    });
+
+    it("consumes the link and signs the user in", async () => {
+      const result = await service.signInWithMagicLink("magic-token");
+
+      expect(mockEmailTokenRepo.consume).toHaveBeenCalledWith(
+        expect.any(String),
+        "magic-link"
+      );
+      expect(mockUserRepo.update).toHaveBeenCalledWith(
+        "test-user-id",
+        expect.objectContaining({ isEmailVerified: true, lastLoginMethod: "magic-link" })
+      );
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "USER_SIGNED_IN",
+        "User",
+        "test-user-id",
+        expect.objectContaining({ metadata: { method: "magic-link" } })
+      );
+      expect(result.user.id).toBe("test-user-id");
+    });
+
+    it("rejects a link that was already used or replaced", async () => {
+      mockEmailTokenRepo.consume.mockResolvedValue(null);
+
+      await expect(service.signInWithMagicLink("magic-token")).rejects.toThrow(
+        InvalidTokenError
+      );
+      expect(mockUserRepo.update).not.toHaveBeenCalled();
+    });
+
+    it("rejects a link sent before the email changed", async () => {
+      mockUserRepo.findById.mockResolvedValue({ ...user, email: "other@example.com" });
+
+      await expect(service.signInWithMagicLink("magic-token")).rejects.toThrow(
+        InvalidTokenError
+      );
+      expect(mockEmailTokenRepo.consume).not.toHaveBeenCalled();
+    });
+
+    it("rejects inactive accounts", async () => {
+      mockUserRepo.findById.mockResolvedValue({ ...user, isActive: false });
+
+      await expect(service.signInWithMagicLink("magic-token")).rejects.toThrow(
+        AccountInactiveError
+      );
+    });
+
+    it("rejects members of a workspace that turned magic links off", async () => {
+      mockWorkspaceRepo.listForUser.mockResolvedValue([
+        { workspace: { id: "ws-1", isActive: true, settings: { magicLink: false } } },
+      ]);
+
+      await expect(service.signInWithMagicLink("magic-token")).rejects.toThrow(
+        AuthorizationError
+      );
+      expect(mockEmailTokenRepo.consume).not.toHaveBeenCalled();
+    });
+  });
+
+  // ========================================
+  // OAUTH & LOGIN METHOD TESTS
+  // ========================================
+
+  describe("findOrCreateOAuthUser", () => {
+    const profile = {
+      provider: "github" as const,
+      providerId: "gh-42",
+      email: "Mona@Example.com",
+      emailVerified: true,
+      firstName: "Mona",
+      lastName: "Lisa",
+    };
+
+    beforeEach(() => {
+      mockUserRepo.update.mockImplementation(async (id: string, data: any) => ({
+        id,
+        email: "mona@example.com",
+        passwordHash: "",
+        ...data,
+      }));
+    });
+
+    it("signs in the user of an already linked provider account", async () => {
+      mockUserIdentityRepo.findByProvider.mockResolvedValue({
+        id: "identity-1",
+        userId: "user-1",
+        provider: "github",
+      });
+      mockUserRepo.findById.mockResolvedValue({ id: "user-1", email: "mona@example.com", isActive: true });
+
+      const result = await service.findOrCreateOAuthUser(profile);
+
+      expect(result.user.id).toBe("user-1");
+      expect(mockUserIdentityRepo.recordUse).toHaveBeenCalledWith("identity-1");
+      expect(mockUserIdentityRepo.create).not.toHaveBeenCalled();
+      expect(result.user).not.toHaveProperty("passwordHash");
+    });
+
+    it("refuses a deactivated user of an already linked provider account", async () => {
+      mockUserIdentityRepo.findByProvider.mockResolvedValue({
+        id: "identity-1",
+        userId: "user-1",
+        provider: "github",
+      });
+      mockUserRepo.findById.mockResolvedValue({
+        id: "user-1",
+        email: "mona@example.com",
+        isActive: false,
+      });
+
+      await expect(service.findOrCreateOAuthUser(profile)).rejects.toThrow(
+        AccountInactiveError
+      );
+      expect(mockUserIdentityRepo.recordUse).not.toHaveBeenCalled();
+      expect(mockUserRepo.update).not.toHaveBeenCalled();
+    });
+
+    it("links a second provider to an existing account by verified email", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue({ id: "user-1", email: "mona@example.com", isActive: true });
+      mockUserIdentityRepo.listForUser.mockResolvedValue([
+        { id: "identity-1", userId: "user-1", provider: "google" },
+      ]);
+
+      await service.findOrCreateOAuthUser(profile);
+
+      expect(mockUserIdentityRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-1",
+          provider: "github",
+          providerUserId: "gh-42",
+          email: "mona@example.com",
+        })
+      );
+    });
+
+    it("refuses to link by an unverified email", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue({ id: "user-1", email: "mona@example.com", isActive: true });
+
+      await expect(
+        service.findOrCreateOAuthUser({ ...profile, emailVerified: false })
+      ).rejects.toThrow(ValidationError);
+      expect(mockUserIdentityRepo.create).not.toHaveBeenCalled();
+    });
+
+    it("refuses to link to a deactivated account", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue({
+        id: "user-1",
+        email: "mona@example.com",
+        isActive: false,
+      });
+
+      await expect(service.findOrCreateOAuthUser(profile)).rejects.toThrow(
+        AccountInactiveError
+      );
+      expect(mockUserIdentityRepo.create).not.toHaveBeenCalled();
+    });
+
+    it("refuses a second account of the same provider", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue({ id: "user-1", email: "mona@example.com", isActive: true });
+      mockUserIdentityRepo.listForUser.mockResolvedValue([
+        { id: "identity-1", userId: "user-1", provider: "github", providerUserId: "gh-7" },
+      ]);
+
+      await expect(service.findOrCreateOAuthUser(profile)).rejects.toThrow(ConflictError);
+    });
+
+    it("creates an OAuth-only user with its identity", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue(null);
+      mockUserRepo.create.mockResolvedValue({ id: "user-2", email: "mona@example.com" });
+
+      await service.findOrCreateOAuthUser(profile);
+
+      expect(mockUserRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ passwordHash: "", lastLoginMethod: "github" })
+      );
+      expect(mockUserIdentityRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "user-2", provider: "github" })
+      );
+    });
+  });
+
+  describe("linkIdentity", () => {
+    const profile = {
+      provider: "google" as const,
+      providerId: "g-1",
+      email: "test@example.com",
+      emailVerified: false,
+      firstName: "Test",
+      lastName: "User",
+    };
+
+    beforeEach(() => {
+      mockUserRepo.findById.mockResolvedValue({ id: "user-1", email: "test@example.com" });
+    });
+
+    it("links the provider account and sends a security notice", async () => {
+      const identity = await service.linkIdentity("user-1", profile);
+
+      expect(identity).toMatchObject({ provider: "google", email: "test@example.com" });
+      expect(identity).not.toHaveProperty("providerUserId");
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "user-1",
+        "IDENTITY_LINKED",
+        "User",
+        "user-1",
+        expect.any(Object)
+      );
+      expect(getLastCapturedEmail()?.subject).toBe("Security notice for your account");
+    });
+
+    it("refuses a provider account linked to another user", async () => {
+      mockUserIdentityRepo.findByProvider.mockResolvedValue({
+        id: "identity-9",
+        userId: "user-9",
+        provider: "google",
+      });
+
+      await expect(service.linkIdentity("user-1", profile)).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe("unlinkIdentity", () => {
+    beforeEach(() => {
+      mockUserIdentityRepo.findForUser.mockResolvedValue({
+        id: "identity-1",
+        userId: "test-user-id",
+        provider: "google",
+      });
+    });
+
+    it("unlinks when another way to sign in remains", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "test-user-id",
+        email: "test@example.com",
+        passwordHash: "hashed",
+      });
+      mockUserIdentityRepo.countForUser.mockResolvedValue(1);
+
+      await service.unlinkIdentity("identity-1");
+
+      expect(mockUserIdentityRepo.deleteForUser).toHaveBeenCalledWith(
+        "identity-1",
+        "test-user-id"
+      );
+    });
+
+    it("counts passkeys as a way to sign in", async () => {
+      mockUserRepo.findById.mockResolvedValue({ id: "test-user-id", passwordHash: "" });
+      mockUserIdentityRepo.countForUser.mockResolvedValue(1);
+      mockUserCredentialRepo.countForUser.mockResolvedValue(1);
+
+      await service.unlinkIdentity("identity-1");
+
+      expect(mockUserIdentityRepo.deleteForUser).toHaveBeenCalled();
+    });
+
+    it("refuses to unlink the last login method", async () => {
+      mockUserRepo.findById.mockResolvedValue({ id: "test-user-id", passwordHash: "" });
+      mockUserIdentityRepo.countForUser.mockResolvedValue(1);
+
+      await expect(service.unlinkIdentity("identity-1")).rejects.toThrow(
+        LastLoginMethodError
+      );
+      expect(mockUserIdentityRepo.deleteForUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("setPassword", () => {
+    beforeEach(() => {
+      mockValidatePasswordStrength.mockReturnValue({ valid: true, errors: [] });
+    });
+
+    it("sets a password for an OAuth-only user", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "test-user-id",
+        email: "test@example.com",
+        passwordHash: "",
+      });
+      mockUserRepo.updatePassword.mockResolvedValue({
+        id: "test-user-id",
+        email: "test@example.com",
+        passwordHash: "hashed_NewPassword123!",
+      });
+
+      const user = await service.setPassword("NewPassword123!");
+
+      expect(mockUserRepo.updatePassword).toHaveBeenCalledWith(
+        "test-user-id",
+        "hashed_NewPassword123!"
+      );
+      expect(user).not.toHaveProperty("passwordHash");
+    });
+
+    it("refuses when a password is already set", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "test-user-id",
+        passwordHash: "hashed",
+      });
+
+      await expect(service.setPassword("NewPassword123!")).rejects.toThrow(
+        InvalidStateError
+      );
+      expect(mockUserRepo.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it("rejects a weak password", async () => {
+      mockUserRepo.findById.mockResolvedValue({ id: "test-user-id", passwordHash: "" });
+      mockValidatePasswordStrength.mockReturnValue({
+        valid: false,
+        errors: ["Password must contain at least one number"],
+      });
+
+      await expect(service.setPassword("weakpassword")).rejects.toThrow(ValidationError);
+    });
+  });
+
+  // ========================================
+  // PASSWORD & EMAIL CHANGE TESTS
+  // ========================================
+
+  describe("changePassword", () => {
+    const user = {
+      id: "test-user-id",
+      email: "test@example.com",
+      passwordHash: "hashed_OldPassword123!",
+    };
+
+    beforeEach(() => {
+      mockValidatePasswordStrength.mockReturnValue({ valid: true, errors: [] });
+      mockUserRepo.findById.mockResolvedValue(user);
+      mockUserRepo.updatePassword.mockResolvedValue({
+        ...user,
+        passwordHash: "hashed_NewPassword123!",
+      });
+    });
+
+    it("changes the password and signs out the other devices", async () => {
+      mockUserSessionRepo.revokeAllForUser.mockResolvedValue(2);
+
+      const result = await service.changePassword(
+        "OldPassword123!",
+        "NewPassword123!",
+        "current-session"
+      );
+
+      expect(mockUserRepo.updatePassword).toHaveBeenCalledWith(
+        "test-user-id",
+        "hashed_NewPassword123!"
+      );
+      expect(mockUserSessionRepo.revokeAllForUser).toHaveBeenCalledWith(
+        "test-user-id",
+        "current-session"
+      );
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "PASSWORD_CHANGED",
+        "User",
+        "test-user-id",
+        expect.objectContaining({ metadata: { revokedSessions: 2 } })
+      );
+      expect(getLastCapturedEmail("test@example.com")?.tag).toBe("security-notice");
+      expect(result).not.toHaveProperty("passwordHash");
+    });
+
+    it("rejects a wrong current password", async () => {
+      await expect(
+        service.changePassword("WrongPassword1!", "NewPassword123!")
+      ).rejects.toThrow(CurrentPasswordIncorrectError);
+      expect(mockUserRepo.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it("rejects the current password as the new one", async () => {
+      await expect(
+        service.changePassword("OldPassword123!", "OldPassword123!")
+      ).rejects.toThrow(PasswordSameAsOldError);
+    });
+
+    it("rejects a weak password", async () => {
+      mockValidatePasswordStrength.mockReturnValue({
+        valid: false,
+        errors: ["Password must contain at least one number"],
+      });
+
+      await expect(
+        service.changePassword("OldPassword123!", "weakpassword")
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it("refuses accounts without a password", async () => {
+      mockUserRepo.findById.mockResolvedValue({ ...user, passwordHash: "" });
+
+      await expect(
+        service.changePassword("anything", "NewPassword123!")
+      ).rejects.toThrow(PasswordNotSetError);
+    });
+  });
+
+  describe("requestEmailChange", () => {
+    const user = {
+      id: "test-user-id",
+      email: "old@example.com",
+      firstName: "Ada",
+      passwordHash: "hashed_Password123!",
+    };
+
+    beforeEach(() => {
+      mockUserRepo.findById.mockResolvedValue(user);
+      mockUserRepo.findByEmail.mockResolvedValue(null);
+    });
+
+    it("sends a link to the new address and a notice to the old one", async () => {
+      await service.requestEmailChange("New@Example.com", "Password123!");
+
+      expect(mockGenerateEmailChangeToken).toHaveBeenCalledWith(
+        "test-user-id",
+        "old@example.com",
+        "new@example.com",
+        expect.any(String),
+        mockEvent
+      );
+      expect(mockEmailTokenRepo.replaceForUser).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "test-user-id",
+          purpose: "email-change",
+          email: "new@example.com",
+        })
+      );
+
+      const confirmation = getLastCapturedEmail("new@example.com");
+      expect(confirmation?.tag).toBe("email-change");
+      expect(extractEmailLinks(confirmation!)).toEqual([
+        "https://app.example.com/auth/email/change?token=mock-change-token",
+      ]);
+      expect(getLastCapturedEmail("old@example.com")?.tag).toBe("security-notice");
+
+      // Nothing changes before the link is used
+      expect(mockUserRepo.updateEmail).not.toHaveBeenCalled();
+    });
+
+    it("requires the current password when one is set", async () => {
+      await expect(service.requestEmailChange("new@example.com")).rejects.toThrow(
+        CurrentPasswordIncorrectError
+      );
+      expect(getCapturedEmails()).toHaveLength(0);
+    });
+
+    it("doesn't ask OAuth-only accounts for a password", async () => {
+      mockUserRepo.findById.mockResolvedValue({ ...user, passwordHash: "" });
+
+      await service.requestEmailChange("new@example.com");
+
+      expect(getLastCapturedEmail("new@example.com")).toBeDefined();
+    });
+
+    it("rejects an address that is already in use", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue({ id: "user-2" });
+
+      await expect(
+        service.requestEmailChange("new@example.com", "Password123!")
+      ).rejects.toThrow(EmailAlreadyExistsError);
+    });
+
+    it("rejects the current address", async () => {
+      await expect(
+        service.requestEmailChange("OLD@example.com", "Password123!")
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("confirmEmailChange", () => {
+    const user = {
+      id: "test-user-id",
+      email: "old@example.com",
+      isEmailVerified: false,
+    };
+
+    beforeEach(() => {
+      mockUserRepo.findById.mockResolvedValue(user);
+      mockUserRepo.findByEmail.mockResolvedValue(null);
+      mockUserRepo.updateEmail.mockResolvedValue({
+        ...user,
+        email: "new@example.com",
+        isEmailVerified: true,
+      });
+    });
+
+    it("swaps the email and notifies the old address", async () => {
+      const result = await service.confirmEmailChange("change-token");
+
+      expect(mockEmailTokenRepo.consume).toHaveBeenCalledWith(
+        expect.any(String),
+        "email-change"
+      );
+      expect(mockUserRepo.updateEmail).toHaveBeenCalledWith(
+        "test-user-id",
+        "new@example.com"
+      );
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "EMAIL_CHANGED",
+        "User",
+        "test-user-id",
+        expect.objectContaining({
+          stateBefore: { email: "old@example.com" },
+          stateAfter: { email: "new@example.com" },
+        })
+      );
+      expect(getLastCapturedEmail("old@example.com")?.tag).toBe("security-notice");
+      expect(result.email).toBe("new@example.com");
+    });
+
+    it("rejects a link issued before another email change", async () => {
+      mockUserRepo.findById.mockResolvedValue({ ...user, email: "other@example.com" });
+
+      await expect(service.confirmEmailChange("change-token")).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockUserRepo.updateEmail).not.toHaveBeenCalled();
+    });
+
+    it("rejects an address taken since the request", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue({ id: "user-2" });
+
+      await expect(service.confirmEmailChange("change-token")).rejects.toThrow(
+        EmailAlreadyExistsError
+      );
+      expect(mockEmailTokenRepo.consume).not.toHaveBeenCalled();
+    });
+
+    it("rejects a link that was already used or replaced", async () => {
+      mockEmailTokenRepo.consume.mockResolvedValue(null);
+
+      await expect(service.confirmEmailChange("change-token")).rejects.toThrow(
+        InvalidTokenError
+      );
+      expect(mockUserRepo.updateEmail).not.toHaveBeenCalled();
+    });
+  });
+
   // ========================================
   // USER MANAGEMENT TESTS
   // ========================================
@@ -473,6 +1523,22 @@ describe("IdentityService", () => {
       );
     });
 
+    it("revokes all sessions when the account is deactivated", async () => {
+      mockUserRepo.update.mockResolvedValue({ id: "user-1", isActive: false });
+
+      await service.updateUser("user-1", { isActive: false });
+
+      expect(mockUserSessionRepo.revokeAllForUser).toHaveBeenCalledWith("user-1");
+    });
+
+    it("keeps sessions for regular profile updates", async () => {
+      mockUserRepo.update.mockResolvedValue({ id: "user-1", firstName: "Jane" });
+
+      await service.updateUser("user-1", { firstName: "Jane" });
+
+      expect(mockUserSessionRepo.revokeAllForUser).not.toHaveBeenCalled();
+    });
+
     it("throws error if user not found", async () => {
       mockUserRepo.update.mockResolvedValue(null);
 
@@ -495,8 +1561,14 @@ describe("IdentityService", () => {
       const unauthService = new IdentityService(
         unauthEvent as any,
         unauthUserRepo as any,
+        mockUserIdentityRepo as any,
+        mockUserCredentialRepo as any,
         mockUserSettingsRepo as any,
-        mockAuditLogRepo as any
+        mockUserSessionRepo as any,
+        mockEmailTokenRepo as any,
+        mockWorkspaceRepo as any,
+        mockAuditLogRepo as any,
+        emailService
       );
 
       await expect(
@@ -528,6 +1600,43 @@ describe("IdentityService", () => {
     });
   });
 
+  describe("unlockUser", () => {
+    it("lifts the lock and records who did it", async () => {
+      const lockedUntil = new Date(Date.now() + 60_000);
+      mockUserRepo.findById.mockResolvedValue({
+        id: "user-2",
+        email: "locked@example.com",
+        passwordHash: "hashed",
+        failedLoginAttempts: 6,
+        lockedUntil,
+      });
+
+      const result = await service.unlockUser("user-2");
+
+      expect(result.lockedUntil).toBeNull();
+      expect(result).not.toHaveProperty("passwordHash");
+      expect(mockUserRepo.clearFailedLogins).toHaveBeenCalledWith("user-2");
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "ACCOUNT_UNLOCKED",
+        "User",
+        "user-2",
+        expect.objectContaining({
+          metadata: { failedAttempts: 6, lockedUntil: lockedUntil.toISOString() },
+        })
+      );
+    });
+
+    it("throws if the user doesn't exist", async () => {
+      mockUserRepo.findById.mockResolvedValue(null);
+
+      await expect(service.unlockUser("missing")).rejects.toThrow(
+        UserNotFoundError
+      );
+    });
+  });
+
   describe("listUsers", () => {
     it("returns list of users", async () => {
       const mockUsers = [
@@ -623,3 +1732,20 @@ describe("IdentityService", () => {
     });
   });
 });
+
+describe("getLockDurationSeconds", () => {
+  it("doesn't lock below the threshold", () => {
+    expect(getLockDurationSeconds(LOCKOUT_CONFIG.MAX_ATTEMPTS - 1)).toBe(0);
+  });
+
+  it("doubles the lock for every further failure", () => {
+    const base = LOCKOUT_CONFIG.BASE_LOCK_SECONDS;
+    expect(getLockDurationSeconds(LOCKOUT_CONFIG.MAX_ATTEMPTS)).toBe(base);
+    expect(getLockDurationSeconds(LOCKOUT_CONFIG.MAX_ATTEMPTS + 1)).toBe(base * 2);
+    expect(getLockDurationSeconds(LOCKOUT_CONFIG.MAX_ATTEMPTS + 2)).toBe(base * 4);
+  });
+
+  it("caps the lock duration", () => {
+    expect(getLockDurationSeconds(100)).toBe(LOCKOUT_CONFIG.MAX_LOCK_SECONDS);
+  });
+});
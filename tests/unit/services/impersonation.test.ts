@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  ImpersonationService,
+  IMPERSONATION_CONFIG,
+} from "../../../server/services/impersonation";
+import {
+  AuthorizationError,
+  BusinessRuleError,
+  UserNotFoundError,
+} from "../../../server/error/errors";
+import { createMockH3Event } from "../../helpers/mocks";
+
+describe("ImpersonationService", () => {
+  let service: ImpersonationService;
+  let mockEvent: any;
+  let mockUserRepo: any;
+  let mockMemberRepo: any;
+  let mockAuditLogRepo: any;
+  let mockRbacService: any;
+
+  const member = {
+    id: "member-1",
+    email: "member@example.com",
+    passwordHash: "hashed",
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockEvent = createMockH3Event({});
+
+    mockUserRepo = {
+      findById: vi.fn().mockResolvedValue(member),
+    };
+    mockMemberRepo = {
+      findMembership: vi.fn().mockResolvedValue({ role: "user" }),
+    };
+    mockAuditLogRepo = { log: vi.fn() };
+    mockRbacService = {
+      isEnabled: vi.fn().mockReturnValue(true),
+      getUserPermissions: vi.fn().mockImplementation(async (userId: string) =>
+        userId === "test-user-id" ? ["users:*", "profile:read"] : ["profile:read"]
+      ),
+      userHasPermission: vi.fn().mockResolvedValue(true),
+    };
+
+    service = new ImpersonationService(
+      mockEvent,
+      mockUserRepo,
+      mockMemberRepo,
+      mockAuditLogRepo,
+      mockRbacService
+    );
+  });
+
+  describe("startImpersonation", () => {
+    it("returns the member to act as without auditing yet", async () => {
+      const user = await service.startImpersonation("member-1");
+
+      expect(user.id).toBe("member-1");
+      expect(user).not.toHaveProperty("passwordHash");
+      expect(mockMemberRepo.findMembership).toHaveBeenCalledWith(
+        "test-workspace",
+        "member-1"
+      );
+      // Logged by recordImpersonationStarted once the session was replaced
+      expect(mockAuditLogRepo.log).not.toHaveBeenCalled();
+    });
+
+    it("refuses users outside the workspace", async () => {
+      mockMemberRepo.findMembership.mockResolvedValue(null);
+
+      await expect(service.startImpersonation("member-1")).rejects.toThrow(
+        UserNotFoundError
+      );
+    });
+
+    it("refuses inactive users", async () => {
+      mockUserRepo.findById.mockResolvedValue({ ...member, isActive: false });
+
+      await expect(service.startImpersonation("member-1")).rejects.toThrow(
+        UserNotFoundError
+      );
+    });
+
+    it("refuses users with permissions the admin lacks", async () => {
+      mockRbacService.getUserPermissions.mockImplementation(async (userId: string) =>
+        userId === "test-user-id" ? ["users:*"] : ["roles:update"]
+      );
+
+      await expect(service.startImpersonation("member-1")).rejects.toThrow(
+        AuthorizationError
+      );
+      expect(mockAuditLogRepo.log).not.toHaveBeenCalled();
+    });
+
+    it("refuses impersonating yourself or nesting impersonations", async () => {
+      await expect(service.startImpersonation("test-user-id")).rejects.toThrow(
+        BusinessRuleError
+      );
+
+      mockEvent.context.impersonatorId = "admin-1";
+      await expect(service.startImpersonation("member-1")).rejects.toThrow(
+        BusinessRuleError
+      );
+    });
+  });
+
+  describe("recordImpersonationStarted", () => {
+    it("audits the impersonation as the admin", async () => {
+      await service.recordImpersonationStarted(
+        await service.startImpersonation("member-1")
+      );
+
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "IMPERSONATION_STARTED",
+        "User",
+        "member-1",
+        expect.objectContaining({
+          metadata: { email: "member@example.com" },
+        })
+      );
+    });
+  });
+
+  describe("stopImpersonation", () => {
+    it("returns the admin and audits it as them", async () => {
+      mockEvent.context.impersonatorId = "admin-1";
+      mockUserRepo.findById.mockResolvedValue({
+        id: "admin-1",
+        email: "admin@example.com",
+        isActive: true,
+      });
+
+      const admin = await service.stopImpersonation();
+
+      expect(admin.id).toBe("admin-1");
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "admin-1",
+        "IMPERSONATION_STOPPED",
+        "User",
+        "test-user-id",
+        expect.objectContaining({ impersonatorId: "admin-1" })
+      );
+    });
+
+    it("throws when not impersonating", async () => {
+      await expect(service.stopImpersonation()).rejects.toThrow(BusinessRuleError);
+    });
+  });
+
+  describe("isImpersonationAllowed", () => {
+    it("allows a recent impersonation by an admin who may impersonate", async () => {
+      expect(
+        await service.isImpersonationAllowed({
+          impersonatorId: "admin-1",
+          startedAt: Date.now(),
+        })
+      ).toBe(true);
+      expect(mockRbacService.userHasPermission).toHaveBeenCalledWith(
+        "admin-1",
+        "users:impersonate"
+      );
+    });
+
+    it("ends impersonations after MAX_DURATION", async () => {
+      expect(
+        await service.isImpersonationAllowed({
+          impersonatorId: "admin-1",
+          startedAt: Date.now() - IMPERSONATION_CONFIG.MAX_DURATION - 1,
+        })
+      ).toBe(false);
+    });
+
+    it("ends impersonations once the admin loses the permission", async () => {
+      mockRbacService.userHasPermission.mockResolvedValue(false);
+
+      expect(
+        await service.isImpersonationAllowed({
+          impersonatorId: "admin-1",
+          startedAt: Date.now(),
+        })
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,451 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MfaService, workspaceRequiresMfa } from "../../../server/services/mfa";
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotp,
+  getTotpStep,
+  hashRecoveryCode,
+  verifyTotp,
+} from "../../../server/lib/totp";
+import {
+  generateMfaPendingToken,
+  generateEmailConfirmToken,
+} from "../../../server/lib/auth";
+import { LOCKOUT_CONFIG } from "../../../server/services/identity";
+import {
+  AccountLockedError,
+  ConflictError,
+  InvalidMfaCodeError,
+  InvalidStateError,
+  InvalidTokenError,
+  MfaEnrollmentRequiredError,
+} from "../../../server/error/errors";
+import { createMockH3Event, createMockRepository } from "../../helpers/mocks";
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("TOTP library", () => {
+  it("round-trips base32", () => {
+    const bytes = new TextEncoder().encode("12345678901234567890");
+    expect(base32Encode(bytes)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET)).toEqual(bytes);
+  });
+
+  it("matches the RFC 6238 SHA-1 test vectors (6 digits)", async () => {
+    expect(await generateTotp(RFC_SECRET, getTotpStep(59_000))).toBe("287082");
+    expect(await generateTotp(RFC_SECRET, getTotpStep(1_111_111_109_000))).toBe("081804");
+    expect(await generateTotp(RFC_SECRET, getTotpStep(20_000_000_000_000))).toBe("353130");
+  });
+
+  it("accepts codes within one step of clock drift", async () => {
+    const now = 1_111_111_109_000;
+    const previous = await generateTotp(RFC_SECRET, getTotpStep(now) - 1);
+    const stale = await generateTotp(RFC_SECRET, getTotpStep(now) - 2);
+
+    expect(await verifyTotp(RFC_SECRET, previous, { now })).toBe(getTotpStep(now) - 1);
+    expect(await verifyTotp(RFC_SECRET, stale, { now })).toBeNull();
+  });
+
+  it("rejects codes at or before the last used step (replay)", async () => {
+    const now = 1_111_111_109_000;
+    const code = await generateTotp(RFC_SECRET, getTotpStep(now));
+
+    expect(
+      await verifyTotp(RFC_SECRET, code, { now, afterStep: getTotpStep(now) })
+    ).toBeNull();
+  });
+
+  it("ignores spaces and rejects malformed codes", async () => {
+    const now = 59_000;
+    expect(await verifyTotp(RFC_SECRET, "287 082", { now })).not.toBeNull();
+    expect(await verifyTotp(RFC_SECRET, "28708", { now })).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, "abcdef", { now })).toBeNull();
+  });
+
+  it("generates unique recovery codes and hashes them case-insensitively", async () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/);
+    expect(await hashRecoveryCode(codes[0]!.toUpperCase().replace("-", " "))).toBe(
+      await hashRecoveryCode(codes[0]!)
+    );
+  });
+});
+
+describe("MfaService", () => {
+  let service: MfaService;
+  let mockEvent: any;
+  let mockUserRepo: any;
+  let mockUserMfaRepo: any;
+  let mockRecoveryCodeRepo: any;
+  let mockWorkspaceRepo: any;
+  let mockCredentialRepo: any;
+  let mockAuditLogRepo: any;
+
+  const user = {
+    id: "test-user-id",
+    email: "user@example.com",
+    passwordHash: "hashed_password",
+    isActive: true,
+  };
+
+  const enabledMfa = {
+    userId: "test-user-id",
+    totpSecret: RFC_SECRET,
+    totpEnabledAt: new Date(),
+    totpLastUsedStep: null,
+    failedAttempts: 0,
+  };
+
+  const currentCode = () => generateTotp(RFC_SECRET, getTotpStep());
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockEvent = createMockH3Event({});
+
+    mockUserRepo = createMockRepository();
+    mockUserRepo.findById.mockResolvedValue(user);
+    mockUserRepo.lock = vi.fn();
+
+    mockUserMfaRepo = {
+      findByUserId: vi.fn().mockResolvedValue(null),
+      savePendingSecret: vi.fn(),
+      enable: vi.fn(),
+      updateLastUsedStep: vi.fn(),
+      recordFailedAttempt: vi.fn().mockResolvedValue(1),
+      clearFailedAttempts: vi.fn(),
+      deleteForUser: vi.fn(),
+    };
+    mockRecoveryCodeRepo = {
+      replaceForUser: vi.fn(),
+      consume: vi.fn().mockResolvedValue(false),
+      countRemaining: vi.fn().mockResolvedValue(10),
+    };
+    mockWorkspaceRepo = {
+      listForUser: vi.fn().mockResolvedValue([]),
+    };
+    mockCredentialRepo = {
+      countForUser: vi.fn().mockResolvedValue(0),
+    };
+    mockAuditLogRepo = { log: vi.fn() };
+
+    service = new MfaService(
+      mockEvent,
+      mockUserRepo,
+      mockUserMfaRepo,
+      mockRecoveryCodeRepo,
+      mockWorkspaceRepo,
+      mockCredentialRepo,
+      mockAuditLogRepo
+    );
+  });
+
+  describe("enrollment", () => {
+    it("stores a pending secret and returns a QR code", async () => {
+      const enrollment = await service.startEnrollment();
+
+      expect(mockUserMfaRepo.savePendingSecret).toHaveBeenCalledWith(
+        "test-user-id",
+        enrollment.secret
+      );
+      expect(enrollment.otpauthUri).toContain("otpauth://totp/");
+      expect(enrollment.otpauthUri).toContain(`secret=${enrollment.secret}`);
+      expect(enrollment.qrCodeSvg).toContain("<svg");
+    });
+
+    it("refuses to re-enroll while 2FA is enabled", async () => {
+      mockUserMfaRepo.findByUserId.mockResolvedValue(enabledMfa);
+
+      await expect(service.startEnrollment()).rejects.toThrow(ConflictError);
+    });
+
+    it("activates with a valid code and returns hashed-at-rest recovery codes", async () => {
+      mockUserMfaRepo.findByUserId.mockResolvedValue({
+        ...enabledMfa,
+        totpEnabledAt: null,
+      });
+
+      const { recoveryCodes } = await service.activate(await currentCode());
+
+      expect(mockUserMfaRepo.enable).toHaveBeenCalledWith("test-user-id", getTotpStep());
+      expect(recoveryCodes).toHaveLength(10);
+      const [, hashes] = mockRecoveryCodeRepo.replaceForUser.mock.calls[0];
+      expect(hashes).toHaveLength(10);
+      expect(hashes).not.toContain(recoveryCodes[0]);
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "MFA_ENABLED",
+        "User",
+        "test-user-id",
+        expect.any(Object)
+      );
+    });
+
+    it("rejects activation with a wrong code", async () => {
+      mockUserMfaRepo.findByUserId.mockResolvedValue({
+        ...enabledMfa,
+        totpEnabledAt: null,
+      });
+
+      await expect(service.activate("000000")).rejects.toThrow(InvalidMfaCodeError);
+      expect(mockUserMfaRepo.enable).not.toHaveBeenCalled();
+    });
+
+    it("rejects activation before setup", async () => {
+      await expect(service.activate("123456")).rejects.toThrow(InvalidStateError);
+    });
+  });
+
+  describe("verify", () => {
+    beforeEach(() => {
+      mockUserMfaRepo.findByUserId.mockResolvedValue(enabledMfa);
+    });
+
+    it("accepts a current code and records its step", async () => {
+      await service.verify("test-user-id", { code: await currentCode() });
+
+      expect(mockUserMfaRepo.updateLastUsedStep).toHaveBeenCalledWith(
+        "test-user-id",
+        getTotpStep()
+      );
+    });
+
+    it("rejects a code that was already used", async () => {
+      mockUserMfaRepo.findByUserId.mockResolvedValue({
+        ...enabledMfa,
+        totpLastUsedStep: getTotpStep() + 1,
+      });
+
+      await expect(
+        service.verify("test-user-id", { code: await currentCode() })
+      ).rejects.toThrow(InvalidMfaCodeError);
+    });
+
+    it("consumes recovery codes by hash", async () => {
+      mockRecoveryCodeRepo.consume.mockResolvedValue(true);
+
+      await service.verify("test-user-id", { recoveryCode: "ABCDE-FGHJK" });
+
+      expect(mockRecoveryCodeRepo.consume).toHaveBeenCalledWith(
+        "test-user-id",
+        await hashRecoveryCode("abcdefghjk")
+      );
+    });
+
+    it("rejects unknown or used recovery codes", async () => {
+      await expect(
+        service.verify("test-user-id", { recoveryCode: "abcde-fghjk" })
+      ).rejects.toThrow(InvalidMfaCodeError);
+    });
+
+    it("counts wrong codes towards the account lockout", async () => {
+      await expect(
+        service.verify("test-user-id", { code: "000000" })
+      ).rejects.toThrow(InvalidMfaCodeError);
+
+      expect(mockUserMfaRepo.recordFailedAttempt).toHaveBeenCalledWith(
+        "test-user-id"
+      );
+      expect(mockUserRepo.lock).not.toHaveBeenCalled();
+    });
+
+    it("locks the account after too many wrong codes", async () => {
+      mockUserMfaRepo.recordFailedAttempt.mockResolvedValue(
+        LOCKOUT_CONFIG.MAX_ATTEMPTS
+      );
+
+      await expect(
+        service.verify("test-user-id", { recoveryCode: "abcde-fghjk" })
+      ).rejects.toThrow(AccountLockedError);
+
+      expect(mockUserRepo.lock).toHaveBeenCalledWith(
+        "test-user-id",
+        expect.any(Date)
+      );
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "ACCOUNT_LOCKED",
+        "User",
+        "test-user-id",
+        expect.objectContaining({ statusCode: 429 })
+      );
+    });
+
+    it("refuses to check codes while the account is locked", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        ...user,
+        lockedUntil: new Date(Date.now() + 60_000),
+      });
+
+      await expect(
+        service.verify("test-user-id", { code: await currentCode() })
+      ).rejects.toThrow(AccountLockedError);
+      expect(mockUserMfaRepo.updateLastUsedStep).not.toHaveBeenCalled();
+    });
+
+    it("resets the failure counter after a valid code", async () => {
+      mockUserMfaRepo.findByUserId.mockResolvedValue({
+        ...enabledMfa,
+        failedAttempts: 3,
+      });
+
+      await service.verify("test-user-id", { code: await currentCode() });
+
+      expect(mockUserMfaRepo.clearFailedAttempts).toHaveBeenCalledWith(
+        "test-user-id"
+      );
+    });
+  });
+
+  describe("disable", () => {
+    it("removes the authenticator after verifying a code", async () => {
+      mockUserMfaRepo.findByUserId.mockResolvedValue(enabledMfa);
+
+      await service.disable({ code: await currentCode() });
+
+      expect(mockUserMfaRepo.deleteForUser).toHaveBeenCalledWith("test-user-id");
+    });
+
+    it("is blocked while a workspace requires 2FA", async () => {
+      mockUserMfaRepo.findByUserId.mockResolvedValue(enabledMfa);
+      mockWorkspaceRepo.listForUser.mockResolvedValue([
+        { workspace: { isActive: true, settings: { requireMfa: true } }, role: "user" },
+      ]);
+
+      await expect(service.disable({ code: await currentCode() })).rejects.toThrow(
+        MfaEnrollmentRequiredError
+      );
+      expect(mockUserMfaRepo.deleteForUser).not.toHaveBeenCalled();
+    });
+
+    it("is allowed under a 2FA requirement when a passkey remains", async () => {
+      mockUserMfaRepo.findByUserId.mockResolvedValue(enabledMfa);
+      mockCredentialRepo.countForUser.mockResolvedValue(1);
+      mockWorkspaceRepo.listForUser.mockResolvedValue([
+        { workspace: { isActive: true, settings: { requireMfa: true } }, role: "user" },
+      ]);
+
+      await service.disable({ code: await currentCode() });
+
+      expect(mockUserMfaRepo.deleteForUser).toHaveBeenCalledWith("test-user-id");
+    });
+  });
+
+  describe("sign-in", () => {
+    it("skips the second factor when 2FA is off and not required", async () => {
+      await expect(service.createSignInChallenge("test-user-id")).resolves.toBeNull();
+    });
+
+    it("challenges users with 2FA enabled", async () => {
+      mockUserMfaRepo.findByUserId.mockResolvedValue(enabledMfa);
+
+      const challenge = await service.createSignInChallenge("test-user-id");
+
+      expect(challenge).toMatchObject({ methods: ["totp"], enrollmentRequired: false });
+      expect(challenge?.mfaToken).toEqual(expect.any(String));
+    });
+
+    it("challenges users with only a passkey", async () => {
+      mockCredentialRepo.countForUser.mockResolvedValue(2);
+
+      const challenge = await service.createSignInChallenge("test-user-id");
+
+      expect(challenge).toMatchObject({ methods: ["passkey"], enrollmentRequired: false });
+    });
+
+    it("requires enrollment when a workspace requires 2FA", async () => {
+      mockWorkspaceRepo.listForUser.mockResolvedValue([
+        { workspace: { isActive: true, settings: { requireMfa: true } }, role: "user" },
+      ]);
+
+      const challenge = await service.createSignInChallenge("test-user-id");
+
+      expect(challenge).toMatchObject({ enrollmentRequired: true });
+    });
+
+    it("completes sign-in with the pending token and a valid code", async () => {
+      mockUserMfaRepo.findByUserId.mockResolvedValue(enabledMfa);
+      const mfaToken = await generateMfaPendingToken("test-user-id");
+
+      const signedIn = await service.completeSignIn(mfaToken, {
+        code: await currentCode(),
+      });
+
+      expect(signedIn.id).toBe("test-user-id");
+      expect(signedIn).not.toHaveProperty("passwordHash");
+    });
+
+    it("enrolls during sign-in when a workspace requires 2FA", async () => {
+      mockWorkspaceRepo.listForUser.mockResolvedValue([
+        { workspace: { isActive: true, settings: { requireMfa: true } }, role: "user" },
+      ]);
+      const mfaToken = await generateMfaPendingToken("test-user-id");
+
+      const enrollment = await service.startSignInEnrollment(mfaToken);
+
+      expect(mockUserMfaRepo.savePendingSecret).toHaveBeenCalledWith(
+        "test-user-id",
+        enrollment.secret
+      );
+    });
+
+    it("refuses sign-in enrollment to users who already have a passkey", async () => {
+      mockCredentialRepo.countForUser.mockResolvedValue(1);
+      mockWorkspaceRepo.listForUser.mockResolvedValue([
+        { workspace: { isActive: true, settings: { requireMfa: true } }, role: "user" },
+      ]);
+      mockUserMfaRepo.findByUserId.mockResolvedValue({
+        userId: "test-user-id",
+        totpSecret: RFC_SECRET,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+      });
+      const mfaToken = await generateMfaPendingToken("test-user-id");
+
+      await expect(service.startSignInEnrollment(mfaToken)).rejects.toThrow(
+        InvalidStateError
+      );
+      await expect(
+        service.activateSignInEnrollment(mfaToken, await currentCode())
+      ).rejects.toThrow(InvalidStateError);
+      expect(mockUserMfaRepo.savePendingSecret).not.toHaveBeenCalled();
+      expect(mockUserMfaRepo.enable).not.toHaveBeenCalled();
+    });
+
+    it("refuses sign-in enrollment when no workspace requires 2FA", async () => {
+      const mfaToken = await generateMfaPendingToken("test-user-id");
+
+      await expect(service.startSignInEnrollment(mfaToken)).rejects.toThrow(
+        InvalidStateError
+      );
+    });
+
+    it("rejects tokens issued for another purpose", async () => {
+      const token = await generateEmailConfirmToken(
+        "test-user-id",
+        "user@example.com",
+        "test-workspace"
+      );
+
+      await expect(
+        service.completeSignIn(token, { code: await currentCode() })
+      ).rejects.toThrow(InvalidTokenError);
+    });
+  });
+
+  describe("workspaceRequiresMfa", () => {
+    it("only treats an explicit true as required", () => {
+      expect(workspaceRequiresMfa({ settings: { requireMfa: true } })).toBe(true);
+      expect(workspaceRequiresMfa({ settings: { requireMfa: "yes" } })).toBe(false);
+      expect(workspaceRequiresMfa({ settings: null })).toBe(false);
+    });
+  });
+});
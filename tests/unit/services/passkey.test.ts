@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "@simplewebauthn/server";
+import { PasskeyService } from "../../../server/services/passkey";
+import {
+  generateMfaPendingToken,
+  verifyWebAuthnChallengeToken,
+} from "../../../server/lib/auth";
+import {
+  BusinessRuleError,
+  ConflictError,
+  InvalidTokenError,
+  LastLoginMethodError,
+  MfaEnrollmentRequiredError,
+  PasskeyVerificationError,
+} from "../../../server/error/errors";
+import { createMockH3Event, createMockRepository } from "../../helpers/mocks";
+
+// Authenticator responses can't be produced in unit tests - the
+// cryptographic checks are @simplewebauthn's, stub their outcome
+vi.mock("@simplewebauthn/server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@simplewebauthn/server")>()),
+  verifyRegistrationResponse: vi.fn(),
+  verifyAuthenticationResponse: vi.fn(),
+}));
+
+vi.mock("#server/lib/webauthn", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../server/lib/webauthn")>()),
+  getRelyingParty: () => ({
+    rpID: "localhost",
+    rpName: "Template",
+    origin: "http://localhost:3000",
+  }),
+}));
+
+describe("PasskeyService", () => {
+  let service: PasskeyService;
+  let mockEvent: any;
+  let mockUserRepo: any;
+  let mockCredentialRepo: any;
+  let mockChallengeRepo: any;
+  let mockAuditLogRepo: any;
+  let mockMfaService: any;
+  let mockIdentityService: any;
+
+  const user = {
+    id: "test-user-id",
+    email: "user@example.com",
+    firstName: "Test",
+    lastName: "User",
+    passwordHash: "hashed_password",
+    isActive: true,
+  };
+
+  const credential = {
+    id: "passkey-1",
+    userId: "test-user-id",
+    credentialId: "cred-abc",
+    publicKey: "AQID",
+    signCount: 3,
+    transports: ["internal"],
+    deviceType: "multiDevice",
+    backedUp: true,
+    nickname: "Synced passkey",
+    lastUsedAt: null,
+    deletedAt: null,
+  };
+
+  const assertion = { id: "cred-abc" } as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockEvent = createMockH3Event({});
+
+    mockUserRepo = createMockRepository();
+    mockUserRepo.findById.mockResolvedValue(user);
+
+    mockCredentialRepo = {
+      findByCredentialId: vi.fn().mockResolvedValue(null),
+      findForUser: vi.fn().mockResolvedValue(null),
+      listForUser: vi.fn().mockResolvedValue([]),
+      countForUser: vi.fn().mockResolvedValue(0),
+      create: vi.fn().mockImplementation(async (data) => ({ id: "passkey-new", ...data })),
+      recordUse: vi.fn(),
+      rename: vi.fn(),
+      deleteForUser: vi.fn().mockResolvedValue(true),
+    };
+    const consumedChallenges = new Set<string>();
+    mockChallengeRepo = {
+      consume: vi.fn().mockImplementation(async (challenge: string) => {
+        if (consumedChallenges.has(challenge)) return false;
+        consumedChallenges.add(challenge);
+        return true;
+      }),
+    };
+    mockAuditLogRepo = { log: vi.fn() };
+    mockMfaService = {
+      getMethods: vi.fn().mockResolvedValue(["passkey"]),
+      isRequiredForUser: vi.fn().mockResolvedValue(false),
+    };
+    mockIdentityService = {
+      countLoginMethods: vi.fn().mockResolvedValue(2),
+    };
+
+    service = new PasskeyService(
+      mockEvent,
+      mockUserRepo,
+      mockCredentialRepo,
+      mockChallengeRepo,
+      mockAuditLogRepo,
+      mockMfaService,
+      mockIdentityService
+    );
+  });
+
+  describe("registration", () => {
+    it("excludes existing passkeys and binds the challenge to the user", async () => {
+      mockCredentialRepo.listForUser.mockResolvedValue([credential]);
+
+      const { options, challengeToken } = await service.startRegistration();
+
+      expect(options.excludeCredentials).toEqual([
+        expect.objectContaining({ id: "cred-abc" }),
+      ]);
+      expect(options.authenticatorSelection?.residentKey).toBe("required");
+      await expect(
+        verifyWebAuthnChallengeToken(challengeToken, "webauthn-register")
+      ).resolves.toMatchObject({ challenge: options.challenge, userId: "test-user-id" });
+    });
+
+    it("enforces the passkey limit", async () => {
+      mockCredentialRepo.listForUser.mockResolvedValue(
+        Array.from({ length: 10 }, () => credential)
+      );
+
+      await expect(service.startRegistration()).rejects.toThrow(BusinessRuleError);
+    });
+
+    it("stores a verified credential", async () => {
+      const { challengeToken } = await service.startRegistration();
+      vi.mocked(verifyRegistrationResponse).mockResolvedValue({
+        verified: true,
+        registrationInfo: {
+          credential: {
+            id: "cred-new",
+            publicKey: new Uint8Array([1, 2, 3]),
+            counter: 0,
+            transports: ["usb"],
+          },
+          credentialDeviceType: "singleDevice",
+          credentialBackedUp: false,
+        },
+      } as any);
+
+      const passkey = await service.finishRegistration({
+        challengeToken,
+        response: {} as any,
+      });
+
+      expect(mockCredentialRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "test-user-id",
+          credentialId: "cred-new",
+          publicKey: "AQID",
+          nickname: "Security key",
+        })
+      );
+      expect(passkey).not.toHaveProperty("publicKey");
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "test-workspace",
+        "test-user-id",
+        "PASSKEY_REGISTERED",
+        "User",
+        "test-user-id",
+        expect.any(Object)
+      );
+    });
+
+    it("rejects a credential that is already registered", async () => {
+      const { challengeToken } = await service.startRegistration();
+      vi.mocked(verifyRegistrationResponse).mockResolvedValue({
+        verified: true,
+        registrationInfo: {
+          credential: { id: "cred-abc", publicKey: new Uint8Array([1]), counter: 0 },
+          credentialDeviceType: "multiDevice",
+          credentialBackedUp: true,
+        },
+      } as any);
+      mockCredentialRepo.findByCredentialId.mockResolvedValue(credential);
+
+      await expect(
+        service.finishRegistration({ challengeToken, response: {} as any })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it("rejects a challenge started by another user", async () => {
+      const { challengeToken } = await service.startRegistration();
+      mockEvent.context.userId = "other-user";
+      const otherService = new PasskeyService(
+        mockEvent,
+        mockUserRepo,
+        mockCredentialRepo,
+        mockChallengeRepo,
+        mockAuditLogRepo,
+        mockMfaService,
+        mockIdentityService
+      );
+
+      await expect(
+        otherService.finishRegistration({ challengeToken, response: {} as any })
+      ).rejects.toThrow(InvalidTokenError);
+    });
+  });
+
+  describe("removal", () => {
+    it("blocks removing the last second factor while 2FA is required", async () => {
+      mockCredentialRepo.findForUser.mockResolvedValue(credential);
+      mockCredentialRepo.countForUser.mockResolvedValue(1);
+      mockMfaService.isRequiredForUser.mockResolvedValue(true);
+
+      await expect(service.deletePasskey("passkey-1")).rejects.toThrow(
+        MfaEnrollmentRequiredError
+      );
+      expect(mockCredentialRepo.deleteForUser).not.toHaveBeenCalled();
+    });
+
+    it("removes a passkey when an authenticator app remains", async () => {
+      mockCredentialRepo.findForUser.mockResolvedValue(credential);
+      mockCredentialRepo.countForUser.mockResolvedValue(1);
+      mockMfaService.getMethods.mockResolvedValue(["totp", "passkey"]);
+      mockMfaService.isRequiredForUser.mockResolvedValue(true);
+
+      await service.deletePasskey("passkey-1");
+
+      expect(mockCredentialRepo.deleteForUser).toHaveBeenCalledWith(
+        "passkey-1",
+        "test-user-id"
+      );
+    });
+
+    it("refuses to remove the last way to sign in", async () => {
+      mockCredentialRepo.findForUser.mockResolvedValue(credential);
+      mockIdentityService.countLoginMethods.mockResolvedValue(1);
+
+      await expect(service.deletePasskey("passkey-1")).rejects.toThrow(
+        LastLoginMethodError
+      );
+      expect(mockCredentialRepo.deleteForUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sign-in", () => {
+    it("offers any discoverable passkey for passwordless sign-in", async () => {
+      const { options } = await service.startAuthentication();
+
+      expect(options.allowCredentials).toEqual([]);
+      expect(options.userVerification).toBe("required");
+    });
+
+    it("limits the second factor to the pending user's passkeys", async () => {
+      mockCredentialRepo.listForUser.mockResolvedValue([credential]);
+      const mfaToken = await generateMfaPendingToken("test-user-id");
+
+      const { options } = await service.startAuthentication(mfaToken);
+
+      expect(mockCredentialRepo.listForUser).toHaveBeenCalledWith("test-user-id");
+      expect(options.allowCredentials).toEqual([
+        expect.objectContaining({ id: "cred-abc" }),
+      ]);
+    });
+
+    it("signs in with a verified assertion and records the counter", async () => {
+      const { challengeToken } = await service.startAuthentication();
+      mockCredentialRepo.findByCredentialId.mockResolvedValue(credential);
+      vi.mocked(verifyAuthenticationResponse).mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 4 },
+      } as any);
+
+      const signedIn = await service.finishAuthentication({
+        challengeToken,
+        response: assertion,
+      });
+
+      expect(signedIn.id).toBe("test-user-id");
+      expect(signedIn).not.toHaveProperty("passwordHash");
+      expect(mockCredentialRepo.recordUse).toHaveBeenCalledWith("passkey-1", 4);
+      expect(vi.mocked(verifyAuthenticationResponse).mock.calls[0]![0]).toMatchObject({
+        requireUserVerification: true,
+        credential: { id: "cred-abc", counter: 3 },
+      });
+    });
+
+    it("rejects a replayed assertion", async () => {
+      const { challengeToken } = await service.startAuthentication();
+      mockCredentialRepo.findByCredentialId.mockResolvedValue(credential);
+      vi.mocked(verifyAuthenticationResponse).mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 0 },
+      } as any);
+
+      await service.finishAuthentication({ challengeToken, response: assertion });
+
+      await expect(
+        service.finishAuthentication({ challengeToken, response: assertion })
+      ).rejects.toThrow(InvalidTokenError);
+      expect(verifyAuthenticationResponse).toHaveBeenCalledTimes(1);
+      expect(mockChallengeRepo.consume).toHaveBeenCalledWith(
+        expect.any(String),
+        "webauthn-authenticate",
+        expect.any(Date)
+      );
+    });
+
+    it("rejects unknown credentials", async () => {
+      const { challengeToken } = await service.startAuthentication();
+
+      await expect(
+        service.finishAuthentication({ challengeToken, response: assertion })
+      ).rejects.toThrow(PasskeyVerificationError);
+    });
+
+    it("rejects another user's passkey as the second factor", async () => {
+      const mfaToken = await generateMfaPendingToken("test-user-id");
+      const { challengeToken } = await service.startAuthentication(mfaToken);
+      mockCredentialRepo.findByCredentialId.mockResolvedValue({
+        ...credential,
+        userId: "other-user",
+      });
+
+      await expect(
+        service.finishAuthentication({ challengeToken, response: assertion })
+      ).rejects.toThrow(PasskeyVerificationError);
+      expect(verifyAuthenticationResponse).not.toHaveBeenCalled();
+    });
+
+    it("maps library failures (e.g. counter rollback) to a verification error", async () => {
+      const { challengeToken } = await service.startAuthentication();
+      mockCredentialRepo.findByCredentialId.mockResolvedValue(credential);
+      vi.mocked(verifyAuthenticationResponse).mockRejectedValue(
+        new Error("Response counter value 2 was lower than expected 3")
+      );
+
+      await expect(
+        service.finishAuthentication({ challengeToken, response: assertion })
+      ).rejects.toThrow(PasskeyVerificationError);
+      expect(mockCredentialRepo.recordUse).not.toHaveBeenCalled();
+    });
+  });
+});
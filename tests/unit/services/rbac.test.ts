@@ -1,9 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { RBACService } from "#server/services/rbac";
+import { RBACService, getRBACService } from "#server/services/rbac";
 import { PermissionDeniedError } from "#server/error/errors";
 
-// Mock the UserRepository
+// Mock the UserRepository, WorkspaceMemberRepository and RoleRepository
 const mockFindById = vi.fn();
+const mockFindMembership = vi.fn();
+const mockListRoles = vi.fn().mockResolvedValue([]);
+const mockFindRoleByName = vi.fn();
 
 vi.mock("#server/repositories/identity", () => ({
   UserRepository: vi.fn().mockImplementation(() => ({
@@ -11,6 +14,19 @@ vi.mock("#server/repositories/identity", () => ({
   })),
 }));
 
+vi.mock("#server/repositories/workspace", () => ({
+  WorkspaceMemberRepository: vi.fn().mockImplementation(() => ({
+    findMembership: mockFindMembership,
+  })),
+}));
+
+vi.mock("#server/repositories/role", () => ({
+  RoleRepository: vi.fn().mockImplementation(() => ({
+    listByWorkspace: mockListRoles,
+    findByName: mockFindRoleByName,
+  })),
+}));
+
 describe("RBACService", () => {
   let rbacService: RBACService;
   const mockDb = {} as D1Database;
@@ -191,6 +207,57 @@ describe("RBACService", () => {
       expect(permissions).toContain("profile:read");
       expect(permissions).toContain("profile:update");
     });
+
+    it("returns empty array for inactive users", async () => {
+      mockFindById.mockResolvedValue({ id: "user-1", role: "admin", isActive: false });
+      const permissions = await rbacService.getUserPermissions("user-1");
+      expect(permissions).toEqual([]);
+    });
+  });
+
+  describe("getPermissionVersion", () => {
+    it("returns null when user not found", async () => {
+      mockFindById.mockResolvedValue(null);
+      expect(await rbacService.getPermissionVersion("user-1")).toBeNull();
+    });
+
+    it("returns null for inactive users", async () => {
+      mockFindById.mockResolvedValue({
+        id: "user-1",
+        role: "user",
+        isActive: false,
+        permissionVersion: 2,
+      });
+      expect(await rbacService.getPermissionVersion("user-1")).toBeNull();
+    });
+
+    it("returns the user version when no workspace is set", async () => {
+      mockFindById.mockResolvedValue({
+        id: "user-1",
+        role: "user",
+        isActive: true,
+        permissionVersion: 3,
+      });
+
+      expect(await rbacService.getPermissionVersion("user-1")).toBe(3);
+      expect(mockFindMembership).not.toHaveBeenCalled();
+    });
+
+    it("adds the membership version inside a workspace", async () => {
+      mockFindById.mockResolvedValue({
+        id: "user-1",
+        role: "user",
+        isActive: true,
+        permissionVersion: 3,
+      });
+      mockFindMembership.mockResolvedValue({
+        workspaceId: "ws-1",
+        role: "manager",
+        permissionVersion: 4,
+      });
+
+      expect(await rbacService.getPermissionVersion("user-1", "ws-1")).toBe(7);
+    });
   });
 
   describe("getUserRole", () => {
@@ -207,6 +274,195 @@ describe("RBACService", () => {
     });
   });
 
+  describe("workspace roles", () => {
+    it("uses the workspace member role instead of the global role", async () => {
+      const workspaceService = new RBACService(mockDb, {}, "ws-1");
+      mockFindById.mockResolvedValue({ id: "user-1", role: "user", isActive: true });
+      mockFindMembership.mockResolvedValue({ workspaceId: "ws-1", role: "admin" });
+
+      const result = await workspaceService.userHasPermission("user-1", "users:delete");
+
+      expect(result).toBe(true);
+      expect(mockFindMembership).toHaveBeenCalledWith("ws-1", "user-1");
+    });
+
+    it("can be a plain user in one workspace and admin in another", async () => {
+      mockFindById.mockResolvedValue({ id: "user-1", role: "user", isActive: true });
+      mockFindMembership.mockImplementation(async (workspaceId: string) => ({
+        workspaceId,
+        role: workspaceId === "ws-admin" ? "admin" : "user",
+      }));
+
+      expect(await rbacService.getUserPermissions("user-1", "ws-admin")).toEqual(["*"]);
+      expect(await rbacService.getUserPermissions("user-1", "ws-user")).toEqual([
+        "profile:read",
+        "profile:update",
+      ]);
+    });
+
+    it("grants nothing to non-members", async () => {
+      mockFindById.mockResolvedValue({ id: "user-1", role: "manager", isActive: true });
+      mockFindMembership.mockResolvedValue(null);
+
+      expect(await rbacService.getUserPermissions("user-1", "ws-1")).toEqual([]);
+      expect(await rbacService.getUserRole("user-1", "ws-1")).toBeNull();
+      expect(
+        await rbacService.userHasPermission("user-1", "users:read", "ws-1")
+      ).toBe(false);
+    });
+
+    it("falls back to the global role for system admins", async () => {
+      mockFindById.mockResolvedValue({ id: "user-1", role: "admin", isActive: true });
+      mockFindMembership.mockResolvedValue(null);
+
+      expect(await rbacService.getUserRole("user-1", "ws-1")).toBe("admin");
+      expect(
+        await rbacService.userHasPermission("user-1", "users:delete", "ws-1")
+      ).toBe(true);
+    });
+
+    it("uses the global role when no workspace is set", async () => {
+      mockFindById.mockResolvedValue({ id: "user-1", role: "manager", isActive: true });
+
+      expect(await rbacService.getUserRole("user-1")).toBe("manager");
+      expect(mockFindMembership).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("API key scopes", () => {
+    it("only grants what both the scopes and the role allow", async () => {
+      const scopedService = new RBACService(mockDb, {}, undefined, ["users:*"]);
+      mockFindById.mockResolvedValue({ id: "user-1", role: "manager", isActive: true });
+
+      expect(await scopedService.userHasPermission("user-1", "users:read")).toBe(true);
+      // Outside the scopes, although the role has it
+      expect(await scopedService.userHasPermission("user-1", "roles:read")).toBe(false);
+      // Inside the scopes, but the role doesn't have it
+      expect(await scopedService.userHasPermission("user-1", "users:delete")).toBe(false);
+      expect(await scopedService.getUserPermissions("user-1")).toEqual([
+        "users:read",
+        "users:create",
+        "users:update",
+      ]);
+    });
+
+    it("still applies when RBAC is disabled", async () => {
+      const scopedService = new RBACService(
+        mockDb,
+        { enabled: false, allowAllWhenDisabled: true },
+        undefined,
+        ["users:read"]
+      );
+
+      expect(await scopedService.userHasPermission("user-1", "users:read")).toBe(true);
+      expect(await scopedService.userHasPermission("user-1", "roles:delete")).toBe(false);
+      expect(
+        await scopedService.userHasAnyPermission("user-1", ["roles:delete"])
+      ).toBe(false);
+    });
+  });
+
+  describe("unconfirmed email (restrict policy)", () => {
+    const createEvent = (context: Record<string, unknown>) =>
+      ({ context: { db: mockDb, ...context } }) as any;
+
+    beforeEach(() => {
+      mockFindById.mockResolvedValue({ id: "user-1", role: "admin", isActive: true });
+    });
+
+    it("narrows handler checks to UNVERIFIED_EMAIL_PERMISSIONS", async () => {
+      const service = getRBACService(createEvent({ emailVerificationPending: true }));
+
+      // PUT /api/v1/users/:userId/roles checks these in the handler
+      expect(
+        await service.userHasAnyPermission("user-1", ["users:update", "roles:update"])
+      ).toBe(false);
+      expect(await service.userHasPermission("user-1", "profile:read")).toBe(true);
+      expect(await service.getUserPermissions("user-1")).toEqual([
+        "profile:read",
+        "profile:update",
+      ]);
+    });
+
+    it("keeps the full role once the email is confirmed", async () => {
+      const service = getRBACService(createEvent({ emailVerificationPending: false }));
+
+      expect(
+        await service.userHasAnyPermission("user-1", ["users:update", "roles:update"])
+      ).toBe(true);
+    });
+
+    it("combines with API key scopes", async () => {
+      const service = getRBACService(
+        createEvent({
+          emailVerificationPending: true,
+          apiKeyScopes: ["profile:read", "users:read"],
+        })
+      );
+
+      expect(await service.userHasPermission("user-1", "profile:read")).toBe(true);
+      expect(await service.userHasPermission("user-1", "profile:update")).toBe(false);
+      expect(await service.userHasPermission("user-1", "users:read")).toBe(false);
+    });
+  });
+
+  describe("custom roles", () => {
+    const supportAgent = {
+      id: "role-1",
+      workspaceId: "ws-1",
+      name: "support_agent",
+      displayName: "Support Agent",
+      description: null,
+      permissions: ["users:read", "audit:read"],
+    };
+
+    it("resolves permissions of a custom workspace role", async () => {
+      mockFindById.mockResolvedValue({ id: "user-1", role: "user", isActive: true });
+      mockFindMembership.mockResolvedValue({ workspaceId: "ws-1", role: "support_agent" });
+      mockListRoles.mockResolvedValueOnce([supportAgent]);
+
+      const permissions = await rbacService.getUserPermissions("user-1", "ws-1");
+
+      expect(permissions).toEqual(["users:read", "audit:read"]);
+      expect(mockListRoles).toHaveBeenCalledWith("ws-1");
+    });
+
+    it("does not load custom roles for system role names", async () => {
+      mockFindById.mockResolvedValue({ id: "user-1", role: "user", isActive: true });
+      mockFindMembership.mockResolvedValue({ workspaceId: "ws-1", role: "manager" });
+
+      await rbacService.userHasPermission("user-1", "users:read", "ws-1");
+
+      expect(mockListRoles).not.toHaveBeenCalled();
+    });
+
+    it("lists system roles followed by custom roles", async () => {
+      mockListRoles.mockResolvedValueOnce([supportAgent]);
+
+      const roles = await rbacService.listRoles("ws-1");
+
+      expect(roles.map((r) => [r.name, r.isSystem])).toEqual([
+        ["admin", true],
+        ["manager", true],
+        ["user", true],
+        ["support_agent", false],
+      ]);
+    });
+
+    it("finds custom roles by name", async () => {
+      mockFindRoleByName.mockResolvedValueOnce(supportAgent);
+
+      const role = await rbacService.findRole("support_agent", "ws-1");
+
+      expect(role?.isSystem).toBe(false);
+      expect(role?.config.name).toBe("Support Agent");
+    });
+
+    it("does not treat prototype keys as system roles", () => {
+      expect(rbacService.isValidRole("constructor")).toBe(false);
+    });
+  });
+
   describe("getAvailableRoles", () => {
     it("returns all configured roles", () => {
       const roles = rbacService.getAvailableRoles();
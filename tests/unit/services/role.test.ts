@@ -0,0 +1,340 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { RoleService } from "../../../server/services/role";
+import {
+  AuthorizationError,
+  BusinessRuleError,
+  ConflictError,
+  InvalidInputError,
+  NotFoundError,
+  UserNotFoundError,
+  ValidationError,
+  WorkspaceContextMissingError,
+} from "../../../server/error/errors";
+import { DEFAULT_ROLES } from "../../../server/config/rbac";
+import { createMockH3Event } from "../../helpers/mocks";
+
+function createMockRole(overrides?: any) {
+  return {
+    id: "role-1",
+    workspaceId: "ws-1",
+    name: "support_agent",
+    displayName: "Support Agent",
+    description: null,
+    permissions: ["users:read"],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+describe("RoleService", () => {
+  let service: RoleService;
+  let mockRoleRepo: any;
+  let mockMemberRepo: any;
+  let mockUserRepo: any;
+  let mockAuditLogRepo: any;
+  let mockRBACService: any;
+
+  function createService(workspaceId?: string) {
+    const event = createMockH3Event({}) as any;
+    event.context.workspaceId = workspaceId;
+    return new RoleService(
+      event,
+      mockRoleRepo,
+      mockMemberRepo,
+      mockUserRepo,
+      mockAuditLogRepo,
+      mockRBACService
+    );
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRoleRepo = {
+      findByName: vi.fn().mockResolvedValue(null),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    };
+
+    mockMemberRepo = {
+      countByRole: vi.fn().mockResolvedValue(0),
+      countActiveByRole: vi.fn().mockResolvedValue(0),
+      findMembership: vi.fn(),
+      updateRole: vi.fn().mockResolvedValue(undefined),
+    };
+
+    mockUserRepo = {
+      findById: vi.fn().mockResolvedValue({ id: "user-2", role: "user" }),
+      count: vi.fn().mockResolvedValue(2),
+      changeRole: vi.fn(),
+    };
+
+    // System roles only; actor permissions set per test
+    mockRBACService = {
+      findRole: vi.fn().mockImplementation(async (name: string) => {
+        const config = DEFAULT_ROLES[name as keyof typeof DEFAULT_ROLES];
+        return config ? { name, config, isSystem: true } : null;
+      }),
+      getUserPermissions: vi.fn().mockResolvedValue(["*"]),
+    };
+
+    mockAuditLogRepo = {
+      log: vi.fn().mockResolvedValue(undefined),
+    };
+
+    service = createService("ws-1");
+  });
+
+  describe("createRole", () => {
+    const input = {
+      name: "support_agent",
+      displayName: "Support Agent",
+      permissions: ["users:read", "audit:*"],
+    };
+
+    it("creates a workspace-scoped role and logs it", async () => {
+      mockRoleRepo.create.mockResolvedValue(
+        createMockRole({ permissions: input.permissions })
+      );
+
+      const role = await service.createRole(input);
+
+      expect(role.name).toBe("support_agent");
+      expect(mockRoleRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ workspaceId: "ws-1", name: "support_agent" }),
+        ["users:read", "audit:*"]
+      );
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "ws-1",
+        "test-user-id",
+        "ROLE_CREATED",
+        "Role",
+        "role-1",
+        expect.any(Object)
+      );
+    });
+
+    it("rejects invalid permission codes", async () => {
+      await expect(
+        service.createRole({ ...input, permissions: ["users", "Users:Read"] })
+      ).rejects.toThrow(InvalidInputError);
+      expect(mockRoleRepo.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects system role names", async () => {
+      await expect(
+        service.createRole({ ...input, name: "admin" })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it("rejects duplicate names", async () => {
+      mockRoleRepo.findByName.mockResolvedValue(createMockRole());
+
+      await expect(service.createRole(input)).rejects.toThrow(ConflictError);
+    });
+
+    it("requires a workspace context", async () => {
+      service = createService(undefined);
+
+      await expect(service.createRole(input)).rejects.toThrow(
+        WorkspaceContextMissingError
+      );
+    });
+
+    it("refuses permissions the actor does not hold", async () => {
+      mockRBACService.getUserPermissions.mockResolvedValue(["users:read"]);
+
+      await expect(service.createRole(input)).rejects.toThrow(
+        AuthorizationError
+      );
+      expect(mockRoleRepo.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateRole", () => {
+    it("replaces permissions and records before/after state", async () => {
+      const role = createMockRole();
+      mockRoleRepo.findByName.mockResolvedValue(role);
+      mockRoleRepo.update.mockResolvedValue(
+        createMockRole({ permissions: ["users:*"] })
+      );
+
+      const updated = await service.updateRole("support_agent", {
+        permissions: ["users:*"],
+      });
+
+      expect(updated.permissions).toEqual(["users:*"]);
+      expect(mockRoleRepo.update).toHaveBeenCalledWith(
+        role,
+        { displayName: undefined, description: undefined },
+        ["users:*"]
+      );
+      const [, , , , , context] = mockAuditLogRepo.log.mock.calls[0];
+      expect(context.stateBefore.permissions).toEqual(["users:read"]);
+      expect(context.stateAfter.permissions).toEqual(["users:*"]);
+    });
+
+    it("refuses to modify system roles", async () => {
+      await expect(
+        service.updateRole("admin", { displayName: "Boss" })
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it("throws NotFoundError for unknown roles", async () => {
+      await expect(
+        service.updateRole("missing", { displayName: "Missing" })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it("refuses to grant permissions the actor does not hold", async () => {
+      mockRoleRepo.findByName.mockResolvedValue(createMockRole());
+      mockRBACService.getUserPermissions.mockResolvedValue(["users:read"]);
+
+      await expect(
+        service.updateRole("support_agent", { permissions: ["users:*"] })
+      ).rejects.toThrow(AuthorizationError);
+      expect(mockRoleRepo.update).not.toHaveBeenCalled();
+    });
+
+    it("refuses to modify a role with more permissions than the actor", async () => {
+      mockRoleRepo.findByName.mockResolvedValue(
+        createMockRole({ permissions: ["users:*", "roles:*"] })
+      );
+      mockRBACService.getUserPermissions.mockResolvedValue(["users:*"]);
+
+      await expect(
+        service.updateRole("support_agent", { permissions: ["users:read"] })
+      ).rejects.toThrow(AuthorizationError);
+      expect(mockRoleRepo.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteRole", () => {
+    it("deletes an unassigned role", async () => {
+      const role = createMockRole();
+      mockRoleRepo.findByName.mockResolvedValue(role);
+
+      await service.deleteRole("support_agent");
+
+      expect(mockRoleRepo.delete).toHaveBeenCalledWith(role);
+    });
+
+    it("refuses to delete a role still held by members", async () => {
+      mockRoleRepo.findByName.mockResolvedValue(createMockRole());
+      mockMemberRepo.countByRole.mockResolvedValue(2);
+
+      await expect(service.deleteRole("support_agent")).rejects.toThrow(
+        ConflictError
+      );
+      expect(mockRoleRepo.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("assignUserRole", () => {
+    beforeEach(() => {
+      mockMemberRepo.findMembership.mockResolvedValue({
+        workspaceId: "ws-1",
+        userId: "user-2",
+        role: "user",
+      });
+    });
+
+    it("changes the workspace role and logs ROLE_CHANGED", async () => {
+      const result = await service.assignUserRole("user-2", "manager");
+
+      expect(result).toEqual({ userId: "user-2", role: "manager", changed: true });
+      expect(mockMemberRepo.updateRole).toHaveBeenCalledWith("ws-1", "user-2", "manager");
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "ws-1",
+        "test-user-id",
+        "ROLE_CHANGED",
+        "User",
+        "user-2",
+        expect.objectContaining({
+          stateBefore: { role: "user" },
+          stateAfter: { role: "manager" },
+        })
+      );
+    });
+
+    it("changes the global role outside a workspace", async () => {
+      service = createService(undefined);
+
+      await service.assignUserRole("user-2", "manager");
+
+      expect(mockUserRepo.changeRole).toHaveBeenCalledWith("user-2", "manager");
+      expect(mockMemberRepo.updateRole).not.toHaveBeenCalled();
+    });
+
+    it("is a no-op when the role does not change", async () => {
+      const result = await service.assignUserRole("user-2", "user");
+
+      expect(result.changed).toBe(false);
+      expect(mockMemberRepo.updateRole).not.toHaveBeenCalled();
+      expect(mockAuditLogRepo.log).not.toHaveBeenCalled();
+    });
+
+    it("rejects unknown roles", async () => {
+      await expect(service.assignUserRole("user-2", "owner")).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    it("rejects users outside the workspace", async () => {
+      mockMemberRepo.findMembership.mockResolvedValue(null);
+
+      await expect(service.assignUserRole("user-2", "manager")).rejects.toThrow(
+        UserNotFoundError
+      );
+    });
+
+    it("prevents a manager from granting admin", async () => {
+      mockRBACService.getUserPermissions.mockResolvedValue(
+        DEFAULT_ROLES.manager.permissions
+      );
+
+      await expect(service.assignUserRole("user-2", "admin")).rejects.toThrow(
+        AuthorizationError
+      );
+      expect(mockMemberRepo.updateRole).not.toHaveBeenCalled();
+    });
+
+    it("prevents a manager from demoting an admin", async () => {
+      mockRBACService.getUserPermissions.mockResolvedValue(
+        DEFAULT_ROLES.manager.permissions
+      );
+      mockMemberRepo.findMembership.mockResolvedValue({ role: "admin" });
+
+      await expect(service.assignUserRole("user-2", "user")).rejects.toThrow(
+        AuthorizationError
+      );
+    });
+
+    it("refuses to demote the last admin", async () => {
+      mockMemberRepo.findMembership.mockResolvedValue({ role: "admin" });
+      mockMemberRepo.countActiveByRole.mockResolvedValue(1);
+
+      await expect(service.assignUserRole("user-2", "user")).rejects.toThrow(
+        BusinessRuleError
+      );
+      expect(mockMemberRepo.countActiveByRole).toHaveBeenCalledWith(
+        "ws-1",
+        "admin"
+      );
+    });
+
+    it("does not count deactivated admins towards the last-admin guard", async () => {
+      mockMemberRepo.findMembership.mockResolvedValue({ role: "admin" });
+      mockMemberRepo.countByRole.mockResolvedValue(2);
+      mockMemberRepo.countActiveByRole.mockResolvedValue(1);
+
+      await expect(service.assignUserRole("user-2", "user")).rejects.toThrow(
+        BusinessRuleError
+      );
+      expect(mockMemberRepo.updateRole).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { SessionService, SESSION_CONFIG } from "../../../server/services/session";
+import { describeUserAgent } from "../../../server/lib/userAgent";
+import { AuthenticationError, NotFoundError } from "../../../server/error/errors";
+import { createMockH3Event } from "../../helpers/mocks";
+
+describe("describeUserAgent", () => {
+  it("labels common browsers and platforms", () => {
+    expect(
+      describeUserAgent(
+        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36"
+      )
+    ).toBe("Chrome on macOS");
+    expect(
+      describeUserAgent(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0"
+      )
+    ).toBe("Edge on Windows");
+    expect(
+      describeUserAgent(
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1"
+      )
+    ).toBe("Safari on iOS");
+    expect(
+      describeUserAgent("Mozilla/5.0 (Android 14; Mobile; rv:127.0) Gecko/127.0 Firefox/127.0")
+    ).toBe("Firefox on Android");
+  });
+
+  it("falls back for missing or unknown agents", () => {
+    expect(describeUserAgent(null)).toBe("Unknown device");
+    expect(describeUserAgent("unknown")).toBe("Unknown device");
+    expect(describeUserAgent("curl/8.4.0")).toBe("Unknown device");
+  });
+});
+
+describe("SessionService", () => {
+  let service: SessionService;
+  let mockEvent: any;
+  let mockSessionRepo: any;
+  let mockAuditLogRepo: any;
+
+  const activeSession = (overrides: Record<string, any> = {}) => ({
+    id: "session-1",
+    userId: "test-user-id",
+    ipAddress: "203.0.113.1",
+    userAgent: "Mozilla/5.0 (X11; Linux x86_64) Firefox/127.0",
+    createdAt: new Date(),
+    lastSeenAt: new Date(),
+    expiresAt: new Date(Date.now() + SESSION_CONFIG.IDLE_TIMEOUT),
+    revokedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockEvent = createMockH3Event({});
+    mockEvent.context.ipAddress = "198.51.100.7";
+    mockEvent.context.userAgent = "Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0";
+
+    mockSessionRepo = {
+      create: vi.fn().mockImplementation(async (data) => ({ id: "session-new", ...data })),
+      findActive: vi.fn().mockResolvedValue(null),
+      listActiveForUser: vi.fn().mockResolvedValue([]),
+      touch: vi.fn(),
+      revoke: vi.fn().mockResolvedValue(false),
+      revokeAllForUser: vi.fn().mockResolvedValue(0),
+    };
+    mockAuditLogRepo = { log: vi.fn() };
+
+    service = new SessionService(mockEvent, mockSessionRepo, mockAuditLogRepo);
+  });
+
+  it("registers the signing-in device", async () => {
+    const session = await service.createSession("test-user-id");
+
+    expect(session.id).toBe("session-new");
+    expect(mockSessionRepo.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "test-user-id",
+        ipAddress: "198.51.100.7",
+        userAgent: mockEvent.context.userAgent,
+      })
+    );
+  });
+
+  describe("validateSession", () => {
+    it("rejects cookies without a session ID", async () => {
+      await expect(service.validateSession(undefined, "test-user-id")).resolves.toBe(false);
+      expect(mockSessionRepo.findActive).not.toHaveBeenCalled();
+    });
+
+    it("rejects revoked, expired or foreign sessions", async () => {
+      await expect(service.validateSession("session-1", "test-user-id")).resolves.toBe(false);
+      expect(mockSessionRepo.findActive).toHaveBeenCalledWith("session-1", "test-user-id");
+    });
+
+    it("accepts active sessions without writing on every request", async () => {
+      mockSessionRepo.findActive.mockResolvedValue(activeSession());
+
+      await expect(service.validateSession("session-1", "test-user-id")).resolves.toBe(true);
+      expect(mockSessionRepo.touch).not.toHaveBeenCalled();
+    });
+
+    it("records activity once the touch interval passed", async () => {
+      mockSessionRepo.findActive.mockResolvedValue(
+        activeSession({
+          lastSeenAt: new Date(Date.now() - SESSION_CONFIG.TOUCH_INTERVAL),
+        })
+      );
+
+      await service.validateSession("session-1", "test-user-id");
+
+      expect(mockSessionRepo.touch).toHaveBeenCalledWith("session-1", {
+        ipAddress: "198.51.100.7",
+        userAgent: mockEvent.context.userAgent,
+        expiresAt: expect.any(Date),
+      });
+    });
+  });
+
+  it("lists sessions with device labels and flags the current one", async () => {
+    mockSessionRepo.listActiveForUser.mockResolvedValue([
+      activeSession(),
+      activeSession({ id: "session-2", userAgent: null }),
+    ]);
+
+    const sessions = await service.listSessions("session-2");
+
+    expect(sessions).toEqual([
+      expect.objectContaining({ id: "session-1", device: "Firefox on Linux", current: false }),
+      expect.objectContaining({ id: "session-2", device: "Unknown device", current: true }),
+    ]);
+    expect(sessions[0]).not.toHaveProperty("expiresAt");
+  });
+
+  it("revokes one of the user's sessions", async () => {
+    mockSessionRepo.revoke.mockResolvedValue(true);
+
+    await service.revokeSession("session-1");
+
+    expect(mockSessionRepo.revoke).toHaveBeenCalledWith("session-1", "test-user-id");
+    expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+      "test-workspace",
+      "test-user-id",
+      "SESSION_REVOKED",
+      "User",
+      "test-user-id",
+      expect.any(Object)
+    );
+  });
+
+  it("reports unknown sessions as not found", async () => {
+    await expect(service.revokeSession("session-x")).rejects.toThrow(NotFoundError);
+  });
+
+  it("signs out other devices but keeps the current one", async () => {
+    mockSessionRepo.revokeAllForUser.mockResolvedValue(2);
+
+    await expect(service.revokeOtherSessions("session-1")).resolves.toBe(2);
+    expect(mockSessionRepo.revokeAllForUser).toHaveBeenCalledWith(
+      "test-user-id",
+      "session-1"
+    );
+  });
+
+  it("ends the admin's session when signing out while impersonating", async () => {
+    mockEvent.context.impersonatorId = "admin-1";
+
+    await service.endSession("session-1");
+
+    expect(mockSessionRepo.revoke).toHaveBeenCalledWith("session-1", "admin-1");
+  });
+
+  it("requires authentication for management", async () => {
+    delete mockEvent.context.userId;
+    const anonymous = new SessionService(mockEvent, mockSessionRepo, mockAuditLogRepo);
+
+    await expect(anonymous.listSessions()).rejects.toThrow(AuthenticationError);
+  });
+});
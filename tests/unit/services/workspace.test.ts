@@ -0,0 +1,553 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { WorkspaceService } from "../../../server/services/workspace";
+import {
+  AuthorizationError,
+  ConflictError,
+  InvalidStateError,
+  InviteExpiredError,
+  InviteNotFoundError,
+  ValidationError,
+  WorkspaceIdTakenError,
+  WorkspaceNotFoundError,
+} from "../../../server/error/errors";
+import { createMockH3Event } from "../../helpers/mocks";
+import { EmailService } from "../../../server/services/email";
+import {
+  CaptureEmailProvider,
+  clearCapturedEmails,
+  extractEmailLinks,
+  getLastCapturedEmail,
+} from "../../../server/lib/email";
+
+function createMockWorkspace(overrides?: any) {
+  return {
+    id: "ws-1",
+    name: "Acme",
+    slug: "acme",
+    description: null,
+    settings: {},
+    ownerId: "test-user-id",
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function createMockMembership(overrides?: any) {
+  return {
+    id: "member-1",
+    workspaceId: "ws-1",
+    userId: "test-user-id",
+    role: "admin",
+    joinedAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function createMockInvite(overrides?: any) {
+  return {
+    id: "invite-1",
+    workspaceId: "ws-1",
+    email: "invitee@example.com",
+    role: "user",
+    invitedById: "test-user-id",
+    token: "invite-token",
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    acceptedAt: null,
+    acceptedByUserId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+describe("WorkspaceService", () => {
+  let service: WorkspaceService;
+  let mockWorkspaceRepo: any;
+  let mockMemberRepo: any;
+  let mockInviteRepo: any;
+  let mockUserRepo: any;
+  let mockAuditLogRepo: any;
+  let mockRoleRepo: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockWorkspaceRepo = {
+      findById: vi.fn(),
+      findBySlug: vi.fn(),
+      listForUser: vi.fn(),
+      createWithOwner: vi.fn(),
+      update: vi.fn(),
+      transferOwnership: vi.fn(),
+      setActive: vi.fn(),
+      softDelete: vi.fn(),
+    };
+
+    mockMemberRepo = {
+      findMembership: vi.fn(),
+      listByWorkspace: vi.fn(),
+      updateRole: vi.fn(),
+    };
+
+    mockInviteRepo = {
+      findByToken: vi.fn(),
+      findById: vi.fn(),
+      listPending: vi.fn(),
+      create: vi.fn(),
+      revokePendingForEmail: vi.fn(),
+      revoke: vi.fn(),
+      accept: vi.fn(),
+    };
+
+    mockUserRepo = {
+      findById: vi.fn(),
+      findByEmail: vi.fn(),
+    };
+
+    mockAuditLogRepo = {
+      log: vi.fn().mockResolvedValue(undefined),
+    };
+
+    mockRoleRepo = {
+      findByName: vi.fn().mockResolvedValue(null),
+    };
+
+    clearCapturedEmails();
+
+    service = new WorkspaceService(
+      createMockH3Event({}) as any,
+      mockWorkspaceRepo,
+      mockMemberRepo,
+      mockInviteRepo,
+      mockUserRepo,
+      mockAuditLogRepo,
+      mockRoleRepo,
+      new EmailService(
+        new CaptureEmailProvider(),
+        "noreply@example.com",
+        "https://app.example.com"
+      )
+    );
+  });
+
+  describe("createWorkspace", () => {
+    it("creates workspace with the current user as owner", async () => {
+      const workspace = createMockWorkspace();
+      mockWorkspaceRepo.findBySlug.mockResolvedValue(null);
+      mockWorkspaceRepo.createWithOwner.mockResolvedValue(workspace);
+
+      const result = await service.createWorkspace({
+        name: "Acme",
+        slug: "Acme",
+      });
+
+      expect(result).toEqual(workspace);
+      expect(mockWorkspaceRepo.createWithOwner).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "Acme", slug: "acme" }),
+        "test-user-id",
+        "admin"
+      );
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "ws-1",
+        "test-user-id",
+        "WORKSPACE_CREATED",
+        "Workspace",
+        "ws-1",
+        expect.objectContaining({ statusCode: 201 })
+      );
+    });
+
+    it("throws WorkspaceIdTakenError when slug exists", async () => {
+      mockWorkspaceRepo.findBySlug.mockResolvedValue(createMockWorkspace());
+
+      await expect(
+        service.createWorkspace({ name: "Acme", slug: "acme" })
+      ).rejects.toThrow(WorkspaceIdTakenError);
+      expect(mockWorkspaceRepo.createWithOwner).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getWorkspace", () => {
+    it("throws WorkspaceNotFoundError for non-members", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(createMockWorkspace());
+      mockMemberRepo.findMembership.mockResolvedValue(null);
+
+      await expect(service.getWorkspace("ws-1")).rejects.toThrow(
+        WorkspaceNotFoundError
+      );
+    });
+  });
+
+  describe("getDefaultWorkspaceId", () => {
+    it("returns the first active workspace", async () => {
+      mockWorkspaceRepo.listForUser.mockResolvedValue([
+        {
+          workspace: createMockWorkspace({ id: "ws-old", isActive: false }),
+          role: "admin",
+          joinedAt: new Date(),
+        },
+        {
+          workspace: createMockWorkspace({ id: "ws-2" }),
+          role: "user",
+          joinedAt: new Date(),
+        },
+      ]);
+
+      expect(await service.getDefaultWorkspaceId("test-user-id")).toBe("ws-2");
+    });
+
+    it("returns null when the user has no workspaces", async () => {
+      mockWorkspaceRepo.listForUser.mockResolvedValue([]);
+
+      expect(await service.getDefaultWorkspaceId("test-user-id")).toBeNull();
+    });
+  });
+
+  describe("switchWorkspace", () => {
+    it("returns the workspace and role for members", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(createMockWorkspace());
+      mockMemberRepo.findMembership.mockResolvedValue(
+        createMockMembership({ role: "user" })
+      );
+
+      const result = await service.switchWorkspace("ws-1");
+
+      expect(result.workspace.id).toBe("ws-1");
+      expect(result.role).toBe("user");
+      // Logged by recordWorkspaceSwitch once the route's checks have passed
+      expect(mockAuditLogRepo.log).not.toHaveBeenCalled();
+    });
+
+    it("throws WorkspaceNotFoundError for non-members", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(createMockWorkspace());
+      mockMemberRepo.findMembership.mockResolvedValue(null);
+
+      await expect(service.switchWorkspace("ws-1")).rejects.toThrow(
+        WorkspaceNotFoundError
+      );
+    });
+
+    it("refuses to switch into an archived workspace", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(
+        createMockWorkspace({ isActive: false })
+      );
+      mockMemberRepo.findMembership.mockResolvedValue(createMockMembership());
+
+      await expect(service.switchWorkspace("ws-1")).rejects.toThrow(
+        InvalidStateError
+      );
+    });
+  });
+
+  describe("recordWorkspaceSwitch", () => {
+    it("logs the switch with the workspace it came from", async () => {
+      await service.recordWorkspaceSwitch("ws-2", "ws-1");
+
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "ws-2",
+        "test-user-id",
+        "WORKSPACE_SWITCHED",
+        "Workspace",
+        "ws-2",
+        expect.objectContaining({ metadata: { fromWorkspaceId: "ws-1" } })
+      );
+    });
+  });
+
+  describe("updateWorkspace", () => {
+    it("allows workspace admins to rename", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(
+        createMockWorkspace({ ownerId: "someone-else" })
+      );
+      mockMemberRepo.findMembership.mockResolvedValue(createMockMembership());
+      mockWorkspaceRepo.update.mockResolvedValue(
+        createMockWorkspace({ name: "Renamed" })
+      );
+
+      const result = await service.updateWorkspace("ws-1", { name: "Renamed" });
+
+      expect(result.name).toBe("Renamed");
+    });
+
+    it("rejects regular members", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(
+        createMockWorkspace({ ownerId: "someone-else" })
+      );
+      mockMemberRepo.findMembership.mockResolvedValue(
+        createMockMembership({ role: "user" })
+      );
+
+      await expect(
+        service.updateWorkspace("ws-1", { name: "Renamed" })
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it("rejects changes to archived workspaces", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(
+        createMockWorkspace({ isActive: false })
+      );
+      mockMemberRepo.findMembership.mockResolvedValue(createMockMembership());
+
+      await expect(
+        service.updateWorkspace("ws-1", { name: "Renamed" })
+      ).rejects.toThrow(InvalidStateError);
+    });
+  });
+
+  describe("updateSettings", () => {
+    it("merges settings into existing JSON", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(
+        createMockWorkspace({ settings: { theme: "dark" } })
+      );
+      mockMemberRepo.findMembership.mockResolvedValue(createMockMembership());
+      mockWorkspaceRepo.update.mockResolvedValue(createMockWorkspace());
+
+      await service.updateSettings("ws-1", { timezone: "UTC" });
+
+      expect(mockWorkspaceRepo.update).toHaveBeenCalledWith("ws-1", {
+        settings: { theme: "dark", timezone: "UTC" },
+      });
+    });
+  });
+
+  describe("archive / delete", () => {
+    it("archives an active workspace", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(createMockWorkspace());
+      mockMemberRepo.findMembership.mockResolvedValue(createMockMembership());
+      mockWorkspaceRepo.setActive.mockResolvedValue(
+        createMockWorkspace({ isActive: false })
+      );
+
+      const result = await service.archiveWorkspace("ws-1");
+
+      expect(result.isActive).toBe(false);
+      expect(mockWorkspaceRepo.setActive).toHaveBeenCalledWith("ws-1", false);
+    });
+
+    it("only allows the owner to archive", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(
+        createMockWorkspace({ ownerId: "someone-else" })
+      );
+      mockMemberRepo.findMembership.mockResolvedValue(createMockMembership());
+
+      await expect(service.archiveWorkspace("ws-1")).rejects.toThrow(
+        AuthorizationError
+      );
+    });
+
+    it("refuses to delete an active workspace", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(createMockWorkspace());
+      mockMemberRepo.findMembership.mockResolvedValue(createMockMembership());
+
+      await expect(service.deleteWorkspace("ws-1")).rejects.toThrow(
+        InvalidStateError
+      );
+      expect(mockWorkspaceRepo.softDelete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("transferOwnership", () => {
+    it("transfers to an existing member", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(createMockWorkspace());
+      mockMemberRepo.findMembership
+        .mockResolvedValueOnce(createMockMembership())
+        .mockResolvedValueOnce(
+          createMockMembership({ userId: "user-2", role: "user" })
+        );
+      mockWorkspaceRepo.transferOwnership.mockResolvedValue(
+        createMockWorkspace({ ownerId: "user-2" })
+      );
+
+      const result = await service.transferOwnership("ws-1", "user-2");
+
+      expect(result.ownerId).toBe("user-2");
+      expect(mockWorkspaceRepo.transferOwnership).toHaveBeenCalledWith(
+        "ws-1",
+        "user-2",
+        "admin"
+      );
+    });
+
+    it("rejects transfer to a non-member", async () => {
+      mockWorkspaceRepo.findById.mockResolvedValue(createMockWorkspace());
+      mockMemberRepo.findMembership
+        .mockResolvedValueOnce(createMockMembership())
+        .mockResolvedValueOnce(null);
+
+      await expect(
+        service.transferOwnership("ws-1", "user-2")
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  // ========================================
+  // INVITATION TESTS
+  // ========================================
+
+  describe("sendInvite", () => {
+    beforeEach(() => {
+      mockWorkspaceRepo.findById.mockResolvedValue(createMockWorkspace());
+      mockMemberRepo.findMembership.mockResolvedValue(createMockMembership());
+    });
+
+    it("creates an invite with a token and expiry, without exposing the token", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue(null);
+      mockInviteRepo.create.mockImplementation(async (data: any) =>
+        createMockInvite(data)
+      );
+
+      const result = await service.sendInvite("ws-1", {
+        email: "Invitee@Example.com",
+        role: "manager",
+      });
+
+      const created = mockInviteRepo.create.mock.calls[0][0];
+      expect(created.email).toBe("invitee@example.com");
+      expect(created.role).toBe("manager");
+      expect(created.token).toMatch(/^[0-9a-f]{64}$/);
+      expect(created.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(mockInviteRepo.revokePendingForEmail).toHaveBeenCalledWith(
+        "ws-1",
+        "invitee@example.com"
+      );
+      expect(result.token).toBe(created.token);
+      expect(result.invite).not.toHaveProperty("token");
+    });
+
+    it("emails the invite link to the invitee", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue(null);
+      mockUserRepo.findById.mockResolvedValue({
+        id: "test-user-id",
+        firstName: "Jane",
+        lastName: "Doe",
+      });
+      mockInviteRepo.create.mockImplementation(async (data: any) =>
+        createMockInvite(data)
+      );
+
+      const result = await service.sendInvite("ws-1", {
+        email: "invitee@example.com",
+        role: "manager",
+      });
+
+      const email = getLastCapturedEmail("invitee@example.com");
+      expect(email?.subject).toContain("Acme");
+      expect(email?.text).toContain("Jane Doe invited you to join Acme as manager.");
+      expect(extractEmailLinks(email!)).toEqual([
+        `https://app.example.com/invite/${result.token}`,
+      ]);
+    });
+
+    it("rejects unknown roles", async () => {
+      await expect(
+        service.sendInvite("ws-1", { email: "a@example.com", role: "owner" })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it("accepts custom roles of the workspace", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue(null);
+      mockInviteRepo.create.mockImplementation(async (data: any) =>
+        createMockInvite(data)
+      );
+      mockRoleRepo.findByName.mockResolvedValue({ name: "support_agent" });
+
+      const result = await service.sendInvite("ws-1", {
+        email: "a@example.com",
+        role: "support_agent",
+      });
+
+      expect(result.invite.role).toBe("support_agent");
+      expect(mockRoleRepo.findByName).toHaveBeenCalledWith("ws-1", "support_agent");
+    });
+
+    it("rejects inviting an existing member", async () => {
+      mockUserRepo.findByEmail.mockResolvedValue({ id: "user-2" });
+      mockMemberRepo.findMembership
+        .mockResolvedValueOnce(createMockMembership())
+        .mockResolvedValueOnce(createMockMembership({ userId: "user-2" }));
+
+      await expect(
+        service.sendInvite("ws-1", { email: "a@example.com", role: "user" })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe("getAcceptableInvite", () => {
+    it("throws InviteNotFoundError for unknown or accepted tokens", async () => {
+      mockInviteRepo.findByToken.mockResolvedValue(
+        createMockInvite({ acceptedAt: new Date() })
+      );
+
+      await expect(service.getAcceptableInvite("invite-token")).rejects.toThrow(
+        InviteNotFoundError
+      );
+    });
+
+    it("throws InviteExpiredError when expiresAt has passed", async () => {
+      mockInviteRepo.findByToken.mockResolvedValue(
+        createMockInvite({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(service.getAcceptableInvite("invite-token")).rejects.toThrow(
+        InviteExpiredError
+      );
+    });
+
+    it("rejects a different email address", async () => {
+      mockInviteRepo.findByToken.mockResolvedValue(createMockInvite());
+      mockWorkspaceRepo.findById.mockResolvedValue(createMockWorkspace());
+
+      await expect(
+        service.getAcceptableInvite("invite-token", "other@example.com")
+      ).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe("acceptInvite", () => {
+    it("accepts the invite for the signed-in invitee", async () => {
+      const invite = createMockInvite();
+      mockUserRepo.findById.mockResolvedValue({
+        id: "test-user-id",
+        email: "invitee@example.com",
+      });
+      mockInviteRepo.findByToken.mockResolvedValue(invite);
+      mockWorkspaceRepo.findById.mockResolvedValue(createMockWorkspace());
+      mockMemberRepo.findMembership.mockResolvedValue(null);
+
+      const workspace = await service.acceptInvite("invite-token");
+
+      expect(workspace.id).toBe("ws-1");
+      expect(mockInviteRepo.accept).toHaveBeenCalledWith(invite, "test-user-id");
+      expect(mockAuditLogRepo.log).toHaveBeenCalledWith(
+        "ws-1",
+        "test-user-id",
+        "WORKSPACE_INVITE_ACCEPTED",
+        "WorkspaceInvite",
+        "invite-1",
+        expect.any(Object)
+      );
+    });
+
+    it("rejects users who are already members", async () => {
+      mockUserRepo.findById.mockResolvedValue({
+        id: "test-user-id",
+        email: "invitee@example.com",
+      });
+      mockInviteRepo.findByToken.mockResolvedValue(createMockInvite());
+      mockWorkspaceRepo.findById.mockResolvedValue(createMockWorkspace());
+      mockMemberRepo.findMembership.mockResolvedValue(createMockMembership());
+
+      await expect(service.acceptInvite("invite-token")).rejects.toThrow(
+        ConflictError
+      );
+      expect(mockInviteRepo.accept).not.toHaveBeenCalled();
+    });
+  });
+});
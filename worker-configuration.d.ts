@@ -11,9 +11,12 @@ declare namespace Cloudflare {
 		DB: D1Database;
 		AUTH_SIGNIN_LIMITER: RateLimit;
 		AUTH_SIGNUP_LIMITER: RateLimit;
+		AUTH_EMAIL_RESEND_LIMITER: RateLimit;
 		AUTH_PASSWORD_RESET_LIMITER: RateLimit;
 		OAUTH_AUTHORIZE_LIMITER: RateLimit;
 		OAUTH_CALLBACK_LIMITER: RateLimit;
+		ACCOUNT_CREDENTIALS_LIMITER: RateLimit;
+		AUTH_MAGIC_LINK_LIMITER: RateLimit;
 		ASSETS: Fetcher;
 	}
 }